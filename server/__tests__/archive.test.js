@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inflateRawSync } from 'zlib';
+import { createArchiveRouter } from '../routes/archive.js';
+import { crc32 } from '../zip.js';
+
+// ── helpers ─────────────────────────────────────────────────────────────────
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+function mockReq(body, params = {}) {
+  return { body, params };
+}
+
+const PNG_B64 = Buffer.from('png-bytes').toString('base64');
+
+/** Writable stand-in for an Express response that collects streamed bytes. */
+function mockStreamRes() {
+  const res = mockRes();
+  res.headers = {};
+  res.chunks = [];
+  res.setHeader = (k, v) => { res.headers[k] = v; };
+  res.write = (chunk) => { res.chunks.push(chunk); return true; };
+  res.end = (chunk) => { if (chunk) res.chunks.push(chunk); res.ended = true; };
+  return res;
+}
+
+/** Read every entry of a ZIP via its local headers. */
+function unzip(buf) {
+  const files = {};
+  let pos = 0;
+  while (buf.readUInt32LE(pos) === 0x04034b50) {
+    const method = buf.readUInt16LE(pos + 8);
+    const crc = buf.readUInt32LE(pos + 14);
+    const size = buf.readUInt32LE(pos + 18);
+    const nameLen = buf.readUInt16LE(pos + 26);
+    const name = buf.toString('utf8', pos + 30, pos + 30 + nameLen);
+    const data = buf.subarray(pos + 30 + nameLen, pos + 30 + nameLen + size);
+    const raw = method === 8 ? inflateRawSync(data) : data;
+    expect(crc32(raw)).toBe(crc);
+    files[name] = raw.toString('utf8');
+    pos += 30 + nameLen + size;
+  }
+  expect(buf.readUInt32LE(buf.length - 22)).toBe(0x06054b50);
+  expect(buf.readUInt16LE(buf.length - 12)).toBe(Object.keys(files).length);
+  return files;
+}
+
+// ── POST / ──────────────────────────────────────────────────────────────────
+
+describe('POST /api/archive', () => {
+  let outputDir, router;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'archive-test-'));
+    router = createArchiveRouter(outputDir);
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('returns 400 when required fields are missing', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({ contentName: 'Hero' }), res, () => {});
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('writes grid and sprites', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero Knight',
+      filledGridImage: PNG_B64,
+      sprites: [{ cellIndex: 3, poseName: 'Walk Down 1', imageData: PNG_B64, mimeType: 'image/png' }],
+    }), res, () => {});
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.folder).toMatch(/^hero-knight_\d{8}-\d{6}$/);
+    expect(res.body.spriteCount).toBe(1);
+    expect(res.body.exportCount).toBe(0);
+    const folder = join(outputDir, res.body.folder);
+    expect(existsSync(join(folder, 'grid.png'))).toBe(true);
+    expect(readdirSync(join(folder, 'sprites'))).toEqual(['03-walk-down-1.png']);
+  });
+
+  it('writes a manifest with client metadata and the sprite map', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      sprites: [{ cellIndex: 0, poseName: 'Idle', imageData: PNG_B64 }],
+      manifest: { prompt: 'draw a hero', model: 'm1', cellGroups: [{ name: 'Idle', cells: [0] }] },
+    }), res, () => {});
+
+    const manifest = JSON.parse(readFileSync(join(outputDir, res.body.folder, 'manifest.json'), 'utf8'));
+    expect(manifest).toMatchObject({
+      contentName: 'Hero',
+      prompt: 'draw a hero',
+      model: 'm1',
+      cellGroups: [{ name: 'Idle', cells: [0] }],
+      grid: 'grid.png',
+      sprites: [{ cellIndex: 0, label: 'Idle', file: 'sprites/00-idle.png' }],
+    });
+  });
+
+  it('records sprite pivots in the manifest', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      sprites: [
+        { cellIndex: 0, poseName: 'Idle', imageData: PNG_B64, pivot: { x: 16.5, y: 48 } },
+        { cellIndex: 1, poseName: 'Walk', imageData: PNG_B64, pivot: { x: 'left', y: 0 } },
+      ],
+    }), res, () => {});
+
+    const manifest = JSON.parse(readFileSync(join(outputDir, res.body.folder, 'manifest.json'), 'utf8'));
+    expect(manifest.sprites[0].pivot).toEqual({ x: 16.5, y: 48 });
+    expect(manifest.sprites[1]).not.toHaveProperty('pivot');
+  });
+
+  it('writes engine export files into exports/', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      exports: [
+        { filename: 'hero-atlas.png', data: PNG_B64, encoding: 'base64' },
+        { filename: 'hero.tres', data: '[gd_resource type="SpriteFrames"]', encoding: 'utf8' },
+      ],
+    }), res, () => {});
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.exportCount).toBe(2);
+    const exportsDir = join(outputDir, res.body.folder, 'exports');
+    expect(readFileSync(join(exportsDir, 'hero-atlas.png'), 'utf8')).toBe('png-bytes');
+    expect(readFileSync(join(exportsDir, 'hero.tres'), 'utf8')).toBe('[gd_resource type="SpriteFrames"]');
+  });
+
+  it.each(['../escape.tres', 'nested/file.tres', '.hidden', ''])('rejects export file name %j', (filename) => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      exports: [{ filename, data: 'x' }],
+    }), res, () => {});
+
+    expect(res.statusCode).toBe(400);
+    expect(readdirSync(outputDir)).toEqual([]);
+  });
+
+  it('rejects non-array exports', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      exports: 'hero.tres',
+    }), res, () => {});
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+// ── GET / ───────────────────────────────────────────────────────────────────
+
+describe('GET /api/archive', () => {
+  let outputDir, router;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'archive-test-'));
+    router = createArchiveRouter(outputDir);
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('lists export files per folder', () => {
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      exports: [{ filename: 'hero.tsx', data: '<tileset/>' }],
+    }), mockRes(), () => {});
+
+    const res = mockRes();
+    findHandler(router, 'get', '/')(mockReq({}), res, () => {});
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({ hasGrid: true, spriteCount: 0, exportFiles: ['hero.tsx'] });
+  });
+});
+
+// ── GET /:folder/download ───────────────────────────────────────────────────
+
+describe('GET /api/archive/:folder/download', () => {
+  let outputDir, router;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'archive-test-'));
+    router = createArchiveRouter(outputDir);
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('streams grid, sprites, exports and manifest as a ZIP', () => {
+    const created = mockRes();
+    findHandler(router, 'post', '/')(mockReq({
+      contentName: 'Hero',
+      filledGridImage: PNG_B64,
+      sprites: [{ cellIndex: 1, poseName: 'Walk', imageData: PNG_B64 }],
+      exports: [{ filename: 'hero.tres', data: 'x'.repeat(500) }],
+      manifest: { model: 'm1' },
+    }), created, () => {});
+
+    const res = mockStreamRes();
+    findHandler(router, 'get', '/:folder/download')(mockReq({}, { folder: created.body.folder }), res, () => {});
+
+    expect(res.ended).toBe(true);
+    expect(res.headers['Content-Type']).toBe('application/zip');
+    expect(res.headers['Content-Disposition']).toBe(`attachment; filename="${created.body.folder}.zip"`);
+    const files = unzip(Buffer.concat(res.chunks));
+    expect(Object.keys(files)).toEqual(['exports/hero.tres', 'grid.png', 'manifest.json', 'sprites/01-walk.png']);
+    expect(files['grid.png']).toBe('png-bytes');
+    expect(files['exports/hero.tres']).toBe('x'.repeat(500));
+    expect(JSON.parse(files['manifest.json']).model).toBe('m1');
+  });
+
+  it('synthesizes a manifest for folders archived without one', () => {
+    const folder = join(outputDir, 'old_20250101-000000');
+    mkdirSync(join(folder, 'sprites'), { recursive: true });
+    writeFileSync(join(folder, 'grid.png'), 'g');
+    writeFileSync(join(folder, 'sprites', '00-a.png'), 's');
+
+    const res = mockStreamRes();
+    findHandler(router, 'get', '/:folder/download')(mockReq({}, { folder: 'old_20250101-000000' }), res, () => {});
+
+    const manifest = JSON.parse(unzip(Buffer.concat(res.chunks))['manifest.json']);
+    expect(manifest).toEqual({ grid: 'grid.png', sprites: [{ file: 'sprites/00-a.png' }] });
+  });
+
+  it.each(['missing_folder', '..', '.hidden'])('returns 404 for %j', (folder) => {
+    const res = mockStreamRes();
+    findHandler(router, 'get', '/:folder/download')(mockReq({}, { folder }), res, () => {});
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+// ── DELETE /:folder ─────────────────────────────────────────────────────────
+
+describe('DELETE /api/archive/:folder', () => {
+  let outputDir, router;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'archive-test-'));
+    router = createArchiveRouter(outputDir);
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('removes the folder', () => {
+    const created = mockRes();
+    findHandler(router, 'post', '/')(mockReq({ contentName: 'Hero', filledGridImage: PNG_B64 }), created, () => {});
+
+    const res = mockRes();
+    findHandler(router, 'delete', '/:folder')(mockReq({}, { folder: created.body.folder }), res, () => {});
+    expect(res.body).toEqual({ success: true });
+    expect(existsSync(join(outputDir, created.body.folder))).toBe(false);
+  });
+
+  it('returns 404 for unknown or unsafe folders', () => {
+    for (const folder of ['nope', '..']) {
+      const res = mockRes();
+      findHandler(router, 'delete', '/:folder')(mockReq({}, { folder }), res, () => {});
+      expect(res.statusCode).toBe(404);
+    }
+    expect(existsSync(outputDir)).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createSchema } from '../db/schema.js';
+import { migrateSchema } from '../db/migrations.js';
+import { createExperimentsRouter } from '../routes/experiments.js';
+
+function freshDb() {
+  const db = new Database(':memory:');
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  createSchema(db);
+  migrateSchema(db);
+  return db;
+}
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+describe('experiments routes', () => {
+  let db, router;
+
+  function call(method, path, req) {
+    const res = mockRes();
+    findHandler(router, method, path)({ query: {}, params: {}, body: {}, ...req }, res, (err) => { throw err; });
+    return res;
+  }
+
+  function create(overrides = {}) {
+    return call('post', '/', {
+      body: {
+        name: 'Concise vs built-in',
+        spriteType: 'character',
+        contentName: 'Cecil',
+        gridSize: '6x6',
+        runsPerVariant: 2,
+        variants: [
+          { label: 'Built-in', prompt: 'long prompt' },
+          { label: 'Concise', prompt: 'short prompt' },
+        ],
+        ...overrides,
+      },
+    });
+  }
+
+  function addResult(id, variantId, result) {
+    return call('post', '/:id/results', { params: { id: String(id) }, body: { variantId, ...result } });
+  }
+
+  beforeEach(() => {
+    db = freshDb();
+    router = createExperimentsRouter(db);
+  });
+
+  it('creates an experiment with its variants', () => {
+    const res = create();
+    expect(res.statusCode).toBe(201);
+    expect(res.body.variants.map(v => v.label)).toEqual(['Built-in', 'Concise']);
+
+    const list = call('get', '/').body;
+    expect(list).toEqual([expect.objectContaining({ name: 'Concise vs built-in', variantCount: 2, resultCount: 0 })]);
+  });
+
+  it('needs at least two variants and a sane run count', () => {
+    expect(create({ variants: [{ label: 'Only', prompt: 'p' }] }).statusCode).toBe(400);
+    expect(create({ runsPerVariant: 0 }).statusCode).toBe(400);
+    expect(create({ spriteType: 'vehicle' }).statusCode).toBe(400);
+  });
+
+  it('keeps the total number of runs within one job batch', () => {
+    const variants = (n) => Array.from({ length: n }, (_, i) => ({ label: `V${i}`, prompt: 'p' }));
+    expect(create({ runsPerVariant: 5, variants: variants(8) }).statusCode).toBe(201);
+    const res = create({ runsPerVariant: 5, variants: variants(9) });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toContain('40');
+  });
+
+  it('aggregates results per variant', () => {
+    const { id, variants: [a, b] } = create().body;
+    addResult(id, a.id, { status: 'succeeded', extractionMode: 'detected', expectedCells: 36, extractedCells: 36, chromaPurity: 0.9 });
+    addResult(id, a.id, { status: 'succeeded', extractionMode: 'fallback', expectedCells: 36, extractedCells: 30, chromaPurity: 0.7 });
+    addResult(id, b.id, { status: 'failed', error: 'No image returned', expectedCells: 36 });
+
+    const { body } = call('get', '/:id', { params: { id: String(id) } });
+    const [sa, sb] = body.variants.map(v => v.summary);
+    expect(sa).toMatchObject({ runs: 2, succeeded: 2, detected: 1, cellMatches: 1, rated: 0, avgRating: null });
+    expect(sa.avgPurity).toBeCloseTo(0.8);
+    expect(sb).toMatchObject({ runs: 1, succeeded: 0, cellMatches: 0, avgPurity: null });
+    expect(body.results).toHaveLength(3);
+  });
+
+  it('rejects a result for a variant of another experiment', () => {
+    const first = create().body;
+    const second = create().body;
+    const res = addResult(second.id, first.variants[0].id, { status: 'succeeded' });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('stores ratings and keeps images out of the experiment payload', () => {
+    const { id, variants: [a] } = create().body;
+    const resultId = addResult(id, a.id, { status: 'succeeded', image: 'AAAA', mimeType: 'image/png' }).body.id;
+
+    expect(call('put', '/results/:resultId/rating', { params: { resultId: String(resultId) }, body: { rating: 6 } }).statusCode).toBe(400);
+    call('put', '/results/:resultId/rating', { params: { resultId: String(resultId) }, body: { rating: 4 } });
+
+    const { body } = call('get', '/:id', { params: { id: String(id) } });
+    expect(body.results[0]).toMatchObject({ rating: 4, hasImage: true });
+    expect(body.results[0]).not.toHaveProperty('image');
+    expect(body.variants[0].summary).toMatchObject({ avgRating: 4, rated: 1 });
+    expect(call('get', '/results/:resultId/image', { params: { resultId: String(resultId) } }).body).toEqual({ data: 'AAAA', mimeType: 'image/png' });
+  });
+
+  it('deletes results with their experiment', () => {
+    const { id, variants: [a] } = create().body;
+    addResult(id, a.id, { status: 'succeeded' });
+    expect(call('delete', '/:id', { params: { id: String(id) } }).body.success).toBe(true);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM experiment_results').get().n).toBe(0);
+  });
+});
@@ -49,4 +49,14 @@ describe('health check', () => {
     expect(res.statusCode).toBe(200);
     expect(res.body.geminiKeyConfigured).toBe(false);
   });
+
+  it('reports the active image provider', () => {
+    const db = { prepare: vi.fn(() => ({ get: vi.fn(() => ({ 1: 1 })) })) };
+    const handler = createHealthHandler(db, false, 'fixture');
+    const res = mockRes();
+
+    handler({}, res);
+
+    expect(res.body.provider).toBe('fixture');
+  });
 });
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
 import { createHistoryRouter } from '../routes/history.js';
+import { createSchema } from '../db/schema.js';
+import { migrateSchema } from '../db/migrations.js';
 
 // ── helpers ─────────────────────────────────────────────────────────────────
 
@@ -98,6 +101,31 @@ describe('POST / validation', () => {
     expect(res.body.error).toMatch(/sprite_type/);
   });
 
+  it('returns 400 when contentSnapshot is not an object', () => {
+    const res = mockRes();
+    handler(mockReq({ contentName: 'Warrior', model: 'gemini-2.0', contentSnapshot: 'name=Warrior' }), res, vi.fn());
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toMatch(/contentSnapshot/);
+  });
+
+  it('stores the request settings with the generation', () => {
+    const run = vi.fn(() => ({ lastInsertRowid: 7n }));
+    db.prepare = vi.fn(() => ({ run }));
+    handler = findHandler(createHistoryRouter(db), 'post', '/');
+    handler(mockReq({
+      contentName: 'Warrior',
+      model: 'gemini-2.0',
+      imageSize: '4K',
+      promptTemplateId: 3,
+      promptTemplateVersion: 2,
+      referenceImageHash: 'abc123',
+      gridLinkId: 11,
+      contentSnapshot: { name: 'Warrior', equipment: 'Axe' },
+    }), mockRes(), vi.fn());
+
+    expect(run.mock.calls[0].slice(-6)).toEqual(['4K', 3, 2, 'abc123', 11, '{"name":"Warrior","equipment":"Axe"}']);
+  });
+
   it('returns 201 with valid body and converts lastInsertRowid to Number', () => {
     const res = mockRes();
     handler(mockReq({ contentName: 'Warrior', model: 'gemini-2.0' }), res, vi.fn());
@@ -209,6 +237,61 @@ describe('POST /:id/sprites validation', () => {
   });
 });
 
+// ── PUT /:id/grid  (splice regenerated cells) ───────────────────────────────
+
+describe('PUT /:id/grid', () => {
+  const validSprite = {
+    cellIndex: 4,
+    poseId: 'walk-2',
+    poseName: 'Walk 2',
+    imageData: 'base64data',
+    mimeType: 'image/png',
+  };
+
+  function setup(changes = 1) {
+    const runs = [];
+    const db = {
+      prepare: vi.fn((sql) => ({
+        run: vi.fn((...args) => { runs.push({ sql, args }); return { changes }; }),
+      })),
+      transaction: vi.fn((fn) => (...args) => fn(...args)),
+    };
+    const handler = findHandler(createHistoryRouter(db), 'put', '/:id/grid');
+    return { handler, runs };
+  }
+
+  it('updates the grid and replaces only the given cells', () => {
+    const { handler, runs } = setup();
+    const res = mockRes();
+    handler(mockReq({ filledGridImage: 'grid', sprites: [validSprite] }, { id: '3' }), res, vi.fn());
+
+    expect(res.body).toEqual({ count: 1 });
+    expect(runs.map((r) => r.sql.trim().split(' ')[0])).toEqual(['UPDATE', 'DELETE', 'INSERT']);
+    expect(runs[1].args).toEqual([3, 4]);
+  });
+
+  it('validates the grid image and sprites', () => {
+    const { handler } = setup();
+    const noGrid = mockRes();
+    handler(mockReq({ sprites: [validSprite] }, { id: '3' }), noGrid, vi.fn());
+    expect(noGrid.statusCode).toBe(400);
+    expect(noGrid.body.error).toMatch(/filledGridImage/);
+
+    const badSprite = mockRes();
+    handler(mockReq({ filledGridImage: 'grid', sprites: [{ ...validSprite, poseId: '' }] }, { id: '3' }), badSprite, vi.fn());
+    expect(badSprite.statusCode).toBe(400);
+    expect(badSprite.body.error).toMatch(/sprites\[0\]\.poseId/);
+  });
+
+  it('returns 404 for a missing generation', () => {
+    const { handler, runs } = setup(0);
+    const res = mockRes();
+    handler(mockReq({ filledGridImage: 'grid', sprites: [validSprite] }, { id: '9' }), res, vi.fn());
+    expect(res.statusCode).toBe(404);
+    expect(runs).toHaveLength(1);
+  });
+});
+
 // ── GET /  (list generations) ───────────────────────────────────────────────
 
 describe('GET / response format', () => {
@@ -238,3 +321,100 @@ describe('GET / response format', () => {
     expect(res.body[0]).not.toHaveProperty('created_at');
   });
 });
+
+// ── GET /:id  (one generation) ──────────────────────────────────────────────
+
+describe('GET /:id request settings', () => {
+  function fetchEntry(row) {
+    const db = {
+      prepare: vi.fn(() => ({
+        get: vi.fn(() => row),
+        all: vi.fn(() => []),
+      })),
+    };
+    const res = mockRes();
+    findHandler(createHistoryRouter(db), 'get', '/:id')(mockReq(undefined, { id: '5' }), res, vi.fn());
+    return res.body;
+  }
+
+  it('exposes the prompt and the recorded request', () => {
+    const body = fetchEntry({
+      id: 5, sprite_type: 'terrain', content_name: 'Grass', prompt: 'Fill the grid', model: 'gemini-2.0',
+      aspect_ratio: '1:1', image_size: '2K', prompt_template_id: 4, prompt_template_version: 1,
+      reference_image_hash: null, grid_link_id: 9, content_snapshot: '{"name":"Grass","tileGuidance":"edges"}',
+    });
+    expect(body.prompt).toBe('Fill the grid');
+    expect(body.request).toEqual({
+      model: 'gemini-2.0',
+      imageSize: '2K',
+      aspectRatio: '1:1',
+      promptTemplateId: 4,
+      promptTemplateVersion: 1,
+      referenceImageHash: null,
+      gridLinkId: 9,
+      content: { name: 'Grass', tileGuidance: 'edges' },
+    });
+  });
+
+  it('leaves unrecorded settings null for older entries', () => {
+    const body = fetchEntry({ id: 5, content_name: 'Old', prompt: 'p', model: 'gemini-2.0' });
+    expect(body.request).toMatchObject({ imageSize: null, promptTemplateId: null, gridLinkId: null, content: null });
+  });
+});
+
+// ── seam fixes ──────────────────────────────────────────────────────────────
+
+describe('sprite seam fixes', () => {
+  let db, router;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    createSchema(db);
+    migrateSchema(db);
+    db.prepare("INSERT INTO generations (id, content_name) VALUES (1, 'Grass')").run();
+    db.prepare(
+      "INSERT INTO sprites (generation_id, cell_index, pose_id, pose_name, image_data) VALUES (1, 0, 'tile-0', 'Base Grass 1', 'ORIG')"
+    ).run();
+    router = createHistoryRouter(db);
+  });
+
+  const put = (params, body) => {
+    const res = mockRes();
+    findHandler(router, 'put', '/:id/sprites/:cellIndex/seam-fix')(mockReq(body, params), res, vi.fn());
+    return res;
+  };
+
+  const spritesOf = () => {
+    const res = mockRes();
+    findHandler(router, 'get', '/:id')(mockReq(undefined, { id: '1' }), res, vi.fn());
+    return res.body.sprites;
+  };
+
+  it('keeps the fixed tile next to the original', () => {
+    expect(put({ id: '1', cellIndex: '0' }, { imageData: 'FIXED', method: 'cross-fade' }).body).toEqual({ success: true });
+    expect(spritesOf()[0]).toMatchObject({ imageData: 'ORIG', seamFix: { imageData: 'FIXED', method: 'cross-fade' } });
+
+    const res = mockRes();
+    findHandler(router, 'delete', '/:id/sprites/:cellIndex/seam-fix')(mockReq(undefined, { id: '1', cellIndex: '0' }), res, vi.fn());
+    expect(res.body).toEqual({ success: true });
+    expect(spritesOf()[0].seamFix).toBeNull();
+  });
+
+  it('validates the fix and the cell', () => {
+    expect(put({ id: '1', cellIndex: '0' }, { imageData: 'FIXED', method: 'smudge' }).statusCode).toBe(400);
+    expect(put({ id: '1', cellIndex: '0' }, { method: 'cross-fade' }).statusCode).toBe(400);
+    expect(put({ id: '1', cellIndex: '-1' }, { imageData: 'FIXED', method: 'cross-fade' }).statusCode).toBe(400);
+    expect(put({ id: '1', cellIndex: '7' }, { imageData: 'FIXED', method: 'cross-fade' }).statusCode).toBe(404);
+  });
+
+  it('drops the fix when the sprite is regenerated', () => {
+    put({ id: '1', cellIndex: '0' }, { imageData: 'FIXED', method: 'offset-blend' });
+    const res = mockRes();
+    findHandler(router, 'put', '/:id/grid')(mockReq({
+      filledGridImage: 'GRID',
+      sprites: [{ cellIndex: 0, poseId: 'tile-0', poseName: 'Base Grass 1', imageData: 'NEW', mimeType: 'image/png' }],
+    }, { id: '1' }), res, vi.fn());
+    expect(spritesOf()[0]).toMatchObject({ imageData: 'NEW', seamFix: null });
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import Database from 'better-sqlite3';
+import { createSchema } from '../db/schema.js';
+import { createJobQueue } from '../jobQueue.js';
+import { createJobsRouter } from '../routes/jobs.js';
+import { ProviderError } from '../providers/index.js';
+import { withUsageTracking, budgetRefusal, setMonthlyBudget } from '../usage.js';
+
+// ── helpers ─────────────────────────────────────────────────────────────────
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+/** A response that records what an SSE handler writes. */
+function mockStreamRes() {
+  const res = {
+    ...mockRes(),
+    headers: {},
+    chunks: [],
+    ended: false,
+    set(headers) { Object.assign(res.headers, headers); return res; },
+    flushHeaders() {},
+    write(chunk) { res.chunks.push(chunk); return true; },
+    end() { res.ended = true; },
+    /** Parsed `job` events written so far. */
+    events() {
+      return res.chunks
+        .filter((c) => c.startsWith('event: job'))
+        .map((c) => JSON.parse(c.split('data: ')[1]));
+    },
+  };
+  return res;
+}
+
+function nextTick() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * A provider whose generate calls wait until the test settles them, so
+ * queue order and mid-flight cancellation can be observed.
+ */
+function deferredProvider() {
+  const calls = [];
+  return {
+    calls,
+    name: 'fake',
+    capabilities: { models: ['m1'], imageSizes: null, aspectRatios: null },
+    generate(req) {
+      return new Promise((resolve, reject) => {
+        calls.push({ req, resolve, reject });
+        req.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    },
+    async testConnection() {},
+  };
+}
+
+const request = {
+  model: 'm1',
+  prompt: 'a knight',
+  templateImage: { data: 'AAAA', mimeType: 'image/png' },
+  imageSize: '2K',
+  aspectRatio: '1:1',
+};
+const RESULT = { text: 'ok', image: { data: 'IMG', mimeType: 'image/png' } };
+
+// ── queue ───────────────────────────────────────────────────────────────────
+
+describe('job queue', () => {
+  let db, provider, queue;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    createSchema(db);
+    provider = deferredProvider();
+    queue = createJobQueue(db, provider);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('runs jobs one at a time in order and stores the result', async () => {
+    const a = queue.enqueue(request, { label: 'first' });
+    const b = queue.enqueue({ ...request, prompt: 'a wizard' });
+    await nextTick();
+
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].req).toMatchObject({ prompt: 'a knight', requestId: `job-${a.id}` });
+    expect(queue.get(a.id).status).toBe('running');
+    expect(queue.get(b.id)).toMatchObject({ status: 'queued', position: 0 });
+
+    provider.calls[0].resolve(RESULT);
+    await nextTick();
+
+    expect(queue.get(a.id, { includeResult: true })).toMatchObject({ status: 'succeeded', label: 'first', result: RESULT });
+    expect(provider.calls).toHaveLength(2);
+    expect(queue.get(b.id).status).toBe('running');
+
+    provider.calls[1].resolve(RESULT);
+    await queue.whenIdle();
+    expect(queue.list({ status: 'succeeded' }).map((j) => j.id)).toEqual([b.id, a.id]);
+  });
+
+  it('records provider errors with their status', async () => {
+    const job = queue.enqueue(request);
+    await nextTick();
+    provider.calls[0].reject(new ProviderError('Rate limited', 429));
+    await queue.whenIdle();
+
+    expect(queue.get(job.id)).toMatchObject({ status: 'failed', error: 'Rate limited', errorStatus: 429 });
+  });
+
+  it('cancels queued jobs and aborts running ones', async () => {
+    const a = queue.enqueue(request);
+    const b = queue.enqueue(request);
+    await nextTick();
+
+    expect(queue.cancel(b.id).status).toBe('cancelled');
+    expect(queue.cancel(a.id).status).toBe('cancelled');
+    expect(provider.calls[0].req.signal.aborted).toBe(true);
+    await queue.whenIdle();
+
+    // The aborted call must not overwrite the cancellation, and b never ran
+    expect(queue.get(a.id).status).toBe('cancelled');
+    expect(provider.calls).toHaveLength(1);
+    expect(queue.cancel(999)).toBeNull();
+  });
+
+  it('requeues jobs left running by a previous server', async () => {
+    db.prepare("INSERT INTO generation_jobs (status, request) VALUES ('running', ?)").run(JSON.stringify(request));
+    queue.start();
+    await nextTick();
+
+    expect(provider.calls).toHaveLength(1);
+    provider.calls[0].resolve(RESULT);
+    await queue.whenIdle();
+    expect(queue.get(1).status).toBe('succeeded');
+  });
+
+  it('publishes status changes to subscribers', async () => {
+    const seen = [];
+    queue.enqueue(request);
+    const job = queue.enqueue(request);
+    queue.subscribe(job.id, (j) => seen.push(`${j.status}:${j.position}`));
+    provider.calls[0].resolve(RESULT);
+    await nextTick();
+    provider.calls[1].resolve(RESULT);
+    await queue.whenIdle();
+
+    expect(seen).toEqual(['running:null', 'succeeded:null']);
+  });
+
+  it('fails queued jobs once their predecessors have spent the budget', async () => {
+    // Priced like Gemini so each finished call is recorded at $0.134
+    const priced = { ...deferredProvider(), name: 'gemini' };
+    const budgeted = createJobQueue(db, withUsageTracking(priced, db), { budgetCheck: () => budgetRefusal(db) });
+    setMonthlyBudget(db, 0.2);
+    const [a, b, c] = [1, 2, 3].map(() => budgeted.enqueue(request));
+    await nextTick();
+
+    priced.calls[0].resolve(RESULT);
+    await nextTick();
+    expect(priced.calls).toHaveLength(2);
+    priced.calls[1].resolve(RESULT);
+    await budgeted.whenIdle();
+
+    expect(budgeted.get(a.id).status).toBe('succeeded');
+    expect(budgeted.get(b.id).status).toBe('succeeded');
+    expect(budgeted.get(c.id)).toMatchObject({ status: 'failed', errorStatus: 402 });
+    expect(budgeted.get(c.id).error).toContain('$0.20');
+    expect(priced.calls).toHaveLength(2);
+  });
+});
+
+// ── routes ──────────────────────────────────────────────────────────────────
+
+describe('jobs routes', () => {
+  let db, provider, queue, router;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    createSchema(db);
+    provider = deferredProvider();
+    queue = createJobQueue(db, provider);
+    router = createJobsRouter(queue, provider);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('queues valid requests and answers 201', async () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')({ body: { ...request, label: 'Knight' } }, res);
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ status: 'queued', label: 'Knight', model: 'm1' });
+    await nextTick();
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('validates like /generate-grid', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/')({ body: { ...request, model: 'other' } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toContain('m1');
+  });
+
+  it('queues a batch in order with one request', async () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/batch')({ body: { jobs: [{ ...request, label: 'A' }, { ...request, label: 'B' }] } }, res);
+    expect(res.statusCode).toBe(201);
+    expect(res.body.jobs.map((j) => j.label)).toEqual(['A', 'B']);
+    expect(queue.list()).toHaveLength(2);
+  });
+
+  it('queues nothing when any job in the batch is invalid', () => {
+    const res = mockRes();
+    findHandler(router, 'post', '/batch')({ body: { jobs: [request, { ...request, model: 'other' }] } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toMatch(/^jobs\[1\]/);
+    expect(queue.list()).toHaveLength(0);
+
+    const empty = mockRes();
+    findHandler(router, 'post', '/batch')({ body: { jobs: [] } }, empty);
+    expect(empty.statusCode).toBe(400);
+  });
+
+  it('returns the result with the job and 404s unknown ids', async () => {
+    const job = queue.enqueue(request);
+    await nextTick();
+    provider.calls[0].resolve(RESULT);
+    await queue.whenIdle();
+
+    const res = mockRes();
+    findHandler(router, 'get', '/:id')({ params: { id: String(job.id) } }, res);
+    expect(res.body).toMatchObject({ status: 'succeeded', result: RESULT });
+
+    const missing = mockRes();
+    findHandler(router, 'get', '/:id')({ params: { id: '99' } }, missing);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('lists jobs without results and validates the filter', () => {
+    queue.enqueue(request);
+    const res = mockRes();
+    findHandler(router, 'get', '/')({ query: {} }, res);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).not.toHaveProperty('result');
+
+    const bad = mockRes();
+    findHandler(router, 'get', '/')({ query: { status: 'done' } }, bad);
+    expect(bad.statusCode).toBe(400);
+  });
+
+  it('refuses to cancel finished jobs', async () => {
+    const job = queue.enqueue(request);
+    await nextTick();
+    provider.calls[0].resolve(RESULT);
+    await queue.whenIdle();
+
+    const res = mockRes();
+    findHandler(router, 'post', '/:id/cancel')({ params: { id: String(job.id) } }, res);
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('streams job snapshots over SSE until the job finishes', async () => {
+    queue.enqueue(request);
+    const job = queue.enqueue(request);
+    const req = Object.assign(new EventEmitter(), { params: { id: String(job.id) } });
+    const res = mockStreamRes();
+    findHandler(router, 'get', '/:id/events')(req, res);
+
+    expect(res.headers['Content-Type']).toBe('text/event-stream');
+    expect(res.events()).toMatchObject([{ status: 'queued', position: 0 }]);
+
+    provider.calls[0].resolve(RESULT);
+    await nextTick();
+    provider.calls[1].resolve(RESULT);
+    await queue.whenIdle();
+
+    expect(res.events().map((j) => j.status)).toEqual(['queued', 'running', 'succeeded']);
+    expect(res.ended).toBe(true);
+  });
+});
@@ -34,8 +34,8 @@ describe('migration version tracking', () => {
 
     const rows = db.prepare('SELECT name FROM migrations ORDER BY id').all();
     expect(rows.length).toBeGreaterThan(0);
-    // The last migration should be the generations type+created index
-    expect(rows.at(-1).name).toBe('015_add_generations_type_created_index');
+    // The last migration should be the sprite seam fix method
+    expect(rows.at(-1).name).toBe('023_add_sprite_seam_fix_method');
   });
 
   it('does not re-run migrations on second call', () => {
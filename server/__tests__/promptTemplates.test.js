@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createSchema } from '../db/schema.js';
+import { migrateSchema } from '../db/migrations.js';
+import { createPromptTemplatesRouter } from '../routes/promptTemplates.js';
+
+function freshDb() {
+  const db = new Database(':memory:');
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  createSchema(db);
+  migrateSchema(db);
+  return db;
+}
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+describe('prompt templates routes', () => {
+  let db, router;
+
+  function call(method, path, req) {
+    const res = mockRes();
+    findHandler(router, method, path)({ query: {}, params: {}, body: {}, ...req }, res, (err) => { throw err; });
+    return res;
+  }
+
+  function create(name, spriteType, body) {
+    return call('post', '/', { body: { name, spriteType, body } }).body.id;
+  }
+
+  beforeEach(() => {
+    db = freshDb();
+    router = createPromptTemplatesRouter(db);
+  });
+
+  it('creates a template as version 1', () => {
+    const res = call('post', '/', { body: { name: 'Terse', spriteType: 'terrain', body: 'Draw {{name}}' } });
+    expect(res.statusCode).toBe(201);
+    expect(res.body.version).toBe(1);
+
+    const list = call('get', '/', { query: { sprite_type: 'terrain' } }).body;
+    expect(list).toEqual([expect.objectContaining({ name: 'Terse', spriteType: 'terrain', body: 'Draw {{name}}', version: 1, isActive: false })]);
+  });
+
+  it('rejects an unknown sprite type or an empty body', () => {
+    expect(call('post', '/', { body: { name: 'X', spriteType: 'vehicle', body: 'b' } }).statusCode).toBe(400);
+    expect(call('post', '/', { body: { name: 'X', spriteType: 'terrain', body: '  ' } }).statusCode).toBe(400);
+  });
+
+  it('keeps each changed body as a new version', () => {
+    const id = create('Terse', 'terrain', 'v1 {{name}}');
+    expect(call('put', '/:id', { params: { id: String(id) }, body: { body: 'v2 {{name}}' } }).body.version).toBe(2);
+    // Renaming alone does not add a version
+    expect(call('put', '/:id', { params: { id: String(id) }, body: { name: 'Short', body: 'v2 {{name}}' } }).body.version).toBe(2);
+
+    const versions = call('get', '/:id/versions', { params: { id: String(id) } }).body;
+    expect(versions.map(v => [v.version, v.body])).toEqual([[2, 'v2 {{name}}'], [1, 'v1 {{name}}']]);
+  });
+
+  it('returns 404 when updating a missing template', () => {
+    expect(call('put', '/:id', { params: { id: '99' }, body: { body: 'x' } }).statusCode).toBe(404);
+  });
+
+  it('activates one template per sprite type', () => {
+    const a = create('A', 'terrain', 'a');
+    const b = create('B', 'terrain', 'b');
+    const c = create('C', 'building', 'c');
+    call('put', '/:id/activate', { params: { id: String(a) } });
+    call('put', '/:id/activate', { params: { id: String(c) } });
+    call('put', '/:id/activate', { params: { id: String(b) } });
+
+    const active = call('get', '/active').body;
+    expect(active.terrain.name).toBe('B');
+    expect(active.building.name).toBe('C');
+    expect(active.character).toBeUndefined();
+
+    call('delete', '/active/:spriteType', { params: { spriteType: 'terrain' } });
+    expect(Object.keys(call('get', '/active').body)).toEqual(['building']);
+  });
+
+  it('drops the version history with the template', () => {
+    const id = create('A', 'character', 'a');
+    expect(call('delete', '/:id', { params: { id: String(id) } }).body.success).toBe(true);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM prompt_template_versions').get().n).toBe(0);
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { decodePng, encodePng, sniffImageType } from '../png.js';
+import { createProvider, ProviderError } from '../providers/index.js';
+import { createFixtureProvider, detectTemplateGrid, pickFixture, paintTemplate, hashString } from '../providers/fixture.js';
+import { createGenerateRouter } from '../routes/generate.js';
+
+// ── helpers ─────────────────────────────────────────────────────────────────
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+/**
+ * A miniature template: black canvas, `cols`×`rows` magenta cells of
+ * `cell`px separated by 2px lines, with a 2px black header in each cell.
+ */
+function makeTemplate(cols, rows, cell = 8) {
+  const width = cols * (cell + 2) + 2;
+  const height = rows * (cell + 2) + 2;
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const x0 = 2 + c * (cell + 2);
+      const y0 = 2 + r * (cell + 2);
+      for (let y = y0 + 2; y < y0 + cell; y++) {
+        for (let x = x0; x < x0 + cell; x++) {
+          const i = (y * width + x) * 4;
+          data[i] = 255;
+          data[i + 2] = 255;
+        }
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+
+// ── PNG codec ───────────────────────────────────────────────────────────────
+
+describe('png codec', () => {
+  it('round-trips RGBA pixels', () => {
+    const image = makeTemplate(2, 2);
+    const decoded = decodePng(encodePng(image));
+    expect(decoded.width).toBe(image.width);
+    expect(decoded.height).toBe(image.height);
+    expect(Buffer.compare(decoded.data, image.data)).toBe(0);
+  });
+
+  it('rejects non-PNG data', () => {
+    expect(() => decodePng(JPEG_BYTES)).toThrow('Not a PNG image');
+  });
+
+  it('sniffs image types from magic bytes', () => {
+    expect(sniffImageType(encodePng(makeTemplate(1, 1)))).toBe('image/png');
+    expect(sniffImageType(JPEG_BYTES)).toBe('image/jpeg');
+    expect(sniffImageType(Buffer.from('plain text'))).toBeNull();
+  });
+});
+
+// ── Fixture provider ────────────────────────────────────────────────────────
+
+describe('detectTemplateGrid', () => {
+  it('finds one span per column and row of chroma cells', () => {
+    const grid = detectTemplateGrid(makeTemplate(3, 2));
+    expect(grid.cols).toEqual([{ start: 2, end: 9 }, { start: 12, end: 19 }, { start: 22, end: 29 }]);
+    // Row spans start below each header
+    expect(grid.rows).toEqual([{ start: 4, end: 9 }, { start: 14, end: 19 }]);
+  });
+});
+
+describe('pickFixture', () => {
+  const fixtures = [
+    { name: 'b-house', imageFile: 'b.png', manifest: { cols: 3, rows: 3, cellLabels: ['Spring', 'Summer'] } },
+    { name: 'a-tree', imageFile: 'a.png', manifest: { cols: 3, rows: 3, cellLabels: ['Sapling', 'Ancient'] } },
+    { name: 'hero', imageFile: 'h.png', manifest: { cols: 6, rows: 6 } },
+  ];
+
+  it('matches the grid shape', () => {
+    expect(pickFixture(fixtures, 6, 6, 'a hero').name).toBe('hero');
+    expect(pickFixture(fixtures, 2, 2, 'anything')).toBeNull();
+  });
+
+  it('prefers fixtures whose labels appear in the prompt', () => {
+    expect(pickFixture(fixtures, 3, 3, 'Cells: sapling, ancient, dead').name).toBe('a-tree');
+    expect(pickFixture(fixtures, 3, 3, 'Cells: SPRING').name).toBe('b-house');
+  });
+
+  it('breaks ties deterministically by prompt', () => {
+    const prompt = 'no labels here';
+    const expected = ['a-tree', 'b-house'][hashString(prompt) % 2];
+    expect(pickFixture(fixtures, 3, 3, prompt).name).toBe(expected);
+    expect(pickFixture(fixtures, 3, 3, prompt).name).toBe(expected);
+  });
+});
+
+describe('paintTemplate', () => {
+  it('paints inside chroma cells only and is deterministic', () => {
+    const template = makeTemplate(2, 1, 20);
+    const grid = detectTemplateGrid(template);
+    const a = paintTemplate(template, grid, 'seed');
+    const b = paintTemplate(template, grid, 'seed');
+    expect(Buffer.compare(a.data, b.data)).toBe(0);
+
+    // Cell centre is painted, the black header above it is untouched
+    const centre = ((2 + 12) * template.width + 12) * 4;
+    expect([a.data[centre], a.data[centre + 1], a.data[centre + 2]]).not.toEqual([255, 0, 255]);
+    const header = (3 * template.width + 12) * 4;
+    expect([a.data[header], a.data[header + 1], a.data[header + 2]]).toEqual([0, 0, 0]);
+    // The template itself is left alone
+    expect([template.data[centre], template.data[centre + 1], template.data[centre + 2]]).toEqual([255, 0, 255]);
+  });
+});
+
+describe('fixture provider', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+    writeFileSync(join(dir, 'castle.png'), JPEG_BYTES);
+    writeFileSync(join(dir, 'index.json'), JSON.stringify([
+      { name: 'castle', imageFile: 'castle.png', manifest: { cols: 3, rows: 3, cellLabels: ['Gate'] } },
+    ]));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const template = (cols, rows) => ({ data: encodePng(makeTemplate(cols, rows)).toString('base64'), mimeType: 'image/png' });
+
+  it('returns the matching fixture with its sniffed mime type', async () => {
+    const provider = createFixtureProvider(dir);
+    const result = await provider.generate({ prompt: 'Gate', templateImage: template(3, 3) });
+    expect(result.text).toBe('[fixture] castle');
+    expect(result.image.mimeType).toBe('image/jpeg');
+    expect(Buffer.from(result.image.data, 'base64').equals(JPEG_BYTES)).toBe(true);
+  });
+
+  it('paints the template when no fixture has the grid shape', async () => {
+    const provider = createFixtureProvider(dir);
+    const result = await provider.generate({ prompt: 'slime', templateImage: template(2, 2) });
+    expect(result.image.mimeType).toBe('image/png');
+    const painted = decodePng(Buffer.from(result.image.data, 'base64'));
+    expect([painted.width, painted.height]).toEqual([22, 22]);
+  });
+
+  it('rejects templates it cannot read', async () => {
+    const provider = createFixtureProvider(dir);
+    await expect(provider.generate({ prompt: 'x', templateImage: { data: JPEG_BYTES.toString('base64'), mimeType: 'image/jpeg' } }))
+      .rejects.toMatchObject({ name: 'ProviderError', status: 400 });
+  });
+});
+
+// ── Provider selection ──────────────────────────────────────────────────────
+
+describe('createProvider', () => {
+  it('uses Gemini when a key is configured and fixtures otherwise', () => {
+    expect(createProvider({ GEMINI_API_KEY: 'k' }, { fixturesDir: '.' }).name).toBe('gemini');
+    expect(createProvider({}, { fixturesDir: '.' }).name).toBe('fixture');
+  });
+
+  it('honours IMAGE_PROVIDER', () => {
+    expect(createProvider({ GEMINI_API_KEY: 'k', IMAGE_PROVIDER: 'fixture' }, { fixturesDir: '.' }).name).toBe('fixture');
+    expect(() => createProvider({ IMAGE_PROVIDER: 'dall-e' }, { fixturesDir: '.' })).toThrow('Unknown IMAGE_PROVIDER');
+  });
+
+  it('builds a Gemini provider without a key that refuses to generate', async () => {
+    const provider = createProvider({ IMAGE_PROVIDER: 'gemini' }, { fixturesDir: '.' });
+    await expect(provider.testConnection('gemini-2.5-flash')).rejects.toMatchObject({ status: 503 });
+  });
+});
+
+// ── Generate route ──────────────────────────────────────────────────────────
+
+describe('generate route', () => {
+  const body = {
+    model: 'm1',
+    prompt: 'p',
+    templateImage: { data: 'AAAA', mimeType: 'image/png' },
+  };
+
+  function fakeProvider(overrides = {}) {
+    return {
+      name: 'fake',
+      capabilities: { models: ['m1'], imageSizes: ['2K'], aspectRatios: null },
+      generate: async () => ({ text: 'ok', image: { data: 'IMG', mimeType: 'image/png' } }),
+      testConnection: async () => {},
+      ...overrides,
+    };
+  }
+
+  it('reports the active provider', () => {
+    const res = mockRes();
+    findHandler(createGenerateRouter(fakeProvider()), 'get', '/provider')({}, res);
+    expect(res.body).toEqual({ name: 'fake', capabilities: { models: ['m1'], imageSizes: ['2K'], aspectRatios: null } });
+  });
+
+  it('passes valid requests to the provider', async () => {
+    const calls = [];
+    const provider = fakeProvider({ generate: async (req) => { calls.push(req); return { text: '', image: null }; } });
+    const res = mockRes();
+    await findHandler(createGenerateRouter(provider), 'post', '/generate-grid')({ body, id: 'r1' }, res);
+    expect(res.statusCode).toBe(200);
+    expect(calls[0]).toMatchObject({ model: 'm1', prompt: 'p', imageSize: '2K', aspectRatio: '1:1', requestId: 'r1' });
+  });
+
+  it('validates against provider capabilities', async () => {
+    const handler = findHandler(createGenerateRouter(fakeProvider()), 'post', '/generate-grid');
+
+    const badModel = mockRes();
+    await handler({ body: { ...body, model: 'other' } }, badModel);
+    expect(badModel.statusCode).toBe(400);
+    expect(badModel.body.error).toContain('m1');
+
+    const badSize = mockRes();
+    await handler({ body: { ...body, imageSize: '4K' } }, badSize);
+    expect(badSize.statusCode).toBe(400);
+    expect(badSize.body.error).toBe('Invalid imageSize. Allowed values: 2K');
+  });
+
+  it('still rejects values outside the route vocabulary when the provider accepts anything', async () => {
+    const provider = fakeProvider({ capabilities: { models: null, imageSizes: null, aspectRatios: null } });
+    const res = mockRes();
+    await findHandler(createGenerateRouter(provider), 'post', '/generate-grid')({ body: { ...body, aspectRatio: '7:1' } }, res);
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('relays provider errors with their status', async () => {
+    const provider = fakeProvider({ generate: async () => { throw new ProviderError('Rate limited', 429); } });
+    const res = mockRes();
+    await findHandler(createGenerateRouter(provider), 'post', '/generate-grid')({ body }, res);
+    expect(res.statusCode).toBe(429);
+    expect(res.body).toEqual({ error: 'Rate limited' });
+  });
+
+  it('tests the connection through the provider', async () => {
+    const res = mockRes();
+    await findHandler(createGenerateRouter(fakeProvider()), 'post', '/test-connection')({ body: { model: 'm1' } }, res);
+    expect(res.body).toEqual({ success: true, model: 'm1', provider: 'fake' });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createSchema } from '../db/schema.js';
+import { migrateSchema } from '../db/migrations.js';
+import { ProviderError } from '../providers/index.js';
+import { readUsage } from '../providers/gemini.js';
+import { withUsageTracking, createBudgetGuard, setMonthlyBudget, estimateCost, estimateRequestsCost } from '../usage.js';
+import { createUsageRouter } from '../routes/usage.js';
+import { validateGenerateRequest } from '../routes/generate.js';
+
+function freshDb() {
+  const db = new Database(':memory:');
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  createSchema(db);
+  migrateSchema(db);
+  return db;
+}
+
+/** Find the route handler registered for a given method + path. */
+function findHandler(router, method, path) {
+  for (const layer of router.stack) {
+    if (
+      layer.route &&
+      layer.route.path === path &&
+      layer.route.methods[method]
+    ) {
+      return layer.route.stack.at(-1).handle;
+    }
+  }
+  throw new Error(`No ${method.toUpperCase()} handler for "${path}"`);
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    body: null,
+    status(code) { res.statusCode = code; return res; },
+    json(data) { res.body = data; return res; },
+  };
+  return res;
+}
+
+const request = { model: 'm1', prompt: 'p', imageSize: '4K', aspectRatio: '1:1', spriteType: 'character', contentPresetId: 'knight' };
+
+function fakeProvider(generate) {
+  return { name: 'gemini', capabilities: { models: null, imageSizes: null, aspectRatios: null }, generate, testConnection: async () => {} };
+}
+
+describe('usage tracking', () => {
+  let db;
+
+  beforeEach(() => {
+    db = freshDb();
+  });
+
+  it('records a successful call with what the provider reported', async () => {
+    const provider = withUsageTracking(fakeProvider(async ({ usage }) => {
+      Object.assign(usage, { retries: 2, promptTokens: 1000, outputTokens: 1200, totalTokens: 2200, imageCount: 1 });
+      return { text: '', image: { data: 'IMG', mimeType: 'image/png' } };
+    }), db);
+
+    await provider.generate(request);
+
+    const row = db.prepare('SELECT * FROM provider_calls').get();
+    expect(row).toMatchObject({
+      provider: 'gemini', model: 'm1', image_size: '4K', sprite_type: 'character', content_preset_id: 'knight',
+      status: 'succeeded', retries: 2, total_tokens: 2200, image_count: 1,
+    });
+    expect(row.cost).toBeCloseTo(estimateCost({ provider: 'gemini', imageSize: '4K', imageCount: 1, promptTokens: 1000 }));
+  });
+
+  it('records failures with the provider status and rethrows', async () => {
+    const provider = withUsageTracking(fakeProvider(async ({ usage }) => {
+      usage.retries = 3;
+      throw new ProviderError('Rate limited', 429);
+    }), db);
+
+    await expect(provider.generate(request)).rejects.toThrow('Rate limited');
+
+    const row = db.prepare('SELECT * FROM provider_calls').get();
+    expect(row).toMatchObject({ status: 'failed', http_status: 429, error: 'Rate limited', retries: 3, image_count: 0, cost: 0 });
+  });
+
+  it('reads token and image counts from a Gemini response', () => {
+    expect(readUsage({
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 20, totalTokenCount: 30 },
+      candidates: [{ content: { parts: [{ text: 'hi' }, { inlineData: { data: 'x' } }] } }],
+    })).toEqual({ promptTokens: 10, outputTokens: 20, totalTokens: 30, imageCount: 1 });
+  });
+
+  it('blocks generation once the monthly budget is spent', () => {
+    const guard = createBudgetGuard(db);
+    const run = () => {
+      const res = mockRes();
+      let passed = false;
+      guard({}, res, () => { passed = true; });
+      return { res, passed };
+    };
+
+    expect(run().passed).toBe(true);
+
+    setMonthlyBudget(db, 0.2);
+    db.prepare("INSERT INTO provider_calls (provider, model, status, cost) VALUES ('gemini', 'm1', 'succeeded', 0.24)").run();
+    const blocked = run();
+    expect(blocked.passed).toBe(false);
+    expect(blocked.res.statusCode).toBe(402);
+    expect(blocked.res.body.error).toContain('$0.20');
+
+    setMonthlyBudget(db, null);
+    expect(run().passed).toBe(true);
+  });
+
+  it('refuses a batch whose expected cost would pass the budget', () => {
+    const guard = createBudgetGuard(db, { projectCost: (req) => estimateRequestsCost('gemini', req.body.jobs) });
+    const run = (jobs) => {
+      const res = mockRes();
+      let passed = false;
+      guard({ body: { jobs } }, res, () => { passed = true; });
+      return { res, passed };
+    };
+    const fourK = Array.from({ length: 4 }, () => ({ imageSize: '4K' }));
+    expect(estimateRequestsCost('gemini', fourK)).toBeCloseTo(0.96);
+    expect(estimateRequestsCost('gemini', 'not a list')).toBe(0);
+
+    setMonthlyBudget(db, 1);
+    expect(run(fourK).passed).toBe(true);
+    db.prepare("INSERT INTO provider_calls (provider, model, status, cost) VALUES ('gemini', 'm1', 'succeeded', 0.1)").run();
+    const blocked = run(fourK);
+    expect(blocked.passed).toBe(false);
+    expect(blocked.res.statusCode).toBe(402);
+    expect(blocked.res.body.error).toContain('$0.96');
+  });
+});
+
+describe('usage routes', () => {
+  let db;
+  let router;
+
+  beforeEach(() => {
+    db = freshDb();
+    router = createUsageRouter(db);
+  });
+
+  it('totals calls per model and per preset', () => {
+    db.prepare("INSERT INTO character_presets (id, name) VALUES ('knight', 'Knight')").run();
+    const insert = db.prepare(
+      'INSERT INTO provider_calls (provider, model, sprite_type, content_preset_id, status, retries, image_count, cost) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    insert.run('gemini', 'm1', 'character', 'knight', 'succeeded', 1, 1, 0.134);
+    insert.run('gemini', 'm1', 'character', 'knight', 'failed', 3, 0, 0);
+    insert.run('gemini', 'm2', 'building', null, 'succeeded', 0, 1, 0.24);
+
+    const res = mockRes();
+    findHandler(router, 'get', '/summary')({ query: {} }, res);
+
+    expect(res.body.totals).toMatchObject({ calls: 3, succeeded: 2, failed: 1, retries: 4, images: 2 });
+    expect(res.body.byDay).toHaveLength(1);
+    expect(res.body.byModel.map(m => [m.model, m.calls])).toEqual([['m2', 1], ['m1', 2]]);
+    const knight = res.body.byPreset.find(p => p.contentPresetId === 'knight');
+    expect(knight).toMatchObject({ spriteType: 'character', presetName: 'Knight', calls: 2, retries: 4 });
+    expect(res.body.budget).toEqual({ monthlyBudget: null, spent: expect.closeTo(0.374) });
+  });
+
+  it('only attributes calls to real sprite types', () => {
+    const CAPABILITIES = { models: null, imageSizes: null, aspectRatios: null };
+    const body = { ...request, templateImage: { data: 'AAAA', mimeType: 'image/png' } };
+    expect(validateGenerateRequest(body, CAPABILITIES).request.spriteType).toBe('character');
+    for (const spriteType of ['toString', 'constructor', '__proto__']) {
+      expect(validateGenerateRequest({ ...body, spriteType }, CAPABILITIES).request).not.toHaveProperty('spriteType');
+    }
+
+    // Rows recorded before the check must not break the summary
+    db.prepare("INSERT INTO provider_calls (provider, model, sprite_type, content_preset_id, status) VALUES ('gemini', 'm1', 'toString', 'x', 'succeeded')").run();
+    const res = mockRes();
+    findHandler(router, 'get', '/summary')({ query: {} }, res);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.byPreset[0]).toMatchObject({ spriteType: 'toString', presetName: null });
+  });
+
+  it('validates the summary window', () => {
+    const res = mockRes();
+    findHandler(router, 'get', '/summary')({ query: { days: '0' } }, res);
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('sets and clears the monthly budget', () => {
+    const put = findHandler(router, 'put', '/budget');
+
+    const bad = mockRes();
+    put({ body: { monthlyBudget: -5 } }, bad);
+    expect(bad.statusCode).toBe(400);
+
+    const set = mockRes();
+    put({ body: { monthlyBudget: 25 } }, set);
+    expect(set.body).toEqual({ monthlyBudget: 25, spent: 0 });
+
+    const summary = mockRes();
+    findHandler(router, 'get', '/summary')({ query: {} }, summary);
+    expect(summary.body.budget.monthlyBudget).toBe(25);
+
+    put({ body: { monthlyBudget: null } }, mockRes());
+    const cleared = mockRes();
+    findHandler(router, 'get', '/summary')({ query: {} }, cleared);
+    expect(cleared.body.budget.monthlyBudget).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { writeZip, crc32 } from '../zip.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+// Shared with src/lib/__tests__/zipWriter.test.ts so both writers stay interchangeable
+const vectors = JSON.parse(readFileSync(join(__dirname, '..', '..', 'test-fixtures', 'zip-vectors.json'), 'utf8'));
+
+/** Run writeZip into memory and return the archive bytes. */
+function zipToBuffer(entries, modified) {
+  const chunks = [];
+  writeZip({ write: (c) => chunks.push(c), end: (c) => chunks.push(c) }, entries, modified);
+  return Buffer.concat(chunks);
+}
+
+describe('crc32', () => {
+  it('matches the shared check values', () => {
+    for (const { text, crc } of vectors.crc32) {
+      expect(crc32(Buffer.from(text, 'utf8'))).toBe(parseInt(crc, 16));
+    }
+  });
+});
+
+describe('writeZip', () => {
+  it('writes the shared stored archive byte for byte', () => {
+    const { modified, entries, hex } = vectors.storedZip;
+    const zip = zipToBuffer(entries.map(e => ({ name: e.name, read: () => Buffer.from(e.bytes) })), new Date(modified));
+    expect(zip.toString('hex')).toBe(hex);
+  });
+
+  it('deflates entries that get smaller and keeps the CRC of the raw data', () => {
+    const raw = Buffer.from('a'.repeat(1000));
+    const zip = zipToBuffer([{ name: 'a.txt', read: () => raw }]);
+    expect(zip.readUInt16LE(8)).toBe(8);
+    expect(zip.readUInt32LE(14)).toBe(crc32(raw));
+    expect(zip.readUInt32LE(18)).toBeLessThan(raw.length);
+    expect(zip.readUInt32LE(22)).toBe(raw.length);
+  });
+});
@@ -14,6 +14,14 @@ const MIGRATIONS = [
   { name: '013_add_sprites_unique_index', sql: 'CREATE UNIQUE INDEX IF NOT EXISTS idx_sprites_gen_cell ON sprites(generation_id, cell_index)' },
   { name: '014_add_generations_sprite_type_index', sql: 'CREATE INDEX IF NOT EXISTS idx_generations_sprite_type ON generations(sprite_type)' },
   { name: '015_add_generations_type_created_index', sql: 'CREATE INDEX IF NOT EXISTS idx_generations_type_created ON generations(sprite_type, created_at DESC)' },
+  { name: '016_add_generation_image_size', sql: 'ALTER TABLE generations ADD COLUMN image_size TEXT DEFAULT NULL' },
+  { name: '017_add_generation_prompt_template_id', sql: 'ALTER TABLE generations ADD COLUMN prompt_template_id INTEGER DEFAULT NULL' },
+  { name: '018_add_generation_prompt_template_version', sql: 'ALTER TABLE generations ADD COLUMN prompt_template_version INTEGER DEFAULT NULL' },
+  { name: '019_add_generation_reference_image_hash', sql: 'ALTER TABLE generations ADD COLUMN reference_image_hash TEXT DEFAULT NULL' },
+  { name: '020_add_generation_grid_link_id', sql: 'ALTER TABLE generations ADD COLUMN grid_link_id INTEGER DEFAULT NULL' },
+  { name: '021_add_generation_content_snapshot', sql: 'ALTER TABLE generations ADD COLUMN content_snapshot TEXT DEFAULT NULL' },
+  { name: '022_add_sprite_seam_fix_image', sql: 'ALTER TABLE sprites ADD COLUMN seam_fix_image TEXT DEFAULT NULL' },
+  { name: '023_add_sprite_seam_fix_method', sql: 'ALTER TABLE sprites ADD COLUMN seam_fix_method TEXT DEFAULT NULL' },
 ];
 
 export function migrateSchema(db) {
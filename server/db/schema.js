@@ -170,4 +170,108 @@ export function createSchema(db) {
       UNIQUE(background_preset_id, grid_preset_id)
     )
   `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS generation_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued','running','succeeded','failed','cancelled')),
+      label TEXT NOT NULL DEFAULT '',
+      request TEXT NOT NULL,
+      result TEXT DEFAULT NULL,
+      error TEXT DEFAULT NULL,
+      error_status INTEGER DEFAULT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      started_at TEXT DEFAULT NULL,
+      finished_at TEXT DEFAULT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status, id);
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      sprite_type TEXT NOT NULL CHECK(sprite_type IN ('character','building','terrain','background')),
+      body TEXT NOT NULL DEFAULT '',
+      version INTEGER NOT NULL DEFAULT 1,
+      is_active INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS prompt_template_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      template_id INTEGER NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      body TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(template_id, version)
+    );
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS experiments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      sprite_type TEXT NOT NULL CHECK(sprite_type IN ('character','building','terrain','background')),
+      content_name TEXT NOT NULL DEFAULT '',
+      content_preset_id TEXT DEFAULT NULL,
+      grid_size TEXT DEFAULT NULL,
+      runs_per_variant INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS experiment_variants (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      experiment_id INTEGER NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+      label TEXT NOT NULL,
+      template_id INTEGER DEFAULT NULL REFERENCES prompt_templates(id) ON DELETE SET NULL,
+      template_version INTEGER DEFAULT NULL,
+      prompt TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS experiment_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      variant_id INTEGER NOT NULL REFERENCES experiment_variants(id) ON DELETE CASCADE,
+      status TEXT NOT NULL CHECK(status IN ('succeeded','failed')),
+      error TEXT DEFAULT NULL,
+      extraction_mode TEXT DEFAULT NULL,
+      expected_cells INTEGER NOT NULL DEFAULT 0,
+      extracted_cells INTEGER NOT NULL DEFAULT 0,
+      chroma_purity REAL DEFAULT NULL,
+      rating INTEGER DEFAULT NULL CHECK(rating BETWEEN 1 AND 5),
+      image TEXT DEFAULT NULL,
+      mime_type TEXT DEFAULT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_experiment_variants_experiment ON experiment_variants(experiment_id);
+    CREATE INDEX IF NOT EXISTS idx_experiment_results_variant ON experiment_results(variant_id);
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS provider_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      image_size TEXT DEFAULT NULL,
+      aspect_ratio TEXT DEFAULT NULL,
+      sprite_type TEXT DEFAULT NULL,
+      content_preset_id TEXT DEFAULT NULL,
+      status TEXT NOT NULL CHECK(status IN ('succeeded','failed','cancelled')),
+      http_status INTEGER DEFAULT NULL,
+      error TEXT DEFAULT NULL,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      retries INTEGER NOT NULL DEFAULT 0,
+      prompt_tokens INTEGER DEFAULT NULL,
+      output_tokens INTEGER DEFAULT NULL,
+      total_tokens INTEGER DEFAULT NULL,
+      image_count INTEGER NOT NULL DEFAULT 0,
+      cost REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_provider_calls_created ON provider_calls(created_at);
+  `);
 }
@@ -0,0 +1,116 @@
+// Autotile terrain grids. Cell labels spell out each tile's mask and must
+// stay in step with src/lib/autotile.ts, which reads them back on export.
+
+const CORNERS = [['NW', 1], ['NE', 2], ['SE', 4], ['SW', 8]];
+const BLOB_EDGES = [['N', 1], ['E', 4], ['S', 16], ['W', 64]];
+const BLOB_DIAGONALS = [['NE', 2, 1, 4], ['SE', 8, 16, 4], ['SW', 32, 16, 64], ['NW', 128, 1, 64]];
+
+const DIR_NAMES = { N: 'north', E: 'east', S: 'south', W: 'west', NE: 'north-east', SE: 'south-east', SW: 'south-west', NW: 'north-west' };
+
+function reduceBlobMask(mask) {
+  let out = mask & (1 | 4 | 16 | 64);
+  for (const [, bit, a, b] of BLOB_DIAGONALS) {
+    if (mask & bit && mask & a && mask & b) out |= bit;
+  }
+  return out;
+}
+
+function cornerTiles() {
+  return Array.from({ length: 16 }, (_, mask) => {
+    const upper = CORNERS.filter(([, bit]) => mask & bit).map(([d]) => d);
+    const label = mask === 0 ? 'Corners none' : mask === 15 ? 'Corners all' : `Corners ${upper.join(' ')}`;
+    const detail = mask === 0 ? 'lower terrain only, no upper terrain anywhere'
+      : mask === 15 ? 'upper terrain only, filling the whole tile'
+        : `upper terrain in the ${upper.map(d => DIR_NAMES[d]).join(', ')} corner${upper.length > 1 ? 's' : ''}, lower terrain in the rest`;
+    return { label, detail };
+  });
+}
+
+function blobTiles() {
+  const masks = [...new Set(Array.from({ length: 256 }, (_, m) => reduceBlobMask(m)))].sort((a, b) => a - b);
+  const tiles = masks.map((mask) => {
+    const dirs = [...BLOB_EDGES, ...BLOB_DIAGONALS].filter(([, bit]) => mask & bit).map(([d]) => d);
+    const label = mask === 0 ? 'Blob none' : mask === 255 ? 'Blob all' : `Blob ${dirs.join(' ')}`;
+    const detail = mask === 0 ? 'an isolated island of terrain, bordered by the background on every side'
+      : mask === 255 ? 'solid terrain that continues in all eight directions'
+        : `terrain continues to the ${dirs.map(d => DIR_NAMES[d]).join(', ')}; every other side and corner is bordered by the background`;
+    return { label, detail };
+  });
+  // The two spare cells hold extra variants of the most common tile
+  const all = tiles.find(t => t.label === 'Blob all');
+  tiles.push({ label: 'Blob all 2', detail: `${all.detail} (variant, tiles seamlessly with Blob all)` });
+  tiles.push({ label: 'Blob all 3', detail: `${all.detail} (second variant)` });
+  return tiles;
+}
+
+function cellList(tiles, cols) {
+  return tiles.map((t, i) => `  Header "${t.label}" (${Math.floor(i / cols)},${i % cols}): ${t.detail}.`).join('\n');
+}
+
+const CORNERS_GUIDANCE = `16-tile corner autotile (marching squares / Wang corners). Every tile shows two terrains: an UPPER terrain and a LOWER terrain. Each of the tile's four corners is either upper or lower, and the label lists the corners that are upper ("Corners NE SW" has upper terrain in the north-east and south-west corners). Tiles are placed on the corners of a map grid, so two tiles that share an edge must agree on the corners of that edge.
+
+TILE DRAWING RULES:
+- The boundary between the two terrains runs between corners that differ, crossing each tile edge at its midpoint
+- The corners themselves must be fully one terrain, right up to the tile edge
+- Along every edge whose two corners match, the tile must be pure upper or pure lower terrain and tile seamlessly with "Corners all" or "Corners none"
+- Draw the boundary with the same edge treatment (shoreline, grass fringe, cliff lip) on every tile
+
+CELLS:
+${cellList(cornerTiles(), 4)}`;
+
+const BLOB_GUIDANCE = `47-tile blob autotile. Every tile is one piece of a TERRAIN blob on a BACKGROUND terrain. The label lists the neighbours the terrain continues into: edges N, E, S, W and corners NE, SE, SW, NW ("Blob N E NE" joins the terrain to the north, the east, and fills the north-east corner between them). A corner only appears when both of its edges do. Anything not listed is the border of the blob.
+
+TILE DRAWING RULES:
+- Where the terrain continues, it must run to the tile edge and match "Blob all" exactly there
+- Where it does not, draw the blob's border (shoreline, grass fringe, cliff lip) a consistent distance inside the tile edge
+- A missing corner between two joined edges is an inner corner: the border curves into that corner only
+- The background outside the blob must tile seamlessly with itself on every tile
+
+CELLS:
+${cellList(blobTiles(), 7)}`;
+
+const GRIDS = [
+  { name: 'Autotile Corners 16 4×4', gridSize: '4x4', cols: 4, rows: 4, tiles: cornerTiles(), genericGuidance: CORNERS_GUIDANCE, upperLower: true },
+  { name: 'Autotile Blob 47 7×7', gridSize: '7x7', cols: 7, rows: 7, tiles: blobTiles(), genericGuidance: BLOB_GUIDANCE, upperLower: false },
+];
+
+function linkGuidance(grid, preset) {
+  return grid.upperLower
+    ? `UPPER terrain: the main surface of ${preset.name} (${preset.description}). LOWER terrain: the contrasting ground it meets in this tileset, such as a path, water or bare floor. Palette: ${preset.color_notes}`
+    : `TERRAIN: the main surface of ${preset.name} (${preset.description}). BACKGROUND: the contrasting ground it sits on in this tileset, such as a path, water or bare floor. Palette: ${preset.color_notes}`;
+}
+
+export function seedAutotileGridPresets(db) {
+  const existing = db.prepare("SELECT COUNT(*) as count FROM grid_presets WHERE genre = 'Autotile' AND sprite_type = 'terrain'").get();
+  if (existing.count > 0) return;
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO grid_presets (name, sprite_type, genre, grid_size, cols, rows, cell_labels, cell_groups, generic_guidance, bg_mode, is_preset)
+    VALUES (?, 'terrain', 'Autotile', ?, ?, ?, ?, ?, ?, NULL, 1)
+  `);
+  const findGrid = db.prepare("SELECT id FROM grid_presets WHERE name = ? AND sprite_type = 'terrain' AND grid_size = ?");
+  const insertLink = db.prepare(`
+    INSERT OR IGNORE INTO terrain_grid_links (terrain_preset_id, grid_preset_id, guidance_override, sort_order)
+    VALUES (?, ?, ?, ?)
+  `);
+  const terrains = db.prepare('SELECT id, name, description, color_notes FROM terrain_presets WHERE is_preset = 1').all();
+
+  const insertAll = db.transaction(() => {
+    GRIDS.forEach((g, i) => {
+      const cellGroups = [];
+      for (let r = 0; r < g.rows; r++) {
+        const cells = [];
+        for (let c = 0; c < g.cols; c++) cells.push(r * g.cols + c);
+        cellGroups.push({ name: `Row ${r + 1}`, cells });
+      }
+      insert.run(g.name, g.gridSize, g.cols, g.rows,
+        JSON.stringify(g.tiles.map(t => t.label)), JSON.stringify(cellGroups), g.genericGuidance);
+      const gridRow = findGrid.get(g.name, g.gridSize);
+      if (!gridRow) return;
+      for (const t of terrains) insertLink.run(t.id, gridRow.id, linkGuidance(g, t), i + 1);
+    });
+  });
+
+  insertAll();
+  console.log(`[DB] Seeded ${GRIDS.length} autotile grid presets.`);
+}
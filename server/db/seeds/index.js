@@ -5,6 +5,7 @@ import { seedTerrainPresets } from './terrainPresets.js';
 import { seedBackgroundPresets } from './backgroundPresets.js';
 import { seedIsometricGridPresets } from './isometricGridPresets.js';
 import { seedAnimationSeries } from './animationSeries.js';
+import { seedAutotileGridPresets } from './autotileGridPresets.js';
 
 export function runAllSeeds(db) {
   const seeds = [
@@ -15,6 +16,7 @@ export function runAllSeeds(db) {
     seedBackgroundPresets,
     seedIsometricGridPresets,
     seedAnimationSeries,
+    seedAutotileGridPresets,
   ];
   for (const seed of seeds) seed(db);
   return seeds.length;
@@ -1,4 +1,4 @@
-export function createHealthHandler(db, geminiKeyConfigured) {
+export function createHealthHandler(db, geminiKeyConfigured, provider = 'gemini') {
   return (_req, res) => {
     let dbStatus = 'ok';
     try {
@@ -15,6 +15,7 @@ export function createHealthHandler(db, geminiKeyConfigured) {
       db: dbStatus,
       uptime: process.uptime(),
       geminiKeyConfigured,
+      provider,
     });
   };
 }
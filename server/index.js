@@ -15,11 +15,19 @@ import { createGridLinksRouter } from './routes/gridLinks.js';
 import { createGalleryRouter } from './routes/gallery.js';
 import { createStateRouter } from './routes/state.js';
 import { createArchiveRouter } from './routes/archive.js';
+import { createJobsRouter } from './routes/jobs.js';
+import { createPromptTemplatesRouter } from './routes/promptTemplates.js';
+import { createExperimentsRouter } from './routes/experiments.js';
+import { createUsageRouter } from './routes/usage.js';
+import { createJobQueue } from './jobQueue.js';
+import { createProvider } from './providers/index.js';
 import { createHealthHandler } from './healthCheck.js';
+import { withUsageTracking, createBudgetGuard, budgetRefusal, estimateRequestsCost } from './usage.js';
 import { requestId } from './middleware.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const OUTPUT_DIR = join(__dirname, '..', 'output');
+const FIXTURES_DIR = join(__dirname, '..', 'test-fixtures');
 
 const app = express();
 const PORT = Number.isFinite(Number(process.env.PORT)) ? Number(process.env.PORT) : 3002;
@@ -38,22 +46,31 @@ if (process.env.NODE_ENV !== 'production') {
 // Apply the 50MB parser to those paths first, then fall back to 1MB for everything else.
 const largeBodyParser = express.json({ limit: '50mb' });
 app.use('/api/generate-grid', largeBodyParser);
+app.use('/api/jobs', largeBodyParser);
 app.use('/api/history', largeBodyParser);
 app.use('/api/archive', largeBodyParser);
+app.use('/api/experiments', largeBodyParser);
 app.use(express.json({ limit: '1mb' }));
 
+// Initialize database
+const db = getDb();
+console.log('[Server] Database initialized.');
+
 const apiKey = process.env.GEMINI_API_KEY;
+// Every generation call is recorded for the usage dashboard
+const provider = withUsageTracking(createProvider(process.env, { fixturesDir: FIXTURES_DIR }), db);
 if (!apiKey) {
-  console.error('GEMINI_API_KEY not found in environment. Create a .env.local file.');
-  process.exit(1);
+  console.warn('[Server] GEMINI_API_KEY not set — Gemini generation is unavailable. Add it to .env.local.');
 }
+console.log(`[Server] Image provider: ${provider.name}`);
+const budgetGuard = createBudgetGuard(db);
+const batchBudgetGuard = createBudgetGuard(db, { projectCost: (req) => estimateRequestsCost(provider.name, req.body?.jobs) });
 
-// Initialize database
-const db = getDb();
-console.log('[Server] Database initialized.');
+const jobQueue = createJobQueue(db, provider, { budgetCheck: () => budgetRefusal(db) });
+jobQueue.start();
 
 // Mount route modules
-app.use('/api', createGenerateRouter(apiKey));
+app.use('/api', createGenerateRouter(provider, { budgetGuard }));
 app.use('/api/history', createHistoryRouter(db));
 app.use('/api/presets', createPresetsRouter(db));
 app.use('/api/grid-presets', createGridPresetsRouter(db));
@@ -61,6 +78,10 @@ app.use('/api/grid-links', createGridLinksRouter(db));
 app.use('/api/gallery', createGalleryRouter(db));
 app.use('/api/state', createStateRouter(db));
 app.use('/api/archive', createArchiveRouter(OUTPUT_DIR));
+app.use('/api/jobs', createJobsRouter(jobQueue, provider, { budgetGuard, batchBudgetGuard }));
+app.use('/api/prompt-templates', createPromptTemplatesRouter(db));
+app.use('/api/experiments', createExperimentsRouter(db));
+app.use('/api/usage', createUsageRouter(db));
 
 // Serve archive files statically
 app.use('/output', express.static(OUTPUT_DIR));
@@ -72,7 +93,7 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 // Health check
-app.get('/health', createHealthHandler(db, !!apiKey));
+app.get('/health', createHealthHandler(db, !!apiKey, provider.name));
 
 // Global error handler
 app.use((err, req, res, _next) => {
@@ -129,6 +150,8 @@ function shutdown(signal) {
     }
     process.exit(0);
   });
+  // Open job event streams would otherwise hold the server open
+  server.closeAllConnections();
 }
 
 process.on('SIGTERM', () => shutdown('SIGTERM'));
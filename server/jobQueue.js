@@ -0,0 +1,195 @@
+/**
+ * Persistent generation job queue.
+ *
+ * Jobs live in the generation_jobs table so a run survives the browser
+ * going away: the worker calls the provider, stores the raw result on the
+ * row, and the client picks it up whenever it next asks. Jobs are run one
+ * at a time in id order. Jobs left `running` by a server that died are put
+ * back in the queue on start.
+ *
+ * Every status change is published to subscribers of that job, which is
+ * what the SSE route streams.
+ */
+
+import { EventEmitter } from 'events';
+import { ProviderError } from './providers/index.js';
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+export const TERMINAL_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+/** Finished jobs (and their image payloads) are dropped after this long. */
+const RETENTION_DAYS = 7;
+
+function parseJson(text) {
+  if (!text) return null;
+  try { return JSON.parse(text); } catch { return null; }
+}
+
+/**
+ * `budgetCheck()` is asked before every provider call and returns why the
+ * job must not run (see budgetRefusal in usage.js), or null. Jobs queued
+ * before the budget ran out fail with a 402 instead of spending more.
+ */
+export function createJobQueue(db, provider, { budgetCheck = () => null } = {}) {
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+
+  /** AbortControllers for running jobs, by id. */
+  const controllers = new Map();
+  let active = 0;
+
+  const queuePosition = (id) =>
+    db.prepare("SELECT COUNT(*) AS c FROM generation_jobs WHERE status = 'queued' AND id < ?").get(id).c;
+
+  function toJob(row, includeResult) {
+    const request = parseJson(row.request) ?? {};
+    const job = {
+      id: row.id,
+      status: row.status,
+      label: row.label,
+      model: request.model ?? null,
+      imageSize: request.imageSize ?? null,
+      aspectRatio: request.aspectRatio ?? null,
+      position: row.status === 'queued' ? queuePosition(row.id) : null,
+      error: row.error,
+      errorStatus: row.error_status,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+    };
+    if (includeResult) job.result = parseJson(row.result);
+    return job;
+  }
+
+  /** A job by id (null when missing). The result is only included on request. */
+  function get(id, { includeResult = false } = {}) {
+    const row = db.prepare('SELECT * FROM generation_jobs WHERE id = ?').get(id);
+    return row ? toJob(row, includeResult) : null;
+  }
+
+  function notify(id) {
+    const job = get(id);
+    if (job) events.emit(`job:${id}`, job);
+  }
+
+  /** Waiting jobs move up whenever one leaves the queue. */
+  function notifyQueued() {
+    const rows = db.prepare("SELECT id FROM generation_jobs WHERE status = 'queued'").all();
+    for (const { id } of rows) notify(id);
+  }
+
+  async function run(row) {
+    const { id } = row;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    try {
+      const request = JSON.parse(row.request);
+      const refusal = budgetCheck();
+      if (refusal) throw new ProviderError(refusal, 402);
+      const result = await provider.generate({ ...request, requestId: `job-${id}`, signal: controller.signal });
+      db.prepare(
+        "UPDATE generation_jobs SET status = 'succeeded', result = ?, finished_at = datetime('now') WHERE id = ? AND status = 'running'"
+      ).run(JSON.stringify(result), id);
+    } catch (err) {
+      const isProviderError = err instanceof ProviderError;
+      if (!controller.signal.aborted && !isProviderError) {
+        console.error(`[Jobs] job ${id} failed:`, err);
+      }
+      db.prepare(
+        "UPDATE generation_jobs SET status = 'failed', error = ?, error_status = ?, finished_at = datetime('now') WHERE id = ? AND status = 'running'"
+      ).run(isProviderError ? err.message : 'Image generation failed unexpectedly', isProviderError ? err.status : 502, id);
+    } finally {
+      controllers.delete(id);
+      active--;
+      notify(id);
+      pump();
+    }
+  }
+
+  /** Start the next queued job if the worker is free. */
+  function pump() {
+    if (active > 0) return;
+    const row = db.prepare("SELECT * FROM generation_jobs WHERE status = 'queued' ORDER BY id LIMIT 1").get();
+    if (!row) {
+      events.emit('idle');
+      return;
+    }
+
+    db.prepare("UPDATE generation_jobs SET status = 'running', started_at = datetime('now') WHERE id = ?").run(row.id);
+    active++;
+    notify(row.id);
+    notifyQueued();
+    run(row);
+  }
+
+  return {
+    /** Queue a validated generation request. Returns the new job. */
+    enqueue(request, { label = '' } = {}) {
+      const { lastInsertRowid } = db.prepare(
+        'INSERT INTO generation_jobs (label, request) VALUES (?, ?)'
+      ).run(label, JSON.stringify(request));
+      const job = get(Number(lastInsertRowid));
+      pump();
+      return job;
+    },
+
+    get,
+
+    /** Most recent jobs first, without result payloads. */
+    list({ status, limit = 50 } = {}) {
+      const rows = status
+        ? db.prepare('SELECT * FROM generation_jobs WHERE status = ? ORDER BY id DESC LIMIT ?').all(status, limit)
+        : db.prepare('SELECT * FROM generation_jobs ORDER BY id DESC LIMIT ?').all(limit);
+      return rows.map((row) => toJob(row, false));
+    },
+
+    /**
+     * Cancel a queued or running job; a running job's provider call is
+     * aborted. Returns the job, or null when it does not exist. Finished
+     * jobs are returned unchanged.
+     */
+    cancel(id) {
+      const { changes } = db.prepare(
+        "UPDATE generation_jobs SET status = 'cancelled', finished_at = datetime('now') WHERE id = ? AND status IN ('queued', 'running')"
+      ).run(id);
+      if (changes > 0) {
+        controllers.get(id)?.abort();
+        notify(id);
+        notifyQueued();
+      }
+      return get(id);
+    },
+
+    /** Listen for status changes of one job. Returns an unsubscribe function. */
+    subscribe(id, listener) {
+      events.on(`job:${id}`, listener);
+      return () => events.off(`job:${id}`, listener);
+    },
+
+    /** Resolves once nothing is running or queued. */
+    whenIdle() {
+      if (active === 0 && !db.prepare("SELECT 1 FROM generation_jobs WHERE status = 'queued' LIMIT 1").get()) {
+        return Promise.resolve();
+      }
+      return new Promise((resolve) => events.once('idle', resolve));
+    },
+
+    /**
+     * Requeue jobs interrupted by a restart, drop expired finished jobs and
+     * start working.
+     */
+    start() {
+      const requeued = db.prepare(
+        "UPDATE generation_jobs SET status = 'queued', started_at = NULL WHERE status = 'running'"
+      ).run().changes;
+      const pruned = db.prepare(
+        `DELETE FROM generation_jobs WHERE status IN ('succeeded', 'failed', 'cancelled') AND finished_at < datetime('now', '-${RETENTION_DAYS} days')`
+      ).run().changes;
+      if (requeued || pruned) {
+        console.log(`[Jobs] Requeued ${requeued} interrupted job(s), pruned ${pruned} old job(s)`);
+      }
+      pump();
+    },
+  };
+}
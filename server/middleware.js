@@ -21,3 +21,8 @@ export function validatePresetType(req, res, next) {
   req.presetConfig = config;
   next();
 }
+
+/** Express middleware that does nothing; the default for optional guards. */
+export function passThrough(_req, _res, next) {
+  next();
+}
@@ -0,0 +1,8 @@
+/** A provider failure carrying the HTTP status the route should answer with. */
+export class ProviderError extends Error {
+  constructor(message, status = 502) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
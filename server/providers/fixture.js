@@ -0,0 +1,185 @@
+/**
+ * Deterministic local provider for offline development and e2e runs.
+ *
+ * The template's chroma cells are located to learn the grid shape, then a
+ * filled grid of the same shape is returned from the fixtures directory —
+ * preferring fixtures whose cell labels appear in the prompt, and choosing
+ * among ties by a hash of the prompt so the same request always gets the
+ * same image. When no fixture fits, the template itself is painted: one
+ * shaded blob per cell on the chroma background.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { decodePng, encodePng, sniffImageType } from '../png.js';
+import { ProviderError } from './errors.js';
+
+const PINK_TOLERANCE = 8;
+
+function isPink(data, i) {
+  return data[i] >= 255 - PINK_TOLERANCE && data[i + 1] <= PINK_TOLERANCE && data[i + 2] >= 255 - PINK_TOLERANCE;
+}
+
+function runs(flags) {
+  const spans = [];
+  let start = -1;
+  for (let i = 0; i <= flags.length; i++) {
+    if (i < flags.length && flags[i]) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      spans.push({ start, end: i - 1 });
+      start = -1;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Locate the chroma content areas of a template: spans of columns and rows
+ * that contain magenta. Headers and grid lines are black, so each span is
+ * one cell's content area.
+ */
+export function detectTemplateGrid({ width, height, data }) {
+  const colFlags = new Array(width).fill(false);
+  const rowFlags = new Array(height).fill(false);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isPink(data, (y * width + x) * 4)) {
+        colFlags[x] = true;
+        rowFlags[y] = true;
+      }
+    }
+  }
+  return { cols: runs(colFlags), rows: runs(rowFlags) };
+}
+
+/** 32-bit FNV-1a hash of a string. */
+export function hashString(str) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function loadFixtures(dir) {
+  const indexPath = join(dir, 'index.json');
+  if (existsSync(indexPath)) return JSON.parse(readFileSync(indexPath, 'utf8'));
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith('.manifest.json'))
+    .map((f) => {
+      const name = f.slice(0, -'.manifest.json'.length);
+      return { name, imageFile: `${name}.png`, manifest: JSON.parse(readFileSync(join(dir, f), 'utf8')) };
+    });
+}
+
+/**
+ * Choose the fixture for a grid shape: most cell labels mentioned in the
+ * prompt wins, ties broken by the prompt hash. Null when no fixture has
+ * the shape.
+ */
+export function pickFixture(fixtures, cols, rows, prompt) {
+  const candidates = fixtures
+    .filter((f) => f.manifest?.cols === cols && f.manifest?.rows === rows)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  if (candidates.length === 0) return null;
+
+  const text = prompt.toLowerCase();
+  const score = (f) => (f.manifest.cellLabels ?? []).filter((l) => text.includes(String(l).toLowerCase())).length;
+  const best = Math.max(...candidates.map(score));
+  const tied = candidates.filter((f) => score(f) === best);
+  return tied[hashString(prompt) % tied.length];
+}
+
+function hslToRgb(h, s, l) {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+/**
+ * Paint one blob per cell over the template's magenta, coloured and nudged
+ * by a hash of the seed so different prompts look different but the same
+ * prompt always paints the same sheet. Returns a new image.
+ */
+export function paintTemplate(template, grid, seed) {
+  const { width, height } = template;
+  const data = Buffer.from(template.data);
+  let cell = 0;
+  for (const row of grid.rows) {
+    for (const col of grid.cols) {
+      const h = hashString(`${seed}#${cell++}`);
+      const fill = hslToRgb(h % 360, 0.55, 0.5);
+      const edge = hslToRgb(h % 360, 0.6, 0.25);
+      const w = col.end - col.start + 1;
+      const ht = row.end - row.start + 1;
+      const cx = col.start + w / 2 + (((h >>> 9) % 11) - 5) / 100 * w;
+      const cy = row.start + ht * 0.55 + (((h >>> 13) % 11) - 5) / 100 * ht;
+      const rx = w * 0.28;
+      const ry = ht * 0.34;
+      for (let y = row.start; y <= row.end; y++) {
+        for (let x = col.start; x <= col.end; x++) {
+          const d = ((x + 0.5 - cx) / rx) ** 2 + ((y + 0.5 - cy) / ry) ** 2;
+          const i = (y * width + x) * 4;
+          if (d > 1 || !isPink(data, i)) continue;
+          const color = d > 0.8 ? edge : fill;
+          data[i] = color[0];
+          data[i + 1] = color[1];
+          data[i + 2] = color[2];
+          data[i + 3] = 255;
+        }
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+export function createFixtureProvider(fixturesDir) {
+  let fixtures = null;
+
+  return {
+    name: 'fixture',
+    // Accepts every model, size and aspect ratio the route allows
+    capabilities: { models: null, imageSizes: null, aspectRatios: null },
+
+    async generate({ prompt, templateImage, requestId = '?' }) {
+      let template;
+      try {
+        template = decodePng(Buffer.from(templateImage.data, 'base64'));
+      } catch (err) {
+        throw new ProviderError(`Fixture provider could not read the template: ${err.message}`, 400);
+      }
+
+      const grid = detectTemplateGrid(template);
+      if (grid.cols.length === 0 || grid.rows.length === 0) {
+        throw new ProviderError('Fixture provider found no chroma cells in the template', 400);
+      }
+
+      fixtures ??= loadFixtures(fixturesDir);
+      const match = pickFixture(fixtures, grid.cols.length, grid.rows.length, prompt);
+      if (match) {
+        const image = readFileSync(join(fixturesDir, match.imageFile));
+        console.log(`[Generate:${requestId}] fixture ${match.name} for ${grid.cols.length}x${grid.rows.length} grid`);
+        return {
+          text: `[fixture] ${match.name}`,
+          // Fixture files keep a .png name whatever their encoding
+          image: { data: image.toString('base64'), mimeType: sniffImageType(image) ?? 'image/png' },
+        };
+      }
+
+      console.log(`[Generate:${requestId}] no ${grid.cols.length}x${grid.rows.length} fixture, painting template`);
+      const painted = paintTemplate(template, grid, prompt);
+      return {
+        text: '[fixture] painted template',
+        image: { data: encodePng(painted).toString('base64'), mimeType: 'image/png' },
+      };
+    },
+
+    async testConnection() {},
+  };
+}
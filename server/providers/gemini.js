@@ -0,0 +1,179 @@
+/**
+ * Google Gemini image-generation provider.
+ */
+
+import { parseGeminiResponse } from '../utils.js';
+import { ProviderError } from './errors.js';
+
+const GEMINI_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 2000;
+
+export const GEMINI_MODELS = [
+  'nano-banana-pro-preview',
+  'gemini-2.5-flash-preview-05-20',
+  'gemini-2.5-flash',
+  'gemini-2.5-pro-preview-05-06',
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+  'gemini-2.0-flash-image-generation',
+  'gemini-1.5-flash',
+  'gemini-1.5-pro',
+];
+
+async function callGemini(apiKey, model, body, signal, retries = 0, usage = null) {
+  const url = `${GEMINI_BASE}/${model}:generateContent`;
+  console.log(`[Gemini] ${model} -> ${url} (attempt ${retries + 1})`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  console.log(`[Gemini] Response status: ${response.status}`);
+
+  if (response.status === 429 && retries < MAX_RETRIES) {
+    const delay = BASE_DELAY_MS * Math.pow(2, retries);
+    console.warn(`[Gemini] Rate limited (429). Retrying in ${delay}ms (attempt ${retries + 1}/${MAX_RETRIES})...`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (usage) usage.retries = retries + 1;
+    return callGemini(apiKey, model, body, signal, retries + 1, usage);
+  }
+
+  return response;
+}
+
+/** Token and image counts reported in a generateContent response. */
+export function readUsage(data) {
+  const meta = data?.usageMetadata ?? {};
+  const parts = data?.candidates?.[0]?.content?.parts ?? [];
+  return {
+    promptTokens: meta.promptTokenCount ?? null,
+    outputTokens: meta.candidatesTokenCount ?? null,
+    totalTokens: meta.totalTokenCount ?? null,
+    imageCount: parts.filter(p => p.inlineData).length,
+  };
+}
+
+export function createGeminiProvider(apiKey) {
+  const requireKey = () => {
+    if (!apiKey) throw new ProviderError('GEMINI_API_KEY is not configured on the server', 503);
+  };
+
+  return {
+    name: 'gemini',
+    capabilities: {
+      models: GEMINI_MODELS,
+      imageSizes: ['2K', '4K'],
+      aspectRatios: ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'],
+    },
+
+    /**
+     * Send the template grid + prompt and return the filled grid. A
+     * reference image (multi-grid runs) goes first so later grids keep
+     * visual consistency with the first.
+     */
+    async generate({ model, prompt, templateImage, referenceImage, imageSize, aspectRatio, requestId = '?', signal, usage = {} }) {
+      requireKey();
+      const parts = [];
+
+      // If reference image provided (subsequent runs in multi-grid), add it first
+      if (referenceImage) {
+        parts.push({
+          inline_data: {
+            mime_type: referenceImage.mimeType || 'image/png',
+            data: referenceImage.data,
+          },
+        });
+      }
+
+      // Template image (always present)
+      parts.push({
+        inline_data: {
+          mime_type: templateImage.mimeType,
+          data: templateImage.data,
+        },
+      });
+
+      // Prompt text
+      parts.push({ text: prompt });
+
+      const body = {
+        contents: [{ parts }],
+        generationConfig: {
+          responseModalities: ['TEXT', 'IMAGE'],
+          temperature: 1.0,
+          imageConfig: {
+            aspectRatio,
+            imageSize,
+          },
+        },
+      };
+
+      const payloadSize = JSON.stringify(body).length;
+      console.log(`[Generate:${requestId}] payload ~${(payloadSize / 1024 / 1024).toFixed(2)}MB, imageSize: ${imageSize}`);
+
+      const response = await callGemini(apiKey, model, body, signal, 0, usage);
+
+      if (response.status === 401 || response.status === 403) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`[Generate:${requestId}] Auth error:`, errorData?.error?.message);
+        throw new ProviderError('Invalid or unauthorized API key', 401);
+      }
+
+      if (response.status === 429) {
+        console.warn(`[Generate:${requestId}] Rate limited (429)`);
+        throw new ProviderError('Rate limited — try again in a moment', 429);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`[Generate:${requestId}] API error (${response.status}):`, errorData?.error?.message);
+        throw new ProviderError(`Image generation failed (upstream ${response.status})`, 502);
+      }
+
+      const data = await response.json();
+      Object.assign(usage, readUsage(data));
+
+      const finishReason = data?.candidates?.[0]?.finishReason;
+      if (finishReason && finishReason !== 'STOP') {
+        console.warn(`[Generate:${requestId}] finishReason=${finishReason}`, {
+          candidateCount: data?.candidates?.length,
+          partTypes: (data?.candidates?.[0]?.content?.parts ?? []).map(p => p.text ? 'text' : p.inlineData ? 'image' : 'unknown'),
+        });
+      }
+
+      if (finishReason === 'SAFETY' || finishReason === 'BLOCKED') {
+        throw new ProviderError('Content was filtered by safety settings', 400);
+      }
+      if (finishReason === 'MAX_TOKENS') {
+        throw new ProviderError('Response truncated: max tokens reached', 400);
+      }
+      if (finishReason === 'RECITATION') {
+        throw new ProviderError('Response blocked: recitation policy', 400);
+      }
+
+      return parseGeminiResponse(data);
+    },
+
+    async testConnection(model) {
+      requireKey();
+      const body = {
+        contents: [{ parts: [{ text: 'Respond with "ok".' }] }],
+      };
+
+      const response = await callGemini(apiKey, model, body, undefined);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`[Gemini] Test connection error (${response.status}):`, errorData?.error?.message);
+        throw new ProviderError(`Connection test failed (upstream ${response.status})`, 502);
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Image-generation providers.
+ *
+ * A provider is an object with:
+ *   name          — short id, reported by /health and /api/provider
+ *   capabilities  — { models, imageSizes, aspectRatios }; `models` is null
+ *                   when any model name is accepted
+ *   generate(req) — req: { model, prompt, templateImage, referenceImage?,
+ *                   imageSize, aspectRatio, requestId, signal?, usage? };
+ *                   resolves to
+ *                   { text, image: { data, mimeType } | null }
+ *                   The optional AbortSignal is set by the job queue so a
+ *                   cancelled job stops its upstream request.
+ *                   The optional `usage` object is filled in with what
+ *                   the call consumed as far as the provider knows:
+ *                   { retries, promptTokens, outputTokens, totalTokens,
+ *                   imageCount } — also on failure.
+ *   testConnection(model) — resolves when the provider is usable
+ *
+ * Failures are thrown as ProviderError carrying the HTTP status the route
+ * should answer with.
+ */
+
+import { createGeminiProvider } from './gemini.js';
+import { createFixtureProvider } from './fixture.js';
+
+export { ProviderError } from './errors.js';
+
+export const PROVIDER_NAMES = ['gemini', 'fixture'];
+
+/**
+ * Pick the provider from the environment: IMAGE_PROVIDER when set,
+ * otherwise Gemini when a key is configured and the local fixture
+ * provider when not.
+ */
+export function createProvider(env, { fixturesDir }) {
+  const name = env.IMAGE_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'fixture');
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(env.GEMINI_API_KEY);
+    case 'fixture':
+      return createFixtureProvider(fixturesDir);
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
@@ -1,19 +1,46 @@
 import { Router } from 'express';
-import { mkdirSync, writeFileSync, readdirSync, statSync, existsSync } from 'fs';
+import { mkdirSync, writeFileSync, readFileSync, readdirSync, statSync, existsSync, rmSync } from 'fs';
 import { join, resolve, sep } from 'path';
+import { writeZip } from '../zip.js';
+
+/** Plain file names only: no separators, no leading dot. */
+const SAFE_EXPORT_NAME = /^[a-zA-Z0-9_-][a-zA-Z0-9_.-]*$/;
+
+/** Relative paths of every file under dir, sorted, using "/" separators. */
+function listFiles(dir, prefix = '') {
+  return readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(d => d.isDirectory()
+      ? listFiles(join(dir, d.name), `${prefix}${d.name}/`)
+      : [`${prefix}${d.name}`]);
+}
 
 export function createArchiveRouter(outputDir) {
   const resolvedOutputDir = resolve(outputDir) + sep;
   const router = Router();
 
+  /** Absolute path of an existing archive folder, or null if the name is unsafe or missing. */
+  function resolveFolder(folder) {
+    if (typeof folder !== 'string' || !SAFE_EXPORT_NAME.test(folder)) return null;
+    const folderPath = join(outputDir, folder);
+    if (!resolve(folderPath).startsWith(resolvedOutputDir)) return null;
+    if (!existsSync(folderPath) || !statSync(folderPath).isDirectory()) return null;
+    return folderPath;
+  }
+
   router.post('/', (req, res, next) => {
     try {
-      const { contentName, filledGridImage, filledGridMimeType, sprites } = req.body;
+      const { contentName, filledGridImage, filledGridMimeType, sprites, exports, manifest } = req.body;
 
       if (!contentName || !filledGridImage) {
         return res.status(400).json({ error: 'contentName and filledGridImage are required' });
       }
 
+      if (exports !== undefined && (!Array.isArray(exports) || exports.some(f =>
+        typeof f?.filename !== 'string' || typeof f.data !== 'string' || !SAFE_EXPORT_NAME.test(f.filename)))) {
+        return res.status(400).json({ error: 'exports must be an array of { filename, data } with plain file names' });
+      }
+
       // Build folder name: content-name_YYYYMMDD-HHmmss
       const slug = contentName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
       const ts = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14).replace(/(\d{8})(\d{6})/, '$1-$2');
@@ -31,6 +58,7 @@ export function createArchiveRouter(outputDir) {
       writeFileSync(join(folderPath, `grid.${gridExt}`), Buffer.from(filledGridImage, 'base64'));
 
       // Save individual sprites
+      const spriteFiles = [];
       let spriteCount = 0;
       if (sprites && Array.isArray(sprites)) {
         const spritesDir = join(folderPath, 'sprites');
@@ -47,12 +75,41 @@ export function createArchiveRouter(outputDir) {
             return res.status(400).json({ error: 'Invalid sprite name' });
           }
           writeFileSync(spritePath, Buffer.from(s.imageData, 'base64'));
+          const pivot = s.pivot && Number.isFinite(s.pivot.x) && Number.isFinite(s.pivot.y)
+            ? { pivot: { x: s.pivot.x, y: s.pivot.y } }
+            : {};
+          spriteFiles.push({ cellIndex: s.cellIndex, label: s.poseName || '', file: `sprites/${filename}`, ...pivot });
           spriteCount++;
         }
       }
 
-      console.log(`[Archive] Saved to ${folderName}: grid + ${spriteCount} sprites`);
-      res.status(201).json({ folder: folderName, spriteCount });
+      // Save engine export files (atlas PNG, .tres, .meta, .tsx, ...)
+      let exportCount = 0;
+      if (exports && exports.length > 0) {
+        const exportsDir = join(folderPath, 'exports');
+        mkdirSync(exportsDir, { recursive: true });
+
+        for (const f of exports) {
+          const exportPath = join(exportsDir, f.filename);
+          if (!resolve(exportPath).startsWith(resolvedOutputDir)) {
+            return res.status(400).json({ error: 'Invalid export file' });
+          }
+          writeFileSync(exportPath, Buffer.from(f.data, f.encoding === 'base64' ? 'base64' : 'utf8'));
+          exportCount++;
+        }
+      }
+
+      // Manifest: generation metadata supplied by the client plus the file map
+      writeFileSync(join(folderPath, 'manifest.json'), JSON.stringify({
+        contentName,
+        createdAt: new Date().toISOString(),
+        ...(manifest && typeof manifest === 'object' ? manifest : {}),
+        grid: `grid.${gridExt}`,
+        sprites: spriteFiles,
+      }, null, 2));
+
+      console.log(`[Archive] Saved to ${folderName}: grid + ${spriteCount} sprites + ${exportCount} exports`);
+      res.status(201).json({ folder: folderName, spriteCount, exportCount });
     } catch (err) { next(err); }
   });
 
@@ -71,10 +128,13 @@ export function createArchiveRouter(outputDir) {
           const hasGrid = existsSync(join(full, 'grid.png')) || existsSync(join(full, 'grid.jpg'));
           const spritesDir = join(full, 'sprites');
           const spriteCount = existsSync(spritesDir) ? readdirSync(spritesDir).length : 0;
+          const exportsDir = join(full, 'exports');
+          const exportFiles = existsSync(exportsDir) ? readdirSync(exportsDir) : [];
           return {
             folder: name,
             hasGrid,
             spriteCount,
+            exportFiles,
             createdAt: statSync(full).birthtime.toISOString(),
           };
         })
@@ -84,5 +144,38 @@ export function createArchiveRouter(outputDir) {
     } catch (err) { next(err); }
   });
 
+  router.get('/:folder/download', (req, res, next) => {
+    try {
+      const folderPath = resolveFolder(req.params.folder);
+      if (!folderPath) return res.status(404).json({ error: 'Archive not found' });
+
+      const files = listFiles(folderPath);
+      const entries = files.map(rel => ({ name: rel, read: () => readFileSync(join(folderPath, rel)) }));
+      // Folders archived before manifests existed get one built from the file list
+      if (!files.includes('manifest.json')) {
+        const manifest = {
+          grid: files.find(f => /^grid\.(png|jpg)$/.test(f)) ?? null,
+          sprites: files.filter(f => f.startsWith('sprites/')).map(file => ({ file })),
+        };
+        entries.push({ name: 'manifest.json', read: () => Buffer.from(JSON.stringify(manifest, null, 2)) });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${req.params.folder}.zip"`);
+      writeZip(res, entries);
+    } catch (err) { next(err); }
+  });
+
+  router.delete('/:folder', (req, res, next) => {
+    try {
+      const folderPath = resolveFolder(req.params.folder);
+      if (!folderPath) return res.status(404).json({ error: 'Archive not found' });
+
+      rmSync(folderPath, { recursive: true, force: true });
+      console.log(`[Archive] Deleted ${req.params.folder}`);
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
   return router;
 }
@@ -0,0 +1,229 @@
+import { Router } from 'express';
+import { parseIntParam } from '../utils.js';
+import { PRESET_TABLES } from '../presetTables.js';
+import { MAX_BATCH_JOBS } from './jobs.js';
+
+const VALID_SPRITE_TYPES = new Set(Object.keys(PRESET_TABLES));
+const MAX_RUNS_PER_VARIANT = 5;
+
+function mapVariantRow(r) {
+  return {
+    id: r.id,
+    label: r.label,
+    templateId: r.template_id,
+    templateVersion: r.template_version,
+    prompt: r.prompt,
+    summary: {
+      runs: r.runs,
+      succeeded: r.succeeded,
+      detected: r.detected,
+      cellMatches: r.cell_matches,
+      avgPurity: r.avg_purity,
+      avgRating: r.avg_rating,
+      rated: r.rated,
+    },
+  };
+}
+
+function mapResultRow(r) {
+  return {
+    id: r.id,
+    variantId: r.variant_id,
+    status: r.status,
+    error: r.error,
+    extractionMode: r.extraction_mode,
+    expectedCells: r.expected_cells,
+    extractedCells: r.extracted_cells,
+    chromaPurity: r.chroma_purity,
+    rating: r.rating,
+    hasImage: r.has_image === 1,
+    createdAt: r.created_at,
+  };
+}
+
+/**
+ * Prompt A/B experiments: one content run through two or more prompt
+ * variants. The client generates and measures each run and posts the
+ * outcome here; variant summaries are aggregated from the results.
+ */
+export function createExperimentsRouter(db) {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    try {
+      const rows = db.prepare(`
+        SELECT e.*,
+          (SELECT COUNT(*) FROM experiment_variants v WHERE v.experiment_id = e.id) AS variant_count,
+          (SELECT COUNT(*) FROM experiment_results r
+            JOIN experiment_variants v ON v.id = r.variant_id WHERE v.experiment_id = e.id) AS result_count
+        FROM experiments e ORDER BY e.created_at DESC, e.id DESC
+      `).all();
+      res.json(rows.map(r => ({
+        id: r.id,
+        name: r.name,
+        spriteType: r.sprite_type,
+        contentName: r.content_name,
+        gridSize: r.grid_size,
+        runsPerVariant: r.runs_per_variant,
+        variantCount: r.variant_count,
+        resultCount: r.result_count,
+        createdAt: r.created_at,
+      })));
+    } catch (err) { next(err); }
+  });
+
+  router.post('/', (req, res, next) => {
+    try {
+      const { name, spriteType, contentName, contentPresetId, gridSize, runsPerVariant, variants } = req.body;
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'name is required' });
+      }
+      if (!VALID_SPRITE_TYPES.has(spriteType)) {
+        return res.status(400).json({ error: `Invalid spriteType. Allowed: ${[...VALID_SPRITE_TYPES].join(', ')}` });
+      }
+      const runs = runsPerVariant ?? 1;
+      if (!Number.isInteger(runs) || runs < 1 || runs > MAX_RUNS_PER_VARIANT) {
+        return res.status(400).json({ error: `runsPerVariant must be an integer from 1 to ${MAX_RUNS_PER_VARIANT}` });
+      }
+      if (!Array.isArray(variants) || variants.length < 2) {
+        return res.status(400).json({ error: 'At least two variants are required' });
+      }
+      if (variants.some(v => !v || typeof v.label !== 'string' || !v.label.trim() || typeof v.prompt !== 'string' || !v.prompt.trim())) {
+        return res.status(400).json({ error: 'Each variant needs a label and a prompt' });
+      }
+      // Every run is queued in one batch, so the whole experiment must fit in it
+      if (variants.length * runs > MAX_BATCH_JOBS) {
+        return res.status(400).json({ error: `An experiment can queue at most ${MAX_BATCH_JOBS} generations (variants × runs per variant)` });
+      }
+
+      const created = db.transaction(() => {
+        const result = db.prepare(`
+          INSERT INTO experiments (name, sprite_type, content_name, content_preset_id, grid_size, runs_per_variant)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(name.trim(), spriteType, contentName ?? '', contentPresetId ?? null, gridSize ?? null, runs);
+        const experimentId = Number(result.lastInsertRowid);
+        const insertVariant = db.prepare(`
+          INSERT INTO experiment_variants (experiment_id, label, template_id, template_version, prompt)
+          VALUES (?, ?, ?, ?, ?)
+        `);
+        const variantRows = variants.map(v => ({
+          id: Number(insertVariant.run(experimentId, v.label.trim(), v.templateId ?? null, v.templateVersion ?? null, v.prompt).lastInsertRowid),
+          label: v.label.trim(),
+        }));
+        return { id: experimentId, variants: variantRows };
+      })();
+      res.status(201).json(created);
+    } catch (err) { next(err); }
+  });
+
+  // Full image of one result, kept out of the experiment payload
+  router.get('/results/:resultId/image', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.resultId);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const row = db.prepare('SELECT image, mime_type FROM experiment_results WHERE id = ?').get(id);
+      if (!row || !row.image) return res.status(404).json({ error: 'Not found' });
+      res.json({ data: row.image, mimeType: row.mime_type });
+    } catch (err) { next(err); }
+  });
+
+  router.put('/results/:resultId/rating', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.resultId);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const { rating } = req.body;
+      if (rating !== null && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+        return res.status(400).json({ error: 'rating must be an integer from 1 to 5, or null' });
+      }
+      const result = db.prepare('UPDATE experiment_results SET rating = ? WHERE id = ?').run(rating, id);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/:id', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const experiment = db.prepare('SELECT * FROM experiments WHERE id = ?').get(id);
+      if (!experiment) return res.status(404).json({ error: 'Not found' });
+
+      const variants = db.prepare(`
+        SELECT v.*,
+          COUNT(r.id) AS runs,
+          COALESCE(SUM(r.status = 'succeeded'), 0) AS succeeded,
+          COALESCE(SUM(r.extraction_mode = 'detected'), 0) AS detected,
+          COALESCE(SUM(r.status = 'succeeded' AND r.extracted_cells = r.expected_cells), 0) AS cell_matches,
+          AVG(r.chroma_purity) AS avg_purity,
+          AVG(r.rating) AS avg_rating,
+          COUNT(r.rating) AS rated
+        FROM experiment_variants v
+        LEFT JOIN experiment_results r ON r.variant_id = v.id
+        WHERE v.experiment_id = ?
+        GROUP BY v.id
+        ORDER BY v.id
+      `).all(id);
+      const results = db.prepare(`
+        SELECT r.id, r.variant_id, r.status, r.error, r.extraction_mode, r.expected_cells, r.extracted_cells,
+          r.chroma_purity, r.rating, r.image IS NOT NULL AS has_image, r.created_at
+        FROM experiment_results r
+        JOIN experiment_variants v ON v.id = r.variant_id
+        WHERE v.experiment_id = ?
+        ORDER BY r.id
+      `).all(id);
+
+      res.json({
+        id: experiment.id,
+        name: experiment.name,
+        spriteType: experiment.sprite_type,
+        contentName: experiment.content_name,
+        contentPresetId: experiment.content_preset_id,
+        gridSize: experiment.grid_size,
+        runsPerVariant: experiment.runs_per_variant,
+        createdAt: experiment.created_at,
+        variants: variants.map(mapVariantRow),
+        results: results.map(mapResultRow),
+      });
+    } catch (err) { next(err); }
+  });
+
+  // One finished (or failed) run of a variant, measured by the client
+  router.post('/:id/results', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const { variantId, status, error, extractionMode, expectedCells, extractedCells, chromaPurity, image, mimeType } = req.body;
+      if (status !== 'succeeded' && status !== 'failed') {
+        return res.status(400).json({ error: 'status must be "succeeded" or "failed"' });
+      }
+      if (chromaPurity != null && (typeof chromaPurity !== 'number' || chromaPurity < 0 || chromaPurity > 1)) {
+        return res.status(400).json({ error: 'chromaPurity must be a number from 0 to 1' });
+      }
+      const variant = db.prepare('SELECT id FROM experiment_variants WHERE id = ? AND experiment_id = ?').get(variantId, id);
+      if (!variant) return res.status(404).json({ error: 'Variant not found' });
+
+      const result = db.prepare(`
+        INSERT INTO experiment_results
+          (variant_id, status, error, extraction_mode, expected_cells, extracted_cells, chroma_purity, image, mime_type)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        variantId, status, error ?? null, extractionMode ?? null,
+        expectedCells ?? 0, extractedCells ?? 0, chromaPurity ?? null,
+        image ?? null, image ? (mimeType || 'image/png') : null,
+      );
+      res.status(201).json({ id: Number(result.lastInsertRowid) });
+    } catch (err) { next(err); }
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const result = db.prepare('DELETE FROM experiments WHERE id = ?').run(id);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
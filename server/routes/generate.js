@@ -1,53 +1,74 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
-import { parseGeminiResponse } from '../utils.js';
-
-const GEMINI_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
-const MAX_RETRIES = 3;
-const BASE_DELAY_MS = 2000;
+import { ProviderError } from '../providers/index.js';
+import { PRESET_TABLES } from '../presetTables.js';
+import { passThrough } from '../middleware.js';
 
 export const ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
 export const ALLOWED_IMAGE_SIZES = ['2K', '4K'];
 export const ALLOWED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
 
-export const ALLOWED_MODELS = [
-  'nano-banana-pro-preview',
-  'gemini-2.5-flash-preview-05-20',
-  'gemini-2.5-flash',
-  'gemini-2.5-pro-preview-05-06',
-  'gemini-2.0-flash',
-  'gemini-2.0-flash-lite',
-  'gemini-2.0-flash-image-generation',
-  'gemini-1.5-flash',
-  'gemini-1.5-pro',
-];
-
-async function callGemini(apiKey, model, body, retries = 0) {
-  const url = `${GEMINI_BASE}/${model}:generateContent`;
-  console.log(`[Gemini] ${model} -> ${url} (attempt ${retries + 1})`);
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-goog-api-key': apiKey,
-    },
-    body: JSON.stringify(body),
-  });
+/** Reject values outside a provider capability list; null accepts anything. */
+function unsupported(list, value) {
+  return Array.isArray(list) && !list.includes(value);
+}
+
+/**
+ * Check a generation request body against the route vocabulary and the
+ * provider's capabilities. Returns { request } with defaults applied, or
+ * { error } describing the first problem. Shared with the job queue routes.
+ */
+export function validateGenerateRequest(body, capabilities) {
+  const { model, prompt, templateImage, imageSize = '2K', referenceImage, aspectRatio = '1:1', spriteType, contentPresetId } = body || {};
+
+  if (!model || !prompt || !templateImage) {
+    return { error: 'model, prompt, and templateImage are required' };
+  }
+
+  if (unsupported(capabilities.models, model)) {
+    return { error: `Invalid model. Allowed models: ${capabilities.models.join(', ')}` };
+  }
+
+  if (!ALLOWED_IMAGE_SIZES.includes(imageSize) || unsupported(capabilities.imageSizes, imageSize)) {
+    const sizes = capabilities.imageSizes ?? ALLOWED_IMAGE_SIZES;
+    return { error: `Invalid imageSize. Allowed values: ${sizes.join(', ')}` };
+  }
 
-  console.log(`[Gemini] Response status: ${response.status}`);
+  if (!ALLOWED_ASPECT_RATIOS.includes(aspectRatio) || unsupported(capabilities.aspectRatios, aspectRatio)) {
+    const ratios = capabilities.aspectRatios ?? ALLOWED_ASPECT_RATIOS;
+    return { error: `Invalid aspectRatio. Allowed values: ${ratios.join(', ')}` };
+  }
 
-  if (response.status === 429 && retries < MAX_RETRIES) {
-    const delay = BASE_DELAY_MS * Math.pow(2, retries);
-    console.warn(`[Gemini] Rate limited (429). Retrying in ${delay}ms (attempt ${retries + 1}/${MAX_RETRIES})...`);
-    await new Promise((resolve) => setTimeout(resolve, delay));
-    return callGemini(apiKey, model, body, retries + 1);
+  if (templateImage.mimeType && !ALLOWED_MIME_TYPES.includes(templateImage.mimeType)) {
+    return { error: `Invalid templateImage mimeType. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}` };
   }
 
-  return response;
+  if (referenceImage?.mimeType && !ALLOWED_MIME_TYPES.includes(referenceImage.mimeType)) {
+    return { error: `Invalid referenceImage mimeType. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}` };
+  }
+
+  // What the generation was for, so usage can be totalled per content preset
+  const attribution = {
+    ...(Object.hasOwn(PRESET_TABLES, spriteType) ? { spriteType } : {}),
+    ...(typeof contentPresetId === 'string' && contentPresetId ? { contentPresetId } : {}),
+  };
+
+  return { request: { model, prompt, templateImage, referenceImage, imageSize, aspectRatio, ...attribution } };
 }
 
-export function createGenerateRouter(apiKey) {
+function sendProviderError(res, err, fallbackMessage, logPrefix) {
+  if (err instanceof ProviderError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`${logPrefix}:`, err);
+  return res.status(502).json({ error: fallbackMessage });
+}
+
+/**
+ * `budgetGuard` is middleware run before each generation (see usage.js);
+ * without one nothing is refused.
+ */
+export function createGenerateRouter(provider, { budgetGuard = passThrough } = {}) {
   const router = Router();
 
   const generateLimiter = rateLimit({
@@ -58,128 +79,32 @@ export function createGenerateRouter(apiKey) {
     message: { error: 'Too many generation requests. Please wait before trying again.' },
   });
 
+  /**
+   * GET /api/provider
+   * Active image provider and what it supports, so the client can adapt.
+   */
+  router.get('/provider', (_req, res) => {
+    res.json({ name: provider.name, capabilities: provider.capabilities });
+  });
+
   /**
    * POST /api/generate-grid
    * Body: { model, prompt, templateImage: { data, mimeType }, imageSize,
-   *         referenceImage?: { data, mimeType } }
+   *         referenceImage?: { data, mimeType }, spriteType?, contentPresetId? }
    *
-   * Sends the template grid image + prompt to Gemini and returns the filled grid.
-   * When referenceImage is provided (multi-grid runs), it is sent as the first
-   * image part so subsequent grids maintain visual consistency with the first.
+   * Sends the template grid image + prompt to the active provider and
+   * returns the filled grid. When referenceImage is provided (multi-grid
+   * runs) the provider uses it to keep later grids consistent with the first.
    */
-  router.post('/generate-grid', generateLimiter, async (req, res) => {
+  router.post('/generate-grid', generateLimiter, budgetGuard, async (req, res) => {
     try {
-      const { model, prompt, templateImage, imageSize = '2K', referenceImage, aspectRatio = '1:1' } = req.body;
-
-      if (!model || !prompt || !templateImage) {
-        return res.status(400).json({ error: 'model, prompt, and templateImage are required' });
-      }
-
-      if (!ALLOWED_MODELS.includes(model)) {
-        return res.status(400).json({ error: `Invalid model. Allowed models: ${ALLOWED_MODELS.join(', ')}` });
-      }
-
-      if (!ALLOWED_IMAGE_SIZES.includes(imageSize)) {
-        return res.status(400).json({ error: `Invalid imageSize. Allowed values: ${ALLOWED_IMAGE_SIZES.join(', ')}` });
-      }
+      const { request, error } = validateGenerateRequest(req.body, provider.capabilities);
+      if (error) return res.status(400).json({ error });
 
-      if (!ALLOWED_ASPECT_RATIOS.includes(aspectRatio)) {
-        return res.status(400).json({ error: `Invalid aspectRatio. Allowed values: ${ALLOWED_ASPECT_RATIOS.join(', ')}` });
-      }
-
-      if (templateImage.mimeType && !ALLOWED_MIME_TYPES.includes(templateImage.mimeType)) {
-        return res.status(400).json({ error: `Invalid templateImage mimeType. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}` });
-      }
-
-      if (referenceImage?.mimeType && !ALLOWED_MIME_TYPES.includes(referenceImage.mimeType)) {
-        return res.status(400).json({ error: `Invalid referenceImage mimeType. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}` });
-      }
-
-      const parts = [];
-
-      // If reference image provided (subsequent runs in multi-grid), add it first
-      if (referenceImage) {
-        parts.push({
-          inline_data: {
-            mime_type: referenceImage.mimeType || 'image/png',
-            data: referenceImage.data,
-          },
-        });
-      }
-
-      // Template image (always present)
-      parts.push({
-        inline_data: {
-          mime_type: templateImage.mimeType,
-          data: templateImage.data,
-        },
-      });
-
-      // Prompt text
-      parts.push({ text: prompt });
-
-      const generationConfig = {
-        responseModalities: ['TEXT', 'IMAGE'],
-        temperature: 1.0,
-        imageConfig: {
-          aspectRatio,
-          imageSize,
-        },
-      };
-
-      const body = {
-        contents: [{ parts }],
-        generationConfig,
-      };
-
-      const payloadSize = JSON.stringify(body).length;
-      const rid = req.id || '?';
-      console.log(`[Generate:${rid}] payload ~${(payloadSize / 1024 / 1024).toFixed(2)}MB, imageSize: ${imageSize}`);
-
-      const response = await callGemini(apiKey, model, body);
-
-      if (response.status === 401 || response.status === 403) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error(`[Generate:${rid}] Auth error:`, errorData?.error?.message);
-        return res.status(401).json({ error: 'Invalid or unauthorized API key' });
-      }
-
-      if (response.status === 429) {
-        console.warn(`[Generate:${rid}] Rate limited (429)`);
-        return res.status(429).json({ error: 'Rate limited — try again in a moment' });
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error(`[Generate:${rid}] API error (${response.status}):`, errorData?.error?.message);
-        return res.status(502).json({ error: `Image generation failed (upstream ${response.status})` });
-      }
-
-      const data = await response.json();
-
-      const finishReason = data?.candidates?.[0]?.finishReason;
-      if (finishReason && finishReason !== 'STOP') {
-        console.warn(`[Generate:${rid}] finishReason=${finishReason}`, {
-          candidateCount: data?.candidates?.length,
-          partTypes: (data?.candidates?.[0]?.content?.parts ?? []).map(p => p.text ? 'text' : p.inlineData ? 'image' : 'unknown'),
-        });
-      }
-
-      if (finishReason === 'SAFETY' || finishReason === 'BLOCKED') {
-        return res.status(400).json({ error: 'Content was filtered by safety settings' });
-      }
-      if (finishReason === 'MAX_TOKENS') {
-        return res.status(400).json({ error: 'Response truncated: max tokens reached' });
-      }
-      if (finishReason === 'RECITATION') {
-        return res.status(400).json({ error: 'Response blocked: recitation policy' });
-      }
-
-      const result = parseGeminiResponse(data);
+      const result = await provider.generate({ ...request, requestId: req.id || '?' });
       return res.json(result);
     } catch (err) {
-      console.error(`[Generate:${req.id || '?'}] Generate grid error:`, err);
-      return res.status(502).json({ error: 'Image generation failed unexpectedly' });
+      return sendProviderError(res, err, 'Image generation failed unexpectedly', `[Generate:${req.id || '?'}] Generate grid error`);
     }
   });
 
@@ -194,27 +119,16 @@ export function createGenerateRouter(apiKey) {
   router.post('/test-connection', testConnectionLimiter, async (req, res) => {
     try {
       const { model = 'nano-banana-pro-preview' } = req.body || {};
+      const { models } = provider.capabilities;
 
-      if (!ALLOWED_MODELS.includes(model)) {
-        return res.status(400).json({ error: `Invalid model. Allowed models: ${ALLOWED_MODELS.join(', ')}` });
-      }
-
-      const body = {
-        contents: [{ parts: [{ text: 'Respond with "ok".' }] }],
-      };
-
-      const response = await callGemini(apiKey, model, body);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error(`[Gemini] Test connection error (${response.status}):`, errorData?.error?.message);
-        return res.status(502).json({ error: `Connection test failed (upstream ${response.status})` });
+      if (unsupported(models, model)) {
+        return res.status(400).json({ error: `Invalid model. Allowed models: ${models.join(', ')}` });
       }
 
-      return res.json({ success: true, model });
+      await provider.testConnection(model);
+      return res.json({ success: true, model, provider: provider.name });
     } catch (err) {
-      console.error('[Gemini] Test connection error:', err);
-      return res.status(502).json({ error: 'Connection test failed unexpectedly' });
+      return sendProviderError(res, err, 'Connection test failed unexpectedly', `[${provider.name}] Test connection error`);
     }
   });
 
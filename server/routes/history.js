@@ -4,6 +4,52 @@ import { PRESET_TABLES } from '../presetTables.js';
 import { ALLOWED_MIME_TYPES } from './generate.js';
 
 const VALID_SPRITE_TYPES = new Set(Object.keys(PRESET_TABLES));
+const SEAM_FIX_METHODS = ['offset-blend', 'cross-fade'];
+
+/**
+ * Check a sprites payload for POST /:id/sprites and PUT /:id/grid.
+ * Returns an error message, or null when every sprite is valid.
+ */
+function validateSprites(sprites) {
+  if (!Array.isArray(sprites)) {
+    return 'sprites must be an array';
+  }
+  if (sprites.length === 0) {
+    return 'sprites array must not be empty';
+  }
+  for (let i = 0; i < sprites.length; i++) {
+    const s = sprites[i];
+    if (typeof s.cellIndex !== 'number') {
+      return `sprites[${i}].cellIndex must be a number`;
+    }
+    if (typeof s.poseId !== 'string' || s.poseId.trim() === '') {
+      return `sprites[${i}].poseId must be a non-empty string`;
+    }
+    if (typeof s.poseName !== 'string' || s.poseName.trim() === '') {
+      return `sprites[${i}].poseName must be a non-empty string`;
+    }
+    if (typeof s.imageData !== 'string' || s.imageData.trim() === '') {
+      return `sprites[${i}].imageData must be a non-empty string`;
+    }
+    if (typeof s.mimeType !== 'string' || s.mimeType.trim() === '') {
+      return `sprites[${i}].mimeType must be a non-empty string`;
+    }
+    if (!ALLOWED_MIME_TYPES.includes(s.mimeType)) {
+      return `sprites[${i}].mimeType is invalid. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+/** The content fields a generation was made from, or null for older entries. */
+function parseContentSnapshot(json) {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
 
 export function createHistoryRouter(db) {
   const router = Router();
@@ -49,11 +95,23 @@ export function createHistoryRouter(db) {
         groupId: gen.group_id || null,
         contentPresetId: gen.content_preset_id || null,
         thumbnailCellIndex: gen.thumbnail_cell_index,
+        prompt: gen.prompt || '',
+        request: {
+          model: gen.model,
+          imageSize: gen.image_size || null,
+          aspectRatio: gen.aspect_ratio || '1:1',
+          promptTemplateId: gen.prompt_template_id ?? null,
+          promptTemplateVersion: gen.prompt_template_version ?? null,
+          referenceImageHash: gen.reference_image_hash || null,
+          gridLinkId: gen.grid_link_id ?? null,
+          content: parseContentSnapshot(gen.content_snapshot),
+        },
         sprites: sprites.map(s => ({
           cellIndex: s.cell_index,
           label: s.pose_name,
           imageData: s.image_data,
           mimeType: s.mime_type,
+          seamFix: s.seam_fix_image ? { imageData: s.seam_fix_image, method: s.seam_fix_method } : null,
         })),
       });
     } catch (err) { next(err); }
@@ -64,7 +122,10 @@ export function createHistoryRouter(db) {
       if (!req.body || typeof req.body !== 'object') {
         return res.status(400).json({ error: 'Request body is required' });
       }
-      const { contentName, contentDescription, model, prompt, templateImage, filledGridImage, spriteType, gridSize, aspectRatio, groupId, contentPresetId } = req.body;
+      const {
+        contentName, contentDescription, model, prompt, templateImage, filledGridImage, spriteType, gridSize, aspectRatio, groupId, contentPresetId,
+        imageSize, promptTemplateId, promptTemplateVersion, referenceImageHash, gridLinkId, contentSnapshot,
+      } = req.body;
       if (typeof contentName !== 'string' || contentName.trim() === '') {
         return res.status(400).json({ error: 'contentName is required and must be a non-empty string' });
       }
@@ -75,11 +136,19 @@ export function createHistoryRouter(db) {
       if (!VALID_SPRITE_TYPES.has(effectiveSpriteType)) {
         return res.status(400).json({ error: `Invalid sprite_type: ${effectiveSpriteType}` });
       }
+      if (contentSnapshot != null && (typeof contentSnapshot !== 'object' || Array.isArray(contentSnapshot))) {
+        return res.status(400).json({ error: 'contentSnapshot must be an object' });
+      }
 
       const result = db.prepare(
-        `INSERT INTO generations (content_name, content_description, model, prompt, template_image, filled_grid_image, sprite_type, grid_size, aspect_ratio, group_id, content_preset_id)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      ).run(contentName, contentDescription, model, prompt, templateImage || '', filledGridImage || '', effectiveSpriteType, gridSize || null, aspectRatio || '1:1', groupId || null, contentPresetId || null);
+        `INSERT INTO generations (content_name, content_description, model, prompt, template_image, filled_grid_image, sprite_type, grid_size, aspect_ratio, group_id, content_preset_id,
+          image_size, prompt_template_id, prompt_template_version, reference_image_hash, grid_link_id, content_snapshot)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        contentName, contentDescription, model, prompt, templateImage || '', filledGridImage || '', effectiveSpriteType, gridSize || null, aspectRatio || '1:1', groupId || null, contentPresetId || null,
+        imageSize || null, promptTemplateId ?? null, promptTemplateVersion ?? null, referenceImageHash || null, gridLinkId ?? null,
+        contentSnapshot ? JSON.stringify(contentSnapshot) : null,
+      );
 
       res.status(201).json({ id: Number(result.lastInsertRowid) });
     } catch (err) { next(err); }
@@ -94,33 +163,8 @@ export function createHistoryRouter(db) {
         return res.status(400).json({ error: 'Request body is required' });
       }
       const { sprites } = req.body;
-      if (!Array.isArray(sprites)) {
-        return res.status(400).json({ error: 'sprites must be an array' });
-      }
-      if (sprites.length === 0) {
-        return res.status(400).json({ error: 'sprites array must not be empty' });
-      }
-      for (let i = 0; i < sprites.length; i++) {
-        const s = sprites[i];
-        if (typeof s.cellIndex !== 'number') {
-          return res.status(400).json({ error: `sprites[${i}].cellIndex must be a number` });
-        }
-        if (typeof s.poseId !== 'string' || s.poseId.trim() === '') {
-          return res.status(400).json({ error: `sprites[${i}].poseId must be a non-empty string` });
-        }
-        if (typeof s.poseName !== 'string' || s.poseName.trim() === '') {
-          return res.status(400).json({ error: `sprites[${i}].poseName must be a non-empty string` });
-        }
-        if (typeof s.imageData !== 'string' || s.imageData.trim() === '') {
-          return res.status(400).json({ error: `sprites[${i}].imageData must be a non-empty string` });
-        }
-        if (typeof s.mimeType !== 'string' || s.mimeType.trim() === '') {
-          return res.status(400).json({ error: `sprites[${i}].mimeType must be a non-empty string` });
-        }
-        if (!ALLOWED_MIME_TYPES.includes(s.mimeType)) {
-          return res.status(400).json({ error: `sprites[${i}].mimeType is invalid. Allowed values: ${ALLOWED_MIME_TYPES.join(', ')}` });
-        }
-      }
+      const invalid = validateSprites(sprites);
+      if (invalid) return res.status(400).json({ error: invalid });
 
       const insert = db.prepare(
         `INSERT INTO sprites (generation_id, cell_index, pose_id, pose_name, image_data, mime_type)
@@ -138,6 +182,85 @@ export function createHistoryRouter(db) {
     } catch (err) { next(err); }
   });
 
+  // Replace the filled grid after some of its cells were regenerated, along
+  // with the sprites of those cells. Other sprites are left untouched.
+  router.put('/:id/grid', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+
+      if (!req.body || typeof req.body !== 'object') {
+        return res.status(400).json({ error: 'Request body is required' });
+      }
+      const { filledGridImage, sprites } = req.body;
+      if (typeof filledGridImage !== 'string' || filledGridImage.trim() === '') {
+        return res.status(400).json({ error: 'filledGridImage must be a non-empty string' });
+      }
+      const invalid = validateSprites(sprites);
+      if (invalid) return res.status(400).json({ error: invalid });
+
+      const remove = db.prepare('DELETE FROM sprites WHERE generation_id = ? AND cell_index = ?');
+      const insert = db.prepare(
+        `INSERT INTO sprites (generation_id, cell_index, pose_id, pose_name, image_data, mime_type)
+       VALUES (?, ?, ?, ?, ?, ?)`
+      );
+
+      const replace = db.transaction(() => {
+        const result = db.prepare(
+          `UPDATE generations SET filled_grid_image = ?, updated_at = datetime('now') WHERE id = ?`
+        ).run(filledGridImage, id);
+        if (result.changes === 0) return false;
+        for (const s of sprites) {
+          remove.run(id, s.cellIndex);
+          insert.run(id, s.cellIndex, s.poseId, s.poseName, s.imageData, s.mimeType);
+        }
+        return true;
+      });
+
+      if (!replace()) return res.status(404).json({ error: 'Not found' });
+      res.json({ count: sprites.length });
+    } catch (err) { next(err); }
+  });
+
+  // Seamless-tiling fix of one terrain tile (PNG), kept next to the
+  // original sprite. Replacing the sprite via PUT /:id/grid drops it.
+  router.put('/:id/sprites/:cellIndex/seam-fix', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      const cellIndex = Number(req.params.cellIndex);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      if (!Number.isInteger(cellIndex) || cellIndex < 0) return res.status(400).json({ error: 'Invalid cellIndex' });
+
+      const { imageData, method } = req.body ?? {};
+      if (typeof imageData !== 'string' || imageData.trim() === '') {
+        return res.status(400).json({ error: 'imageData must be a non-empty string' });
+      }
+      if (!SEAM_FIX_METHODS.includes(method)) {
+        return res.status(400).json({ error: `method must be one of: ${SEAM_FIX_METHODS.join(', ')}` });
+      }
+      const result = db.prepare(
+        'UPDATE sprites SET seam_fix_image = ?, seam_fix_method = ? WHERE generation_id = ? AND cell_index = ?'
+      ).run(imageData, method, id, cellIndex);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  router.delete('/:id/sprites/:cellIndex/seam-fix', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      const cellIndex = Number(req.params.cellIndex);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      if (!Number.isInteger(cellIndex) || cellIndex < 0) return res.status(400).json({ error: 'Invalid cellIndex' });
+
+      const result = db.prepare(
+        'UPDATE sprites SET seam_fix_image = NULL, seam_fix_method = NULL WHERE generation_id = ? AND cell_index = ?'
+      ).run(id, cellIndex);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
   router.put('/:id/thumbnail', (req, res, next) => {
     try {
       const id = parseIntParam(req.params.id);
@@ -0,0 +1,163 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { parseIntParam } from '../utils.js';
+import { validateGenerateRequest } from './generate.js';
+import { JOB_STATUSES, TERMINAL_STATUSES } from '../jobQueue.js';
+import { passThrough } from '../middleware.js';
+
+const HEARTBEAT_MS = 25 * 1000;
+const MAX_LIST_LIMIT = 200;
+/** Most jobs one batch may queue — an experiment's full set of runs fits. */
+export const MAX_BATCH_JOBS = 40;
+
+/**
+ * `budgetGuard` runs before a job is queued, as for /api/generate-grid;
+ * `batchBudgetGuard` before a batch, and should count the batch's own
+ * expected cost. The queue checks the budget again before running each job.
+ */
+export function createJobsRouter(queue, provider, { budgetGuard = passThrough, batchBudgetGuard = passThrough } = {}) {
+  const router = Router();
+
+  const enqueueLimiter = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 10,             // 10 jobs per minute per IP
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { error: 'Too many generation requests. Please wait before trying again.' },
+  });
+
+  /**
+   * POST /api/jobs
+   * Body: the /api/generate-grid body plus an optional `label`.
+   * Queues the generation and answers immediately with the job.
+   */
+  router.post('/', enqueueLimiter, budgetGuard, (req, res, next) => {
+    try {
+      const { request, error } = validateGenerateRequest(req.body, provider.capabilities);
+      if (error) return res.status(400).json({ error });
+
+      const label = typeof req.body.label === 'string' ? req.body.label.slice(0, 200) : '';
+      const job = queue.enqueue(request, { label });
+      console.log(`[Jobs:${req.id || '?'}] queued job ${job.id}${label ? ` (${label})` : ''}`);
+      res.status(201).json(job);
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * POST /api/jobs/batch
+   * Body: { jobs: [/api/jobs body, ...] }.
+   * Queues every job or none, counting as a single request against the
+   * rate limit, so a run of many generations is not cut off partway.
+   */
+  router.post('/batch', enqueueLimiter, batchBudgetGuard, (req, res, next) => {
+    try {
+      const { jobs } = req.body;
+      if (!Array.isArray(jobs) || jobs.length === 0 || jobs.length > MAX_BATCH_JOBS) {
+        return res.status(400).json({ error: `jobs must be an array of 1 to ${MAX_BATCH_JOBS} requests` });
+      }
+      const requests = [];
+      for (const [i, body] of jobs.entries()) {
+        const { request, error } = validateGenerateRequest(body, provider.capabilities);
+        if (error) return res.status(400).json({ error: `jobs[${i}]: ${error}` });
+        requests.push({ request, label: typeof body.label === 'string' ? body.label.slice(0, 200) : '' });
+      }
+
+      const queued = requests.map(({ request, label }) => queue.enqueue(request, { label }));
+      console.log(`[Jobs:${req.id || '?'}] queued jobs ${queued.map((j) => j.id).join(', ')}`);
+      res.status(201).json({ jobs: queued });
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * GET /api/jobs?status=&limit=
+   * Recent jobs, newest first, without result payloads.
+   */
+  router.get('/', (req, res, next) => {
+    try {
+      const { status } = req.query;
+      if (status !== undefined && !JOB_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Invalid status. Allowed values: ${JOB_STATUSES.join(', ')}` });
+      }
+      const limit = req.query.limit === undefined ? 50 : parseIntParam(req.query.limit);
+      if (limit === null || limit > MAX_LIST_LIMIT) {
+        return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIST_LIMIT}` });
+      }
+      res.json(queue.list({ status, limit }));
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * GET /api/jobs/:id
+   * Job status; includes the provider result once the job has succeeded.
+   */
+  router.get('/:id', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+
+      const job = queue.get(id, { includeResult: true });
+      if (!job) return res.status(404).json({ error: 'Not found' });
+      res.json(job);
+    } catch (err) { next(err); }
+  });
+
+  /** POST /api/jobs/:id/cancel */
+  router.post('/:id/cancel', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+
+      const job = queue.cancel(id);
+      if (!job) return res.status(404).json({ error: 'Not found' });
+      if (job.status !== 'cancelled') {
+        return res.status(409).json({ error: `Job already ${job.status}` });
+      }
+      res.json(job);
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * GET /api/jobs/:id/events
+   * Server-sent events: a `job` event with the current snapshot, then one
+   * per status change. The stream ends after a terminal status; fetch
+   * GET /api/jobs/:id for the result.
+   */
+  router.get('/:id/events', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+
+      const current = queue.get(id);
+      if (!current) return res.status(404).json({ error: 'Not found' });
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders?.();
+
+      let closed = false;
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+      const send = (job) => {
+        if (closed) return;
+        res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+        if (TERMINAL_STATUSES.includes(job.status)) close();
+      };
+
+      const unsubscribe = queue.subscribe(id, send);
+      req.on('close', close);
+      send(current);
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
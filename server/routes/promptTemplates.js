@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { parseIntParam } from '../utils.js';
+import { PRESET_TABLES } from '../presetTables.js';
+
+const VALID_SPRITE_TYPES = new Set(Object.keys(PRESET_TABLES));
+
+function mapTemplateRow(r) {
+  return {
+    id: r.id,
+    name: r.name,
+    spriteType: r.sprite_type,
+    body: r.body,
+    version: r.version,
+    isActive: r.is_active === 1,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+/**
+ * Prompt templates with {{placeholder}} variables. Every change of a
+ * template's body is kept as a new version; at most one template per sprite
+ * type is active, and with none active the built-in prompt builders apply.
+ */
+export function createPromptTemplatesRouter(db) {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    try {
+      const { sprite_type } = req.query;
+      const rows = sprite_type
+        ? db.prepare('SELECT * FROM prompt_templates WHERE sprite_type = ? ORDER BY name').all(sprite_type)
+        : db.prepare('SELECT * FROM prompt_templates ORDER BY sprite_type, name').all();
+      res.json(rows.map(mapTemplateRow));
+    } catch (err) { next(err); }
+  });
+
+  // Active template per sprite type, keyed by type; types using the built-in prompt are absent
+  router.get('/active', (req, res, next) => {
+    try {
+      const rows = db.prepare('SELECT * FROM prompt_templates WHERE is_active = 1').all();
+      res.json(Object.fromEntries(rows.map(r => [r.sprite_type, mapTemplateRow(r)])));
+    } catch (err) { next(err); }
+  });
+
+  router.post('/', (req, res, next) => {
+    try {
+      const { name, spriteType, body } = req.body;
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'name is required' });
+      }
+      if (!VALID_SPRITE_TYPES.has(spriteType)) {
+        return res.status(400).json({ error: `Invalid spriteType. Allowed: ${[...VALID_SPRITE_TYPES].join(', ')}` });
+      }
+      if (typeof body !== 'string' || !body.trim()) {
+        return res.status(400).json({ error: 'body is required' });
+      }
+      const id = db.transaction(() => {
+        const result = db.prepare(
+          'INSERT INTO prompt_templates (name, sprite_type, body) VALUES (?, ?, ?)'
+        ).run(name.trim(), spriteType, body);
+        const templateId = Number(result.lastInsertRowid);
+        db.prepare(
+          'INSERT INTO prompt_template_versions (template_id, version, body) VALUES (?, 1, ?)'
+        ).run(templateId, body);
+        return templateId;
+      })();
+      res.status(201).json({ id, version: 1 });
+    } catch (err) { next(err); }
+  });
+
+  // A body that differs from the current one becomes the next version
+  router.put('/:id', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const { name, body } = req.body;
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return res.status(400).json({ error: 'name must be a non-empty string' });
+      }
+      if (body !== undefined && (typeof body !== 'string' || !body.trim())) {
+        return res.status(400).json({ error: 'body must be a non-empty string' });
+      }
+
+      const version = db.transaction(() => {
+        const row = db.prepare('SELECT * FROM prompt_templates WHERE id = ?').get(id);
+        if (!row) return null;
+        const bodyChanged = body !== undefined && body !== row.body;
+        const next = bodyChanged ? row.version + 1 : row.version;
+        db.prepare(`
+          UPDATE prompt_templates SET name = ?, body = ?, version = ?, updated_at = datetime('now')
+          WHERE id = ?
+        `).run(name !== undefined ? name.trim() : row.name, bodyChanged ? body : row.body, next, id);
+        if (bodyChanged) {
+          db.prepare(
+            'INSERT INTO prompt_template_versions (template_id, version, body) VALUES (?, ?, ?)'
+          ).run(id, next, body);
+        }
+        return next;
+      })();
+      if (version === null) return res.status(404).json({ error: 'Not found' });
+      res.json({ version });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/:id/versions', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const rows = db.prepare(
+        'SELECT version, body, created_at FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC'
+      ).all(id);
+      res.json(rows.map(r => ({ version: r.version, body: r.body, createdAt: r.created_at })));
+    } catch (err) { next(err); }
+  });
+
+  // Make this the template its sprite type builds prompts from
+  router.put('/:id/activate', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const found = db.transaction(() => {
+        const row = db.prepare('SELECT sprite_type FROM prompt_templates WHERE id = ?').get(id);
+        if (!row) return false;
+        db.prepare('UPDATE prompt_templates SET is_active = 0 WHERE sprite_type = ?').run(row.sprite_type);
+        db.prepare('UPDATE prompt_templates SET is_active = 1 WHERE id = ?').run(id);
+        return true;
+      })();
+      if (!found) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  // Go back to the built-in prompt builder for a sprite type
+  router.delete('/active/:spriteType', (req, res, next) => {
+    try {
+      const { spriteType } = req.params;
+      if (!VALID_SPRITE_TYPES.has(spriteType)) {
+        return res.status(400).json({ error: `Invalid spriteType. Allowed: ${[...VALID_SPRITE_TYPES].join(', ')}` });
+      }
+      db.prepare('UPDATE prompt_templates SET is_active = 0 WHERE sprite_type = ?').run(spriteType);
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    try {
+      const id = parseIntParam(req.params.id);
+      if (id === null) return res.status(400).json({ error: 'Invalid id' });
+      const result = db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id);
+      if (result.changes === 0) return res.status(404).json({ error: 'Not found' });
+      res.json({ success: true });
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
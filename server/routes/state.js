@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-const VALID_STATE_KEYS = ['lastHistoryId'];
+const VALID_STATE_KEYS = ['lastHistoryId', 'activeJob'];
 
 export function createStateRouter(db) {
   const router = Router();
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { parseIntParam } from '../utils.js';
+import { PRESET_TABLES } from '../presetTables.js';
+import { getMonthlyBudget, setMonthlyBudget, monthToDateCost } from '../usage.js';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const MAX_CALLS_LIMIT = 200;
+
+// Shared aggregate columns for every breakdown
+const TOTALS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(status = 'succeeded'), 0) AS succeeded,
+  COALESCE(SUM(status = 'failed'), 0) AS failed,
+  COALESCE(SUM(retries), 0) AS retries,
+  COALESCE(SUM(image_count), 0) AS images,
+  COALESCE(SUM(total_tokens), 0) AS tokens,
+  CAST(COALESCE(AVG(latency_ms), 0) AS INTEGER) AS avg_latency_ms,
+  COALESCE(SUM(cost), 0) AS cost
+`;
+
+function mapTotals(r) {
+  return {
+    calls: r.calls,
+    succeeded: r.succeeded,
+    failed: r.failed,
+    retries: r.retries,
+    images: r.images,
+    tokens: r.tokens,
+    avgLatencyMs: r.avg_latency_ms,
+    cost: r.cost,
+  };
+}
+
+/** A content preset's name for the per-preset breakdown; null once deleted. */
+function presetName(db, spriteType, id) {
+  if (!Object.hasOwn(PRESET_TABLES, spriteType) || !id) return null;
+  const config = PRESET_TABLES[spriteType];
+  return db.prepare(`SELECT name FROM ${config.table} WHERE id = ?`).get(id)?.name ?? null;
+}
+
+/**
+ * Provider usage: totals per day, model and content preset over a window,
+ * the most recent calls, and the monthly budget.
+ */
+export function createUsageRouter(db) {
+  const router = Router();
+
+  router.get('/summary', (req, res, next) => {
+    try {
+      const days = req.query.days === undefined ? DEFAULT_DAYS : parseIntParam(req.query.days);
+      if (days === null || days > MAX_DAYS) {
+        return res.status(400).json({ error: `days must be between 1 and ${MAX_DAYS}` });
+      }
+      const since = `-${days - 1} days`;
+      const where = "WHERE created_at >= datetime('now', 'start of day', ?)";
+
+      const totals = db.prepare(`SELECT ${TOTALS} FROM provider_calls ${where}`).get(since);
+      const byDay = db.prepare(`
+        SELECT date(created_at) AS day, ${TOTALS} FROM provider_calls ${where}
+        GROUP BY day ORDER BY day
+      `).all(since);
+      const byModel = db.prepare(`
+        SELECT model, ${TOTALS} FROM provider_calls ${where}
+        GROUP BY model ORDER BY cost DESC, calls DESC
+      `).all(since);
+      const byPreset = db.prepare(`
+        SELECT sprite_type, content_preset_id, ${TOTALS} FROM provider_calls ${where}
+        GROUP BY sprite_type, content_preset_id ORDER BY cost DESC, calls DESC
+      `).all(since);
+
+      res.json({
+        days,
+        totals: mapTotals(totals),
+        byDay: byDay.map(r => ({ day: r.day, ...mapTotals(r) })),
+        byModel: byModel.map(r => ({ model: r.model, ...mapTotals(r) })),
+        byPreset: byPreset.map(r => ({
+          spriteType: r.sprite_type,
+          contentPresetId: r.content_preset_id,
+          presetName: presetName(db, r.sprite_type, r.content_preset_id),
+          ...mapTotals(r),
+        })),
+        budget: { monthlyBudget: getMonthlyBudget(db), spent: monthToDateCost(db) },
+      });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/calls', (req, res, next) => {
+    try {
+      const limit = req.query.limit === undefined ? 50 : parseIntParam(req.query.limit);
+      if (limit === null || limit > MAX_CALLS_LIMIT) {
+        return res.status(400).json({ error: `limit must be between 1 and ${MAX_CALLS_LIMIT}` });
+      }
+      const rows = db.prepare('SELECT * FROM provider_calls ORDER BY id DESC LIMIT ?').all(limit);
+      res.json(rows.map(r => ({
+        id: r.id,
+        provider: r.provider,
+        model: r.model,
+        imageSize: r.image_size,
+        aspectRatio: r.aspect_ratio,
+        spriteType: r.sprite_type,
+        contentPresetId: r.content_preset_id,
+        status: r.status,
+        httpStatus: r.http_status,
+        error: r.error,
+        latencyMs: r.latency_ms,
+        retries: r.retries,
+        promptTokens: r.prompt_tokens,
+        outputTokens: r.output_tokens,
+        totalTokens: r.total_tokens,
+        imageCount: r.image_count,
+        cost: r.cost,
+        createdAt: r.created_at,
+      })));
+    } catch (err) { next(err); }
+  });
+
+  router.put('/budget', (req, res, next) => {
+    try {
+      const { monthlyBudget } = req.body;
+      if (monthlyBudget !== null && (typeof monthlyBudget !== 'number' || !Number.isFinite(monthlyBudget) || monthlyBudget <= 0)) {
+        return res.status(400).json({ error: 'monthlyBudget must be a positive number, or null' });
+      }
+      setMonthlyBudget(db, monthlyBudget);
+      res.json({ monthlyBudget, spent: monthToDateCost(db) });
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
@@ -0,0 +1,156 @@
+/**
+ * Provider usage tracking.
+ *
+ * Every generation call that reaches the image provider is written to the
+ * provider_calls table with its latency, 429 retries, outcome and what the
+ * provider reported consuming, plus an estimated cost. An optional monthly
+ * budget (kept in app_state) stops new generations once the month's
+ * estimated spend reaches it, both when they are requested and when the
+ * job queue is about to run them.
+ */
+
+import { ProviderError } from './providers/index.js';
+
+const BUDGET_KEY = 'monthlyBudget';
+
+/**
+ * Estimated USD prices per provider: a flat price per returned image by
+ * size plus input tokens. Providers missing here (the local fixtures) cost
+ * nothing.
+ */
+export const PRICING = {
+  gemini: {
+    image: { '2K': 0.134, '4K': 0.24 },
+    inputPerMillionTokens: 2,
+  },
+};
+
+/** Estimated USD cost of one call. */
+export function estimateCost({ provider, imageSize, imageCount, promptTokens }) {
+  const pricing = PRICING[provider];
+  if (!pricing) return 0;
+  const imagePrice = pricing.image[imageSize] ?? pricing.image['2K'];
+  return imageCount * imagePrice + ((promptTokens ?? 0) / 1_000_000) * pricing.inputPerMillionTokens;
+}
+
+/**
+ * Wrap a provider so each generate() call is recorded. The wrapped
+ * provider hands the call a `usage` object to fill in (see
+ * providers/index.js); calls that never reach the provider are not
+ * recorded. Recording failures are logged, never thrown.
+ */
+export function withUsageTracking(provider, db) {
+  const insert = db.prepare(`
+    INSERT INTO provider_calls
+      (provider, model, image_size, aspect_ratio, sprite_type, content_preset_id, status, http_status, error,
+       latency_ms, retries, prompt_tokens, output_tokens, total_tokens, image_count, cost)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  function record(req, usage, startedAt, outcome) {
+    const imageCount = usage.imageCount ?? outcome.imageCount;
+    try {
+      insert.run(
+        provider.name, req.model, req.imageSize ?? null, req.aspectRatio ?? null,
+        req.spriteType ?? null, req.contentPresetId ?? null,
+        outcome.status, outcome.httpStatus ?? null, outcome.error ?? null,
+        Date.now() - startedAt, usage.retries ?? 0,
+        usage.promptTokens ?? null, usage.outputTokens ?? null, usage.totalTokens ?? null,
+        imageCount,
+        estimateCost({ provider: provider.name, imageSize: req.imageSize, imageCount, promptTokens: usage.promptTokens }),
+      );
+    } catch (err) {
+      console.error(`[Usage:${req.requestId || '?'}] Failed to record provider call:`, err);
+    }
+  }
+
+  return {
+    ...provider,
+
+    async generate(req) {
+      const usage = { retries: 0 };
+      const startedAt = Date.now();
+      try {
+        const result = await provider.generate({ ...req, usage });
+        record(req, usage, startedAt, { status: 'succeeded', imageCount: result?.image ? 1 : 0 });
+        return result;
+      } catch (err) {
+        record(req, usage, startedAt, {
+          status: req.signal?.aborted ? 'cancelled' : 'failed',
+          httpStatus: err instanceof ProviderError ? err.status : null,
+          error: err instanceof Error ? err.message : String(err),
+          imageCount: 0,
+        });
+        throw err;
+      }
+    },
+  };
+}
+
+/** The monthly budget in USD, or null when none is set. */
+export function getMonthlyBudget(db) {
+  const row = db.prepare('SELECT value FROM app_state WHERE key = ?').get(BUDGET_KEY);
+  const value = row ? Number(row.value) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** Set the monthly budget in USD; null removes it. */
+export function setMonthlyBudget(db, budget) {
+  if (budget === null) {
+    db.prepare('DELETE FROM app_state WHERE key = ?').run(BUDGET_KEY);
+    return;
+  }
+  db.prepare(
+    'INSERT INTO app_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+  ).run(BUDGET_KEY, String(budget));
+}
+
+/** Estimated spend since the start of the current (UTC) month. */
+export function monthToDateCost(db) {
+  return db.prepare(
+    "SELECT COALESCE(SUM(cost), 0) AS spent FROM provider_calls WHERE created_at >= datetime('now', 'start of month')"
+  ).get().spent;
+}
+
+/** Estimated USD cost of queued requests, before any tokens are known. */
+export function estimateRequestsCost(providerName, requests) {
+  if (!Array.isArray(requests)) return 0;
+  return requests.reduce(
+    (sum, request) => sum + estimateCost({ provider: providerName, imageSize: request?.imageSize, imageCount: 1 }),
+    0,
+  );
+}
+
+/**
+ * Why new generations expected to cost `projected` must not run: the
+ * month's estimated spend has reached the budget, or would pass it with
+ * them. Null when they may run or no budget is set.
+ */
+export function budgetRefusal(db, projected = 0) {
+  const budget = getMonthlyBudget(db);
+  if (budget === null) return null;
+  const spent = monthToDateCost(db);
+  if (spent >= budget) {
+    return `Monthly generation budget of $${budget.toFixed(2)} reached ($${spent.toFixed(2)} spent). Raise it in Admin → Usage.`;
+  }
+  if (spent + projected > budget) {
+    return `These generations (about $${projected.toFixed(2)}) would go over the monthly budget of $${budget.toFixed(2)} ($${spent.toFixed(2)} spent). Raise it in Admin → Usage.`;
+  }
+  return null;
+}
+
+/**
+ * Middleware refusing new generations (402) once the month's estimated
+ * spend has reached the budget. `projectCost(req)` adds the expected cost
+ * of the request itself, for routes that queue many generations at once.
+ * Passes everything through without a budget.
+ */
+export function createBudgetGuard(db, { projectCost = () => 0 } = {}) {
+  return (req, res, next) => {
+    try {
+      const refusal = budgetRefusal(db, projectCost(req));
+      if (refusal) return res.status(402).json({ error: refusal });
+      next();
+    } catch (err) { next(err); }
+  };
+}
@@ -9,29 +9,36 @@ import { AppProvider, useAppContext } from './context/AppContext';
 import { AppHeader, AppTab } from './components/layout/AppHeader';
 import { UnifiedConfigPanel } from './components/config/UnifiedConfigPanel';
 import { SpriteReview } from './components/grid/SpriteReview';
+import { CandidatePicker } from './components/grid/CandidatePicker';
 import { GeneratingOverlay } from './components/shared/GeneratingOverlay';
 import { StatusBanner } from './components/shared/StatusBanner';
+import { RunSummary } from './components/shared/RunSummary';
 import { AnimationPreview } from './components/preview/AnimationPreview';
 import { GalleryPage } from './components/gallery/GalleryPage';
+import { MapPainterPage } from './components/map/MapPainterPage';
 import { AdminPage } from './components/admin/AdminPage';
 
 import { ErrorBoundary } from './components/shared/ErrorBoundary';
 import { useRunWorkflow } from './hooks/useRunWorkflow';
-import { cancelActiveGeneration } from './hooks/useGenericWorkflow';
+import { cancelActiveGeneration, resumeActiveGeneration } from './hooks/useGenericWorkflow';
 import { loadGenerationIntoState } from './lib/loadGeneration';
+import { fetchActivePromptTemplates } from './lib/promptTemplates';
 
 function AppContent() {
   const { state, dispatch } = useAppContext();
   const [tab, setTab] = useState<AppTab>('designer');
   const restoredRef = useRef(false);
 
-  // Restore last session from DB on mount
+  // Restore last session from DB on mount — a generation still in flight
+  // when the page closed takes precedence over the last saved entry
   useEffect(() => {
     if (restoredRef.current) return;
     restoredRef.current = true;
 
     (async () => {
       try {
+        if (await resumeActiveGeneration(dispatch)) return;
+
         const stateRes = await fetch('/api/state/lastHistoryId');
         if (!stateRes.ok) return;
         const { value } = await stateRes.json();
@@ -53,6 +60,16 @@ function AppContent() {
     })();
   }, [dispatch]);
 
+  // Active prompt templates; sprite types without one use the built-in prompts
+  useEffect(() => {
+    fetchActivePromptTemplates()
+      .then((templates) => dispatch({ type: 'SET_PROMPT_TEMPLATES', templates }))
+      .catch((err: unknown) => {
+        console.error('Failed to load prompt templates:', err);
+        dispatch({ type: 'SET_STATUS', message: 'Failed to load prompt templates — using built-in prompts', statusType: 'warning' });
+      });
+  }, [dispatch]);
+
   // Global unhandled promise rejection handler
   useEffect(() => {
     const handler = (event: PromiseRejectionEvent) => {
@@ -85,7 +102,8 @@ function AppContent() {
   const runTriggerRef = useRef<string | null>(null);
   useEffect(() => {
     if (state.step === 'run-active' && run) {
-      const key = `${run.currentGridIndex}`;
+      // Attempts are part of the key so a failed auto-run grid is retried
+      const key = `${run.currentGridIndex}:${run.results[run.currentGridIndex]?.attempts ?? 0}`;
       if (runTriggerRef.current !== key) {
         runTriggerRef.current = key;
         generateCurrentGrid();
@@ -123,6 +141,9 @@ function AppContent() {
                     <p style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>
                       Run: Grid {(run.currentGridIndex ?? 0) + 1} of {run.selectedGridLinks.length}
                       {' '}&mdash; {run.selectedGridLinks[run.currentGridIndex]?.gridName}
+                      {run.mode === 'auto' && (run.results[run.currentGridIndex]?.attempts ?? 0) > 0 && (
+                        <> (attempt {run.results[run.currentGridIndex].attempts + 1} of {run.maxRetries + 1})</>
+                      )}
                     </p>
                     <button className="btn btn-sm btn-danger" style={{ marginTop: 8 }} onClick={cancelRun}>
                       Cancel Run
@@ -131,10 +152,25 @@ function AppContent() {
                 )}
               </>
             )}
+            {state.step === 'candidates' && (
+              <ErrorBoundary resetKeys={[state.step]} onReset={resetToConfig} sectionLabel="the candidate picker">
+                <CandidatePicker />
+              </ErrorBoundary>
+            )}
             {state.step === 'review' && (
               <ErrorBoundary resetKeys={[state.step]} onReset={resetToConfig} sectionLabel="the sprite review">
                 <SpriteReview />
-                {run && (
+                {!run && state.runSummary && (
+                  <div className="run-review-bar">
+                    <span className="run-review-progress">From unattended run</span>
+                    <div className="run-review-actions">
+                      <button className="btn btn-sm btn-primary" onClick={() => dispatch({ type: 'SET_STEP', step: 'run-summary' })}>
+                        Back to Run Summary
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {run && run.mode === 'manual' && (
                   <div className="run-review-bar">
                     <span className="run-review-progress">
                       Grid {(run.currentGridIndex ?? 0) + 1} of {run.selectedGridLinks.length}
@@ -166,6 +202,11 @@ function AppContent() {
                 <AnimationPreview />
               </ErrorBoundary>
             )}
+            {state.step === 'run-summary' && state.runSummary && (
+              <ErrorBoundary resetKeys={[state.step]} onReset={resetToConfig} sectionLabel="the run summary">
+                <RunSummary summary={state.runSummary} />
+              </ErrorBoundary>
+            )}
             {state.step === 'run-active' && run && (
               <div className="config-panel" style={{ textAlign: 'center' }}>
                 <h2>Preparing Grid</h2>
@@ -194,6 +235,12 @@ function AppContent() {
           </ErrorBoundary>
         )}
 
+        {tab === 'map' && (
+          <ErrorBoundary resetKeys={[tab]} onReset={resetToConfig} sectionLabel="the map painter">
+            <MapPainterPage />
+          </ErrorBoundary>
+        )}
+
         {tab === 'admin' && (
           <ErrorBoundary resetKeys={[tab]} onReset={resetToConfig} sectionLabel="the admin panel">
             <AdminPage />
@@ -1,39 +1,146 @@
 /**
- * Client for the grid-fill Gemini API proxy.
+ * Client for the image-generation API: server-side generation jobs and
+ * the provider connection test.
  */
 
+import type { GenerationJob } from '../types/api';
+
 export interface GridGenerateResult {
   text: string;
   image: { data: string; mimeType: string } | null;
 }
 
-export async function generateGrid(
-  model: string,
-  prompt: string,
-  templateImage: { data: string; mimeType: string },
-  imageSize: string = '2K',
-  signal?: AbortSignal,
-  referenceImage?: { data: string; mimeType: string },
-  aspectRatio: string = '1:1',
-): Promise<GridGenerateResult> {
-  const body: Record<string, unknown> = { model, prompt, templateImage, imageSize, aspectRatio };
-  if (referenceImage) body.referenceImage = referenceImage;
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  templateImage: { data: string; mimeType: string };
+  imageSize?: string;
+  aspectRatio?: string;
+  referenceImage?: { data: string; mimeType: string };
+  /** Shown in job listings */
+  label?: string;
+  /** What the generation is for, totalled per preset in the usage dashboard */
+  spriteType?: string;
+  contentPresetId?: string;
+}
+
+/** Usage attribution fields for a request; the preset id is left out when unknown. */
+export function usageAttribution(
+  spriteType: string,
+  contentPresetId?: number | string | null,
+): Pick<GenerateRequest, 'spriteType' | 'contentPresetId'> {
+  return { spriteType, ...(contentPresetId != null && contentPresetId !== '' ? { contentPresetId: String(contentPresetId) } : {}) };
+}
 
-  const response = await fetch('/api/generate-grid', {
+async function errorFrom(response: Response, fallback: string): Promise<Error> {
+  const err = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+  return new Error(err.error || `${fallback} (${response.status})`);
+}
+
+/** Queue a grid generation on the server. Resolves once the job is queued. */
+export async function enqueueGeneration(request: GenerateRequest, signal?: AbortSignal): Promise<GenerationJob> {
+  const response = await fetch('/api/jobs', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    body: JSON.stringify(request),
     signal,
   });
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-    throw new Error(err.error || `Generation failed (${response.status})`);
-  }
+  if (!response.ok) throw await errorFrom(response, 'Generation failed');
+  return response.json();
+}
 
+/**
+ * Queue several generations in one request: all of them or, on an error,
+ * none. Use this rather than repeated enqueueGeneration calls, which the
+ * server rate-limits one by one.
+ */
+export async function enqueueGenerations(requests: GenerateRequest[], signal?: AbortSignal): Promise<GenerationJob[]> {
+  const response = await fetch('/api/jobs/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobs: requests }),
+    signal,
+  });
+
+  if (!response.ok) throw await errorFrom(response, 'Generation failed');
+  const { jobs }: { jobs: GenerationJob[] } = await response.json();
+  return jobs;
+}
+
+/** Job status, including the result once it has succeeded. */
+export async function fetchJob(id: number, signal?: AbortSignal): Promise<GenerationJob> {
+  const response = await fetch(`/api/jobs/${id}`, { signal });
+  if (!response.ok) throw await errorFrom(response, 'Failed to load generation job');
   return response.json();
 }
 
+export async function cancelJob(id: number): Promise<void> {
+  const response = await fetch(`/api/jobs/${id}/cancel`, { method: 'POST' });
+  // 409: the job finished first, nothing left to cancel
+  if (!response.ok && response.status !== 409) throw await errorFrom(response, 'Failed to cancel generation');
+}
+
+/**
+ * Follow a job over server-sent events until it finishes and resolve with
+ * its result. `onUpdate` receives every status snapshot (queue position,
+ * running). Aborting the signal cancels the job on the server.
+ */
+export function waitForJob(
+  id: number,
+  signal: AbortSignal,
+  onUpdate?: (job: GenerationJob) => void,
+): Promise<GridGenerateResult> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+
+    const finish = () => {
+      source.close();
+      signal.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      finish();
+      cancelJob(id).catch((err) => console.warn(`Failed to cancel job ${id}:`, err));
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+
+    source.addEventListener('job', (event) => {
+      const job: GenerationJob = JSON.parse((event as MessageEvent).data);
+      onUpdate?.(job);
+
+      if (job.status === 'succeeded') {
+        finish();
+        fetchJob(id, signal).then(
+          (full) => resolve(full.result ?? { text: '', image: null }),
+          reject,
+        );
+      } else if (job.status === 'failed') {
+        finish();
+        reject(new Error(job.error || 'Generation failed'));
+      } else if (job.status === 'cancelled') {
+        finish();
+        reject(new Error('Generation was cancelled'));
+      }
+    });
+
+    // EventSource reconnects on its own after network blips; it only
+    // gives up (CLOSED) when the server refuses the stream, e.g. the job is gone.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        finish();
+        reject(new Error(`Lost track of generation job ${id}`));
+      }
+    };
+  });
+}
+
 export async function testConnection(model: string = 'nano-banana-pro-preview'): Promise<{ success: boolean; error?: string }> {
   const response = await fetch('/api/test-connection', {
     method: 'POST',
@@ -41,10 +148,6 @@ export async function testConnection(model: string = 'nano-banana-pro-preview'):
     body: JSON.stringify({ model }),
   });
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-    throw new Error(err.error || `Connection test failed (${response.status})`);
-  }
-
+  if (!response.ok) throw await errorFrom(response, 'Connection test failed');
   return response.json();
 }
@@ -1,15 +1,20 @@
 /**
- * Admin page for managing grid presets and content presets.
- * Tabbed interface: Grid Presets, Characters, Buildings, Terrain, Backgrounds.
+ * Admin page for managing grid presets, content presets, prompt templates
+ * and prompt experiments, and for watching provider usage.
+ * Tabbed interface: Grid Presets, Characters, Buildings, Terrain, Backgrounds,
+ * Prompt Templates, Experiments, Usage.
  */
 
 import { useState } from 'react';
 import { GridPresetsTab } from './GridPresetsTab';
 import { GenericPresetsTab } from './GenericPresetsTab';
+import { PromptTemplatesTab } from './PromptTemplatesTab';
+import { ExperimentsTab } from './ExperimentsTab';
+import { UsageTab } from './UsageTab';
 import type { SpriteType } from '../../context/AppContext';
 import '../../styles/admin.css';
 
-type AdminTab = 'grid-presets' | 'characters' | 'buildings' | 'terrain' | 'backgrounds';
+type AdminTab = 'grid-presets' | 'characters' | 'buildings' | 'terrain' | 'backgrounds' | 'prompt-templates' | 'experiments' | 'usage';
 
 const ADMIN_TABS: { key: AdminTab; label: string }[] = [
   { key: 'grid-presets', label: 'Grid Presets' },
@@ -17,6 +22,9 @@ const ADMIN_TABS: { key: AdminTab; label: string }[] = [
   { key: 'buildings', label: 'Buildings' },
   { key: 'terrain', label: 'Terrain' },
   { key: 'backgrounds', label: 'Backgrounds' },
+  { key: 'prompt-templates', label: 'Prompt Templates' },
+  { key: 'experiments', label: 'Experiments' },
+  { key: 'usage', label: 'Usage' },
 ];
 
 const TAB_TO_SPRITE_TYPE: Partial<Record<AdminTab, SpriteType>> = {
@@ -46,6 +54,9 @@ export function AdminPage() {
       <main className="admin-content">
         {activeTab === 'grid-presets' && <GridPresetsTab />}
         {spriteType && <GenericPresetsTab spriteType={spriteType} />}
+        {activeTab === 'prompt-templates' && <PromptTemplatesTab />}
+        {activeTab === 'experiments' && <ExperimentsTab />}
+        {activeTab === 'usage' && <UsageTab />}
       </main>
     </div>
   );
@@ -0,0 +1,361 @@
+/**
+ * Experiments admin tab.
+ * Runs the content loaded in the designer through two or more prompt
+ * variants and compares them: extraction success, chroma purity and
+ * ratings per variant, with every run listed for viewing and rating.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAppContext, type SpriteType } from '../../context/AppContext';
+import { WORKFLOW_CONFIGS } from '../../hooks/useGenericWorkflow';
+import { useExperimentRun } from '../../hooks/useExperimentRun';
+import { formatRate } from '../../lib/experiments';
+import type { Experiment, ExperimentResult, ExperimentSummary, PromptTemplate } from '../../types/api';
+
+const SPRITE_TYPES: SpriteType[] = ['character', 'building', 'terrain', 'background'];
+const MAX_RUNS_PER_VARIANT = 5;
+const BUILT_IN = 'built-in';
+
+interface NewExperiment {
+  name: string;
+  spriteType: SpriteType;
+  runsPerVariant: number;
+  /** BUILT_IN or template ids, in the order they were ticked */
+  variantKeys: string[];
+}
+
+function formatPurity(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+export function ExperimentsTab() {
+  const { state } = useAppContext();
+  const { run, cancel, running, progress } = useExperimentRun();
+  const [experiments, setExperiments] = useState<ExperimentSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Experiment | null>(null);
+  const [draft, setDraft] = useState<NewExperiment | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [viewing, setViewing] = useState<{ resultId: number; src: string } | null>(null);
+
+  // Runs report in long after they start; refresh whichever experiment is open by then
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+
+  const fetchExperiments = useCallback(async () => {
+    const res = await fetch('/api/experiments');
+    if (res.ok) setExperiments(await res.json());
+  }, []);
+
+  const fetchSelected = useCallback(async (id: number) => {
+    const res = await fetch(`/api/experiments/${id}`);
+    if (res.ok) setSelected(await res.json());
+  }, []);
+
+  useEffect(() => { fetchExperiments(); }, [fetchExperiments]);
+
+  useEffect(() => {
+    setViewing(null);
+    if (selectedId === null) setSelected(null);
+    else fetchSelected(selectedId);
+  }, [selectedId, fetchSelected]);
+
+  const draftType = draft?.spriteType;
+  useEffect(() => {
+    if (!draftType) return;
+    fetch(`/api/prompt-templates?sprite_type=${draftType}`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+  }, [draftType]);
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setDraft({
+      name: '',
+      spriteType: state.spriteType as SpriteType,
+      runsPerVariant: 2,
+      variantKeys: [BUILT_IN],
+    });
+  };
+
+  const toggleVariant = (key: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      variantKeys: draft.variantKeys.includes(key)
+        ? draft.variantKeys.filter(k => k !== key)
+        : [...draft.variantKeys, key],
+    });
+  };
+
+  const handleStart = async () => {
+    if (!draft) return;
+    const variants = draft.variantKeys.map(key => {
+      if (key === BUILT_IN) return { label: 'Built-in', template: null };
+      const template = templates.find(t => String(t.id) === key)!;
+      return { label: `${template.name} v${template.version}`, template };
+    });
+    await run(
+      { name: draft.name.trim(), spriteType: draft.spriteType, variants, runsPerVariant: draft.runsPerVariant },
+      {
+        onCreated: (id) => {
+          setDraft(null);
+          setSelectedId(id);
+          fetchExperiments();
+        },
+        onResult: () => {
+          fetchExperiments();
+          if (selectedIdRef.current !== null) fetchSelected(selectedIdRef.current);
+        },
+      },
+    );
+  };
+
+  const handleRate = async (result: ExperimentResult, rating: number) => {
+    const next = result.rating === rating ? null : rating;
+    await fetch(`/api/experiments/results/${result.id}/rating`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rating: next }),
+    });
+    if (selectedId !== null) await fetchSelected(selectedId);
+  };
+
+  const handleView = async (result: ExperimentResult) => {
+    if (viewing?.resultId === result.id) {
+      setViewing(null);
+      return;
+    }
+    const res = await fetch(`/api/experiments/results/${result.id}/image`);
+    if (!res.ok) return;
+    const image: { data: string; mimeType: string } = await res.json();
+    setViewing({ resultId: result.id, src: `data:${image.mimeType};base64,${image.data}` });
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this experiment and all of its results?')) return;
+    await fetch(`/api/experiments/${id}`, { method: 'DELETE' });
+    if (selectedId === id) setSelectedId(null);
+    await fetchExperiments();
+  };
+
+  const draftContent = draft ? WORKFLOW_CONFIGS[draft.spriteType].getContent(state) : null;
+  const variantLabel = (variantId: number) => selected?.variants.find(v => v.id === variantId)?.label ?? '';
+
+  return (
+    <div className="experiments-tab">
+      <div className="admin-toolbar">
+        {running ? (
+          <div className="experiment-progress">
+            Running: {progress.done} of {progress.total} recorded — leaving this tab cancels the rest
+            <button className="btn btn-sm" onClick={cancel}>Cancel</button>
+          </div>
+        ) : <div />}
+        <button className="btn btn-sm" onClick={handleNew} disabled={running}>New Experiment</button>
+      </div>
+
+      <div className="admin-split">
+        {/* List */}
+        <div className="admin-list">
+          {experiments.length === 0 && (
+            <div className="admin-empty">No experiments yet</div>
+          )}
+          {experiments.map(e => (
+            <div
+              key={e.id}
+              className={`admin-list-item ${selectedId === e.id ? 'active' : ''}`}
+              onClick={() => { setDraft(null); setSelectedId(e.id); }}
+            >
+              <div className="admin-list-item-name">{e.name}</div>
+              <div className="admin-list-item-meta">
+                {e.spriteType} | {e.contentName} | {e.variantCount} variants | {e.resultCount} of {e.variantCount * e.runsPerVariant} runs
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {draft && draftContent && (
+          <div className="admin-form">
+            <h3>New Experiment</h3>
+
+            <label className="admin-label">
+              Name
+              <input
+                className="admin-input"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Concise vs built-in"
+              />
+            </label>
+
+            <div className="admin-row">
+              <label className="admin-label">
+                Sprite Type
+                <select
+                  className="admin-select"
+                  value={draft.spriteType}
+                  onChange={e => setDraft({ ...draft, spriteType: e.target.value as SpriteType, variantKeys: [BUILT_IN] })}
+                >
+                  {SPRITE_TYPES.map(t => (
+                    <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="admin-label">
+                Runs per Variant
+                <input
+                  className="admin-input"
+                  type="number"
+                  min={1}
+                  max={MAX_RUNS_PER_VARIANT}
+                  value={draft.runsPerVariant}
+                  onChange={e => setDraft({
+                    ...draft,
+                    runsPerVariant: Math.min(MAX_RUNS_PER_VARIANT, Math.max(1, Number(e.target.value) || 1)),
+                  })}
+                />
+              </label>
+            </div>
+
+            <div className="admin-section">
+              <h4>Variants ({draft.variantKeys.length})</h4>
+              <label className="experiment-variant-option">
+                <input
+                  type="checkbox"
+                  checked={draft.variantKeys.includes(BUILT_IN)}
+                  onChange={() => toggleVariant(BUILT_IN)}
+                />
+                Built-in prompt
+              </label>
+              {templates.map(t => (
+                <label key={t.id} className="experiment-variant-option">
+                  <input
+                    type="checkbox"
+                    checked={draft.variantKeys.includes(String(t.id))}
+                    onChange={() => toggleVariant(String(t.id))}
+                  />
+                  {t.name} v{t.version}
+                </label>
+              ))}
+              {templates.length === 0 && (
+                <div className="admin-list-item-meta">Add prompt templates for this sprite type to compare against the built-in prompt.</div>
+              )}
+            </div>
+
+            <div className="admin-list-item-meta">
+              {draftContent.name.trim()
+                ? <>Generates &ldquo;{draftContent.name}&rdquo; as currently set up in the designer, {draft.variantKeys.length * draft.runsPerVariant} generations in all.</>
+                : <>Load a {draft.spriteType} in the designer first — experiments use its content and grid.</>}
+            </div>
+
+            <div className="admin-form-actions">
+              <button
+                className="btn"
+                onClick={handleStart}
+                disabled={running || !draft.name.trim() || draft.variantKeys.length < 2 || !draftContent.name.trim()}
+              >
+                Start Experiment
+              </button>
+              <button className="btn btn-sm" onClick={() => setDraft(null)}>Cancel</button>
+            </div>
+          </div>
+        )}
+
+        {!draft && selected && (
+          <div className="admin-form">
+            <h3>{selected.name}</h3>
+            <div className="admin-list-item-meta">
+              {selected.spriteType} | {selected.contentName} | {selected.gridSize} | {selected.runsPerVariant} runs per variant | {selected.createdAt}
+            </div>
+
+            <div className="admin-section">
+              <h4>Comparison</h4>
+              <table className="experiment-table">
+                <thead>
+                  <tr>
+                    <th>Variant</th>
+                    <th>Runs</th>
+                    <th>Succeeded</th>
+                    <th title="Grid found by detection on both axes">Detected</th>
+                    <th title="Every expected cell extracted">Cells Match</th>
+                    <th title="Share of cell borders that are clean chroma pink">Chroma Purity</th>
+                    <th>Rating</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.variants.map(v => (
+                    <tr key={v.id}>
+                      <td title={v.prompt}>{v.label}</td>
+                      <td>{v.summary.runs}</td>
+                      <td>{formatRate(v.summary.succeeded, v.summary.runs)}</td>
+                      <td>{formatRate(v.summary.detected, v.summary.succeeded)}</td>
+                      <td>{formatRate(v.summary.cellMatches, v.summary.succeeded)}</td>
+                      <td>{formatPurity(v.summary.avgPurity)}</td>
+                      <td>
+                        {v.summary.avgRating === null ? '—' : `${v.summary.avgRating.toFixed(1)} (${v.summary.rated})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="admin-section">
+              <h4>Runs ({selected.results.length})</h4>
+              {selected.results.length === 0 && (
+                <div className="admin-list-item-meta">No runs recorded yet</div>
+              )}
+              <table className="experiment-table">
+                <tbody>
+                  {selected.results.map(r => (
+                    <tr key={r.id} className={viewing?.resultId === r.id ? 'active' : ''}>
+                      <td>{variantLabel(r.variantId)}</td>
+                      {r.status === 'succeeded' ? (
+                        <>
+                          <td>{r.extractionMode}</td>
+                          <td>{r.extractedCells}/{r.expectedCells} cells</td>
+                          <td>{formatPurity(r.chromaPurity)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="experiment-error">{r.error}</td>
+                      )}
+                      <td className="experiment-rating">
+                        {[1, 2, 3, 4, 5].map(n => (
+                          <button
+                            key={n}
+                            className={`experiment-star ${r.rating !== null && n <= r.rating ? 'active' : ''}`}
+                            onClick={() => handleRate(r, n)}
+                            title={r.rating === n ? 'Clear rating' : `Rate ${n}`}
+                          >
+                            ★
+                          </button>
+                        ))}
+                      </td>
+                      <td>
+                        {r.hasImage && (
+                          <button className="btn btn-sm" onClick={() => handleView(r)}>
+                            {viewing?.resultId === r.id ? 'Hide' : 'View'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {viewing && (
+                <img className="experiment-result-image" src={viewing.src} alt="Experiment run result" />
+              )}
+            </div>
+
+            <div className="admin-form-actions">
+              <button className="btn btn-sm btn-danger" onClick={() => handleDelete(selected.id)}>
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
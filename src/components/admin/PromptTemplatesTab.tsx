@@ -0,0 +1,283 @@
+/**
+ * Prompt Templates admin tab.
+ * Per sprite type: edit templates with a live preview rendered from the
+ * content currently loaded in the designer, browse earlier versions, and
+ * pick which template (or the built-in prompt) generation uses.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAppContext, type SpriteType } from '../../context/AppContext';
+import { WORKFLOW_CONFIGS } from '../../hooks/useGenericWorkflow';
+import {
+  TEMPLATE_VARIABLES,
+  starterTemplate,
+  renderTemplate,
+  templateVariables,
+  unknownPlaceholders,
+  fetchActivePromptTemplates,
+} from '../../lib/promptTemplates';
+import type { PromptTemplate, PromptTemplateVersion } from '../../types/api';
+
+const SPRITE_TYPES: SpriteType[] = ['character', 'building', 'terrain', 'background'];
+
+interface EditingTemplate {
+  id?: number;
+  name: string;
+  body: string;
+  version?: number;
+}
+
+export function PromptTemplatesTab() {
+  const { state, dispatch } = useAppContext();
+  const [spriteType, setSpriteType] = useState<SpriteType>('character');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [editing, setEditing] = useState<EditingTemplate | null>(null);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    const res = await fetch(`/api/prompt-templates?sprite_type=${spriteType}`);
+    if (res.ok) setTemplates(await res.json());
+  }, [spriteType]);
+
+  useEffect(() => { fetchTemplates(); }, [fetchTemplates]);
+  useEffect(() => { setEditing(null); }, [spriteType]);
+
+  useEffect(() => {
+    if (!editing?.id) {
+      setVersions([]);
+      return;
+    }
+    fetch(`/api/prompt-templates/${editing.id}/versions`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [editing?.id, editing?.version]);
+
+  /** Keep the designer's active templates in step with the database. */
+  const refreshActive = useCallback(async () => {
+    try {
+      dispatch({ type: 'SET_PROMPT_TEMPLATES', templates: await fetchActivePromptTemplates() });
+    } catch {
+      dispatch({ type: 'SET_STATUS', message: 'Could not reload active prompt templates', statusType: 'warning' });
+    }
+  }, [dispatch]);
+
+  const activeTemplate = templates.find(t => t.isActive) ?? null;
+
+  const preview = useMemo(() => {
+    const config = WORKFLOW_CONFIGS[spriteType];
+    const grid = config.buildGridConfig(state);
+    if (!editing) return config.buildPrompt(state, grid);
+    return renderTemplate(editing.body, templateVariables(spriteType, config.getContent(state), grid));
+  }, [spriteType, state, editing]);
+
+  const unknown = editing
+    ? unknownPlaceholders(editing.body, TEMPLATE_VARIABLES[spriteType].map(v => v.name))
+    : [];
+
+  const handleNew = () => setEditing({ name: '', body: starterTemplate(spriteType, state.background.bgMode) });
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditing({ id: template.id, name: template.name, body: template.body, version: template.version });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      if (editing.id) {
+        const res = await fetch(`/api/prompt-templates/${editing.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: editing.name, body: editing.body }),
+        });
+        if (res.ok) {
+          const { version } = await res.json();
+          setEditing({ ...editing, version });
+        }
+        if (templates.some(t => t.id === editing.id && t.isActive)) await refreshActive();
+      } else {
+        const res = await fetch('/api/prompt-templates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: editing.name, spriteType, body: editing.body }),
+        });
+        if (res.ok) {
+          const { id, version } = await res.json();
+          setEditing({ ...editing, id, version });
+        }
+      }
+      await fetchTemplates();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (id: number) => {
+    await fetch(`/api/prompt-templates/${id}/activate`, { method: 'PUT' });
+    await fetchTemplates();
+    await refreshActive();
+  };
+
+  const handleUseBuiltIn = async () => {
+    await fetch(`/api/prompt-templates/active/${spriteType}`, { method: 'DELETE' });
+    await fetchTemplates();
+    await refreshActive();
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this prompt template and all of its versions?')) return;
+    await fetch(`/api/prompt-templates/${id}`, { method: 'DELETE' });
+    if (editing?.id === id) setEditing(null);
+    await fetchTemplates();
+    await refreshActive();
+  };
+
+  const contentName = WORKFLOW_CONFIGS[spriteType].getContent(state).name;
+
+  return (
+    <div className="prompt-templates-tab">
+      <div className="admin-toolbar">
+        <div className="admin-filter-group">
+          {SPRITE_TYPES.map(t => (
+            <button
+              key={t}
+              className={`admin-filter-btn ${spriteType === t ? 'active' : ''}`}
+              onClick={() => setSpriteType(t)}
+            >
+              {t.charAt(0).toUpperCase() + t.slice(1)}
+            </button>
+          ))}
+        </div>
+        <button className="btn btn-sm" onClick={handleNew}>New Template</button>
+      </div>
+
+      <div className="admin-split">
+        {/* List */}
+        <div className="admin-list">
+          <div
+            className={`admin-list-item ${editing === null ? 'active' : ''}`}
+            onClick={() => setEditing(null)}
+          >
+            <div className="admin-list-item-name">
+              Built-in {!activeTemplate && <span className="prompt-template-badge">in use</span>}
+            </div>
+            <div className="admin-list-item-meta">Default prompt builder</div>
+          </div>
+          {templates.map(t => (
+            <div
+              key={t.id}
+              className={`admin-list-item ${editing?.id === t.id ? 'active' : ''}`}
+              onClick={() => handleEdit(t)}
+            >
+              <div className="admin-list-item-name">
+                {t.name} {t.isActive && <span className="prompt-template-badge">in use</span>}
+              </div>
+              <div className="admin-list-item-meta">v{t.version} | updated {t.updatedAt}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="admin-form">
+          {editing ? (
+            <>
+              <h3>{editing.id ? `Edit Template (v${editing.version})` : 'New Template'}</h3>
+
+              <label className="admin-label">
+                Name
+                <input
+                  className="admin-input"
+                  value={editing.name}
+                  onChange={e => setEditing({ ...editing, name: e.target.value })}
+                />
+              </label>
+
+              <label className="admin-label">
+                Template
+                <textarea
+                  className="admin-textarea"
+                  rows={16}
+                  value={editing.body}
+                  onChange={e => setEditing({ ...editing, body: e.target.value })}
+                />
+              </label>
+
+              <div className="admin-section">
+                <h4>Placeholders</h4>
+                <ul className="prompt-template-vars">
+                  {TEMPLATE_VARIABLES[spriteType].map(v => (
+                    <li key={v.name}><code>{`{{${v.name}}}`}</code> {v.description}</li>
+                  ))}
+                </ul>
+                {unknown.length > 0 && (
+                  <div className="prompt-template-warning">
+                    Unknown placeholders are sent as written: {unknown.map(n => `{{${n}}}`).join(', ')}
+                  </div>
+                )}
+              </div>
+
+              <div className="admin-form-actions">
+                <button
+                  className="btn"
+                  onClick={handleSave}
+                  disabled={saving || !editing.name.trim() || !editing.body.trim()}
+                >
+                  {saving ? 'Saving...' : editing.id ? 'Save Version' : 'Create'}
+                </button>
+                {editing.id && !templates.find(t => t.id === editing.id)?.isActive && (
+                  <button className="btn btn-sm btn-primary" onClick={() => handleActivate(editing.id!)}>
+                    Use for {spriteType}
+                  </button>
+                )}
+                <button className="btn btn-sm" onClick={() => setEditing(null)}>Cancel</button>
+                {editing.id && (
+                  <button className="btn btn-sm btn-danger" onClick={() => handleDelete(editing.id!)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+
+              {versions.length > 0 && (
+                <div className="admin-section">
+                  <h4>Versions ({versions.length})</h4>
+                  <div className="prompt-template-versions">
+                    {versions.map(v => (
+                      <div key={v.version} className="prompt-template-version">
+                        <span>v{v.version}</span>
+                        <span className="admin-list-item-meta">{v.createdAt}</span>
+                        <button
+                          className="btn btn-sm"
+                          onClick={() => setEditing({ ...editing, body: v.body })}
+                          disabled={v.body === editing.body}
+                        >
+                          Load
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <h3>Built-in {spriteType.charAt(0).toUpperCase() + spriteType.slice(1)} Prompt</h3>
+              {activeTemplate && (
+                <div className="admin-form-actions">
+                  <button className="btn btn-sm btn-primary" onClick={handleUseBuiltIn}>
+                    Use Built-in (replaces &ldquo;{activeTemplate.name}&rdquo;)
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="admin-section">
+            <h4>Preview{contentName ? ` — ${contentName}` : ''}</h4>
+            <pre className="prompt-template-preview">{preview}</pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * Usage admin tab.
+ * Totals of the generation calls made to the image provider — per day,
+ * per model and per content preset — with the most recent calls, and the
+ * optional monthly budget that stops new generations once it is spent.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ProviderCall, UsageSummary, UsageTotals } from '../../types/api';
+
+const WINDOWS = [7, 30, 90];
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+/** The columns every breakdown table shares. */
+function TotalsCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <td>{totals.calls}</td>
+      <td className={totals.failed ? 'experiment-error' : ''}>{totals.failed}</td>
+      <td>{totals.retries}</td>
+      <td>{totals.images}</td>
+      <td>{formatLatency(totals.avgLatencyMs)}</td>
+      <td>{formatCost(totals.cost)}</td>
+    </>
+  );
+}
+
+const TOTALS_HEADERS = ['Calls', 'Failed', '429 Retries', 'Images', 'Avg Latency', 'Est. Cost'];
+
+export function UsageTab() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [calls, setCalls] = useState<ProviderCall[]>([]);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    const [summaryRes, callsRes] = await Promise.all([
+      fetch(`/api/usage/summary?days=${days}`),
+      fetch('/api/usage/calls?limit=50'),
+    ]);
+    if (summaryRes.ok) {
+      const data: UsageSummary = await summaryRes.json();
+      setSummary(data);
+      setBudgetInput(data.budget.monthlyBudget === null ? '' : String(data.budget.monthlyBudget));
+    }
+    if (callsRes.ok) setCalls(await callsRes.json());
+  }, [days]);
+
+  useEffect(() => { fetchUsage(); }, [fetchUsage]);
+
+  const saveBudget = async (monthlyBudget: number | null) => {
+    setBudgetError(null);
+    const res = await fetch('/api/usage/budget', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ monthlyBudget }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      setBudgetError(err.error || `Failed to save budget (${res.status})`);
+      return;
+    }
+    await fetchUsage();
+  };
+
+  const handleSaveBudget = () => {
+    const value = Number(budgetInput);
+    if (!budgetInput.trim() || !Number.isFinite(value) || value <= 0) {
+      setBudgetError('Enter a budget above zero, or remove it');
+      return;
+    }
+    saveBudget(value);
+  };
+
+  const budget = summary?.budget;
+  const budgetShare = budget?.monthlyBudget ? Math.min(1, budget.spent / budget.monthlyBudget) : 0;
+  const busiestDay = Math.max(1, ...(summary?.byDay.map(d => d.calls) ?? []));
+
+  return (
+    <div className="usage-tab">
+      <div className="admin-toolbar">
+        <div className="admin-filter-group">
+          {WINDOWS.map(n => (
+            <button
+              key={n}
+              className={`admin-filter-btn ${days === n ? 'active' : ''}`}
+              onClick={() => setDays(n)}
+            >
+              {n} days
+            </button>
+          ))}
+        </div>
+        <button className="btn btn-sm" onClick={fetchUsage}>Refresh</button>
+      </div>
+
+      {summary && (
+        <div className="admin-form">
+          <div className="admin-section">
+            <h4>Monthly Budget</h4>
+            <div className="usage-budget">
+              <span>
+                {formatCost(summary.budget.spent)} spent this month
+                {summary.budget.monthlyBudget !== null && <> of {formatCost(summary.budget.monthlyBudget)}</>}
+              </span>
+              {summary.budget.monthlyBudget !== null && (
+                <div className="usage-budget-bar">
+                  <div
+                    className={`usage-budget-fill ${budgetShare >= 1 ? 'over' : ''}`}
+                    style={{ width: `${budgetShare * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="admin-row">
+              <label className="admin-label">
+                Budget (USD)
+                <input
+                  className="admin-input"
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder="No budget"
+                  value={budgetInput}
+                  onChange={e => setBudgetInput(e.target.value)}
+                />
+              </label>
+            </div>
+            {budgetError && <div className="prompt-template-warning">{budgetError}</div>}
+            <div className="admin-form-actions">
+              <button className="btn btn-sm btn-primary" onClick={handleSaveBudget}>Save Budget</button>
+              {summary.budget.monthlyBudget !== null && (
+                <button className="btn btn-sm" onClick={() => saveBudget(null)}>Remove Budget</button>
+              )}
+            </div>
+            <p className="usage-note">
+              Costs are estimated from the images returned and the prompt tokens reported. Once the month&rsquo;s
+              estimate reaches the budget, new generations are refused until it is raised or the month turns.
+            </p>
+          </div>
+
+          <div className="admin-section">
+            <h4>Last {summary.days} Days</h4>
+            <div className="usage-totals">
+              <div><strong>{summary.totals.calls}</strong> calls</div>
+              <div><strong>{summary.totals.succeeded}</strong> succeeded</div>
+              <div><strong>{summary.totals.failed}</strong> failed</div>
+              <div><strong>{summary.totals.retries}</strong> 429 retries</div>
+              <div><strong>{summary.totals.images}</strong> images</div>
+              <div><strong>{summary.totals.tokens.toLocaleString()}</strong> tokens</div>
+              <div><strong>{formatCost(summary.totals.cost)}</strong> estimated</div>
+            </div>
+          </div>
+
+          {summary.byDay.length === 0 ? (
+            <div className="admin-empty">No generation calls in this window.</div>
+          ) : (
+            <>
+              <div className="admin-section">
+                <h4>Per Day</h4>
+                <table className="experiment-table">
+                  <thead>
+                    <tr><th>Day</th><th />{TOTALS_HEADERS.map(h => <th key={h}>{h}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {summary.byDay.map(d => (
+                      <tr key={d.day}>
+                        <td>{d.day}</td>
+                        <td className="usage-day-bar-cell">
+                          <div className="usage-day-bar" style={{ width: `${(d.calls / busiestDay) * 100}%` }} />
+                        </td>
+                        <TotalsCells totals={d} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="admin-section">
+                <h4>Per Model</h4>
+                <table className="experiment-table">
+                  <thead>
+                    <tr><th>Model</th>{TOTALS_HEADERS.map(h => <th key={h}>{h}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {summary.byModel.map(m => (
+                      <tr key={m.model}>
+                        <td>{m.model}</td>
+                        <TotalsCells totals={m} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="admin-section">
+                <h4>Per Preset</h4>
+                <table className="experiment-table">
+                  <thead>
+                    <tr><th>Preset</th><th>Type</th>{TOTALS_HEADERS.map(h => <th key={h}>{h}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {summary.byPreset.map(p => (
+                      <tr key={`${p.spriteType}:${p.contentPresetId}`}>
+                        <td>{p.presetName ?? p.contentPresetId ?? 'Custom / unattributed'}</td>
+                        <td>{p.spriteType ?? '—'}</td>
+                        <TotalsCells totals={p} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {calls.length > 0 && (
+            <div className="admin-section">
+              <h4>Recent Calls</h4>
+              <table className="experiment-table">
+                <thead>
+                  <tr>
+                    <th>When</th><th>Model</th><th>Size</th><th>Status</th><th>Latency</th>
+                    <th>Retries</th><th>Tokens</th><th>Est. Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {calls.map(c => (
+                    <tr key={c.id}>
+                      <td>{c.createdAt}</td>
+                      <td>{c.model}</td>
+                      <td>{c.imageSize ?? '—'}</td>
+                      <td className={c.status === 'failed' ? 'experiment-error' : ''} title={c.error ?? undefined}>
+                        {c.status}{c.httpStatus ? ` (${c.httpStatus})` : ''}
+                      </td>
+                      <td>{formatLatency(c.latencyMs)}</td>
+                      <td>{c.retries}</td>
+                      <td>{c.totalTokens ?? '—'}</td>
+                      <td>{formatCost(c.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,22 +7,18 @@
  */
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { useGenericWorkflow, WORKFLOW_CONFIGS } from '../../hooks/useGenericWorkflow';
+import { useGenericWorkflow, buildWorkflowPrompt, WORKFLOW_CONFIGS } from '../../hooks/useGenericWorkflow';
 import {
   useAppState,
   type SpriteType,
   type GridLink,
+  type RunMode,
   type Action,
   type CharacterPreset,
   type BuildingPreset,
   type TerrainPreset,
   type BackgroundPreset,
 } from '../../context/AppContext';
-import { buildGridFillPrompt } from '../../lib/promptBuilder';
-import { buildBuildingPrompt } from '../../lib/buildingPromptBuilder';
-import { buildTerrainPrompt } from '../../lib/terrainPromptBuilder';
-import { buildBackgroundPrompt } from '../../lib/backgroundPromptBuilder';
-import { getBuildingGridConfig, getTerrainGridConfig, getBackgroundGridConfig } from '../../lib/gridConfig';
 import { GridLinkSelector } from '../shared/GridLinkSelector';
 import '../../styles/run-builder.css';
 
@@ -164,7 +160,7 @@ export function UnifiedConfigPanel() {
   const { spriteType: currentSpriteType } = useAppState();
   const { state, dispatch, generate, validationMessage } = useGenericWorkflow(WORKFLOW_CONFIGS[currentSpriteType]);
   const spriteType = state.spriteType;
-  const { imageSize } = state;
+  const { imageSize, replay } = state;
 
   const config = SPRITE_TYPE_CONFIGS[spriteType];
   const content = state[config.contentStateKey] as Record<string, unknown>;
@@ -172,6 +168,8 @@ export function UnifiedConfigPanel() {
 
   const [selectedGridLinks, setSelectedGridLinks] = useState<GridLink[]>([]);
   const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [runMode, setRunMode] = useState<RunMode>('manual');
+  const [maxRetries, setMaxRetries] = useState(1);
 
   // Reset local state when sprite type changes
   useEffect(() => {
@@ -179,6 +177,11 @@ export function UnifiedConfigPanel() {
     setSelectedPresetId('');
   }, [spriteType]);
 
+  // A replayed generation brings its content preset back; its grid link follows
+  useEffect(() => {
+    if (replay) setSelectedPresetId(replay.contentPresetId ?? '');
+  }, [replay?.historyId]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Fetch presets on mount and when sprite type changes, skip if already cached
   useEffect(() => {
     if (presetList.length > 0) return;
@@ -199,24 +202,32 @@ export function UnifiedConfigPanel() {
 
   const handleGridSelectionChange = useCallback((selected: GridLink[]) => {
     setSelectedGridLinks(selected);
-    if (selected.length > 0) {
+    // Keep the replayed aspect ratio while the recorded grid link is the one selected
+    if (selected.length > 0 && !(replay && selected[0].id === replay.gridLinkId)) {
       dispatch({ type: 'SET_ASPECT_RATIO', payload: selected[0].aspectRatio || '1:1' });
     }
-  }, [dispatch]);
+  }, [dispatch, replay]);
+
+  /** Any edit turns an exact replay into a replay with edits. */
+  const leaveExactReplay = useCallback(() => {
+    if (replay?.exact) dispatch({ type: 'SET_REPLAY_EXACT', exact: false });
+  }, [replay?.exact, dispatch]);
 
   const updateField = useCallback(
     (field: string, value: string) => {
+      leaveExactReplay();
       dispatch({
         type: config.setContentAction,
         [config.contentStateKey]: { ...content, [field]: value },
       } as Action);
     },
-    [content, dispatch, config.setContentAction, config.contentStateKey],
+    [content, dispatch, config.setContentAction, config.contentStateKey, leaveExactReplay],
   );
 
   const handlePresetChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
       const presetId = e.target.value;
+      leaveExactReplay();
       setSelectedPresetId(presetId);
       if (presetId === '') {
         // Reset to defaults, preserving grid-related fields for non-character types
@@ -243,38 +254,17 @@ export function UnifiedConfigPanel() {
         dispatch({ type: config.loadPresetAction, preset } as Action);
       }
     },
-    [presetList, dispatch, config, content, spriteType],
+    [presetList, dispatch, config, content, spriteType, leaveExactReplay],
   );
 
   const canGenerate = !validationMessage;
 
+  const promptTemplate = state.promptTemplates[spriteType];
   const promptPreview = useMemo(() => {
-    switch (spriteType) {
-      case 'building': {
-        const gc = getBuildingGridConfig(
-          (content as any).gridSize,
-          (content as any).cellLabels,
-        );
-        return buildBuildingPrompt(state.building, gc);
-      }
-      case 'terrain': {
-        const gc = getTerrainGridConfig(
-          (content as any).gridSize,
-          (content as any).cellLabels,
-        );
-        return buildTerrainPrompt(state.terrain, gc);
-      }
-      case 'background': {
-        const gc = getBackgroundGridConfig(
-          (content as any).gridSize,
-          (content as any).cellLabels,
-        );
-        return buildBackgroundPrompt(state.background, gc);
-      }
-      default:
-        return buildGridFillPrompt(state.character);
-    }
-  }, [spriteType, content, state.character, state.building, state.terrain, state.background]);
+    if (replay?.exact) return replay.prompt;
+    const workflow = WORKFLOW_CONFIGS[spriteType];
+    return buildWorkflowPrompt(workflow, state, workflow.buildGridConfig(state));
+  }, [spriteType, state, replay]);
 
   // Group presets by genre
   const presetsByGenre = useMemo(
@@ -317,6 +307,29 @@ export function UnifiedConfigPanel() {
 
       <h2>{config.label} Setup</h2>
 
+      {/* Replay banner */}
+      {replay && (
+        <div className="replay-banner">
+          <div className="replay-banner-text">
+            {replay.exact
+              ? <>Replaying generation #{replay.historyId} with its recorded prompt.</>
+              : <>Settings of generation #{replay.historyId} loaded for editing.</>}
+            {!replay.exact && replay.promptTemplateId !== (promptTemplate?.id ?? null) && (
+              <span className="replay-banner-note">
+                {' '}It was made with {replay.promptTemplateId === null
+                  ? 'the built-in prompt'
+                  : `prompt template v${replay.promptTemplateVersion}`}; the active prompt now differs.
+              </span>
+            )}
+          </div>
+          {replay.exact ? (
+            <button type="button" className="btn btn-sm" onClick={leaveExactReplay}>Edit Settings</button>
+          ) : (
+            <button type="button" className="btn btn-sm" onClick={() => dispatch({ type: 'END_REPLAY' })}>Dismiss</button>
+          )}
+        </div>
+      )}
+
       {/* Preset Selector */}
       <div className="config-field preset-selector">
         <label htmlFor={`${idPrefix}-preset-select`}>Preset</label>
@@ -413,6 +426,7 @@ export function UnifiedConfigPanel() {
         spriteType={spriteType}
         presetId={selectedPresetId}
         onSelectionChange={handleGridSelectionChange}
+        initialLinkId={replay?.gridLinkId}
       />
 
       {/* Image Size (2K / 4K) */}
@@ -450,9 +464,70 @@ export function UnifiedConfigPanel() {
         </select>
       </div>
 
+      {/* Run Mode — only meaningful when several grids are selected */}
+      {selectedGridLinks.length > 1 && (
+        <div className="config-field">
+          <label>Run Mode</label>
+          <div className="segmented-control">
+            <button
+              type="button"
+              className={runMode === 'manual' ? 'active' : ''}
+              onClick={() => setRunMode('manual')}
+              title="Stop in review after each grid"
+            >
+              Review Each Grid
+            </button>
+            <button
+              type="button"
+              className={runMode === 'auto' ? 'active' : ''}
+              onClick={() => setRunMode('auto')}
+              title="Generate every grid back-to-back, then show a summary"
+            >
+              Unattended
+            </button>
+          </div>
+          {runMode === 'auto' && (
+            <div className="run-retry-row">
+              <span>Retries per failed grid</span>
+              <select
+                className="admin-select"
+                value={maxRetries}
+                onChange={e => setMaxRetries(Number(e.target.value))}
+              >
+                {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Variants — several candidates of a single grid to pick from */}
+      {selectedGridLinks.length === 1 && (
+        <div className="config-field">
+          <label>Variants</label>
+          <div className="segmented-control">
+            {[1, 2, 3, 4].map(n => (
+              <button
+                key={n}
+                type="button"
+                className={state.variantCount === n ? 'active' : ''}
+                onClick={() => dispatch({ type: 'SET_VARIANT_COUNT', count: n })}
+                title={n === 1 ? 'Generate once and go straight to review' : `Generate ${n} candidates and pick the best`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Prompt Preview */}
       <details className="prompt-preview">
-        <summary>View Full Prompt</summary>
+        <summary>
+          View Full Prompt
+          {replay?.exact && <span className="prompt-preview-template"> &mdash; recorded</span>}
+          {!replay?.exact && promptTemplate && <span className="prompt-preview-template"> &mdash; template &ldquo;{promptTemplate.name}&rdquo; v{promptTemplate.version}</span>}
+        </summary>
         <pre className="prompt-preview-text">{promptPreview}</pre>
       </details>
 
@@ -476,6 +551,8 @@ export function UnifiedConfigPanel() {
                   spriteType,
                   gridLinks: selectedGridLinks,
                   imageSize: imageSize as '2K' | '4K',
+                  mode: runMode,
+                  maxRetries,
                 },
               });
             } else if (selectedGridLinks.length === 1) {
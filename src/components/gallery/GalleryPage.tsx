@@ -1,12 +1,13 @@
 /**
  * Gallery page — shows past sprite generations.
  * Fetches from /api/gallery with pagination, search, and type filter.
- * Clicking a card reloads that generation; delete removes it.
+ * Clicking a card reloads that generation; replay puts its request back
+ * into the config panel; delete removes it.
  */
 
 import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useAppDispatch, useAppState } from '../../context/AppContext';
-import { loadGenerationIntoState } from '../../lib/loadGeneration';
+import { openHistoryEntry, replayHistoryEntry } from '../../lib/loadGeneration';
 import type { GalleryEntry, GalleryGroup, GalleryResponse } from '../../types/api';
 
 const SPRITE_TYPES = [
@@ -150,27 +151,7 @@ export function GalleryPage({ onSwitchToDesigner }: GalleryPageProps) {
       }
 
       try {
-        const res = await fetch(`/api/history/${id}`);
-        if (!res.ok) throw new Error('Failed to load generation');
-        const data = await res.json();
-
-        // Reset previous state before loading new generation
-        dispatch({ type: 'RESET' });
-
-        // Load saved editor settings so extraction uses the saved aaInset/posterizeBits
-        let savedSettings: { aaInset?: number; posterizeBits?: number } | null = null;
-        try {
-          const settingsRes = await fetch(`/api/history/${id}/settings`);
-          savedSettings = await settingsRes.json();
-        } catch {
-          dispatch({ type: 'SET_STATUS', message: 'Failed to load editor settings', statusType: 'warning' });
-        }
-
-        await loadGenerationIntoState(data, dispatch, {
-          historyId: id,
-          editorSettings: savedSettings,
-        });
-
+        await openHistoryEntry(id, dispatch);
         onSwitchToDesigner();
       } catch (err) {
         dispatch({
@@ -183,6 +164,27 @@ export function GalleryPage({ onSwitchToDesigner }: GalleryPageProps) {
     [dispatch, onSwitchToDesigner, state.step],
   );
 
+  const handleReplay = useCallback(
+    async (id: number, exact: boolean, e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (state.historyId === null && state.step !== 'configure' && !window.confirm('You have an unsaved generation. Replay this and discard current work?')) {
+        return;
+      }
+
+      try {
+        await replayHistoryEntry(id, dispatch, exact);
+        onSwitchToDesigner();
+      } catch (err) {
+        dispatch({
+          type: 'SET_STATUS',
+          message: `Failed to replay generation: ${err instanceof Error ? err.message : String(err)}`,
+          statusType: 'error',
+        });
+      }
+    },
+    [dispatch, onSwitchToDesigner, state.historyId, state.step],
+  );
+
   const handleDelete = useCallback(
     async (id: number, e: React.MouseEvent) => {
       e.stopPropagation();
@@ -352,6 +354,14 @@ export function GalleryPage({ onSwitchToDesigner }: GalleryPageProps) {
                             {' '}&middot;{' '}{entry.spriteCount} sprites
                           </div>
                         </div>
+                        <div className="gallery-card-replay">
+                          <button onClick={(e) => handleReplay(entry.id, true, e)} title="Generate again from the recorded request">
+                            Replay
+                          </button>
+                          <button onClick={(e) => handleReplay(entry.id, false, e)} title="Load the recorded request for editing">
+                            Edit &amp; Replay
+                          </button>
+                        </div>
                         <button
                           className="gallery-card-delete"
                           onClick={(e) => handleDelete(entry.id, e)}
@@ -394,6 +404,14 @@ export function GalleryPage({ onSwitchToDesigner }: GalleryPageProps) {
                         {' '}&middot;{' '}{formatDate(entry.createdAt)} &middot; {entry.spriteCount} sprites
                       </div>
                     </div>
+                    <div className="gallery-card-replay">
+                      <button onClick={(e) => handleReplay(entry.id, true, e)} title="Generate again from the recorded request">
+                        Replay
+                      </button>
+                      <button onClick={(e) => handleReplay(entry.id, false, e)} title="Load the recorded request for editing">
+                        Edit &amp; Replay
+                      </button>
+                    </div>
                     <button
                       className="gallery-card-delete"
                       onClick={(e) => handleDelete(entry.id, e)}
@@ -0,0 +1,189 @@
+/**
+ * Candidate picker — shown after a generation that asked for several
+ * variants. Candidates sit side by side with how each grid was sliced;
+ * one can be promoted whole, or cells cherry-picked across candidates and
+ * composited into the grid that gets saved.
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppContext, type GridCandidate } from '../../context/AppContext';
+import { finishWithCandidate } from '../../hooks/useGenericWorkflow';
+import { baseCandidate, compositeCandidates, defaultPicks, isUsable } from '../../lib/gridCandidates';
+import { MODE_LABELS, describeAxis } from './ExtractionDiagnosticsPanel';
+
+type PickMode = 'whole' | 'cells';
+
+export function CandidatePicker() {
+  const { state, dispatch } = useAppContext();
+  const { candidates, candidateParams: params } = state;
+  const cellLabels = params?.gridConfig.cellLabels ?? [];
+
+  const [mode, setMode] = useState<PickMode>('whole');
+  const [picks, setPicks] = useState(() => defaultPicks(candidates, cellLabels.length));
+  const [busy, setBusy] = useState(false);
+
+  const usableCount = candidates.filter(isUsable).length;
+
+  const promote = useCallback(async (index: number) => {
+    const candidate = candidates[index];
+    if (!params || !candidate?.image) return;
+    setBusy(true);
+    await finishWithCandidate(params, { text: candidate.text, image: candidate.image }, dispatch);
+    setBusy(false);
+  }, [candidates, params, dispatch]);
+
+  const savePicks = useCallback(async () => {
+    if (!params) return;
+    setBusy(true);
+    try {
+      const image = await compositeCandidates(candidates, picks);
+      const text = candidates[baseCandidate(picks)]?.text ?? '';
+      await finishWithCandidate(params, { text, image }, dispatch);
+    } catch (err) {
+      dispatch({
+        type: 'SET_STATUS',
+        message: `Failed to combine cells: ${err instanceof Error ? err.message : String(err)}`,
+        statusType: 'error',
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, [candidates, picks, params, dispatch]);
+
+  const pickCell = useCallback((cell: number, index: number) => {
+    setPicks(prev => prev.map((p, i) => (i === cell ? index : p)));
+  }, []);
+
+  if (!params) return null;
+
+  return (
+    <div className="candidate-picker">
+      <div className="candidate-picker-header">
+        <h2>Pick a Candidate</h2>
+        <div className="segmented-control">
+          <button type="button" className={mode === 'whole' ? 'active' : ''} onClick={() => setMode('whole')}>
+            Whole Grid
+          </button>
+          <button
+            type="button"
+            className={mode === 'cells' ? 'active' : ''}
+            onClick={() => setMode('cells')}
+            disabled={usableCount < 2}
+            title={usableCount < 2 ? 'Needs at least two usable candidates' : 'Choose each cell from any candidate'}
+          >
+            Cherry-pick Cells
+          </button>
+        </div>
+      </div>
+
+      {mode === 'whole' && (
+        <div className="candidate-row">
+          {candidates.map((candidate, i) => (
+            <div key={i} className={`candidate-card${candidate.image ? '' : ' failed'}`}>
+              <div className="candidate-card-title">Candidate {i + 1}</div>
+              {candidate.image ? (
+                <img
+                  className="candidate-card-image"
+                  src={`data:${candidate.image.mimeType};base64,${candidate.image.data}`}
+                  alt={`Candidate ${i + 1}`}
+                  draggable={false}
+                />
+              ) : (
+                <div className="candidate-card-empty">No image</div>
+              )}
+              {candidate.diagnostics && (
+                <div className="candidate-card-diagnostics">
+                  <span className={`extraction-badge${candidate.diagnostics.mode === 'detected' ? ' ok' : ''}`}>
+                    {MODE_LABELS[candidate.diagnostics.mode]}
+                  </span>
+                  <span className="candidate-card-axes">
+                    {describeAxis('Rows', candidate.diagnostics.rows)} &middot; {describeAxis('Cols', candidate.diagnostics.cols)}
+                  </span>
+                </div>
+              )}
+              {candidate.error && <span className="candidate-card-error">{candidate.error}</span>}
+              <button
+                type="button"
+                className="btn btn-sm btn-primary"
+                disabled={busy || !candidate.image}
+                onClick={() => promote(i)}
+              >
+                Use This
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === 'cells' && (
+        <>
+          <div
+            className="candidate-cell-table"
+            style={{ gridTemplateColumns: `minmax(80px, 1fr) repeat(${candidates.length}, 64px)` }}
+          >
+            <span className="candidate-cell-head">Cell</span>
+            {candidates.map((_, i) => (
+              <span key={i} className="candidate-cell-head">#{i + 1}</span>
+            ))}
+            {cellLabels.map((label, cell) => (
+              <CellRow
+                key={cell}
+                label={label}
+                cell={cell}
+                candidates={candidates}
+                picked={picks[cell]}
+                onPick={pickCell}
+              />
+            ))}
+          </div>
+          <div className="candidate-actions">
+            <button type="button" className="btn btn-sm" disabled={busy} onClick={() => setPicks(defaultPicks(candidates, cellLabels.length))}>
+              Reset Picks
+            </button>
+            <button type="button" className="btn btn-sm btn-primary" disabled={busy} onClick={savePicks}>
+              {busy ? 'Saving...' : 'Save Picks'}
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="candidate-actions">
+        <button type="button" className="btn btn-sm btn-danger" disabled={busy} onClick={() => dispatch({ type: 'DISCARD_CANDIDATES' })}>
+          Discard All
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface CellRowProps {
+  label: string;
+  cell: number;
+  candidates: GridCandidate[];
+  picked: number;
+  onPick: (cell: number, index: number) => void;
+}
+
+function CellRow({ label, cell, candidates, picked, onPick }: CellRowProps) {
+  return (
+    <>
+      <span className="candidate-cell-label" title={label}>{label}</span>
+      {candidates.map((candidate, i) => {
+        const sprite = candidate.sprites.find(s => s.cellIndex === cell);
+        const usable = isUsable(candidate) && sprite !== undefined;
+        return (
+          <button
+            key={i}
+            type="button"
+            className={`candidate-cell-option${picked === i ? ' active' : ''}`}
+            disabled={!usable}
+            onClick={() => onPick(cell, i)}
+            title={`${label} from candidate ${i + 1}`}
+          >
+            {sprite && <img src={`data:${sprite.mimeType};base64,${sprite.imageData}`} alt="" draggable={false} />}
+          </button>
+        );
+      })}
+    </>
+  );
+}
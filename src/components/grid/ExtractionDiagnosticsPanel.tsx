@@ -0,0 +1,93 @@
+/**
+ * Warning banner for extractions that were not fully detected. Summarizes
+ * how each axis was sliced and can overlay the detected bands, pruned spans
+ * and final cells on the filled grid so a bad slice is caught before export.
+ */
+
+import { useState } from 'react';
+import type { AxisDiagnostics, ExtractionDiagnostics } from '../../lib/spriteExtractor';
+
+interface ExtractionDiagnosticsPanelProps {
+  diagnostics: ExtractionDiagnostics;
+  gridImage: string;
+  mimeType: string;
+  onEditCuts: () => void;
+}
+
+export const MODE_LABELS: Record<ExtractionDiagnostics['mode'], string> = {
+  detected: 'Detected',
+  hybrid: 'Partial fallback',
+  fallback: 'Fallback',
+  manual: 'Manual cuts',
+};
+
+export function describeAxis(name: string, axis: AxisDiagnostics): string {
+  const found = axis.detectedSpans.length;
+  if (axis.mode === 'fallback') {
+    return `${name}: found ${found} of ${axis.expected}, sliced evenly`;
+  }
+  const pruned = axis.prunedSpans.length;
+  return `${name}: detected ${axis.expected}${pruned > 0 ? ` (pruned ${pruned} extra)` : ''}`;
+}
+
+export function ExtractionDiagnosticsPanel({ diagnostics, gridImage, mimeType, onEditCuts }: ExtractionDiagnosticsPanelProps) {
+  const [showOverlay, setShowOverlay] = useState(false);
+  const { width, height, rows, cols } = diagnostics;
+  const lineW = Math.max(2, Math.round(Math.max(width, height) / 400));
+
+  return (
+    <div className="extraction-warning">
+      <div className="extraction-warning-header">
+        <span className="extraction-badge" title="Cut detection did not find every row and column; some cells were sliced evenly">
+          &#x26A0; {MODE_LABELS[diagnostics.mode]}
+        </span>
+        <span className="extraction-warning-axes">
+          {describeAxis('Rows', rows)} &middot; {describeAxis('Cols', cols)}
+        </span>
+        <div className="extraction-warning-actions">
+          <button type="button" className="btn btn-sm" onClick={() => setShowOverlay((v) => !v)}>
+            {showOverlay ? 'Hide Cuts' : 'Show Cuts'}
+          </button>
+          <button type="button" className="btn btn-sm" onClick={onEditCuts}>
+            Edit Grid Lines
+          </button>
+        </div>
+      </div>
+
+      {showOverlay && (
+        <div className="grid-cut-stage extraction-overlay">
+          <img src={`data:${mimeType};base64,${gridImage}`} alt="Filled grid with detected cuts" draggable={false} />
+          <svg className="grid-cut-overlay" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+            {rows.finalSpans.flatMap((r, ri) => cols.finalSpans.map((c, ci) => (
+              <rect
+                key={`cell-${ri}-${ci}`}
+                x={c.start} y={r.start} width={c.size} height={r.size}
+                className={rows.mode === 'fallback' || cols.mode === 'fallback' ? 'extraction-cell is-fallback' : 'extraction-cell'}
+              />
+            )))}
+            {rows.prunedSpans.map((sp, i) => (
+              <rect key={`prow-${i}`} x={0} y={sp.start} width={width} height={sp.size} className="extraction-pruned">
+                <title>Pruned row span {sp.start}–{sp.start + sp.size - 1}</title>
+              </rect>
+            ))}
+            {cols.prunedSpans.map((sp, i) => (
+              <rect key={`pcol-${i}`} x={sp.start} y={0} width={sp.size} height={height} className="extraction-pruned">
+                <title>Pruned column span {sp.start}–{sp.start + sp.size - 1}</title>
+              </rect>
+            ))}
+            {rows.bands.map((b, i) => (
+              <rect key={`row-${i}`} x={0} y={b.start} width={width} height={Math.max(b.end - b.start + 1, lineW)} className="grid-cut-band-fill">
+                <title>Row cut {b.start}–{b.end}, score {b.score.toFixed(2)}</title>
+              </rect>
+            ))}
+            {cols.bands.map((b, i) => (
+              <rect key={`col-${i}`} x={b.start} y={0} width={Math.max(b.end - b.start + 1, lineW)} height={height} className="grid-cut-band-fill">
+                <title>Column cut {b.start}–{b.end}, score {b.score.toFixed(2)}</title>
+              </rect>
+            ))}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
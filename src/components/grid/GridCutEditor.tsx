@@ -0,0 +1,280 @@
+/**
+ * Grid-line editor for correcting cut detection by hand. Overlays the
+ * effective row/column cut bands on the filled grid image; bands can be
+ * dragged along their axis, nudged with the arrow keys, added with the
+ * row/column tools, and deleted. Applying re-extracts with explicit cuts.
+ */
+
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { detectGridCuts, cutBandsToContentSpans, type Band, type GridCuts, type GridOverride } from '../../lib/spriteExtractor';
+import { useModalFocus } from '../../hooks/useModalFocus';
+
+type Axis = 'rows' | 'cols';
+type Tool = 'move' | 'add-row' | 'add-col';
+
+interface GridCutEditorProps {
+  gridImage: string;
+  mimeType: string;
+  gridOverride: GridOverride;
+  aaInset: number;
+  posterizeBits: number;
+  /** Saved manual cuts, or null to start from detection */
+  initialCuts: GridCuts | null;
+  onApply: (cuts: GridCuts) => void;
+  /** Drop saved manual cuts and return to auto-detection */
+  onClearManual: () => void;
+  onClose: () => void;
+}
+
+interface DragState {
+  axis: Axis;
+  index: number;
+  origin: number;
+  band: Band;
+}
+
+export function GridCutEditor({ gridImage, mimeType, gridOverride, aaInset, posterizeBits, initialCuts, onApply, onClearManual, onClose }: GridCutEditorProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [detected, setDetected] = useState<GridCuts | null>(null);
+  const [cuts, setCuts] = useState<GridCuts | null>(null);
+  const [selected, setSelected] = useState<{ axis: Axis; index: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('move');
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  useModalFocus(modalRef, true, onClose);
+
+  // Seed with the effective cuts from detection (or the saved manual cuts)
+  useEffect(() => {
+    let cancelled = false;
+    detectGridCuts(gridImage, mimeType, { aaInset, posterizeBits, gridOverride })
+      .then((result) => {
+        if (cancelled) return;
+        setSize({ width: result.width, height: result.height });
+        setDetected(result.cuts);
+        setCuts(initialCuts ?? result.cuts);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => { cancelled = true; };
+  }, [gridImage, mimeType]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const rowSpans = useMemo(
+    () => (cuts && size ? cutBandsToContentSpans(cuts.rows, size.height, aaInset) : []),
+    [cuts, size, aaInset],
+  );
+  const colSpans = useMemo(
+    () => (cuts && size ? cutBandsToContentSpans(cuts.cols, size.width, aaInset) : []),
+    [cuts, size, aaInset],
+  );
+  const rowsOk = rowSpans.length === gridOverride.rows;
+  const colsOk = colSpans.length === gridOverride.cols;
+
+  /** Pointer position in image pixels along an axis. */
+  const toImage = useCallback((clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    if (!svg || !size) return { x: 0, y: 0 };
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: Math.round(((clientX - rect.left) / rect.width) * size.width),
+      y: Math.round(((clientY - rect.top) / rect.height) * size.height),
+    };
+  }, [size]);
+
+  const moveBand = useCallback((axis: Axis, index: number, band: Band, start: number) => {
+    if (!size) return;
+    const limit = axis === 'rows' ? size.height : size.width;
+    const width = band.end - band.start;
+    const clamped = Math.max(0, Math.min(limit - 1 - Math.max(width, 0), start));
+    setCuts((prev) => prev && {
+      ...prev,
+      [axis]: prev[axis].map((b, i) => (i === index ? { start: clamped, end: clamped + width } : b)),
+    });
+  }, [size]);
+
+  const handleBandMouseDown = useCallback((e: React.MouseEvent, axis: Axis, index: number) => {
+    if (tool !== 'move' || e.button !== 0 || !cuts) return;
+    e.stopPropagation();
+    const p = toImage(e.clientX, e.clientY);
+    setSelected({ axis, index });
+    dragRef.current = { axis, index, origin: axis === 'rows' ? p.y : p.x, band: cuts[axis][index] };
+    setDragging(true);
+  }, [tool, cuts, toImage]);
+
+  // Global listeners while dragging so the band follows the cursor outside the image
+  useEffect(() => {
+    if (!dragging) return;
+    const handleMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const p = toImage(e.clientX, e.clientY);
+      const delta = (drag.axis === 'rows' ? p.y : p.x) - drag.origin;
+      moveBand(drag.axis, drag.index, drag.band, drag.band.start + delta);
+    };
+    const handleUp = () => {
+      dragRef.current = null;
+      setDragging(false);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [dragging, toImage, moveBand]);
+
+  // Click on the image: add a zero-width cut line with the add tools, or clear selection
+  const handleSvgMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0 || !cuts) return;
+    if (tool === 'move') {
+      setSelected(null);
+      return;
+    }
+    const p = toImage(e.clientX, e.clientY);
+    const axis: Axis = tool === 'add-row' ? 'rows' : 'cols';
+    const pos = axis === 'rows' ? p.y : p.x;
+    setCuts({ ...cuts, [axis]: [...cuts[axis], { start: pos, end: pos - 1 }] });
+    setSelected({ axis, index: cuts[axis].length });
+    setTool('move');
+  }, [tool, cuts, toImage]);
+
+  const deleteSelected = useCallback(() => {
+    if (!selected) return;
+    setCuts((prev) => prev && {
+      ...prev,
+      [selected.axis]: prev[selected.axis].filter((_, i) => i !== selected.index),
+    });
+    setSelected(null);
+  }, [selected]);
+
+  // Keyboard: Delete removes the selected cut, arrows nudge it (Shift = 10px)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!selected || !cuts) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelected();
+        return;
+      }
+      const step = e.shiftKey ? 10 : 1;
+      const along = selected.axis === 'rows'
+        ? { ArrowUp: -step, ArrowDown: step }
+        : { ArrowLeft: -step, ArrowRight: step };
+      const delta = along[e.key as keyof typeof along];
+      if (delta === undefined) return;
+      e.preventDefault();
+      const band = cuts[selected.axis][selected.index];
+      moveBand(selected.axis, selected.index, band, band.start + delta);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selected, cuts, deleteSelected, moveBand]);
+
+  const handleApply = useCallback(() => {
+    if (!cuts || !rowsOk || !colsOk) return;
+    const byStart = (a: Band, b: Band) => a.start - b.start;
+    onApply({ rows: [...cuts.rows].sort(byStart), cols: [...cuts.cols].sort(byStart) });
+  }, [cuts, rowsOk, colsOk, onApply]);
+
+  const handleBackdropClick = useCallback((e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !dragging) onClose();
+  }, [onClose, dragging]);
+
+  // Zero-width cut lines still need a visible stroke and a grabbable hit area
+  const lineW = size ? Math.max(2, Math.round(Math.max(size.width, size.height) / 400)) : 2;
+
+  const renderBand = (axis: Axis, band: Band, index: number) => {
+    if (!size) return null;
+    const isSel = selected?.axis === axis && selected.index === index;
+    const thickness = Math.max(band.end - band.start + 1, lineW);
+    const hit = Math.max(thickness, lineW * 4);
+    const center = band.start + (band.end - band.start + 1) / 2;
+    const rect = (t: number) => (axis === 'rows'
+      ? { x: 0, y: center - t / 2, width: size.width, height: t }
+      : { x: center - t / 2, y: 0, width: t, height: size.height });
+    return (
+      <g
+        key={`${axis}-${index}`}
+        className={`grid-cut-band ${axis === 'rows' ? 'is-row' : 'is-col'}${isSel ? ' selected' : ''}`}
+        onMouseDown={(e) => handleBandMouseDown(e, axis, index)}
+      >
+        <rect {...rect(hit)} fill="transparent" />
+        <rect {...rect(thickness)} className="grid-cut-band-fill" />
+      </g>
+    );
+  };
+
+  return (
+    <div className="zoom-modal-backdrop" onClick={handleBackdropClick}>
+      <div className="zoom-modal grid-cut-modal" ref={modalRef} role="dialog" aria-modal="true" aria-label="Grid line editor">
+        <div className="zoom-modal-header">
+          <span className="zoom-title">Grid Lines</span>
+          <div className="zoom-tool-toggle">
+            <button className={tool === 'move' ? 'active' : ''} onClick={() => setTool('move')} title="Select and drag cuts (arrows nudge, Delete removes)">
+              &#x2725;
+            </button>
+            <button className={tool === 'add-row' ? 'active' : ''} onClick={() => setTool('add-row')} title="Click the image to add a row cut">
+              &#x2550;
+            </button>
+            <button className={tool === 'add-col' ? 'active' : ''} onClick={() => setTool('add-col')} title="Click the image to add a column cut">
+              &#x2551;
+            </button>
+          </div>
+          <div className="zoom-controls">
+            <button onClick={deleteSelected} disabled={!selected} title="Delete selected cut (Delete)">&#x2715;</button>
+          </div>
+          <button className="zoom-close-btn" onClick={onClose} title="Close (Esc)">&times;</button>
+        </div>
+
+        <div className={`grid-cut-canvas-wrap${tool !== 'move' ? ' is-adding' : ''}`}>
+          {error && <div className="grid-cut-error">Cut detection failed: {error}</div>}
+          {!error && !size && <div className="grid-cut-error">Detecting cuts...</div>}
+          {size && cuts && (
+            <div className="grid-cut-stage">
+              <img src={`data:${mimeType};base64,${gridImage}`} alt="Filled grid" draggable={false} />
+              <svg
+                ref={svgRef}
+                className="grid-cut-overlay"
+                viewBox={`0 0 ${size.width} ${size.height}`}
+                preserveAspectRatio="none"
+                onMouseDown={handleSvgMouseDown}
+              >
+                {rowSpans.flatMap((r, ri) => colSpans.map((c, ci) => (
+                  <rect key={`cell-${ri}-${ci}`} x={c.start} y={r.start} width={c.size} height={r.size} className="grid-cut-cell" />
+                )))}
+                {cuts.rows.map((b, i) => renderBand('rows', b, i))}
+                {cuts.cols.map((b, i) => renderBand('cols', b, i))}
+              </svg>
+            </div>
+          )}
+        </div>
+
+        <div className="zoom-modal-footer">
+          <span className={rowsOk ? 'grid-cut-count ok' : 'grid-cut-count bad'}>
+            Rows {rowSpans.length}/{gridOverride.rows}
+          </span>
+          <span className={colsOk ? 'grid-cut-count ok' : 'grid-cut-count bad'}>
+            Cols {colSpans.length}/{gridOverride.cols}
+          </span>
+          <div className="grid-cut-actions">
+            <button className="btn btn-sm" onClick={() => { setCuts(detected); setSelected(null); }} disabled={!detected}>
+              Reset to Detected
+            </button>
+            {initialCuts && (
+              <button className="btn btn-sm" onClick={onClearManual} title="Forget the manual cuts and re-extract with auto-detection">
+                Use Auto-detect
+              </button>
+            )}
+            <button className="btn btn-sm btn-success" onClick={handleApply} disabled={!rowsOk || !colsOk}>
+              Apply &amp; Re-extract
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Loop-seam review for parallax layers. Scores each layer's left/right
+ * wrap, shows the selected layer twice side by side so the seam sits in
+ * the middle, and sets a per-layer repair that the review's sprite
+ * processing applies to every preview and export.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ExtractedSprite } from '../../lib/spriteExtractor';
+import { decodeImage } from '../../lib/inpaint';
+import { SEAM_THRESHOLD } from '../../lib/seamless';
+import { loopSeamScore, maxLoopBand, DEFAULT_LOOP_FIX, LOOP_FIX_METHODS, type LoopFix, type LoopFixMethod } from '../../lib/loopSeam';
+
+interface LoopSeamPanelProps {
+  /** Processed layers (repairs already applied), keyed by source cell index */
+  sprites: ExtractedSprite[];
+  fixes: Map<number, LoopFix>;
+  onChange: (cellIndex: number, fix: LoopFix | null) => void;
+}
+
+/** Draw `image` twice side by side, with ticks marking the seam and the repaired band. */
+function drawTwice(canvas: HTMLCanvasElement, image: ImageData, band: number | null, seamy: boolean) {
+  const { width, height } = image;
+  canvas.width = width * 2;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const tile = document.createElement('canvas');
+  tile.width = width;
+  tile.height = height;
+  tile.getContext('2d')!.putImageData(image, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(tile, 0, 0);
+  ctx.drawImage(tile, width, 0);
+
+  const tick = Math.max(4, Math.round(height / 16));
+  const line = Math.max(1, Math.round(width / 256));
+  ctx.fillStyle = seamy ? '#ff4030' : '#40d080';
+  ctx.fillRect(width - line, 0, line * 2, tick);
+  ctx.fillRect(width - line, height - tick, line * 2, tick);
+  if (band) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = line;
+    ctx.setLineDash([line * 4, line * 4]);
+    ctx.strokeRect(width - band, 0, band * 2, height);
+  }
+}
+
+export function LoopSeamPanel({ sprites, fixes, onChange }: LoopSeamPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [images, setImages] = useState<Map<number, ImageData>>(new Map());
+  const [selectedCell, setSelectedCell] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sprites.map(async (s) => [s.cellIndex, await decodeImage({ data: s.imageData, mimeType: s.mimeType }, s.width, s.height)] as const))
+      .then((decoded) => { if (!cancelled) setImages(new Map(decoded)); })
+      .catch((err) => console.error('Failed to decode layers for the loop-seam check:', err));
+    return () => { cancelled = true; };
+  }, [sprites]);
+
+  const reports = useMemo(() => sprites
+    .filter((s) => images.has(s.cellIndex))
+    .map((s) => ({ cellIndex: s.cellIndex, label: s.label, score: loopSeamScore(images.get(s.cellIndex)!) })),
+  [sprites, images]);
+  const seamy = reports.filter((r) => r.score > SEAM_THRESHOLD).length;
+
+  // Start on the worst layer
+  useEffect(() => {
+    if (reports.length === 0) return;
+    if (selectedCell === null || !reports.some((r) => r.cellIndex === selectedCell)) {
+      setSelectedCell(reports.reduce((worst, r) => (r.score > worst.score ? r : worst)).cellIndex);
+    }
+  }, [reports, selectedCell]);
+
+  const report = reports.find((r) => r.cellIndex === selectedCell) ?? null;
+  const image = selectedCell !== null ? images.get(selectedCell) ?? null : null;
+  const fix = selectedCell !== null ? fixes.get(selectedCell) ?? null : null;
+  const maxBand = image ? maxLoopBand(image.width) : DEFAULT_LOOP_FIX.band;
+
+  useEffect(() => {
+    if (!canvasRef.current || !image || !report) return;
+    drawTwice(canvasRef.current, image, fix ? Math.min(fix.band, maxBand) : null, report.score > SEAM_THRESHOLD);
+  }, [image, report, fix, maxBand]);
+
+  if (sprites.length === 0) return null;
+
+  const update = (next: Partial<LoopFix>) => {
+    if (selectedCell === null) return;
+    onChange(selectedCell, { ...(fix ?? DEFAULT_LOOP_FIX), ...next });
+  };
+
+  return (
+    <div className="sidebar-section seam-check">
+      <h3>
+        Loop Seams
+        <span title={`How visibly each layer's right edge jumps into its left edge when it repeats, as a multiple of the pixel-to-pixel change just inside its edges. Above ×${SEAM_THRESHOLD} the seam is likely visible. A repair is kept with the sheet and applied to every preview and export.`} style={{ cursor: 'help', marginLeft: 4, fontSize: '0.7rem', color: 'var(--text-muted)' }}>&#9432;</span>
+      </h3>
+      <div className="seam-check-summary">
+        {reports.length === 0 ? 'Measuring…' : seamy === 0 ? 'Every layer loops cleanly' : `${seamy} of ${reports.length} layers show a seam`}
+      </div>
+      <div className="seam-check-list">
+        {reports.map((r) => (
+          <button
+            key={r.cellIndex}
+            type="button"
+            className={`seam-check-tile ${r.cellIndex === selectedCell ? 'active' : ''} ${r.score > SEAM_THRESHOLD ? 'seamy' : ''}`}
+            title={fixes.has(r.cellIndex) ? `Repaired by ${LOOP_FIX_METHODS[fixes.get(r.cellIndex)!.method].label.toLowerCase()}` : undefined}
+            onClick={() => setSelectedCell(r.cellIndex)}
+          >
+            <span className="seam-check-label">{r.label}{fixes.has(r.cellIndex) && ' ✓'}</span>
+            <span className="seam-check-score">×{r.score.toFixed(1)}</span>
+          </button>
+        ))}
+      </div>
+
+      {report && image && (
+        <>
+          <canvas ref={canvasRef} className="seam-check-canvas" aria-label={`${report.label} repeated twice, the seam in the middle`} />
+          <label className="seam-check-toggle">
+            <input
+              type="checkbox"
+              checked={fix !== null}
+              onChange={(e) => onChange(report.cellIndex, e.target.checked ? { ...DEFAULT_LOOP_FIX, band: Math.min(DEFAULT_LOOP_FIX.band, maxBand) } : null)}
+            />
+            Repair the seam
+          </label>
+          {fix && (
+            <>
+              <div className="anim-group-grid" style={{ gridTemplateColumns: '1fr 1fr', marginTop: 6 }}>
+                {(Object.keys(LOOP_FIX_METHODS) as LoopFixMethod[]).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    className={`anim-group-btn ${fix.method === m ? 'active' : ''}`}
+                    title={LOOP_FIX_METHODS[m].description}
+                    onClick={() => update({ method: m })}
+                  >
+                    {LOOP_FIX_METHODS[m].label}
+                  </button>
+                ))}
+              </div>
+              <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Blend width (px)</label>
+              <div className="slider-row">
+                <input
+                  type="range"
+                  min={1}
+                  max={maxBand}
+                  value={Math.min(fix.band, maxBand)}
+                  onChange={(e) => update({ band: Number(e.target.value) })}
+                />
+                <span className="slider-value">{Math.min(fix.band, maxBand)}</span>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
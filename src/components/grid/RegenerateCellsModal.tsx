@@ -0,0 +1,155 @@
+/**
+ * Modal for redrawing chosen cells of the current sheet in place.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { useRegenerateCells } from '../../hooks/useRegenerateCells';
+import { ExtractedSprite, type GridCuts } from '../../lib/spriteExtractor';
+import { useModalFocus } from '../../hooks/useModalFocus';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  /** Sprites in sheet order (source cell indices) */
+  sprites: ExtractedSprite[];
+  aaInset: number;
+  posterizeBits: number;
+  manualCuts: GridCuts | null;
+  /** Called with the source cells once they were redrawn */
+  onRegenerated: (cells: number[]) => void;
+}
+
+export function RegenerateCellsModal({ open, onClose, sprites, aaInset, posterizeBits, manualCuts, onRegenerated }: Props) {
+  const { state } = useAppContext();
+  const { generate, cancel, generating } = useRegenerateCells();
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  const [selectedCells, setSelectedCells] = useState<Set<number>>(new Set());
+  const [guidance, setGuidance] = useState('');
+  const [imageSize, setImageSize] = useState<'2K' | '4K'>(
+    (state.imageSize === '4K' ? '4K' : '2K'),
+  );
+
+  // Start each opening with nothing selected
+  useEffect(() => {
+    if (open) setSelectedCells(new Set());
+  }, [open]);
+
+  const toggleCell = useCallback((cellIndex: number) => {
+    setSelectedCells(prev => {
+      const next = new Set(prev);
+      if (next.has(cellIndex)) next.delete(cellIndex);
+      else next.add(cellIndex);
+      return next;
+    });
+  }, []);
+
+  const handleGenerate = useCallback(async () => {
+    const cells = [...selectedCells].sort((a, b) => a - b);
+    const done = await generate({
+      cells,
+      imageSize,
+      guidance: guidance.trim() || undefined,
+      aaInset,
+      posterizeBits,
+      manualCuts,
+    });
+    if (done) {
+      onRegenerated(cells);
+      onClose();
+    }
+  }, [selectedCells, imageSize, guidance, aaInset, posterizeBits, manualCuts, generate, onRegenerated, onClose]);
+
+  const handleCancel = useCallback(() => {
+    cancel();
+    onClose();
+  }, [cancel, onClose]);
+
+  useModalFocus(modalRef, open, handleCancel);
+
+  if (!open) return null;
+
+  return (
+    <div className="add-sheet-overlay" onClick={handleCancel}>
+      <div className="add-sheet-modal" ref={modalRef} role="dialog" aria-modal="true" aria-labelledby="regen-cells-title" onClick={e => e.stopPropagation()}>
+        <h3 id="regen-cells-title">Regenerate Cells</h3>
+
+        {/* Cells */}
+        <div className="add-sheet-section">
+          <label>Cells to Redraw ({selectedCells.size} selected)</label>
+          <div className="add-sheet-sprites">
+            {sprites.map((sprite) => (
+              <label
+                key={sprite.cellIndex}
+                className={`add-sheet-sprite-check${selectedCells.has(sprite.cellIndex) ? ' selected' : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedCells.has(sprite.cellIndex)}
+                  onChange={() => toggleCell(sprite.cellIndex)}
+                  disabled={generating}
+                />
+                <img
+                  src={`data:${sprite.mimeType};base64,${sprite.imageData}`}
+                  alt={sprite.label}
+                  title={sprite.label}
+                />
+              </label>
+            ))}
+          </div>
+          <p style={{ fontSize: '0.75rem', color: 'var(--text-muted)', marginTop: 6 }}>
+            The rest of the sheet is sent as reference and kept as is, along with its edits.
+          </p>
+        </div>
+
+        {/* Guidance */}
+        <div className="add-sheet-section">
+          <label>Guidance</label>
+          <textarea
+            className="add-sheet-guidance"
+            rows={2}
+            placeholder="e.g. the sword should be in the right hand, feet on the ground..."
+            value={guidance}
+            onChange={e => setGuidance(e.target.value)}
+          />
+        </div>
+
+        {/* Image Size */}
+        <div className="add-sheet-section">
+          <label>Image Size</label>
+          <div className="segmented-control">
+            <button
+              className={imageSize === '2K' ? 'active' : ''}
+              onClick={() => setImageSize('2K')}
+            >
+              2K
+            </button>
+            <button
+              className={imageSize === '4K' ? 'active' : ''}
+              onClick={() => setImageSize('4K')}
+            >
+              4K
+            </button>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="add-sheet-actions">
+          <button className="btn" onClick={handleCancel}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleGenerate}
+            disabled={generating || selectedCells.size === 0}
+          >
+            {generating
+              ? 'Regenerating...'
+              : selectedCells.size === 0 ? 'Regenerate Cells' : `Regenerate ${selectedCells.size} Cell${selectedCells.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * Seamless-tiling review for terrain sheets. Scores every tile's edges
+ * against itself and the other variants of its terrain, previews the
+ * selected tile repeated 3×3 with an optional seam heatmap, and fixes
+ * seams by offset-and-blend or edge cross-fade. A saved fix is kept next
+ * to the original sprite and used in its place until reverted.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ExtractedSprite } from '../../lib/spriteExtractor';
+import type { SeamFixRecord } from '../../types/api';
+import { decodeImage, encodePng } from '../../lib/inpaint';
+import {
+  checkSeams, edgeMismatch, edgeVariation, fixSeams, seamHeatmap, seamScore,
+  SEAM_FIX_METHODS, SEAM_THRESHOLD, type SeamFixMethod, type TileImage,
+} from '../../lib/seamless';
+
+interface SeamCheckPanelProps {
+  /** Original (unfixed, unkeyed) tiles */
+  sprites: ExtractedSprite[];
+  fixes: Map<number, SeamFixRecord>;
+  onSaveFix: (cellIndex: number, fix: SeamFixRecord) => Promise<boolean>;
+  onRevertFix: (cellIndex: number) => Promise<boolean>;
+}
+
+function formatScore(score: number): string {
+  return `×${score.toFixed(1)}`;
+}
+
+/** Draw `image` repeated 3×3, with the heatmap over every copy. */
+function drawRepeat(canvas: HTMLCanvasElement, image: ImageData, heatmap: ImageData | null) {
+  const { width, height } = image;
+  canvas.width = width * 3;
+  canvas.height = height * 3;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const toCanvas = (data: ImageData) => {
+    const c = document.createElement('canvas');
+    c.width = width;
+    c.height = height;
+    c.getContext('2d')!.putImageData(data, 0, 0);
+    return c;
+  };
+  const tile = toCanvas(image);
+  const overlay = heatmap ? toCanvas(heatmap) : null;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) {
+      ctx.drawImage(tile, x * width, y * height);
+      if (overlay) ctx.drawImage(overlay, x * width, y * height);
+    }
+  }
+}
+
+export function SeamCheckPanel({ sprites, fixes, onSaveFix, onRevertFix }: SeamCheckPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [originals, setOriginals] = useState<Map<number, ImageData>>(new Map());
+  const [fixedImages, setFixedImages] = useState<Map<number, ImageData>>(new Map());
+  const [selectedCell, setSelectedCell] = useState<number | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [method, setMethod] = useState<SeamFixMethod>('offset-blend');
+  const [band, setBand] = useState(4);
+  const [candidate, setCandidate] = useState<ImageData | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Decode the originals, and the saved fixes standing in for them
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sprites.map(async (s) => {
+      const original = await decodeImage({ data: s.imageData, mimeType: s.mimeType }, s.width, s.height);
+      const fix = fixes.get(s.cellIndex);
+      const fixed = fix ? await decodeImage({ data: fix.imageData, mimeType: 'image/png' }, s.width, s.height) : null;
+      return { cellIndex: s.cellIndex, original, fixed };
+    })).then((decoded) => {
+      if (cancelled) return;
+      setOriginals(new Map(decoded.map((d) => [d.cellIndex, d.original])));
+      setFixedImages(new Map(decoded.filter((d) => d.fixed).map((d) => [d.cellIndex, d.fixed!])));
+    }).catch((err) => console.error('Failed to decode tiles for the seam check:', err));
+    return () => { cancelled = true; };
+  }, [sprites, fixes]);
+
+  const tiles = useMemo<TileImage[]>(() => sprites
+    .filter((s) => originals.has(s.cellIndex))
+    .map((s) => ({ cellIndex: s.cellIndex, label: s.label, image: fixedImages.get(s.cellIndex) ?? originals.get(s.cellIndex)! })),
+  [sprites, originals, fixedImages]);
+
+  const reports = useMemo(() => checkSeams(tiles), [tiles]);
+  const seamy = reports.filter((r) => r.score > SEAM_THRESHOLD).length;
+
+  // Start on the worst tile
+  useEffect(() => {
+    if (reports.length === 0) return;
+    if (selectedCell === null || !reports.some((r) => r.cellIndex === selectedCell)) {
+      setSelectedCell(reports.reduce((worst, r) => (r.score > worst.score ? r : worst)).cellIndex);
+    }
+  }, [reports, selectedCell]);
+
+  useEffect(() => { setCandidate(null); setError(null); }, [selectedCell]);
+
+  const report = reports.find((r) => r.cellIndex === selectedCell) ?? null;
+  const selectedTile = tiles.find((t) => t.cellIndex === selectedCell) ?? null;
+  const original = selectedCell !== null ? originals.get(selectedCell) ?? null : null;
+  const shown = candidate ?? selectedTile?.image ?? null;
+  const maxBand = original ? Math.max(1, Math.floor(Math.min(original.width, original.height) / 2)) : 16;
+  const candidateScore = candidate ? seamScore(edgeMismatch(candidate), edgeVariation(candidate)) : null;
+
+  useEffect(() => {
+    if (!canvasRef.current || !shown) return;
+    drawRepeat(canvasRef.current, shown, showHeatmap ? seamHeatmap(shown, Math.max(1, Math.round(shown.width / 32))) : null);
+  }, [shown, showHeatmap]);
+
+  const handlePreviewFix = () => {
+    if (!original) return;
+    // Always fix the original, so fixing again does not compound
+    setCandidate(fixSeams(original, method, Math.min(band, maxBand)));
+  };
+
+  const handleSave = async () => {
+    if (!candidate || selectedCell === null) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const saved = await onSaveFix(selectedCell, { imageData: encodePng(candidate), method });
+      if (saved) setCandidate(null);
+      else setError('Failed to save the fixed tile');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevert = async () => {
+    if (selectedCell === null) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (!(await onRevertFix(selectedCell))) setError('Failed to revert to the original tile');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (sprites.length === 0) return null;
+
+  return (
+    <div className="sidebar-section seam-check">
+      <h3>
+        Seamless Tiling
+        <span title={`Edge mismatch of each tile wrapped onto itself and onto the other variants of its terrain, as a multiple of the pixel-to-pixel change just inside its edges. Above ×${SEAM_THRESHOLD} the seam is likely visible.`} style={{ cursor: 'help', marginLeft: 4, fontSize: '0.7rem', color: 'var(--text-muted)' }}>&#9432;</span>
+      </h3>
+      <div className="seam-check-summary">
+        {reports.length === 0 ? 'Measuring…' : seamy === 0 ? 'Every tile repeats cleanly' : `${seamy} of ${reports.length} tiles show seams`}
+      </div>
+      <div className="seam-check-list">
+        {reports.map((r) => (
+          <button
+            key={r.cellIndex}
+            type="button"
+            className={`seam-check-tile ${r.cellIndex === selectedCell ? 'active' : ''} ${r.score > SEAM_THRESHOLD ? 'seamy' : ''}`}
+            title={fixes.has(r.cellIndex) ? `Using the ${SEAM_FIX_METHODS[fixes.get(r.cellIndex)!.method].label.toLowerCase()} fix` : undefined}
+            onClick={() => setSelectedCell(r.cellIndex)}
+          >
+            <span className="seam-check-label">{r.label}{fixes.has(r.cellIndex) && ' ✓'}</span>
+            <span className="seam-check-score">{formatScore(r.score)}</span>
+          </button>
+        ))}
+      </div>
+
+      {report && shown && (
+        <>
+          <canvas ref={canvasRef} className="seam-check-canvas" aria-label={`${report.label} repeated 3 by 3`} />
+          <label className="seam-check-toggle">
+            <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />
+            Highlight seams
+          </label>
+          <div className="seam-check-detail">
+            <div>Against itself: {formatScore(seamScore(report.self, report.variation))}</div>
+            {report.neighbors.map((n) => (
+              <div key={n.cellIndex}>
+                Next to {n.label}: {formatScore(seamScore(n, report.variation))}
+              </div>
+            ))}
+            {candidateScore !== null && (
+              <div className={candidateScore > SEAM_THRESHOLD ? 'seam-check-warn' : 'seam-check-ok'}>
+                Fixed preview: {formatScore(candidateScore)} (was {formatScore(seamScore(report.self, report.variation))})
+              </div>
+            )}
+          </div>
+
+          <div className="anim-group-grid" style={{ gridTemplateColumns: '1fr 1fr', marginTop: 6 }}>
+            {(Object.keys(SEAM_FIX_METHODS) as SeamFixMethod[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                className={`anim-group-btn ${method === m ? 'active' : ''}`}
+                title={SEAM_FIX_METHODS[m].description}
+                onClick={() => { setMethod(m); setCandidate(null); }}
+              >
+                {SEAM_FIX_METHODS[m].label}
+              </button>
+            ))}
+          </div>
+          <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Blend width (px)</label>
+          <div className="slider-row">
+            <input
+              type="range"
+              min={1}
+              max={maxBand}
+              value={Math.min(band, maxBand)}
+              onChange={(e) => { setBand(Number(e.target.value)); setCandidate(null); }}
+            />
+            <span className="slider-value">{Math.min(band, maxBand)}</span>
+          </div>
+          {error && <div className="seam-check-warn">{error}</div>}
+          <div className="seam-check-actions">
+            {candidate ? (
+              <>
+                <button className="btn btn-sm btn-primary" disabled={busy} onClick={handleSave}>Save Fix</button>
+                <button className="btn btn-sm" disabled={busy} onClick={() => setCandidate(null)}>Discard</button>
+              </>
+            ) : (
+              <button className="btn btn-sm" disabled={busy || !original} onClick={handlePreviewFix}>Preview Fix</button>
+            )}
+            {selectedCell !== null && fixes.has(selectedCell) && !candidate && (
+              <button className="btn btn-sm" disabled={busy} onClick={handleRevert}>Revert to Original</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
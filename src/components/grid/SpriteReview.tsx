@@ -10,18 +10,41 @@ import { useAppState, type CellGroup, type GridLink } from '../../context/AppCon
 import { useEditorSettings } from '../../hooks/useEditorSettings';
 import { useChromaKeySettings } from '../../hooks/useChromaKeySettings';
 import { usePosterizeSettings } from '../../hooks/usePosterizeSettings';
-import { useAnimationLoop } from '../../hooks/useAnimationLoop';
+import { useAnimationLoop, type PreviewMode } from '../../hooks/useAnimationLoop';
 import { useSpriteSelection } from '../../hooks/useSpriteSelection';
+import { useInpaint } from '../../hooks/useInpaint';
+import { useSeamFixes } from '../../hooks/useSeamFixes';
 import { SpriteGrid } from './SpriteGrid';
-import { SpriteZoomModal } from './SpriteZoomModal';
-import { composeSpriteSheet, ExtractedSprite } from '../../lib/spriteExtractor';
+import { SpriteZoomModal, type InpaintResult } from './SpriteZoomModal';
+import { GridCutEditor } from './GridCutEditor';
+import { ExtractionDiagnosticsPanel } from './ExtractionDiagnosticsPanel';
+import { SeamCheckPanel } from './SeamCheckPanel';
+import { LoopSeamPanel } from './LoopSeamPanel';
+import { composeSpriteSheet, ExtractedSprite, type GridCuts } from '../../lib/spriteExtractor';
+import { layoutGrid, layoutPacked, measureTrims, buildAtlasDescriptor, composeAtlas, type AtlasFormat, type AtlasRect } from '../../lib/atlasExporter';
+import { resolvePivots, type Pivot } from '../../lib/pivot';
+import { measureFrames, alignmentPoint, mirrorMetrics, computeGroupOffsets, ALIGN_MODES, type AlignMode, type FrameOffset } from '../../lib/frameAlign';
+import { buildEngineFiles, ENGINE_TARGETS, type EngineTarget } from '../../lib/engineExporters';
 import { debugLog } from '../../lib/debugLog';
 import { applyChromaKey, defringeRecolor, strikeColors, detectKeyColor } from '../../lib/chromaKey';
 import { posterize } from '../../lib/imagePreprocess';
+import { decodeImage, encodePng } from '../../lib/inpaint';
+import type { CellRect } from '../../lib/gridCandidates';
+import type { HistoryResponse, SeamFixRecord } from '../../types/api';
+import { exportAnimation, exportAllAnimations, animationFileName, ANIMATION_FORMATS, type AnimationFormat } from '../../lib/animationExporter';
 import { AddSheetModal } from './AddSheetModal';
+import { RegenerateCellsModal } from './RegenerateCellsModal';
+import { ParallaxPreview } from '../preview/ParallaxPreview';
+import { parallaxLayers, buildParallaxMeta, resolveParallaxSpeeds } from '../../lib/parallax';
+import { fixLoopSeam, type LoopFix } from '../../lib/loopSeam';
 
 type RGB = [number, number, number];
 
+const PREVIEW_MODES: Array<{ mode: PreviewMode; label: string; title: string }> = [
+  { mode: 'single', label: 'Single', title: 'Play the animation one frame at a time' },
+  { mode: 'compare', label: 'Side by Side', title: 'Every frame of the group at the same scale on a shared baseline' },
+];
+
 async function processSprite(
   sprite: ExtractedSprite,
   posterizeOutput: boolean,
@@ -36,9 +59,10 @@ async function processSprite(
   keyR = 255,
   keyG = 0,
   keyB = 255,
+  loopFix: LoopFix | null = null,
 ): Promise<ExtractedSprite> {
   const hasErasure = erasedPixels && erasedPixels.size > 0;
-  if (!posterizeOutput && !chromaEnabled && struckColors.length === 0 && !hasErasure && !edgeRecolorPasses) return sprite;
+  if (!posterizeOutput && !chromaEnabled && struckColors.length === 0 && !hasErasure && !edgeRecolorPasses && !loopFix) return sprite;
 
   const img = new Image();
   await new Promise<void>((resolve, reject) => {
@@ -58,6 +82,8 @@ async function processSprite(
   if (chromaEnabled) imageData = applyChromaKey(imageData, chromaTolerance, defringeCore, keyR, keyG, keyB);
   if (edgeRecolorPasses > 0) imageData = defringeRecolor(imageData, keyR, keyG, keyB, edgeRecolorPasses, recolorSensitivity);
   if (struckColors.length > 0) imageData = strikeColors(imageData, struckColors);
+  // Loop-seam repair blends keyed pixels, so it runs after the key and before erasures
+  if (loopFix) imageData = fixLoopSeam(imageData, loopFix);
   if (hasErasure) {
     for (const key of erasedPixels) {
       const sep = key.indexOf(',');
@@ -77,6 +103,16 @@ async function processSprite(
   return { ...sprite, imageData: base64, mimeType: 'image/png' };
 }
 
+/** Trigger a browser download for in-memory data. */
+function downloadBlob(data: string | Uint8Array, mimeType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 /** Detect distinct colors from sprites using 4-bit quantization. */
 async function detectPalette(sprites: ExtractedSprite[], maxColors = 144): Promise<RGB[]> {
   const counts = new Map<number, { r: number; g: number; b: number; n: number }>();
@@ -131,6 +167,8 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
   const { state, dispatch, reExtract, setStep } = useGenericWorkflow(WORKFLOW_CONFIGS[currentSpriteType]);
   const { sprites } = state;
   const isCharacter = state.spriteType === 'character';
+  const isTerrain = state.spriteType === 'terrain';
+  const isParallax = state.spriteType === 'background' && state.background.bgMode === 'parallax';
 
   // Derive current grid link from run state (if active)
   const currentGridLink: GridLink | null = state.run
@@ -154,6 +192,12 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
   const chroma = useChromaKeySettings();
   const post = usePosterizeSettings();
   const selection = useSpriteSelection({ spriteCount: sprites.length, cellCount });
+  const inpaint = useInpaint();
+  const seams = useSeamFixes(state.historyId);
+
+  // Saved seam fixes stand in for their terrain tiles from here on
+  const { applySeamFixes } = seams;
+  const reviewSprites = useMemo(() => applySeamFixes(sprites), [applySeamFixes, sprites]);
 
   const [processedSprites, setProcessedSprites] = useState<ExtractedSprite[]>(sprites);
   const [palette, setPalette] = useState<RGB[]>([]);
@@ -161,6 +205,24 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
   const [showRareColors, setShowRareColors] = useState(false);
   const [aaInset, setAaInset] = useState(3);
   const [addSheetOpen, setAddSheetOpen] = useState(false);
+  const [regenCellsOpen, setRegenCellsOpen] = useState(false);
+  const [manualCuts, setManualCuts] = useState<GridCuts | null>(null);
+  const [cutEditorOpen, setCutEditorOpen] = useState(false);
+  const [atlasFormat, setAtlasFormat] = useState<AtlasFormat>('hash');
+  const [atlasPacked, setAtlasPacked] = useState(false);
+  const [atlasPadding, setAtlasPadding] = useState(2);
+  const [atlasExtrude, setAtlasExtrude] = useState(1);
+  const [animFormat, setAnimFormat] = useState<AnimationFormat>('gif');
+  const [animExporting, setAnimExporting] = useState(false);
+  const [engineTarget, setEngineTarget] = useState<EngineTarget>('godot');
+  const [engineArchiving, setEngineArchiving] = useState(false);
+  const [spriteTrims, setSpriteTrims] = useState<Map<number, AtlasRect>>(new Map());
+  const [alignMode, setAlignMode] = useState<AlignMode>('feet');
+  const [aligning, setAligning] = useState(false);
+  const [parallaxSpeeds, setParallaxSpeeds] = useState<number[]>([]);
+  const [loopFixes, setLoopFixes] = useState<Map<number, LoopFix>>(new Map());
+  // Prompt and request settings of the loaded generation, for archive manifests
+  const [generation, setGeneration] = useState<HistoryResponse | null>(null);
   const struckKey = JSON.stringify(struckColors);
 
   const { save: saveSettings, load: loadSettings } = useEditorSettings(state.historyId);
@@ -170,23 +232,132 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     [selection.getDisplaySprites, processedSprites],
   );
 
+  // Background layers far to near, in display order, with their scroll speeds
+  const layers = useMemo(() => parallaxLayers(displaySprites, parallaxSpeeds), [displaySprites, parallaxSpeeds]);
+  const parallaxMeta = useMemo(() => (isParallax ? buildParallaxMeta(layers) : undefined), [isParallax, layers]);
+
+  const handleLoopFix = useCallback((cellIndex: number, fix: LoopFix | null) => {
+    setLoopFixes((prev) => {
+      const next = new Map(prev);
+      if (fix) next.set(cellIndex, fix);
+      else next.delete(cellIndex);
+      return next;
+    });
+  }, []);
+
+  const handleParallaxSpeed = useCallback((index: number, speed: number) => {
+    setParallaxSpeeds((prev) => resolveParallaxSpeeds(prev, displaySprites.length).map((s, i) => (i === index ? speed : s)));
+  }, [displaySprites.length]);
+
+  // Opaque bounds of each display sprite — the default pivot sits at their bottom-center
+  useEffect(() => {
+    let cancelled = false;
+    measureTrims(displaySprites).then((trims) => {
+      if (!cancelled) setSpriteTrims(trims);
+    }).catch((err) => console.error('Failed to measure sprite bounds:', err));
+    return () => { cancelled = true; };
+  }, [displaySprites]);
+
+  // Placed pivots follow their sprite through swaps; re-key them by display position
+  const placedPivots = useMemo(() => {
+    const map = new Map<number, Pivot>();
+    selection.displayOrder.forEach((srcIdx, displayIdx) => {
+      const pivot = selection.pivots.get(srcIdx);
+      if (pivot) map.set(displayIdx, pivot);
+    });
+    return map;
+  }, [selection.pivots, selection.displayOrder]);
+
+  // Frame alignment offsets, re-keyed by display position like the pivots
+  const frameOffsets = useMemo(() => {
+    const map = new Map<number, FrameOffset>();
+    selection.displayOrder.forEach((srcIdx, displayIdx) => {
+      const offset = selection.frameOffsets.get(srcIdx);
+      if (offset) map.set(displayIdx, offset);
+    });
+    return map;
+  }, [selection.frameOffsets, selection.displayOrder]);
+
+  // Pivots on the sprite as placed (zoom editor), and with frame offsets
+  // applied — as stored, and as drawn (flipped for mirrored cells)
+  const basePivots = useMemo(
+    () => resolvePivots(displaySprites, spriteTrims, placedPivots),
+    [displaySprites, spriteTrims, placedPivots],
+  );
+  const spritePivots = useMemo(
+    () => resolvePivots(displaySprites, spriteTrims, placedPivots, undefined, frameOffsets),
+    [displaySprites, spriteTrims, placedPivots, frameOffsets],
+  );
+  const drawnPivots = useMemo(
+    () => resolvePivots(displaySprites, spriteTrims, placedPivots, selection.mirroredCells, frameOffsets),
+    [displaySprites, spriteTrims, placedPivots, selection.mirroredCells, frameOffsets],
+  );
+
+  // Preview nudges arrive in drawn pixels; offsets are stored unmirrored
+  const { handleNudgeFrame, setFrameOffsets, mirroredCells } = selection;
+  const handlePreviewNudge = useCallback((cellIndex: number, dx: number, dy: number) => {
+    handleNudgeFrame(cellIndex, mirroredCells.has(cellIndex) ? -dx : dx, dy);
+  }, [handleNudgeFrame, mirroredCells]);
+
   const anim = useAnimationLoop({
     cellCount,
     hasAnimGroups,
     effectiveCellGroups,
     displaySprites,
     mirroredCells: selection.mirroredCells,
+    pivots: drawnPivots,
+    onNudgeFrame: handlePreviewNudge,
   });
 
+  const spritesByCell = useMemo(
+    () => new Map(displaySprites.map((s) => [s.cellIndex, s])),
+    [displaySprites],
+  );
+
+  const previewCell = anim.currentFrames[anim.frameIndex] ?? anim.currentFrames[0];
+  const previewOffset = previewCell !== undefined ? frameOffsets.get(previewCell) : undefined;
+  const groupHasOffsets = anim.currentFrames.some((c) => frameOffsets.has(c));
+
+  // Line each group's frames up on the median centroid / feet position.
+  // Measured against the pivots without offsets, so re-running replaces
+  // earlier offsets instead of stacking on them.
+  const handleAutoAlign = useCallback(async (groups: number[][]) => {
+    if (aligning || displaySprites.length === 0) return;
+    setAligning(true);
+    try {
+      const metrics = await measureFrames(displaySprites);
+      const pivots = resolvePivots(displaySprites, spriteTrims, placedPivots, mirroredCells);
+      const widths = new Map(displaySprites.map((s) => [s.cellIndex, s.width]));
+      const updates = new Map<number, FrameOffset>();
+      for (const frames of groups) {
+        const cells = [...new Set(frames)].filter((c) => metrics.has(c) && pivots.has(c));
+        const measured = cells.map((c) => {
+          const m = mirroredCells.has(c) ? mirrorMetrics(metrics.get(c)!, widths.get(c)!) : metrics.get(c)!;
+          return { cellIndex: c, point: alignmentPoint(m, alignMode), pivot: pivots.get(c)! };
+        });
+        for (const [c, o] of computeGroupOffsets(measured)) {
+          updates.set(c, mirroredCells.has(c) ? { x: -o.x || 0, y: o.y } : o);
+        }
+      }
+      setFrameOffsets(updates);
+      const moved = [...updates.values()].filter((o) => o.x !== 0 || o.y !== 0).length;
+      dispatch({ type: 'SET_STATUS', message: `Aligned ${updates.size} frame(s), ${moved} shifted`, statusType: 'success' });
+    } catch (err) {
+      dispatch({ type: 'SET_STATUS', message: `Auto-align failed: ${err instanceof Error ? err.message : String(err)}`, statusType: 'error' });
+    } finally {
+      setAligning(false);
+    }
+  }, [aligning, displaySprites, spriteTrims, placedPivots, mirroredCells, setFrameOffsets, alignMode, dispatch]);
+
   // Detect palette from sprites with posterization only (never chroma/strikes,
   // so striking a color doesn't reshuffle the palette).
   useEffect(() => {
-    if (sprites.length === 0) return;
+    if (reviewSprites.length === 0) return;
     let cancelled = false;
 
     const sourcePromise = post.posterizeOutput
-      ? Promise.all(sprites.map(s => processSprite(s, true, post.posterizeBits, false, 0, [])))
-      : Promise.resolve(sprites);
+      ? Promise.all(reviewSprites.map(s => processSprite(s, true, post.posterizeBits, false, 0, [])))
+      : Promise.resolve(reviewSprites);
 
     sourcePromise.then(source => {
       if (cancelled) return;
@@ -196,12 +367,12 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     });
 
     return () => { cancelled = true; };
-  }, [sprites, post.posterizeOutput, post.posterizeBits]);
+  }, [reviewSprites, post.posterizeOutput, post.posterizeBits]);
 
-  // Process sprites through posterization + chroma key + color strikes + erasures
+  // Process sprites through posterization + chroma key + color strikes + loop-seam repairs + erasures
   useEffect(() => {
-    if (!post.posterizeOutput && !chroma.chromaEnabled && struckColors.length === 0 && selection.erasedPixels.size === 0 && !chroma.edgeRecolorPasses) {
-      setProcessedSprites(sprites);
+    if (!post.posterizeOutput && !chroma.chromaEnabled && struckColors.length === 0 && selection.erasedPixels.size === 0 && !chroma.edgeRecolorPasses && loopFixes.size === 0) {
+      setProcessedSprites(reviewSprites);
       return;
     }
 
@@ -210,8 +381,8 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     (async () => {
       // Auto-detect key color from the first sprite when chroma is enabled
       let keyR = 255, keyG = 0, keyB = 255;
-      if (chroma.chromaEnabled && sprites.length > 0) {
-        const first = sprites[0];
+      if (chroma.chromaEnabled && reviewSprites.length > 0) {
+        const first = reviewSprites[0];
         const img = new Image();
         await new Promise<void>((resolve, reject) => {
           img.onload = () => resolve();
@@ -228,14 +399,14 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
         debugLog(`[ChromaKey] Auto-detected key color: rgb(${keyR}, ${keyG}, ${keyB})`);
       }
 
-      const result = await Promise.all(sprites.map((s) =>
-        processSprite(s, post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckColors, selection.erasedPixels.get(s.cellIndex), chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore, keyR, keyG, keyB),
+      const result = await Promise.all(reviewSprites.map((s) =>
+        processSprite(s, post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckColors, selection.erasedPixels.get(s.cellIndex), chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore, keyR, keyG, keyB, loopFixes.get(s.cellIndex) ?? null),
       ));
       if (!cancelled) setProcessedSprites(result);
     })();
 
     return () => { cancelled = true; };
-  }, [sprites, post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckKey, selection.erasedKey, chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore]);
+  }, [reviewSprites, post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckKey, selection.erasedKey, chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore, loopFixes]);
 
   const [settingsLoaded, setSettingsLoaded] = useState(!state.historyId);
   // Guard: skip the first save effect after load completes to prevent
@@ -258,13 +429,19 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     chroma.resetChromaKey();
     setStruckColors([]);
     setAaInset(3);
+    setManualCuts(null);
+    setParallaxSpeeds([]);
+    setLoopFixes(new Map());
+    setGeneration(null);
     post.resetPosterize();
+    seams.resetSeamFixes();
 
     Promise.all([
       loadSettings(),
       fetch(`/api/history/${state.historyId}`).then((r) => r.json()).catch((err) => { console.error('Failed to load history data:', err); return null; }),
     ]).then(([settings, histData]) => {
       if (cancelled) return;
+      setGeneration(histData);
       if (settings) {
         chroma.restoreChromaKey({
           chromaEnabled: settings.chromaEnabled,
@@ -278,13 +455,23 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
           mirroredCells: settings.mirroredCells,
           cellOrder: settings.cellOrder,
           erasedPixels: settings.erasedPixels,
+          pivots: settings.pivots,
+          frameOffsets: settings.frameOffsets,
         });
         setAaInset(settings.aaInset);
+        setParallaxSpeeds(settings.parallaxSpeeds);
+        setLoopFixes(new Map(Object.entries(settings.loopFixes).map(([idx, fix]) => [Number(idx), fix])));
         post.restorePosterize({
           posterizeBits: settings.posterizeBits,
           posterizeOutput: settings.posterizeOutput,
         });
+        // Saved sprites come from auto-detection; re-cut with the manual lines
+        if (settings.manualCuts) {
+          setManualCuts(settings.manualCuts);
+          reExtract({ aaInset: settings.aaInset, posterizeBits: settings.posterizeBits, manualCuts: settings.manualCuts });
+        }
       }
+      seams.restoreSeamFixes(histData?.sprites);
       if (histData?.thumbnailCellIndex != null) {
         selection.setThumbnailCell(histData.thumbnailCellIndex);
       }
@@ -294,7 +481,7 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     });
 
     return () => { cancelled = true; };
-  }, [state.historyId, loadSettings]);
+  }, [state.historyId, loadSettings]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Save settings on change (debounced internally) — skip until initial load completes
   useEffect(() => {
@@ -309,6 +496,12 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     for (const [idx, coords] of selection.erasedPixels) {
       if (coords.size > 0) serializedErased[String(idx)] = Array.from(coords);
     }
+    const serializedPivots: Record<string, Pivot> = {};
+    for (const [idx, pivot] of selection.pivots) serializedPivots[String(idx)] = pivot;
+    const serializedOffsets: Record<string, FrameOffset> = {};
+    for (const [idx, offset] of selection.frameOffsets) serializedOffsets[String(idx)] = offset;
+    const serializedLoopFixes: Record<string, LoopFix> = {};
+    for (const [idx, fix] of loopFixes) serializedLoopFixes[String(idx)] = fix;
     saveSettings({
       chromaEnabled: chroma.chromaEnabled,
       chromaTolerance: chroma.chromaTolerance,
@@ -322,8 +515,13 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
       recolorSensitivity: chroma.recolorSensitivity,
       defringeCore: chroma.defringeCore,
       erasedPixels: serializedErased,
+      manualCuts,
+      pivots: serializedPivots,
+      frameOffsets: serializedOffsets,
+      parallaxSpeeds,
+      loopFixes: serializedLoopFixes,
     });
-  }, [settingsLoaded, chroma.chromaEnabled, chroma.chromaTolerance, struckKey, selection.mirroredCells, selection.displayOrder, aaInset, post.posterizeBits, post.posterizeOutput, chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore, selection.erasedKey, saveSettings]);
+  }, [settingsLoaded, chroma.chromaEnabled, chroma.chromaTolerance, struckKey, selection.mirroredCells, selection.displayOrder, aaInset, post.posterizeBits, post.posterizeOutput, chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore, selection.erasedKey, manualCuts, selection.pivots, selection.frameOffsets, parallaxSpeeds, loopFixes, saveSettings]);
 
   // Apply mirror flip to a sprite's image data (returns new base64)
   const flipSpriteHorizontally = useCallback(async (sprite: ExtractedSprite): Promise<ExtractedSprite> => {
@@ -375,6 +573,188 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     }
   }, [displaySprites, getExportSprites, state, dynamicCols, dispatch]);
 
+  // Lay out and compose the atlas texture shared by the atlas and engine exports
+  const buildAtlas = useCallback(async (forceGrid = false) => {
+    const exportSprites = await getExportSprites();
+    const exportName = WORKFLOW_CONFIGS[state.spriteType].getContent(state).name || 'sprites';
+    const imageName = `${exportName}-atlas.png`;
+    const layout = atlasPacked && !forceGrid
+      ? layoutPacked(exportSprites, await measureTrims(exportSprites), { padding: atlasPadding, extrude: atlasExtrude })
+      : layoutGrid(exportSprites, dynamicCols ?? 6);
+    const { base64 } = await composeAtlas(exportSprites, layout);
+    return { exportName, imageName, layout, base64 };
+  }, [getExportSprites, state, dynamicCols, atlasPacked, atlasPadding, atlasExtrude]);
+
+  // Export atlas PNG + TexturePacker-style JSON descriptor
+  const handleExportAtlas = useCallback(async () => {
+    if (displaySprites.length === 0) return;
+    try {
+      const { exportName, imageName, layout, base64 } = await buildAtlas();
+      const descriptor = buildAtlasDescriptor(layout, {
+        imageName,
+        format: atlasFormat,
+        animations: hasAnimGroups ? anim.animations : [],
+        mirroredCells: selection.mirroredCells,
+        pivots: drawnPivots,
+        parallax: parallaxMeta,
+      });
+
+      const pngLink = document.createElement('a');
+      pngLink.href = `data:image/png;base64,${base64}`;
+      pngLink.download = imageName;
+      pngLink.click();
+
+      downloadBlob(JSON.stringify(descriptor, null, 2), 'application/json', `${exportName}-atlas.json`);
+
+      dispatch({ type: 'SET_STATUS', message: `Atlas exported (${layout.placements.length} frames, ${layout.width}×${layout.height})!`, statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Export failed: ' + message, statusType: 'error' });
+    }
+  }, [displaySprites, buildAtlas, atlasFormat, hasAnimGroups, anim.animations, selection.mirroredCells, drawnPivots, parallaxMeta, dispatch]);
+
+  // Build the atlas plus the selected engine's resource files.
+  // Tiled tilesets and autotile sets index tiles by grid position, so they always use the grid layout.
+  const buildEngineExport = useCallback(async () => {
+    const { exportName, imageName, layout, base64 } = await buildAtlas(engineTarget === 'tiled' || engineTarget === 'autotile');
+    const files = buildEngineFiles(engineTarget, layout, {
+      baseName: exportName,
+      imageName,
+      animations: hasAnimGroups ? anim.animations : [],
+      frameDelayMs: anim.speed,
+      columns: dynamicCols ?? 6,
+      tileShape: currentGridLink?.tileShape,
+      pivots: drawnPivots,
+    });
+    return { exportName, imageName, base64, files };
+  }, [buildAtlas, engineTarget, hasAnimGroups, anim.animations, anim.speed, dynamicCols, currentGridLink, drawnPivots]);
+
+  // Download the atlas PNG and engine resource files
+  const handleExportEngine = useCallback(async () => {
+    if (displaySprites.length === 0) return;
+    try {
+      const { imageName, base64, files } = await buildEngineExport();
+      const pngLink = document.createElement('a');
+      pngLink.href = `data:image/png;base64,${base64}`;
+      pngLink.download = imageName;
+      pngLink.click();
+      for (const f of files) downloadBlob(f.content, f.mimeType, f.filename);
+      dispatch({ type: 'SET_STATUS', message: `${ENGINE_TARGETS[engineTarget].label} exported!`, statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Export failed: ' + message, statusType: 'error' });
+    }
+  }, [displaySprites, buildEngineExport, engineTarget, dispatch]);
+
+  // Save grid, sprites and the engine export to the on-disk archive
+  const handleArchiveEngine = useCallback(async () => {
+    if (displaySprites.length === 0 || !state.filledGridImage || engineArchiving) return;
+    setEngineArchiving(true);
+    try {
+      const { exportName, imageName, base64, files } = await buildEngineExport();
+      const res = await fetch('/api/archive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contentName: exportName,
+          filledGridImage: state.filledGridImage,
+          filledGridMimeType: state.filledGridMimeType,
+          sprites: displaySprites.map(s => ({
+            cellIndex: s.cellIndex,
+            poseName: s.label,
+            imageData: s.imageData,
+            mimeType: s.mimeType,
+            pivot: spritePivots.get(s.cellIndex),
+          })),
+          exports: [
+            { filename: imageName, data: base64, encoding: 'base64' },
+            ...files.map(f => ({ filename: f.filename, data: f.content, encoding: 'utf8' })),
+          ],
+          manifest: {
+            spriteType: state.spriteType,
+            prompt: generation?.prompt ?? '',
+            model: generation?.request?.model ?? state.model,
+            imageSize: generation?.request?.imageSize ?? state.imageSize,
+            aspectRatio: generation?.request?.aspectRatio ?? dynamicAspectRatio ?? state.aspectRatio,
+            cols: dynamicCols,
+            rows: dynamicRows,
+            cellLabels: dynamicCellLabels ?? [],
+            cellGroups: effectiveCellGroups ?? [],
+            ...(parallaxMeta ? { parallax: parallaxMeta } : {}),
+          },
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || `HTTP ${res.status}`);
+      }
+      const { folder } = await res.json();
+      dispatch({ type: 'SET_ARCHIVE_FOLDER', folder });
+      dispatch({ type: 'SET_STATUS', message: `Archived ${ENGINE_TARGETS[engineTarget].label} to ${folder}`, statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Archive failed: ' + message, statusType: 'error' });
+    } finally {
+      setEngineArchiving(false);
+    }
+  }, [displaySprites, state.filledGridImage, state.filledGridMimeType, state.spriteType, state.model, state.imageSize, state.aspectRatio, engineArchiving, buildEngineExport, engineTarget, spritePivots, generation, dynamicAspectRatio, dynamicCols, dynamicRows, dynamicCellLabels, effectiveCellGroups, parallaxMeta, dispatch]);
+
+  // Export the selected animation (or the full cell cycle) as an animated image
+  const handleExportAnimation = useCallback(async () => {
+    if (displaySprites.length === 0 || animExporting) return;
+    setAnimExporting(true);
+    try {
+      const animDef = hasAnimGroups
+        ? anim.animations[anim.selectedAnim]
+        : { name: 'cycle', frames: anim.currentFrames, loop: true };
+      const baseName = WORKFLOW_CONFIGS[state.spriteType].getContent(state).name || 'sprites';
+      const data = await exportAnimation(displaySprites, animDef, animFormat, {
+        scale: anim.scale,
+        delayMs: anim.speed,
+        mirroredCells: selection.mirroredCells,
+        pivots: drawnPivots,
+      });
+      downloadBlob(data, ANIMATION_FORMATS[animFormat].mimeType, animationFileName(baseName, animDef.name, animFormat));
+      dispatch({ type: 'SET_STATUS', message: `Exported ${animDef.name} as ${ANIMATION_FORMATS[animFormat].label}!`, statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Export failed: ' + message, statusType: 'error' });
+    } finally {
+      setAnimExporting(false);
+    }
+  }, [displaySprites, animExporting, hasAnimGroups, anim.animations, anim.selectedAnim, anim.currentFrames, anim.scale, anim.speed, animFormat, state, selection.mirroredCells, drawnPivots, dispatch]);
+
+  // Export every animation group as animated images bundled in a ZIP
+  const handleExportAllAnimations = useCallback(async () => {
+    if (displaySprites.length === 0 || animExporting) return;
+    setAnimExporting(true);
+    try {
+      const baseName = WORKFLOW_CONFIGS[state.spriteType].getContent(state).name || 'sprites';
+      const { zip, count } = await exportAllAnimations(displaySprites, anim.animations, baseName, animFormat, {
+        scale: anim.scale,
+        delayMs: anim.speed,
+        mirroredCells: selection.mirroredCells,
+        pivots: drawnPivots,
+      });
+      downloadBlob(zip, 'application/zip', `${baseName}-animations-${animFormat}.zip`);
+      dispatch({ type: 'SET_STATUS', message: `Exported ${count} animations as ${ANIMATION_FORMATS[animFormat].label}!`, statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Export failed: ' + message, statusType: 'error' });
+    } finally {
+      setAnimExporting(false);
+    }
+  }, [displaySprites, animExporting, anim.animations, anim.scale, anim.speed, animFormat, state, selection.mirroredCells, drawnPivots, dispatch]);
+
+  // Download the archived folder (grid, sprites, exports, manifest) as a ZIP
+  const handleDownloadBundle = useCallback(() => {
+    if (!state.archiveFolder) return;
+    const link = document.createElement('a');
+    link.href = `/api/archive/${encodeURIComponent(state.archiveFolder)}/download`;
+    link.download = `${state.archiveFolder}.zip`;
+    link.click();
+  }, [state.archiveFolder]);
+
   // Export individual PNGs
   const handleExportIndividual = useCallback(async () => {
     if (displaySprites.length === 0) return;
@@ -434,6 +814,63 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
     );
   }, []);
 
+  // Region fixes work on the unkeyed sprite of the zoomed cell's source cell
+  const zoomSourceCell = selection.zoomSpriteIndex !== null ? selection.displayOrder[selection.zoomSpriteIndex] : undefined;
+  const { request: requestInpaint, apply: applyInpaint, undo: undoInpaint } = inpaint;
+  const { dropSeamFixes } = seams;
+
+  const handleInpaint = useCallback(async (rect: CellRect, instruction: string): Promise<InpaintResult | null> => {
+    const raw = sprites.find((s) => s.cellIndex === zoomSourceCell);
+    if (!raw) return null;
+    const patch = await requestInpaint(raw, rect, instruction);
+    if (!patch) return null;
+    // Preview the redrawn pixels keyed and posterized like the sprite shown
+    const keyed = await processSprite(
+      { ...raw, imageData: encodePng(patch), mimeType: 'image/png' },
+      post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckColors,
+      selection.erasedPixels.get(raw.cellIndex), chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore,
+    );
+    const preview = await decodeImage({ data: keyed.imageData, mimeType: keyed.mimeType }, raw.width, raw.height);
+    return { patch, preview };
+  }, [sprites, zoomSourceCell, requestInpaint, post.posterizeOutput, post.posterizeBits, chroma.chromaEnabled, chroma.chromaTolerance, struckColors, selection.erasedPixels, chroma.edgeRecolorPasses, chroma.recolorSensitivity, chroma.defringeCore]);
+
+  const handleApplyInpaint = useCallback(async (rect: CellRect, patch: ImageData) => {
+    if (zoomSourceCell === undefined) return false;
+    const applied = await applyInpaint(zoomSourceCell, rect, patch, { aaInset, posterizeBits: post.posterizeBits, manualCuts });
+    if (applied) dropSeamFixes([zoomSourceCell]);
+    return applied;
+  }, [zoomSourceCell, applyInpaint, aaInset, post.posterizeBits, manualCuts, dropSeamFixes]);
+
+  const { saveSeamFix, revertSeamFix } = seams;
+  const handleSaveSeamFix = useCallback(async (cellIndex: number, fix: SeamFixRecord) => {
+    const saved = await saveSeamFix(cellIndex, fix).catch(() => false);
+    dispatch({
+      type: 'SET_STATUS',
+      message: saved ? 'Seam fix saved — the fixed tile is used in previews and exports' : 'Failed to save seam fix',
+      statusType: saved ? 'success' : 'error',
+    });
+    return saved;
+  }, [saveSeamFix, dispatch]);
+
+  const handleRevertSeamFix = useCallback(async (cellIndex: number) => {
+    const reverted = await revertSeamFix(cellIndex).catch(() => false);
+    if (!reverted) dispatch({ type: 'SET_STATUS', message: 'Failed to revert seam fix', statusType: 'error' });
+    return reverted;
+  }, [revertSeamFix, dispatch]);
+
+  // Cutting the sheet again replaces every tile, so seam fixes made from the old tiles go
+  const { clearSeamFixes } = seams;
+  const handleReExtract = useCallback((overrides: Parameters<typeof reExtract>[0]) => {
+    clearSeamFixes().then((cleared) => {
+      if (!cleared) dispatch({ type: 'SET_STATUS', message: 'Failed to delete the old seam fixes', statusType: 'warning' });
+    });
+    reExtract(overrides);
+  }, [clearSeamFixes, reExtract, dispatch]);
+
+  const handleUndoInpaint = useCallback(() => {
+    undoInpaint({ aaInset, posterizeBits: post.posterizeBits, manualCuts });
+  }, [undoInpaint, aaInset, post.posterizeBits, manualCuts]);
+
   return (
     <div className="review-layout">
       {/* Left: Sprite Grid */}
@@ -443,6 +880,15 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
             Click another cell to swap, or click the same cell to cancel
           </div>
         )}
+        {state.extractionDiagnostics && state.filledGridImage
+          && (state.extractionDiagnostics.mode === 'fallback' || state.extractionDiagnostics.mode === 'hybrid') && (
+          <ExtractionDiagnosticsPanel
+            diagnostics={state.extractionDiagnostics}
+            gridImage={state.filledGridImage}
+            mimeType={state.filledGridMimeType}
+            onEditCuts={() => setCutEditorOpen(true)}
+          />
+        )}
         <SpriteGrid
           sprites={displaySprites}
           onCellClick={selection.handleCellClick}
@@ -474,7 +920,7 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
       {/* Right: Sidebar */}
       <aside className="review-sidebar">
         {/* Animation Groups */}
-        {hasAnimGroups && (
+        {hasAnimGroups && !isParallax && (
           <div className="sidebar-section">
             <h3>Animation</h3>
             <div className="anim-group-grid">
@@ -491,11 +937,180 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
           </div>
         )}
 
+        {/* Parallax scene (parallax backgrounds) in place of the cell cycling preview */}
+        {isParallax && (
+          <ParallaxPreview
+            layers={layers}
+            sprites={displaySprites}
+            frameDelayMs={anim.speed}
+            onSpeedChange={handleParallaxSpeed}
+            onResetSpeeds={() => setParallaxSpeeds([])}
+          />
+        )}
+
+        {/* Loop Seams (parallax backgrounds) */}
+        {isParallax && (
+          <LoopSeamPanel sprites={processedSprites} fixes={loopFixes} onChange={handleLoopFix} />
+        )}
+
         {/* Cell Cycling Preview */}
-        <div className="sidebar-section">
-          <h3>Preview</h3>
-          <canvas ref={anim.canvasRef} className="anim-preview-canvas" />
-        </div>
+        {!isParallax && (
+          <div className="sidebar-section">
+            <h3>Preview</h3>
+            <div className="anim-group-grid" style={{ marginBottom: 6 }}>
+              {PREVIEW_MODES.map(({ mode, label, title }) => (
+                <button
+                  key={mode}
+                  className={`anim-group-btn ${anim.mode === mode ? 'active' : ''}`}
+                  title={title}
+                  onClick={() => anim.setMode(mode)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <canvas
+              ref={anim.canvasRef}
+              className="anim-preview-canvas"
+              tabIndex={0}
+              aria-label="Animation preview — focus to pause, arrow keys nudge the frame, comma and period step"
+            />
+            <div className="frame-scrubber">
+              <button className="btn btn-sm" title="Previous frame (,)" onClick={() => anim.stepFrame(-1)}>&#9664;</button>
+              <button
+                className="btn btn-sm"
+                title={anim.playing ? 'Pause' : 'Play'}
+                onClick={() => anim.setPlaying(!anim.playing)}
+              >
+                {anim.playing ? '\u275A\u275A' : '\u25B6'}
+              </button>
+              <button className="btn btn-sm" title="Next frame (.)" onClick={() => anim.stepFrame(1)}>&#9654;</button>
+            </div>
+            <div className="frame-strip">
+              {anim.currentFrames.map((cell, i) => {
+                const sprite = spritesByCell.get(cell);
+                return (
+                  <button
+                    key={`${i}-${cell}`}
+                    className={`frame-strip-cell ${i === anim.frameIndex ? 'active' : ''}`}
+                    title={`Frame ${i + 1} (cell ${cell + 1})`}
+                    onClick={() => anim.selectFrame(i)}
+                  >
+                    {sprite && (
+                      <img
+                        src={`data:${sprite.mimeType};base64,${sprite.imageData}`}
+                        alt=""
+                        draggable={false}
+                        style={selection.mirroredCells.has(cell) ? { transform: 'scaleX(-1)' } : undefined}
+                      />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            {anim.paused && (
+              <div className="anim-nudge-info">
+                Frame {anim.frameIndex + 1}/{anim.currentFrames.length}
+                {' '}&middot; offset {previewOffset ? `${previewOffset.x > 0 ? '+' : ''}${previewOffset.x}, ${previewOffset.y > 0 ? '+' : ''}${previewOffset.y}` : '0, 0'}
+              </div>
+            )}
+            <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)', marginTop: 8, display: 'block' }}>
+              Align on
+              <span title="Auto-align shifts each frame so this point lines up across the group. Click the preview to pause it, then nudge the current frame with the arrow keys (, and . step frames). Offsets are kept with the sheet and applied to exports." style={{ cursor: 'help', marginLeft: 4 }}>&#9432;</span>
+            </label>
+            <div className="anim-group-grid">
+              {(Object.keys(ALIGN_MODES) as AlignMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  className={`anim-group-btn ${alignMode === mode ? 'active' : ''}`}
+                  title={ALIGN_MODES[mode].description}
+                  onClick={() => setAlignMode(mode)}
+                >
+                  {ALIGN_MODES[mode].label}
+                </button>
+              ))}
+            </div>
+            <button
+              className="btn btn-sm w-full"
+              style={{ marginTop: 6 }}
+              disabled={aligning || displaySprites.length === 0}
+              onClick={() => handleAutoAlign([anim.currentFrames])}
+            >
+              {aligning ? 'Aligning...' : hasAnimGroups ? 'Auto-align Group' : 'Auto-align Frames'}
+            </button>
+            {hasAnimGroups && (
+              <button
+                className="btn btn-sm w-full"
+                style={{ marginTop: 6 }}
+                disabled={aligning || displaySprites.length === 0}
+                onClick={() => handleAutoAlign(anim.animations.map((a) => a.frames))}
+              >
+                Auto-align All Groups
+              </button>
+            )}
+            {groupHasOffsets && (
+              <button
+                className="btn btn-sm w-full"
+                style={{ marginTop: 6 }}
+                onClick={() => selection.clearFrameOffsets(anim.currentFrames)}
+              >
+                Clear Offsets
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Onion Skin */}
+        {anim.mode === 'single' && !isParallax && (
+          <div className="sidebar-section">
+            <h3>
+              Onion Skin
+              <span title="Draw neighbouring frames faintly behind the current one to spot drift between poses. Past frames are tinted red, future frames blue." style={{ cursor: 'help', marginLeft: 4, fontSize: '0.7rem', color: 'var(--text-muted)' }}>&#9432;</span>
+            </h3>
+            <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Depth</label>
+            <div className="slider-row">
+              <input
+                type="range"
+                min={0}
+                max={3}
+                value={anim.onionSkin.depth}
+                onChange={(e) => anim.setOnionSkin({ ...anim.onionSkin, depth: Number(e.target.value) })}
+              />
+              <span className="slider-value">{anim.onionSkin.depth === 0 ? 'Off' : anim.onionSkin.depth}</span>
+            </div>
+            <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Opacity</label>
+            <div className="slider-row">
+              <input
+                type="range"
+                min={10}
+                max={80}
+                step={5}
+                value={Math.round(anim.onionSkin.opacity * 100)}
+                disabled={anim.onionSkin.depth === 0}
+                onChange={(e) => anim.setOnionSkin({ ...anim.onionSkin, opacity: Number(e.target.value) / 100 })}
+              />
+              <span className="slider-value">{Math.round(anim.onionSkin.opacity * 100)}%</span>
+            </div>
+            <div className="anim-group-grid" style={{ gridTemplateColumns: '1fr 1fr', marginTop: 4 }}>
+              <button
+                type="button"
+                className={`anim-group-btn ${!anim.onionSkin.tint ? 'active' : ''}`}
+                disabled={anim.onionSkin.depth === 0}
+                onClick={() => anim.setOnionSkin({ ...anim.onionSkin, tint: false })}
+              >
+                True Colour
+              </button>
+              <button
+                type="button"
+                className={`anim-group-btn ${anim.onionSkin.tint ? 'active' : ''}`}
+                disabled={anim.onionSkin.depth === 0}
+                onClick={() => anim.setOnionSkin({ ...anim.onionSkin, tint: true })}
+              >
+                Tinted
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* Speed Slider */}
         <div className="sidebar-section">
@@ -513,19 +1128,21 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
         </div>
 
         {/* Scale Slider */}
-        <div className="sidebar-section">
-          <h3>Scale</h3>
-          <div className="slider-row">
-            <input
-              type="range"
-              min={1}
-              max={4}
-              value={anim.scale}
-              onChange={(e) => anim.setScale(Number(e.target.value))}
-            />
-            <span className="slider-value">{anim.scale}x</span>
+        {!isParallax && (
+          <div className="sidebar-section">
+            <h3>Scale</h3>
+            <div className="slider-row">
+              <input
+                type="range"
+                min={1}
+                max={4}
+                value={anim.scale}
+                onChange={(e) => anim.setScale(Number(e.target.value))}
+              />
+              <span className="slider-value">{anim.scale}x</span>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Arrow Key Hint (character only) */}
         {isCharacter && (
@@ -547,6 +1164,16 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
           </div>
         )}
 
+        {/* Seamless Tiling (terrain only) */}
+        {isTerrain && (
+          <SeamCheckPanel
+            sprites={sprites}
+            fixes={seams.fixes}
+            onSaveFix={handleSaveSeamFix}
+            onRevertFix={handleRevertSeamFix}
+          />
+        )}
+
         {/* Posterize */}
         <div className="sidebar-section">
           <h3>
@@ -798,10 +1425,30 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
             type="button"
             className="btn btn-sm w-full"
             style={{ marginTop: 6 }}
-            onClick={() => reExtract({ aaInset, posterizeBits: post.posterizeBits })}
+            onClick={() => handleReExtract({ aaInset, posterizeBits: post.posterizeBits, ...(manualCuts ? { manualCuts } : {}) })}
           >
             Re-extract Sprites
           </button>
+          <button
+            type="button"
+            className="btn btn-sm w-full"
+            style={{ marginTop: 6 }}
+            onClick={() => setCutEditorOpen(true)}
+            disabled={!state.filledGridImage}
+            title="Show the cut bands on the filled grid and drag, add or delete row/column cuts"
+          >
+            Edit Grid Lines{manualCuts ? ' (manual)' : ''}
+          </button>
+          <button
+            type="button"
+            className="btn btn-sm w-full"
+            style={{ marginTop: 6 }}
+            onClick={() => setRegenCellsOpen(true)}
+            disabled={!state.filledGridImage || sprites.length === 0}
+            title="Redraw chosen cells with the rest of the sheet as reference, keeping everything else"
+          >
+            Regenerate Cells...
+          </button>
         </div>
 
         {/* Export */}
@@ -811,9 +1458,135 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
             <button className="btn btn-success w-full" onClick={handleExportSheet}>
               Export Sprite Sheet
             </button>
+            <button className="btn w-full" onClick={handleExportAtlas}>
+              Export Atlas (PNG + JSON)
+            </button>
+            <div className="slider-row">
+              <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>
+                Atlas JSON
+                <span title="TexturePacker JSON layout. Hash keys frames by name; Array lists them in cell order." style={{ cursor: 'help', marginLeft: 4 }}>&#9432;</span>
+              </label>
+              <select
+                value={atlasFormat}
+                onChange={(e) => setAtlasFormat(e.target.value as AtlasFormat)}
+                className="btn btn-sm"
+                style={{ width: 'auto', padding: '2px 6px' }}
+              >
+                <option value="hash">Hash</option>
+                <option value="array">Array</option>
+              </select>
+            </div>
+            <div className="anim-group-grid" style={{ gridTemplateColumns: '1fr 1fr' }}>
+              <button
+                type="button"
+                className={`anim-group-btn ${!atlasPacked ? 'active' : ''}`}
+                onClick={() => setAtlasPacked(false)}
+                title="Keep the grid layout: every frame in a cell the size of the largest sprite"
+              >
+                Grid
+              </button>
+              <button
+                type="button"
+                className={`anim-group-btn ${atlasPacked ? 'active' : ''}`}
+                onClick={() => setAtlasPacked(true)}
+                title="Trim transparent borders and pack frames into a power-of-two texture"
+              >
+                Packed
+              </button>
+            </div>
+            {atlasPacked && (
+              <>
+                <div className="slider-row">
+                  <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Padding</label>
+                  <select
+                    value={atlasPadding}
+                    onChange={(e) => setAtlasPadding(Number(e.target.value))}
+                    className="btn btn-sm"
+                    style={{ width: 'auto', padding: '2px 6px' }}
+                  >
+                    {[0, 1, 2, 4, 8].map((v) => (
+                      <option key={v} value={v}>{v}px</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="slider-row">
+                  <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>
+                    Extrude
+                    <span title="Repeat each frame's edge pixels outward to prevent texture bleeding when filtering." style={{ cursor: 'help', marginLeft: 4 }}>&#9432;</span>
+                  </label>
+                  <select
+                    value={atlasExtrude}
+                    onChange={(e) => setAtlasExtrude(Number(e.target.value))}
+                    className="btn btn-sm"
+                    style={{ width: 'auto', padding: '2px 6px' }}
+                  >
+                    {[0, 1, 2, 4].map((v) => (
+                      <option key={v} value={v}>{v}px</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+            <div className="slider-row">
+              <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>
+                Engine
+                <span title="Atlas PNG plus engine resource files. Godot: SpriteFrames .tres. Unity: sliced .meta + clip JSON. Tiled: .tsx tileset (terrain only, grid layout). Autotile: bitmask mapping JSON + Godot TileSet terrain set + Tiled wang set (autotile grids only)." style={{ cursor: 'help', marginLeft: 4 }}>&#9432;</span>
+              </label>
+              <select
+                value={engineTarget}
+                onChange={(e) => setEngineTarget(e.target.value as EngineTarget)}
+                className="btn btn-sm"
+                style={{ width: 'auto', padding: '2px 6px' }}
+              >
+                {(Object.keys(ENGINE_TARGETS) as EngineTarget[])
+                  .filter((t) => !ENGINE_TARGETS[t].terrainOnly || state.spriteType === 'terrain')
+                  .map((t) => (
+                    <option key={t} value={t}>{ENGINE_TARGETS[t].label}</option>
+                  ))}
+              </select>
+            </div>
+            <button className="btn w-full" onClick={handleExportEngine}>
+              Export for Engine
+            </button>
+            <button className="btn btn-sm w-full" onClick={handleArchiveEngine} disabled={engineArchiving || !state.filledGridImage}>
+              {engineArchiving ? 'Archiving...' : 'Save Engine Export to Archive'}
+            </button>
+            {state.archiveFolder && (
+              <button
+                className="btn btn-sm w-full"
+                onClick={handleDownloadBundle}
+                title={`ZIP of ${state.archiveFolder}: grid, sprites, exports and a manifest with labels, cell groups, prompt and model`}
+              >
+                Download Bundle (ZIP)
+              </button>
+            )}
             <button className="btn w-full" onClick={handleExportIndividual}>
               Export Individual PNGs
             </button>
+            <div className="slider-row">
+              <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>
+                Animation
+                <span title="Uses the preview's frame order, speed and scale, with mirroring and chroma/posterize processing applied." style={{ cursor: 'help', marginLeft: 4 }}>&#9432;</span>
+              </label>
+              <select
+                value={animFormat}
+                onChange={(e) => setAnimFormat(e.target.value as AnimationFormat)}
+                className="btn btn-sm"
+                style={{ width: 'auto', padding: '2px 6px' }}
+              >
+                {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((f) => (
+                  <option key={f} value={f}>{ANIMATION_FORMATS[f].label}</option>
+                ))}
+              </select>
+            </div>
+            <button className="btn w-full" onClick={handleExportAnimation} disabled={animExporting}>
+              {animExporting ? 'Encoding...' : hasAnimGroups ? `Export "${anim.animations[anim.selectedAnim]?.name}"` : 'Export Cell Cycle'}
+            </button>
+            {hasAnimGroups && (
+              <button className="btn w-full" onClick={handleExportAllAnimations} disabled={animExporting}>
+                Export All Animations (ZIP)
+              </button>
+            )}
             <button className="btn btn-primary w-full" onClick={() => setAddSheetOpen(true)}>
               Add Sheet
             </button>
@@ -836,6 +1609,18 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
           onClose={() => setAddSheetOpen(false)}
           currentSprites={displaySprites}
         />
+        <RegenerateCellsModal
+          open={regenCellsOpen}
+          onClose={() => setRegenCellsOpen(false)}
+          sprites={processedSprites}
+          aaInset={aaInset}
+          posterizeBits={post.posterizeBits}
+          manualCuts={manualCuts}
+          onRegenerated={(cells) => {
+            selection.clearCellEdits(cells);
+            dropSeamFixes(cells);
+          }}
+        />
       </aside>
 
       {selection.zoomSpriteIndex !== null && (() => {
@@ -848,10 +1633,47 @@ export function SpriteReview({ cellGroups }: SpriteReviewProps = {}) {
             onStrikeColor={handleZoomStrikeColor}
             onUnstrikeColor={handleZoomUnstrikeColor}
             onErasePixel={selection.handleErasePixel}
+            pivot={basePivots.get(zoomSprite.cellIndex) ?? null}
+            pivotPlaced={placedPivots.has(zoomSprite.cellIndex)}
+            onSetPivot={selection.handleSetPivot}
+            onResetPivot={selection.handleResetPivot}
+            onInpaint={state.filledGridImage ? handleInpaint : undefined}
+            onApplyInpaint={handleApplyInpaint}
+            onCancelInpaint={inpaint.cancel}
+            onUndoInpaint={handleUndoInpaint}
+            canUndoInpaint={inpaint.canUndo}
+            inpainting={inpaint.generating}
             onClose={() => selection.setZoomSpriteIndex(null)}
           />
         );
       })()}
+
+      {cutEditorOpen && state.filledGridImage && (
+        <GridCutEditor
+          gridImage={state.filledGridImage}
+          mimeType={state.filledGridMimeType}
+          gridOverride={{
+            cols: dynamicCols ?? 6,
+            rows: dynamicRows ?? 6,
+            totalCells: cellCount,
+            cellLabels: dynamicCellLabels ?? [],
+          }}
+          aaInset={aaInset}
+          posterizeBits={post.posterizeBits}
+          initialCuts={manualCuts}
+          onApply={(cuts) => {
+            setManualCuts(cuts);
+            handleReExtract({ aaInset, posterizeBits: post.posterizeBits, manualCuts: cuts });
+            setCutEditorOpen(false);
+          }}
+          onClearManual={() => {
+            setManualCuts(null);
+            handleReExtract({ aaInset, posterizeBits: post.posterizeBits });
+            setCutEditorOpen(false);
+          }}
+          onClose={() => setCutEditorOpen(false)}
+        />
+      )}
     </div>
   );
 }
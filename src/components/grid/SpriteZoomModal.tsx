@@ -1,15 +1,29 @@
 /**
- * Zoom modal for pixel-level sprite inspection with eyedropper-to-strike
- * and eraser workflows. Renders a zoomable, pannable canvas.
+ * Zoom modal for pixel-level sprite inspection with eyedropper-to-strike,
+ * eraser, pivot-placement and region-fix workflows. Renders a zoomable,
+ * pannable canvas.
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { ExtractedSprite } from '../../lib/spriteExtractor';
 import { useModalFocus } from '../../hooks/useModalFocus';
+import type { Pivot } from '../../lib/pivot';
+import type { CellRect } from '../../lib/gridCandidates';
+import { compositeRegion, dragRect } from '../../lib/inpaint';
 
 type RGB = [number, number, number];
 
-type Tool = 'eyedropper' | 'eraser';
+type Tool = 'eyedropper' | 'eraser' | 'pivot' | 'inpaint';
+
+/** A redrawn sprite: `patch` goes to the sheet, `preview` is keyed like the sprite shown. */
+export interface InpaintResult {
+  patch: ImageData;
+  preview: ImageData;
+}
+
+interface PendingFix extends InpaintResult {
+  rect: CellRect;
+}
 
 interface SpriteZoomModalProps {
   sprite: ExtractedSprite;
@@ -17,10 +31,23 @@ interface SpriteZoomModalProps {
   onStrikeColor: (color: RGB) => void;
   onUnstrikeColor: (color: RGB) => void;
   onErasePixel: (x: number, y: number) => void;
+  /** Effective pivot in sprite pixels (placed or default) */
+  pivot: Pivot | null;
+  /** True when the pivot was placed by hand rather than defaulted */
+  pivotPlaced: boolean;
+  onSetPivot: (pivot: Pivot) => void;
+  onResetPivot: () => void;
+  /** Redraw a region of the sprite; resolves null when cancelled or failed */
+  onInpaint?: (rect: CellRect, instruction: string) => Promise<InpaintResult | null>;
+  onApplyInpaint?: (rect: CellRect, patch: ImageData) => Promise<boolean>;
+  onCancelInpaint?: () => void;
+  onUndoInpaint?: () => void;
+  canUndoInpaint?: boolean;
+  inpainting?: boolean;
   onClose: () => void;
 }
 
-export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, struckColors, onStrikeColor, onUnstrikeColor, onErasePixel, onClose }: SpriteZoomModalProps) {
+export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, struckColors, onStrikeColor, onUnstrikeColor, onErasePixel, pivot, pivotPlaced, onSetPivot, onResetPivot, onInpaint, onApplyInpaint, onCancelInpaint, onUndoInpaint, canUndoInpaint = false, inpainting = false, onClose }: SpriteZoomModalProps) {
   const [zoom, setZoom] = useState(8);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
@@ -32,6 +59,13 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
   const [tool, setTool] = useState<Tool>('eyedropper');
   const imageDataRef = useRef<ImageData | null>(null);
   const [imageVersion, setImageVersion] = useState(0);
+  const [region, setRegion] = useState<CellRect | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const selectStartRef = useRef({ x: 0, y: 0 });
+  const [instruction, setInstruction] = useState('');
+  const [pendingFix, setPendingFix] = useState<PendingFix | null>(null);
+  const [showBefore, setShowBefore] = useState(false);
+  const [applying, setApplying] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const wrapRef = useRef<HTMLDivElement>(null);
@@ -66,6 +100,19 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
     img.src = `data:${sprite.mimeType};base64,${sprite.imageData}`;
   }, [sprite.imageData, sprite.mimeType]);
 
+  // A fix in progress belongs to the sprite it was drawn on
+  useEffect(() => {
+    setRegion(null);
+    setPendingFix(null);
+  }, [sprite.cellIndex]);
+
+  // Sprite as drawn: with the pending fix composited in unless comparing
+  const shownData = useMemo(() => {
+    const base = imageDataRef.current;
+    if (!base || !pendingFix || showBefore) return base;
+    return compositeRegion(base, pendingFix.preview, pendingFix.rect);
+  }, [imageVersion, pendingFix, showBefore]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Track container size with ResizeObserver
   useEffect(() => {
     const wrap = wrapRef.current;
@@ -96,7 +143,7 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
   // Canvas redraw — now depends on imageVersion to re-render after sprite updates
   useEffect(() => {
     const canvas = canvasRef.current;
-    const imgData = imageDataRef.current;
+    const imgData = shownData;
     if (!canvas || !imgData || canvasSize.w === 0) return;
 
     canvas.width = canvasSize.w;
@@ -177,6 +224,34 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
       );
     }
 
+    // Pivot marker: crosshair through the pivot point
+    if (pivot) {
+      const cx = panOffset.x + pivot.x * zoom;
+      const cy = panOffset.y + pivot.y * zoom;
+      const arm = Math.max(zoom * 2, 12);
+      ctx.strokeStyle = tool === 'pivot' ? '#c8ff00' : 'rgba(200, 255, 0, 0.6)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(cx - arm, cy);
+      ctx.lineTo(cx + arm, cy);
+      ctx.moveTo(cx, cy - arm);
+      ctx.lineTo(cx, cy + arm);
+      ctx.stroke();
+    }
+
+    // Region selected for a fix
+    if (region && region.w > 0 && region.h > 0) {
+      const rx = panOffset.x + region.x * zoom;
+      const ry = panOffset.y + region.y * zoom;
+      ctx.fillStyle = pendingFix ? 'rgba(200, 255, 0, 0.08)' : 'rgba(200, 255, 0, 0.18)';
+      ctx.fillRect(rx, ry, region.w * zoom, region.h * zoom);
+      ctx.strokeStyle = '#c8ff00';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(rx + 1, ry + 1, region.w * zoom - 2, region.h * zoom - 2);
+      ctx.setLineDash([]);
+    }
+
     // Pending strike overlay
     if (pendingStrike) {
       const [pr, pg, pb] = pendingStrike;
@@ -196,24 +271,39 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
         }
       }
     }
-  }, [canvasSize, zoom, panOffset, hoveredPixel, pendingStrike, imageVersion]);
+  }, [canvasSize, zoom, panOffset, hoveredPixel, pendingStrike, shownData, pivot, tool, region, pendingFix]);
 
-  // Pixel from screen coordinates
-  const getPixelAt = useCallback((clientX: number, clientY: number) => {
+  // Sprite pixel coordinates under screen coordinates, possibly off the sprite
+  const toSpritePixel = useCallback((clientX: number, clientY: number) => {
     const canvas = canvasRef.current;
-    const imgData = imageDataRef.current;
-    if (!canvas || !imgData) return null;
+    if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const mx = clientX - rect.left;
-    const my = clientY - rect.top;
-
     const curPan = panOffsetRef.current;
     const curZoom = zoomRef.current;
-    const px = Math.floor((mx - curPan.x) / curZoom);
-    const py = Math.floor((my - curPan.y) / curZoom);
+    return {
+      x: Math.floor((clientX - rect.left - curPan.x) / curZoom),
+      y: Math.floor((clientY - rect.top - curPan.y) / curZoom),
+    };
+  }, []);
+
+  // Sprite pixel under screen coordinates, transparent or not
+  const getCoordsAt = useCallback((clientX: number, clientY: number) => {
+    const imgData = imageDataRef.current;
+    const coords = toSpritePixel(clientX, clientY);
+    if (!imgData || !coords) return null;
+    const { x: px, y: py } = coords;
 
     if (px < 0 || py < 0 || px >= imgData.width || py >= imgData.height) return null;
+    return { x: px, y: py };
+  }, [toSpritePixel]);
+
+  // Opaque pixel from screen coordinates
+  const getPixelAt = useCallback((clientX: number, clientY: number) => {
+    const imgData = imageDataRef.current;
+    const coords = getCoordsAt(clientX, clientY);
+    if (!imgData || !coords) return null;
+    const { x: px, y: py } = coords;
 
     const i = (py * imgData.width + px) * 4;
     const a = imgData.data[i + 3];
@@ -224,11 +314,11 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
       y: py,
       color: [imgData.data[i], imgData.data[i + 1], imgData.data[i + 2]] as RGB,
     };
-  }, []);
+  }, [getCoordsAt]);
 
   // Mouse move on canvas — hover tracking only (panning handled by global listeners)
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (isPanning) return;
+    if (isPanning || isSelecting) return;
     const pixel = getPixelAt(e.clientX, e.clientY);
     if (pixel) {
       setHoveredColor(pixel.color);
@@ -237,15 +327,51 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
       setHoveredColor(null);
       setHoveredPixel(null);
     }
-  }, [isPanning, getPixelAt]);
+  }, [isPanning, isSelecting, getPixelAt]);
 
-  // Mouse down on canvas — start pan tracking
+  // Mouse down on canvas — start a region drag with the fix tool, else pan tracking
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.button !== 0) return;
+    const imgData = imageDataRef.current;
+    if (toolRef.current === 'inpaint' && imgData && !pendingFix && !inpainting) {
+      const start = toSpritePixel(e.clientX, e.clientY);
+      if (start && start.x >= 0 && start.y >= 0 && start.x < imgData.width && start.y < imgData.height) {
+        selectStartRef.current = start;
+        setRegion(dragRect(start, start, imgData.width, imgData.height));
+        setIsSelecting(true);
+        return;
+      }
+    }
     setIsPanning(true);
     panStartRef.current = { x: e.clientX, y: e.clientY };
     dragDistRef.current = 0;
-  }, []);
+  }, [pendingFix, inpainting, toSpritePixel]);
+
+  // Global mousemove/mouseup while dragging out a region
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    const handleGlobalMove = (e: MouseEvent) => {
+      const imgData = imageDataRef.current;
+      const end = toSpritePixel(e.clientX, e.clientY);
+      if (imgData && end) setRegion(dragRect(selectStartRef.current, end, imgData.width, imgData.height));
+    };
+
+    const handleGlobalUp = () => {
+      setIsSelecting(false);
+      justPannedRef.current = true;
+      requestAnimationFrame(() => {
+        justPannedRef.current = false;
+      });
+    };
+
+    window.addEventListener('mousemove', handleGlobalMove);
+    window.addEventListener('mouseup', handleGlobalUp);
+    return () => {
+      window.removeEventListener('mousemove', handleGlobalMove);
+      window.removeEventListener('mouseup', handleGlobalUp);
+    };
+  }, [isSelecting, toSpritePixel]);
 
   // Global mousemove/mouseup during panning — survives cursor leaving canvas/window
   useEffect(() => {
@@ -265,7 +391,12 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
       setIsPanning(false);
 
       if (dragDistRef.current < 3) {
-        // Click (not drag)
+        // Click (not drag). The pivot sits on the bottom-center of the clicked pixel.
+        if (toolRef.current === 'pivot') {
+          const coords = getCoordsAt(e.clientX, e.clientY);
+          if (coords) onSetPivot({ x: coords.x + 0.5, y: coords.y + 1 });
+          return;
+        }
         const pixel = getPixelAt(e.clientX, e.clientY);
         if (pixel) {
           if (toolRef.current === 'eraser') {
@@ -289,7 +420,7 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
       window.removeEventListener('mousemove', handleGlobalMove);
       window.removeEventListener('mouseup', handleGlobalUp);
     };
-  }, [isPanning, getPixelAt, onErasePixel]);
+  }, [isPanning, getPixelAt, getCoordsAt, onErasePixel, onSetPivot]);
 
   // Scroll wheel zoom centered on cursor
   useEffect(() => {
@@ -322,21 +453,27 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
     return () => canvas.removeEventListener('wheel', handleWheel);
   }, []);
 
-  // Keyboard: +/-, E for eraser toggle (Escape handled by useModalFocus)
+  // Keyboard: +/-, E for eraser toggle, P for pivot toggle, I for region fix
+  // toggle (Escape handled by useModalFocus)
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.key === '+' || e.key === '=') {
         setZoom((z) => Math.min(32, z + 1));
       } else if (e.key === '-') {
         setZoom((z) => Math.max(1, z - 1));
       } else if (e.key === 'e' || e.key === 'E') {
         setTool((t) => t === 'eraser' ? 'eyedropper' : 'eraser');
+      } else if (e.key === 'p' || e.key === 'P') {
+        setTool((t) => t === 'pivot' ? 'eyedropper' : 'pivot');
+      } else if ((e.key === 'i' || e.key === 'I') && onInpaint) {
+        setTool((t) => t === 'inpaint' ? 'eyedropper' : 'inpaint');
       }
     };
 
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, []);
+  }, [onInpaint]);
 
   const handleBackdropClick = useCallback((e: React.MouseEvent) => {
     if (e.target === e.currentTarget && !justPannedRef.current) onClose();
@@ -349,7 +486,28 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
     }
   }, [pendingStrike, onStrikeColor]);
 
-  const cursorClass = tool === 'eraser' ? 'is-eraser' : '';
+  const handleFixRegion = useCallback(async () => {
+    if (!onInpaint || !region || region.w === 0 || region.h === 0) return;
+    const rect = region;
+    const result = await onInpaint(rect, instruction);
+    if (result) {
+      setPendingFix({ ...result, rect });
+      setShowBefore(false);
+    }
+  }, [onInpaint, region, instruction]);
+
+  const handleApplyFix = useCallback(async () => {
+    if (!onApplyInpaint || !pendingFix) return;
+    setApplying(true);
+    const applied = await onApplyInpaint(pendingFix.rect, pendingFix.patch);
+    setApplying(false);
+    if (applied) {
+      setPendingFix(null);
+      setRegion(null);
+    }
+  }, [onApplyInpaint, pendingFix]);
+
+  const cursorClass = tool === 'eraser' ? 'is-eraser' : tool === 'pivot' ? 'is-pivot' : tool === 'inpaint' ? 'is-inpaint' : '';
 
   return (
     <div className="zoom-modal-backdrop" onClick={handleBackdropClick}>
@@ -372,6 +530,22 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
             >
               &#x232B;
             </button>
+            <button
+              className={tool === 'pivot' ? 'active' : ''}
+              onClick={() => setTool('pivot')}
+              title="Pivot — click to place the anchor point (P)"
+            >
+              &#x2316;
+            </button>
+            {onInpaint && (
+              <button
+                className={tool === 'inpaint' ? 'active' : ''}
+                onClick={() => setTool('inpaint')}
+                title="Fix region — drag a rectangle to redraw (I)"
+              >
+                &#x2B1A;
+              </button>
+            )}
           </div>
           <div className="zoom-controls">
             <button onClick={() => setZoom((z) => Math.max(1, z - 1))} title="Zoom out (-)">-</button>
@@ -411,7 +585,21 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
             <span>
               {tool === 'eraser'
                 ? 'Click a pixel to erase it'
-                : 'Hover to inspect, click to strike a color'}
+                : tool === 'pivot'
+                  ? 'Click to place the pivot'
+                  : tool === 'inpaint'
+                    ? 'Drag a rectangle over the part to redraw'
+                    : 'Hover to inspect, click to strike a color'}
+            </span>
+          )}
+          {pivot && (
+            <span className="zoom-pivot-info">
+              Pivot ({pivot.x}, {pivot.y}){pivotPlaced ? '' : ' \u2014 default'}
+              {pivotPlaced && (
+                <button className="zoom-pivot-reset" onClick={onResetPivot} title="Return to the bottom-center of the opaque bounds">
+                  Reset
+                </button>
+              )}
             </span>
           )}
           {struckColors.length > 0 && (
@@ -429,6 +617,56 @@ export const SpriteZoomModal = React.memo(function SpriteZoomModal({ sprite, str
           )}
         </div>
 
+        {/* Region fix bar */}
+        {tool === 'inpaint' && (
+          <div className="zoom-inpaint-bar">
+            {inpainting ? (
+              <>
+                <span className="zoom-inpaint-status">Redrawing region...</span>
+                <button className="btn btn-sm" onClick={onCancelInpaint}>Cancel</button>
+              </>
+            ) : pendingFix ? (
+              <>
+                <div className="segmented-control">
+                  <button className={showBefore ? 'active' : ''} onClick={() => setShowBefore(true)}>Before</button>
+                  <button className={showBefore ? '' : 'active'} onClick={() => setShowBefore(false)}>After</button>
+                </div>
+                <div className="zoom-inpaint-actions">
+                  <button className="btn btn-sm" disabled={applying} onClick={() => setPendingFix(null)}>Discard</button>
+                  <button className="btn btn-sm btn-primary" disabled={applying} onClick={handleApplyFix}>
+                    {applying ? 'Applying...' : 'Apply'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <input
+                  className="zoom-inpaint-input"
+                  type="text"
+                  placeholder="What should change, e.g. close the gap in the sword hilt"
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleFixRegion(); }}
+                />
+                <div className="zoom-inpaint-actions">
+                  {canUndoInpaint && (
+                    <button className="btn btn-sm" onClick={onUndoInpaint} title="Put back the sheet as it was before the last fix">
+                      Undo Fix
+                    </button>
+                  )}
+                  <button
+                    className="btn btn-sm btn-primary"
+                    disabled={!region || region.w === 0 || region.h === 0}
+                    onClick={handleFixRegion}
+                  >
+                    Fix Region{region && region.w > 0 ? ` (${region.w}\u00d7${region.h})` : ''}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Strike confirmation bar */}
         {pendingStrike && (
           <div className="zoom-strike-confirm">
@@ -1,6 +1,6 @@
 /**
  * Application header bar.
- * Shows title, tab navigation (Designer / Gallery),
+ * Shows title, tab navigation (Designer / Gallery / Map Painter / Admin),
  * test-connection button, and contextual actions.
  */
 
@@ -8,7 +8,7 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { useAppState, useAppDispatch } from '../../context/AppContext';
 import { testConnection } from '../../api/geminiClient';
 
-export type AppTab = 'designer' | 'gallery' | 'admin';
+export type AppTab = 'designer' | 'gallery' | 'map' | 'admin';
 
 interface AppHeaderProps {
   tab: AppTab;
@@ -76,6 +76,12 @@ export function AppHeader({ tab, onTabChange }: AppHeaderProps) {
           >
             Gallery
           </button>
+          <button
+            className={`header-tab${tab === 'map' ? ' active' : ''}`}
+            onClick={() => onTabChange('map')}
+          >
+            Map Painter
+          </button>
           <button
             className={`header-tab${tab === 'admin' ? ' active' : ''}`}
             onClick={() => onTabChange('admin')}
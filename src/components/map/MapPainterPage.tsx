@@ -0,0 +1,413 @@
+/**
+ * Map painter: a small tilemap sandbox for trying out a terrain set.
+ * Loads a saved terrain generation's tiles (with their seam fixes) as a
+ * palette, paints them onto a map — by hand, or through the autotile rules
+ * when the sheet came from an autotile grid — and exports the map as a PNG
+ * or as a Tiled .tmx together with the tileset and atlas it references.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppDispatch } from '../../context/AppContext';
+import type { GalleryEntry, GalleryResponse, HistoryResponse } from '../../types/api';
+import { parseAutotileSet } from '../../lib/autotile';
+import { layoutGrid, composeAtlas } from '../../lib/atlasExporter';
+import { buildTiledMap, buildTiledTileset } from '../../lib/engineExporters';
+import type { ExtractedSprite } from '../../lib/spriteExtractor';
+import {
+  createTileMap, resizeTileMap, paintTile, paintTerrain, fillEmpty, resolveTiles, pickVariant,
+  EMPTY_TILE, type TileMap,
+} from '../../lib/tileMap';
+
+/** Palette entry that paints autotile terrain instead of a single tile */
+const AUTOTILE_BRUSH = -2;
+
+const BASE_TILE_PX = 32;
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3, 4];
+const EXPORT_TILE_SIZES = [16, 32, 64, 0];
+
+type Tool = 'paint' | 'erase';
+
+interface PaletteTile extends ExtractedSprite {
+  image: HTMLImageElement;
+}
+
+interface LoadedSet {
+  id: number;
+  name: string;
+  columns: number;
+  tiles: PaletteTile[];
+}
+
+function loadTileImage(data: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load tile image'));
+    img.src = `data:${mimeType};base64,${data}`;
+  });
+}
+
+/** Trigger a browser download for in-memory data. */
+function downloadBlob(data: string, mimeType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Draw the resolved map at `tilePx` per tile. */
+function drawMap(
+  canvas: HTMLCanvasElement,
+  map: TileMap,
+  shown: number[],
+  images: Map<number, HTMLImageElement>,
+  tilePx: number,
+  showGrid: boolean,
+) {
+  canvas.width = map.width * tilePx;
+  canvas.height = map.height * tilePx;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.imageSmoothingEnabled = false;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  shown.forEach((tile, i) => {
+    const img = images.get(tile);
+    if (img) ctx.drawImage(img, (i % map.width) * tilePx, Math.floor(i / map.width) * tilePx, tilePx, tilePx);
+  });
+  if (!showGrid) return;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = 1; x < map.width; x++) {
+    ctx.moveTo(x * tilePx + 0.5, 0);
+    ctx.lineTo(x * tilePx + 0.5, canvas.height);
+  }
+  for (let y = 1; y < map.height; y++) {
+    ctx.moveTo(0, y * tilePx + 0.5);
+    ctx.lineTo(canvas.width, y * tilePx + 0.5);
+  }
+  ctx.stroke();
+}
+
+export function MapPainterPage() {
+  const dispatch = useAppDispatch();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const strokeRef = useRef<{ lastCell: string | null; panFrom: { x: number; y: number } | null } | null>(null);
+
+  const [entries, setEntries] = useState<GalleryEntry[]>([]);
+  const [set, setSet] = useState<LoadedSet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [map, setMap] = useState<TileMap>(() => createTileMap(16, 12));
+  const [brush, setBrush] = useState<number>(EMPTY_TILE);
+  const [tool, setTool] = useState<Tool>('paint');
+  const [randomVariants, setRandomVariants] = useState(true);
+  const [showGrid, setShowGrid] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [exportTilePx, setExportTilePx] = useState(32);
+
+  const autotile = useMemo(() => (set ? parseAutotileSet(set.tiles) : null), [set]);
+  const scheme = autotile?.scheme ?? null;
+  const images = useMemo(() => new Map(set?.tiles.map((t) => [t.cellIndex, t.image]) ?? []), [set]);
+  const shown = useMemo(() => resolveTiles(map, autotile), [map, autotile]);
+  const tilePx = BASE_TILE_PX * zoom;
+
+  useEffect(() => {
+    fetch('/api/gallery?spriteType=terrain&limit=100')
+      .then((res) => res.json())
+      .then((data: GalleryResponse) => setEntries(data.entries))
+      .catch((err) => {
+        console.error('Failed to fetch terrain generations:', err);
+        dispatch({ type: 'SET_STATUS', message: 'Failed to load terrain generations', statusType: 'warning' });
+      });
+  }, [dispatch]);
+
+  const handleLoad = useCallback(async (id: number) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/history/${id}`);
+      if (!res.ok) throw new Error(`Failed to load generation (${res.status})`);
+      const data: HistoryResponse = await res.json();
+      // Saved seam fixes stand in for their tiles, as in the review
+      const tiles = await Promise.all((data.sprites ?? []).map(async (s) => {
+        const source = s.seamFix ? { data: s.seamFix.imageData, mimeType: 'image/png' } : { data: s.imageData, mimeType: s.mimeType };
+        const image = await loadTileImage(source.data, source.mimeType);
+        return {
+          cellIndex: s.cellIndex, label: s.label, imageData: source.data, mimeType: source.mimeType,
+          width: image.naturalWidth, height: image.naturalHeight, image,
+        };
+      }));
+      const cols = parseInt((data.gridSize ?? '').split('x')[0], 10);
+      const loaded: LoadedSet = {
+        id,
+        name: data.content?.name || 'terrain',
+        columns: cols > 0 ? cols : Math.ceil(Math.sqrt(tiles.length)),
+        tiles,
+      };
+      const loadedAutotile = parseAutotileSet(tiles);
+      setSet(loaded);
+      setMap((m) => createTileMap(m.width, m.height, loadedAutotile?.scheme ?? null));
+      setBrush(loadedAutotile ? AUTOTILE_BRUSH : tiles[0]?.cellIndex ?? EMPTY_TILE);
+      setTool('paint');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message, statusType: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (canvasRef.current) drawMap(canvasRef.current, map, shown, images, tilePx, showGrid);
+  }, [map, shown, images, tilePx, showGrid]);
+
+  const applyAt = useCallback((x: number, y: number) => {
+    setMap((m) => {
+      if (tool === 'erase') return paintTile(m, x, y, EMPTY_TILE, scheme);
+      if (brush === AUTOTILE_BRUSH) return scheme ? paintTerrain(m, x, y, scheme) : m;
+      if (brush === EMPTY_TILE || !set) return m;
+      return paintTile(m, x, y, randomVariants ? pickVariant(set.tiles, brush, x, y) : brush, scheme);
+    });
+  }, [tool, brush, scheme, set, randomVariants]);
+
+  const cellAt = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: Math.floor((e.clientX - rect.left) / tilePx), y: Math.floor((e.clientY - rect.top) / tilePx) };
+  };
+
+  // Left button paints, middle or right button pans
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (e.button === 0 && e.target === canvasRef.current) {
+      const { x, y } = cellAt(e);
+      strokeRef.current = { lastCell: `${x},${y}`, panFrom: null };
+      applyAt(x, y);
+    } else if (e.button === 1 || e.button === 2) {
+      strokeRef.current = { lastCell: null, panFrom: { x: e.clientX - pan.x, y: e.clientY - pan.y } };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    if (stroke.panFrom) {
+      setPan({ x: e.clientX - stroke.panFrom.x, y: e.clientY - stroke.panFrom.y });
+      return;
+    }
+    const { x, y } = cellAt(e);
+    const key = `${x},${y}`;
+    if (key === stroke.lastCell) return;
+    stroke.lastCell = key;
+    applyAt(x, y);
+  };
+
+  const handlePointerUp = () => { strokeRef.current = null; };
+
+  // Zoom around the cursor
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const i = ZOOM_LEVELS.indexOf(zoom);
+    const next = ZOOM_LEVELS[Math.max(0, Math.min(ZOOM_LEVELS.length - 1, i + (e.deltaY < 0 ? 1 : -1)))];
+    if (next === zoom) return;
+    const rect = viewportRef.current!.getBoundingClientRect();
+    const cx = e.clientX - rect.left;
+    const cy = e.clientY - rect.top;
+    setPan((p) => ({ x: cx - ((cx - p.x) * next) / zoom, y: cy - ((cy - p.y) * next) / zoom }));
+    setZoom(next);
+  };
+
+  const handleResize = (width: number, height: number) => {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 || width > 128 || height > 128) return;
+    setMap((m) => resizeTileMap(m, width, height, scheme));
+  };
+
+  const handleExportPng = () => {
+    if (!set) return;
+    const canvas = document.createElement('canvas');
+    drawMap(canvas, map, shown, images, exportTilePx || set.tiles[0].width, false);
+    const link = document.createElement('a');
+    link.href = canvas.toDataURL('image/png');
+    link.download = `${set.name}-map.png`;
+    link.click();
+  };
+
+  // The .tmx references the tileset by the names the engine export uses,
+  // and the tileset and atlas are written alongside so the map opens as-is
+  const handleExportTmx = async () => {
+    if (!set) return;
+    try {
+      const layout = layoutGrid(set.tiles, set.columns);
+      const imageName = `${set.name}-atlas.png`;
+      const tileset = buildTiledTileset(layout, {
+        baseName: set.name, imageName, columns: set.columns, autotile: autotile ?? undefined,
+      });
+      const tmx = buildTiledMap(shown, {
+        width: map.width,
+        height: map.height,
+        tileWidth: set.tiles[0].width,
+        tileHeight: set.tiles[0].height,
+        tilesetSource: `${set.name}.tsx`,
+      });
+      const { base64 } = await composeAtlas(set.tiles, layout);
+      const pngLink = document.createElement('a');
+      pngLink.href = `data:image/png;base64,${base64}`;
+      pngLink.download = imageName;
+      pngLink.click();
+      downloadBlob(tileset, 'application/xml', `${set.name}.tsx`);
+      downloadBlob(tmx, 'application/xml', `${set.name}-map.tmx`);
+      dispatch({ type: 'SET_STATUS', message: 'Tiled map exported!', statusType: 'success' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: 'Export failed: ' + message, statusType: 'error' });
+    }
+  };
+
+  return (
+    <div className="review-layout map-painter">
+      <div
+        ref={viewportRef}
+        className="review-main map-painter-viewport"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {set ? (
+          <canvas
+            ref={canvasRef}
+            className="map-painter-canvas"
+            style={{ transform: `translate(${pan.x}px, ${pan.y}px)` }}
+            aria-label={`${set.name} map, ${map.width} by ${map.height} tiles`}
+          />
+        ) : (
+          <div className="gallery-empty">
+            {loading ? 'Loading tiles…' : 'Pick a terrain generation to paint with.'}
+          </div>
+        )}
+      </div>
+
+      <div className="review-sidebar">
+        <div className="sidebar-section">
+          <h3>Terrain Set</h3>
+          <select
+            className="btn btn-sm w-full"
+            value={set?.id ?? ''}
+            disabled={loading}
+            onChange={(e) => e.target.value && handleLoad(Number(e.target.value))}
+          >
+            <option value="">{entries.length ? 'Choose a generation…' : 'No terrain generations yet'}</option>
+            {entries.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.contentName || 'Untitled'} ({entry.gridSize ?? '?'}, {entry.createdAt})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {set && (
+          <>
+            <div className="sidebar-section">
+              <h3>
+                Palette
+                <span title="Click a tile, then paint on the map. Middle or right drag pans, the wheel zooms." style={{ cursor: 'help', marginLeft: 4, fontSize: '0.7rem', color: 'var(--text-muted)' }}>&#9432;</span>
+              </h3>
+              <div className="map-painter-palette">
+                {autotile && (
+                  <button
+                    type="button"
+                    className={`map-painter-swatch map-painter-autotile ${brush === AUTOTILE_BRUSH ? 'active' : ''}`}
+                    title={`Autotile terrain (${autotile.scheme === 'blob-47' ? '47-tile blob' : '16-tile corners'}): tiles follow their neighbours`}
+                    onClick={() => { setBrush(AUTOTILE_BRUSH); setTool('paint'); }}
+                  >
+                    Auto
+                  </button>
+                )}
+                {set.tiles.map((t) => (
+                  <button
+                    key={t.cellIndex}
+                    type="button"
+                    className={`map-painter-swatch ${brush === t.cellIndex ? 'active' : ''}`}
+                    title={t.label}
+                    onClick={() => { setBrush(t.cellIndex); setTool('paint'); }}
+                  >
+                    <img src={t.image.src} alt={t.label} />
+                  </button>
+                ))}
+              </div>
+              <div className="anim-group-grid" style={{ gridTemplateColumns: '1fr 1fr', marginTop: 6 }}>
+                <button type="button" className={`anim-group-btn ${tool === 'paint' ? 'active' : ''}`} onClick={() => setTool('paint')}>Paint</button>
+                <button type="button" className={`anim-group-btn ${tool === 'erase' ? 'active' : ''}`} onClick={() => setTool('erase')}>Erase</button>
+              </div>
+              <label className="map-painter-toggle" title="Paint a random variant of the same terrain (e.g. Base Grass 1–3)">
+                <input type="checkbox" checked={randomVariants} onChange={(e) => setRandomVariants(e.target.checked)} />
+                Mix variants
+              </label>
+              <button
+                className="btn btn-sm w-full"
+                disabled={brush < 0}
+                onClick={() => setMap((m) => fillEmpty(m, brush))}
+              >
+                Fill Empty Cells
+              </button>
+            </div>
+
+            <div className="sidebar-section">
+              <h3>Map</h3>
+              <div className="map-painter-size">
+                <label>
+                  Width
+                  <input type="number" min={1} max={128} value={map.width} onChange={(e) => handleResize(Number(e.target.value), map.height)} />
+                </label>
+                <label>
+                  Height
+                  <input type="number" min={1} max={128} value={map.height} onChange={(e) => handleResize(map.width, Number(e.target.value))} />
+                </label>
+              </div>
+              <label className="map-painter-toggle">
+                <input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} />
+                Show grid
+              </label>
+              <div className="slider-row">
+                <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Zoom</label>
+                <span className="slider-value">{Math.round(zoom * 100)}%</span>
+                <button className="btn btn-sm" onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}>Reset View</button>
+              </div>
+              <button className="btn btn-sm btn-danger w-full" onClick={() => setMap((m) => createTileMap(m.width, m.height, scheme))}>
+                Clear Map
+              </button>
+            </div>
+
+            <div className="sidebar-section">
+              <h3>Export</h3>
+              <div className="slider-row">
+                <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>PNG tile size</label>
+                <select
+                  value={exportTilePx}
+                  onChange={(e) => setExportTilePx(Number(e.target.value))}
+                  className="btn btn-sm"
+                  style={{ width: 'auto', padding: '2px 6px' }}
+                >
+                  {EXPORT_TILE_SIZES.map((px) => (
+                    <option key={px} value={px}>{px ? `${px}px` : `Native (${set.tiles[0].width}px)`}</option>
+                  ))}
+                </select>
+              </div>
+              <button className="btn w-full" onClick={handleExportPng}>Export Map PNG</button>
+              <button
+                className="btn btn-sm w-full"
+                title="Tiled map (.tmx) plus the tileset (.tsx) and atlas PNG it references, named as the engine export names them"
+                onClick={handleExportTmx}
+              >
+                Export Tiled Map
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Parallax scene preview for background layer sheets. Stacks the layers
+ * far to near, each repeating horizontally and scrolling at its own
+ * speed, with auto-scroll, arrow-key scrolling on the focused scene and an
+ * optional character from the gallery walking in the foreground.
+ */
+
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import type { ExtractedSprite } from '../../lib/spriteExtractor';
+import type { GalleryEntry, GalleryResponse, HistoryResponse } from '../../types/api';
+import { applyChromaKey } from '../../lib/chromaKey';
+import { layerOffset, walkCycle, MAX_PARALLAX_SPEED, type ParallaxLayer } from '../../lib/parallax';
+
+/** Chroma tolerance for keying the walker's magenta background (the review default) */
+const WALKER_TOLERANCE = 80;
+
+interface ParallaxPreviewProps {
+  /** Layers far to near, with their speeds */
+  layers: ParallaxLayer[];
+  /** Processed display sprites the layers are drawn from */
+  sprites: ExtractedSprite[];
+  /** Walker frame delay */
+  frameDelayMs: number;
+  onSpeedChange: (index: number, speed: number) => void;
+  onResetSpeeds: () => void;
+}
+
+interface Walker {
+  frames: HTMLCanvasElement[];
+  facesLeft: boolean;
+}
+
+function loadImage(data: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load layer image'));
+    img.src = `data:${mimeType};base64,${data}`;
+  });
+}
+
+/** Decode a character frame and key out its magenta background. */
+async function keyedFrame(data: string, mimeType: string): Promise<HTMLCanvasElement> {
+  const img = await loadImage(data, mimeType);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  ctx.putImageData(applyChromaKey(ctx.getImageData(0, 0, canvas.width, canvas.height), WALKER_TOLERANCE), 0, 0);
+  return canvas;
+}
+
+export function ParallaxPreview({ layers, sprites, frameDelayMs, onSpeedChange, onResetSpeeds }: ParallaxPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [images, setImages] = useState<Map<number, HTMLImageElement>>(new Map());
+  const [autoScroll, setAutoScroll] = useState(true);
+  const [scrollSpeed, setScrollSpeed] = useState(120);
+  const [characters, setCharacters] = useState<GalleryEntry[]>([]);
+  const [characterId, setCharacterId] = useState<number | null>(null);
+  const [walker, setWalker] = useState<Walker | null>(null);
+  const [walkerSize, setWalkerSize] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scroll state lives in refs so the draw loop never restarts mid-scroll
+  const cameraRef = useRef(0);
+  const heldRef = useRef(0);
+  const facingRef = useRef(1);
+  const walkTimeRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sprites.map(async (s) => [s.cellIndex, await loadImage(s.imageData, s.mimeType)] as const))
+      .then((loaded) => { if (!cancelled) setImages(new Map(loaded)); })
+      .catch((err) => console.error('Failed to load parallax layers:', err));
+    return () => { cancelled = true; };
+  }, [sprites]);
+
+  useEffect(() => {
+    fetch('/api/gallery?spriteType=character&limit=100')
+      .then((res) => res.json())
+      .then((data: GalleryResponse) => setCharacters(data.entries))
+      .catch((err) => console.error('Failed to fetch character generations:', err));
+  }, []);
+
+  useEffect(() => {
+    setWalker(null);
+    setError(null);
+    if (characterId === null) return;
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/history/${characterId}`);
+      if (!res.ok) throw new Error(`Failed to load character (${res.status})`);
+      const data: HistoryResponse = await res.json();
+      const charSprites = data.sprites ?? [];
+      const cycle = walkCycle(charSprites);
+      if (!cycle) throw new Error('That sheet has no Walk Right or Walk Left frames');
+      const byCell = new Map(charSprites.map((s) => [s.cellIndex, s]));
+      const frames = await Promise.all(cycle.cells.map((c) => keyedFrame(byCell.get(c)!.imageData, byCell.get(c)!.mimeType)));
+      if (!cancelled) setWalker({ frames, facesLeft: cycle.facesLeft });
+    })().catch((err: unknown) => {
+      if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+    });
+    return () => { cancelled = true; };
+  }, [characterId]);
+
+  const draw = useCallback((moving: boolean) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const drawn = layers.map((l) => images.get(l.cellIndex)).filter((img): img is HTMLImageElement => !!img);
+    const width = Math.max(0, ...drawn.map((img) => img.naturalWidth));
+    const height = Math.max(0, ...drawn.map((img) => img.naturalHeight));
+    if (width === 0 || height === 0) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, width, height);
+
+    // Far to near, every layer repeated across the view and resting on the bottom edge
+    for (const layer of layers) {
+      const img = images.get(layer.cellIndex);
+      if (!img) continue;
+      const w = img.naturalWidth;
+      for (let x = layerOffset(cameraRef.current, layer.speed, w); x < width; x += w) {
+        ctx.drawImage(img, Math.round(x), height - img.naturalHeight);
+      }
+    }
+
+    if (walker && walker.frames.length > 0) {
+      const frame = moving
+        ? walker.frames[Math.floor(walkTimeRef.current / frameDelayMs) % walker.frames.length]
+        : walker.frames[0];
+      const h = Math.round((height * walkerSize) / 100);
+      const w = Math.round((frame.width * h) / frame.height);
+      const x = Math.round((width - w) / 2);
+      const flip = (facingRef.current < 0) !== walker.facesLeft;
+      ctx.save();
+      if (flip) {
+        ctx.translate(x + w, 0);
+        ctx.scale(-1, 1);
+        ctx.drawImage(frame, 0, height - h, w, h);
+      } else {
+        ctx.drawImage(frame, x, height - h, w, h);
+      }
+      ctx.restore();
+    }
+  }, [layers, images, walker, walkerSize, frameDelayMs]);
+
+  // Animation loop: held arrow keys win over auto-scroll
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = Math.min(now - last, 100);
+      last = now;
+      const direction = heldRef.current !== 0 ? heldRef.current : autoScroll ? 1 : 0;
+      if (direction !== 0) {
+        cameraRef.current += (direction * scrollSpeed * dt) / 1000;
+        facingRef.current = direction;
+        walkTimeRef.current += dt;
+      }
+      draw(direction !== 0);
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [draw, autoScroll, scrollSpeed]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      heldRef.current = e.key === 'ArrowLeft' ? -1 : 1;
+    }
+  };
+
+  const handleKeyUp = (e: KeyboardEvent<HTMLCanvasElement>) => {
+    if ((e.key === 'ArrowLeft' && heldRef.current < 0) || (e.key === 'ArrowRight' && heldRef.current > 0)) {
+      heldRef.current = 0;
+    }
+  };
+
+  return (
+    <div className="sidebar-section">
+      <h3>
+        Parallax Preview
+        <span title="Layers are stacked far to near and each scrolls at its own speed (1 = moves with the foreground). Click the scene and hold the left/right arrow keys to scroll by hand. Speeds are saved with the sheet and written into exported metadata." style={{ cursor: 'help', marginLeft: 4, fontSize: '0.7rem', color: 'var(--text-muted)' }}>&#9432;</span>
+      </h3>
+      <canvas
+        ref={canvasRef}
+        className="anim-preview-canvas"
+        tabIndex={0}
+        aria-label="Parallax scene — focus and hold the left or right arrow key to scroll"
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onBlur={() => { heldRef.current = 0; }}
+      />
+      <div className="frame-scrubber">
+        <button
+          className="btn btn-sm"
+          title={autoScroll ? 'Stop auto-scroll' : 'Auto-scroll'}
+          onClick={() => setAutoScroll(!autoScroll)}
+        >
+          {autoScroll ? '\u275A\u275A' : '\u25B6'}
+        </button>
+      </div>
+      <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Scroll speed (px/s)</label>
+      <div className="slider-row">
+        <input type="range" min={20} max={480} step={10} value={scrollSpeed} onChange={(e) => setScrollSpeed(Number(e.target.value))} />
+        <span className="slider-value">{scrollSpeed}</span>
+      </div>
+
+      <div className="parallax-layers">
+        {layers.map((layer, i) => (
+          <div key={layer.cellIndex}>
+            <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>{layer.label}</label>
+            <div className="slider-row">
+              <input
+                type="range"
+                min={0}
+                max={MAX_PARALLAX_SPEED}
+                step={0.05}
+                value={layer.speed}
+                onChange={(e) => onSpeedChange(i, Number(e.target.value))}
+              />
+              <span className="slider-value">{layer.speed.toFixed(2)}×</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <button className="btn btn-sm w-full" style={{ marginTop: 6 }} onClick={onResetSpeeds}>Reset Speeds</button>
+
+      <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)', marginTop: 8, display: 'block' }}>Walking character</label>
+      <select
+        value={characterId ?? ''}
+        onChange={(e) => setCharacterId(e.target.value ? Number(e.target.value) : null)}
+        className="btn btn-sm w-full"
+        style={{ padding: '2px 6px' }}
+      >
+        <option value="">None</option>
+        {characters.map((c) => (
+          <option key={c.id} value={c.id}>{c.contentName || `Character #${c.id}`}</option>
+        ))}
+      </select>
+      {error && <div className="parallax-warn">{error}</div>}
+      {walker && (
+        <>
+          <label style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>Character size</label>
+          <div className="slider-row">
+            <input type="range" min={10} max={60} value={walkerSize} onChange={(e) => setWalkerSize(Number(e.target.value))} />
+            <span className="slider-value">{walkerSize}%</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -11,9 +11,11 @@ interface GridLinkSelectorProps {
   spriteType: string;
   presetId: string;
   onSelectionChange: (selected: GridLink[]) => void;
+  /** Link to check instead of the first one, e.g. when replaying a generation */
+  initialLinkId?: number | null;
 }
 
-export function GridLinkSelector({ spriteType, presetId, onSelectionChange }: GridLinkSelectorProps) {
+export function GridLinkSelector({ spriteType, presetId, onSelectionChange, initialLinkId }: GridLinkSelectorProps) {
   const [gridLinks, setGridLinks] = useState<GridLink[]>([]);
   const [checkedIds, setCheckedIds] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(false);
@@ -31,8 +33,9 @@ export function GridLinkSelector({ spriteType, presetId, onSelectionChange }: Gr
       .then((res) => res.json())
       .then((data: GridLink[]) => {
         setGridLinks(data);
-        // Check first by default
-        const firstId = data.length > 0 ? new Set([data[0].id]) : new Set<number>();
+        // Check the requested link if it is still there, otherwise the first
+        const initial = data.find((l) => l.id === initialLinkId) ?? data[0];
+        const firstId = initial ? new Set([initial.id]) : new Set<number>();
         setCheckedIds(firstId);
         onSelectionChange(data.filter((l) => firstId.has(l.id)));
       })
@@ -0,0 +1,93 @@
+/**
+ * Run summary screen — shown when an unattended multi-grid run ends.
+ * Lists each grid's outcome; saved grids open in the review step.
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppDispatch, type RunGridStatus, type RunSummary as RunSummaryData } from '../../context/AppContext';
+import { openHistoryEntry } from '../../lib/loadGeneration';
+import '../../styles/run-builder.css';
+
+const STATUS_LABELS: Record<RunGridStatus, string> = {
+  pending: 'Pending',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Not run',
+};
+
+interface RunSummaryProps {
+  summary: RunSummaryData;
+}
+
+export function RunSummary({ summary }: RunSummaryProps) {
+  const dispatch = useAppDispatch();
+  const [opening, setOpening] = useState<number | null>(null);
+
+  const counts = summary.results.reduce(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { pending: 0, succeeded: 0, failed: 0, cancelled: 0 } as Record<RunGridStatus, number>,
+  );
+
+  const openGrid = useCallback(async (historyId: number) => {
+    setOpening(historyId);
+    try {
+      await openHistoryEntry(historyId, dispatch);
+    } catch (err) {
+      dispatch({
+        type: 'SET_STATUS',
+        message: `Failed to load generation: ${err instanceof Error ? err.message : String(err)}`,
+        statusType: 'error',
+      });
+    } finally {
+      setOpening(null);
+    }
+  }, [dispatch]);
+
+  return (
+    <div className="run-builder">
+      <div className="run-builder-header">
+        <h2>Run Summary</h2>
+      </div>
+
+      <p className="run-summary-counts">
+        {counts.succeeded} of {summary.results.length} grids generated
+        {counts.failed > 0 && <> &middot; {counts.failed} failed</>}
+        {counts.cancelled > 0 && <> &middot; {counts.cancelled} not run</>}
+      </p>
+
+      <div className="run-grid-list">
+        {summary.results.map((result, i) => (
+          <div key={i} className="run-grid-item">
+            <span className={`run-summary-status ${result.status}`}>{STATUS_LABELS[result.status]}</span>
+            <div className="run-grid-item-info">
+              <span className="run-grid-item-name">{result.gridName}</span>
+              <span className="run-grid-item-meta">
+                {result.gridSize}
+                {result.attempts > 1 && ` · ${result.attempts} attempts`}
+                {result.status === 'succeeded' && result.historyId === null && ' · not saved to history'}
+              </span>
+              {result.error && result.status === 'failed' && (
+                <span className="run-summary-error">{result.error}</span>
+              )}
+            </div>
+            {result.historyId !== null && (
+              <button
+                className="btn btn-sm"
+                disabled={opening !== null}
+                onClick={() => openGrid(result.historyId!)}
+              >
+                {opening === result.historyId ? 'Opening...' : 'Review'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="run-actions">
+        <button className="btn btn-primary" onClick={() => dispatch({ type: 'DISMISS_RUN_SUMMARY' })}>
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
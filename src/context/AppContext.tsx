@@ -4,9 +4,11 @@
  */
 
 import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
-import { ExtractedSprite } from '../lib/spriteExtractor';
+import { ExtractedSprite, type ExtractionDiagnostics } from '../lib/spriteExtractor';
 import type { TerrainGridSize, BackgroundGridSize, BackgroundMode } from '../lib/gridConfig';
 import { TERRAIN_GRIDS, BACKGROUND_GRIDS } from '../lib/gridConfig';
+import type { PipelineParams } from '../hooks/useGenericWorkflow';
+import type { PromptTemplate } from '../types/api';
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
@@ -98,7 +100,27 @@ export interface BackgroundPreset {
 
 // ── State ────────────────────────────────────────────────────────────────────
 
-export type WorkflowStep = 'configure' | 'generating' | 'review' | 'preview' | 'run-active';
+export type WorkflowStep = 'configure' | 'generating' | 'candidates' | 'review' | 'preview' | 'run-active' | 'run-summary';
+
+/**
+ * manual: stop in review after each grid and wait for "Next Grid".
+ * auto: generate every grid back-to-back, retrying and skipping failures.
+ */
+export type RunMode = 'manual' | 'auto';
+
+export type RunGridStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Outcome of one grid in a run */
+export interface RunGridResult {
+  gridName: string;
+  gridSize: string;
+  status: RunGridStatus;
+  attempts: number;
+  /** Saved history entry, when the grid made it that far */
+  historyId: number | null;
+  /** Last failure message */
+  error: string | null;
+}
 
 export interface RunState {
   contentPresetId: string | null;
@@ -108,6 +130,42 @@ export interface RunState {
   referenceSheet: string | null;
   imageSize: '2K' | '4K';
   groupId: string;
+  mode: RunMode;
+  /** Extra attempts per grid before an auto run skips it */
+  maxRetries: number;
+  /** One entry per selected grid link */
+  results: RunGridResult[];
+}
+
+/** One of several filled grids generated for the same prompt and template */
+export interface GridCandidate {
+  jobId: number | null;
+  image: { data: string; mimeType: string } | null;
+  text: string;
+  sprites: ExtractedSprite[];
+  diagnostics: ExtractionDiagnostics | null;
+  /** Why this candidate has no usable grid */
+  error: string | null;
+}
+
+/** What an auto run left behind, shown on the run summary screen */
+export interface RunSummary {
+  spriteType: SpriteType;
+  groupId: string;
+  results: RunGridResult[];
+}
+
+/** A saved generation whose settings were put back into the config panel */
+export interface GenerationReplay {
+  historyId: number;
+  /** The prompt the generation was made with */
+  prompt: string;
+  contentPresetId: string | null;
+  gridLinkId: number | null;
+  promptTemplateId: number | null;
+  promptTemplateVersion: number | null;
+  /** Generate from the recorded prompt verbatim instead of rebuilding it from the settings */
+  exact: boolean;
 }
 
 export interface AppState {
@@ -160,6 +218,8 @@ export interface AppState {
   model: string;
   imageSize: '2K' | '4K';
   aspectRatio: string;
+  /** Candidates generated per single-grid generation */
+  variantCount: number;
 
   /** Currently selected content preset ID per sprite type */
   activeContentPresetIds: Record<SpriteType, string | null>;
@@ -184,6 +244,9 @@ export interface AppState {
   /** Extracted individual sprites */
   sprites: ExtractedSprite[];
 
+  /** How the current sprites were sliced from the grid (null when restored without re-extraction) */
+  extractionDiagnostics: ExtractionDiagnostics | null;
+
   /** Status message for the UI */
   status: string;
   statusType: 'info' | 'success' | 'error' | 'warning';
@@ -194,6 +257,9 @@ export interface AppState {
   /** History entry ID if saved */
   historyId: number | null;
 
+  /** Output folder written by the archive route for the current generation */
+  archiveFolder: string | null;
+
   /** Source generation context for add-sheet */
   sourceGroupId: string | null;
   sourceContentPresetId: string | null;
@@ -213,8 +279,22 @@ export interface AppState {
   /** Grid presets */
   gridPresets: GridPreset[];
 
+  /** Active prompt template per sprite type; absent types use the built-in builders */
+  promptTemplates: Partial<Record<SpriteType, PromptTemplate>>;
+
   /** Multi-grid run state */
   run: RunState | null;
+
+  /** Results of the last auto run, kept until dismissed */
+  runSummary: RunSummary | null;
+
+  /** Candidates waiting for the user to pick one (variant generations) */
+  candidates: GridCandidate[];
+  /** The pipeline parameters the candidates were generated with */
+  candidateParams: PipelineParams | null;
+
+  /** Saved generation being replayed from the config panel */
+  replay: GenerationReplay | null;
 }
 
 export const initialState: AppState = {
@@ -260,6 +340,7 @@ export const initialState: AppState = {
   model: 'nano-banana-pro-preview',
   imageSize: '2K',
   aspectRatio: '1:1',
+  variantCount: 1,
   activeContentPresetIds: { character: null, building: null, terrain: null, background: null },
   activeGridConfig: null,
   templateImage: null,
@@ -271,6 +352,8 @@ export const initialState: AppState = {
   statusType: 'info',
   error: null,
   historyId: null,
+  extractionDiagnostics: null,
+  archiveFolder: null,
   sourceGroupId: null,
   sourceContentPresetId: null,
   characterPresets: [],
@@ -278,7 +361,12 @@ export const initialState: AppState = {
   terrainPresets: [],
   backgroundPresets: [],
   gridPresets: [],
+  promptTemplates: {},
   run: null,
+  runSummary: null,
+  candidates: [],
+  candidateParams: null,
+  replay: null,
 };
 
 // ── Actions ──────────────────────────────────────────────────────────────────
@@ -293,11 +381,16 @@ type Action =
   | { type: 'GENERATE_START'; templateImage: string; gridConfig?: { cols: number; rows: number; cellLabels: string[]; cellGroups?: CellGroup[]; aspectRatio?: string } }
   | { type: 'GENERATE_COMPLETE'; filledGridImage: string; filledGridMimeType: string; geminiText: string }
   | { type: 'GENERATE_ERROR'; error: string }
-  | { type: 'EXTRACTION_COMPLETE'; sprites: ExtractedSprite[] }
+  | { type: 'CANDIDATES_READY'; candidates: GridCandidate[]; params: PipelineParams }
+  | { type: 'SET_VARIANT_COUNT'; count: number }
+  | { type: 'DISCARD_CANDIDATES' }
+  | { type: 'EXTRACTION_COMPLETE'; sprites: ExtractedSprite[]; diagnostics?: ExtractionDiagnostics | null }
+  | { type: 'CELLS_REGENERATED'; filledGridImage: string; filledGridMimeType: string; sprites: ExtractedSprite[]; diagnostics: ExtractionDiagnostics; cellCount: number }
   | { type: 'SET_STATUS'; message: string; statusType: AppState['statusType'] }
   | { type: 'CLEAR_STATUS' }
   | { type: 'SET_STEP'; step: WorkflowStep }
   | { type: 'SET_HISTORY_ID'; id: number }
+  | { type: 'SET_ARCHIVE_FOLDER'; folder: string | null }
   | { type: 'SET_SOURCE_CONTEXT'; groupId: string | null; contentPresetId: string | null }
   | { type: 'SET_CHARACTER_PRESETS'; presets: CharacterPreset[] }
   | { type: 'LOAD_CHARACTER_PRESET'; preset: CharacterPreset }
@@ -310,12 +403,17 @@ type Action =
   | { type: 'SET_BACKGROUND_PRESETS'; presets: BackgroundPreset[] }
   | { type: 'LOAD_BACKGROUND_PRESET'; preset: BackgroundPreset }
   | { type: 'SET_GRID_PRESETS'; presets: GridPreset[] }
+  | { type: 'SET_PROMPT_TEMPLATES'; templates: Partial<Record<SpriteType, PromptTemplate>> }
   | { type: 'SET_ACTIVE_GRID_CONFIG'; gridConfig: AppState['activeGridConfig'] }
-  | { type: 'START_RUN'; payload: { contentPresetId: string; spriteType: SpriteType; gridLinks: GridLink[]; imageSize: '2K' | '4K'; groupId?: string } }
-  | { type: 'COMPLETE_GRID'; payload: { filledGridImage: string } }
+  | { type: 'START_RUN'; payload: { contentPresetId: string; spriteType: SpriteType; gridLinks: GridLink[]; imageSize: '2K' | '4K'; groupId?: string; mode?: RunMode; maxRetries?: number } }
+  | { type: 'COMPLETE_GRID'; payload: { filledGridImage: string; historyId?: number | null } }
   | { type: 'NEXT_GRID' }
   | { type: 'END_RUN' }
+  | { type: 'DISMISS_RUN_SUMMARY' }
   | { type: 'RESTORE_SESSION'; payload: RestoreSessionPayload }
+  | { type: 'START_REPLAY'; payload: StartReplayPayload }
+  | { type: 'SET_REPLAY_EXACT'; exact: boolean }
+  | { type: 'END_REPLAY' }
   | { type: 'RESET' };
 
 export interface RestoreSessionPayload {
@@ -329,11 +427,58 @@ export interface RestoreSessionPayload {
   filledGridMimeType: string;
   geminiText: string;
   sprites: ExtractedSprite[];
+  extractionDiagnostics?: ExtractionDiagnostics | null;
   historyId: number;
   sourceGroupId: string | null;
   sourceContentPresetId: string | null;
 }
 
+export interface StartReplayPayload {
+  spriteType: SpriteType;
+  /** Recorded content fields, laid over the type's current content */
+  content: Record<string, unknown>;
+  model: string;
+  imageSize: '2K' | '4K';
+  aspectRatio: string;
+  replay: GenerationReplay;
+}
+
+/** Replace the current grid's result in a run */
+function updateCurrentResult(run: RunState, patch: Partial<RunGridResult>): RunState {
+  const results = run.results.map((r, i) => (i === run.currentGridIndex ? { ...r, ...patch } : r));
+  return { ...run, results };
+}
+
+/**
+ * Leave a run. Auto runs land on the summary screen with any grids that
+ * never ran marked cancelled; manual runs go back to configure.
+ */
+function finishRun(state: AppState, run: RunState): AppState {
+  if (run.mode !== 'auto') {
+    return { ...state, step: 'configure', run: null };
+  }
+  const results = run.results.map(r => (r.status === 'pending' ? { ...r, status: 'cancelled' as const } : r));
+  return {
+    ...state,
+    step: 'run-summary',
+    run: null,
+    runSummary: { spriteType: run.spriteType, groupId: run.groupId, results },
+  };
+}
+
+function advanceRun(state: AppState, run: RunState): AppState {
+  const nextIndex = run.currentGridIndex + 1;
+  if (nextIndex >= run.selectedGridLinks.length) {
+    // Run complete
+    return finishRun(state, run);
+  }
+  return {
+    ...state,
+    step: 'run-active',
+    run: { ...run, currentGridIndex: nextIndex },
+  };
+}
+
 /** Get the default cell label count for a building grid size */
 function gridSizeToCellCount(gridSize: BuildingGridSize): number {
   switch (gridSize) {
@@ -355,7 +500,9 @@ export function reducer(state: AppState, action: Action): AppState {
         filledGridImage: null,
         templateImage: null,
         sprites: [],
+        extractionDiagnostics: null,
         historyId: null,
+        archiveFolder: null,
         step: 'configure',
       };
     case 'SET_CHARACTER':
@@ -372,25 +519,70 @@ export function reducer(state: AppState, action: Action): AppState {
       return {
         ...state,
         step: 'generating',
+        replay: null,
         templateImage: action.templateImage,
         activeGridConfig: action.gridConfig ?? state.activeGridConfig,
         filledGridImage: null,
         sprites: [],
+        extractionDiagnostics: null,
+        archiveFolder: null,
         error: null,
         geminiText: '',
         status: 'Generating sprites...',
         statusType: 'info',
       };
+    case 'SET_VARIANT_COUNT':
+      return { ...state, variantCount: action.count };
+    case 'CANDIDATES_READY':
+      return {
+        ...state,
+        step: 'candidates',
+        candidates: action.candidates,
+        candidateParams: action.params,
+        status: `${action.candidates.filter(c => c.image).length} of ${action.candidates.length} candidates ready — pick one`,
+        statusType: 'success',
+      };
+    case 'DISCARD_CANDIDATES':
+      return {
+        ...state,
+        step: 'configure',
+        candidates: [],
+        candidateParams: null,
+        status: 'Candidates discarded',
+        statusType: 'info',
+      };
     case 'GENERATE_COMPLETE':
       return {
         ...state,
+        candidates: [],
+        candidateParams: null,
         filledGridImage: action.filledGridImage,
         filledGridMimeType: action.filledGridMimeType,
         geminiText: action.geminiText,
         status: 'Grid received! Extracting sprites...',
         statusType: 'success',
       };
-    case 'GENERATE_ERROR':
+    case 'GENERATE_ERROR': {
+      // Auto runs retry the grid, then skip it, instead of stopping
+      const run = state.run;
+      if (run?.mode === 'auto') {
+        const attempts = (run.results[run.currentGridIndex]?.attempts ?? 0) + 1;
+        const gridName = run.selectedGridLinks[run.currentGridIndex]?.gridName ?? `Grid ${run.currentGridIndex + 1}`;
+        if (attempts <= run.maxRetries) {
+          return {
+            ...state,
+            step: 'run-active',
+            run: updateCurrentResult(run, { attempts, error: action.error }),
+            status: `${gridName} failed (${action.error}) — retrying, attempt ${attempts + 1} of ${run.maxRetries + 1}`,
+            statusType: 'warning',
+          };
+        }
+        return {
+          ...advanceRun(state, updateCurrentResult(run, { attempts, error: action.error, status: 'failed' })),
+          status: `${gridName} failed after ${attempts} attempt${attempts === 1 ? '' : 's'} — skipped`,
+          statusType: 'warning',
+        };
+      }
       return {
         ...state,
         step: 'configure',
@@ -399,14 +591,26 @@ export function reducer(state: AppState, action: Action): AppState {
         status: action.error,
         statusType: 'error',
       };
+    }
     case 'EXTRACTION_COMPLETE':
       return {
         ...state,
         step: 'review',
         sprites: action.sprites,
+        extractionDiagnostics: action.diagnostics ?? null,
         status: `Extracted ${action.sprites.length} sprites`,
         statusType: 'success',
       };
+    case 'CELLS_REGENERATED':
+      return {
+        ...state,
+        filledGridImage: action.filledGridImage,
+        filledGridMimeType: action.filledGridMimeType,
+        sprites: action.sprites,
+        extractionDiagnostics: action.diagnostics,
+        status: `Regenerated ${action.cellCount} cell${action.cellCount === 1 ? '' : 's'}`,
+        statusType: 'success',
+      };
     case 'SET_STATUS':
       return { ...state, status: action.message, statusType: action.statusType };
     case 'CLEAR_STATUS':
@@ -415,6 +619,8 @@ export function reducer(state: AppState, action: Action): AppState {
       return { ...state, step: action.step };
     case 'SET_HISTORY_ID':
       return { ...state, historyId: action.id };
+    case 'SET_ARCHIVE_FOLDER':
+      return { ...state, archiveFolder: action.folder };
     case 'SET_SOURCE_CONTEXT':
       return { ...state, sourceGroupId: action.groupId, sourceContentPresetId: action.contentPresetId };
     case 'SET_CHARACTER_PRESETS':
@@ -500,6 +706,8 @@ export function reducer(state: AppState, action: Action): AppState {
     }
     case 'SET_GRID_PRESETS':
       return { ...state, gridPresets: action.presets };
+    case 'SET_PROMPT_TEMPLATES':
+      return { ...state, promptTemplates: action.templates };
     case 'SET_ACTIVE_GRID_CONFIG':
       return { ...state, activeGridConfig: action.gridConfig };
     case 'START_RUN':
@@ -515,34 +723,45 @@ export function reducer(state: AppState, action: Action): AppState {
           currentGridIndex: 0,
           referenceSheet: null,
           imageSize: action.payload.imageSize,
+          mode: action.payload.mode ?? 'manual',
+          maxRetries: action.payload.maxRetries ?? 0,
+          results: action.payload.gridLinks.map(link => ({
+            gridName: link.gridName,
+            gridSize: link.gridSize,
+            status: 'pending',
+            attempts: 0,
+            historyId: null,
+            error: null,
+          })),
         },
+        runSummary: null,
       };
     case 'COMPLETE_GRID': {
       if (!state.run) return state;
+      const current = state.run.results[state.run.currentGridIndex];
+      const run = updateCurrentResult(state.run, {
+        status: 'succeeded',
+        attempts: (current?.attempts ?? 0) + 1,
+        historyId: action.payload.historyId ?? null,
+        error: null,
+      });
       return {
         ...state,
         run: {
-          ...state.run,
+          ...run,
           // Store the first completed grid as the reference sheet
           referenceSheet: state.run.referenceSheet || action.payload.filledGridImage,
         },
       };
     }
-    case 'NEXT_GRID': {
+    case 'NEXT_GRID':
       if (!state.run) return state;
-      const nextIndex = state.run.currentGridIndex + 1;
-      if (nextIndex >= state.run.selectedGridLinks.length) {
-        // Run complete
-        return { ...state, step: 'configure', run: null };
-      }
-      return {
-        ...state,
-        step: 'run-active',
-        run: { ...state.run, currentGridIndex: nextIndex },
-      };
-    }
+      return advanceRun(state, state.run);
     case 'END_RUN':
-      return { ...state, step: 'configure', run: null };
+      if (!state.run) return { ...state, step: 'configure' };
+      return finishRun(state, state.run);
+    case 'DISMISS_RUN_SUMMARY':
+      return { ...state, step: state.step === 'run-summary' ? 'configure' : state.step, runSummary: null };
     case 'RESTORE_SESSION': {
       const p = action.payload;
       return {
@@ -558,7 +777,9 @@ export function reducer(state: AppState, action: Action): AppState {
         filledGridMimeType: p.filledGridMimeType,
         geminiText: p.geminiText,
         sprites: p.sprites,
+        extractionDiagnostics: p.extractionDiagnostics ?? null,
         historyId: p.historyId,
+        archiveFolder: null,
         sourceGroupId: p.sourceGroupId,
         sourceContentPresetId: p.sourceContentPresetId,
         status: `Restored ${p.sprites.length} sprites`,
@@ -566,6 +787,27 @@ export function reducer(state: AppState, action: Action): AppState {
         error: null,
       };
     }
+    case 'START_REPLAY': {
+      const p = action.payload;
+      return {
+        ...state,
+        step: 'configure',
+        spriteType: p.spriteType,
+        [p.spriteType]: { ...state[p.spriteType], ...p.content },
+        model: p.model,
+        imageSize: p.imageSize,
+        aspectRatio: p.aspectRatio,
+        activeContentPresetIds: { ...state.activeContentPresetIds, [p.spriteType]: p.replay.contentPresetId },
+        replay: p.replay,
+        status: `Settings of generation #${p.replay.historyId} restored`,
+        statusType: 'info',
+        error: null,
+      };
+    }
+    case 'SET_REPLAY_EXACT':
+      return state.replay ? { ...state, replay: { ...state.replay, exact: action.exact } } : state;
+    case 'END_REPLAY':
+      return { ...state, replay: null };
     case 'RESET':
       return {
         ...initialState,
@@ -574,8 +816,11 @@ export function reducer(state: AppState, action: Action): AppState {
         terrainPresets: state.terrainPresets,
         backgroundPresets: state.backgroundPresets,
         gridPresets: state.gridPresets,
+        promptTemplates: state.promptTemplates,
         sourceGroupId: null,
         sourceContentPresetId: null,
+        // Survives so grids opened from the summary can return to it
+        runSummary: state.runSummary,
       };
     default:
       return state;
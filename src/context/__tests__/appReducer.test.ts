@@ -11,6 +11,7 @@ import type {
   GridPreset,
 } from '../AppContext';
 import type { ExtractedSprite } from '../../lib/spriteExtractor';
+import type { PipelineParams } from '../../hooks/useGenericWorkflow';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -23,6 +24,16 @@ function makeRunState(overrides: Partial<RunState> = {}): RunState {
     referenceSheet: null,
     imageSize: '2K',
     groupId: 'test-group',
+    mode: 'manual',
+    maxRetries: 0,
+    results: [0, 1, 2].map(i => ({
+      gridName: `Grid ${i}`,
+      gridSize: '3x3',
+      status: 'pending' as const,
+      attempts: 0,
+      historyId: null,
+      error: null,
+    })),
     ...overrides,
   };
 }
@@ -297,6 +308,15 @@ describe('appReducer', () => {
       expect(result.sprites).toEqual([]);
       expect(result.status).toBe('Extracted 0 sprites');
     });
+
+    it('stores extraction diagnostics and GENERATE_START clears them', () => {
+      const axis = { mode: 'fallback' as const, expected: 6, bands: [], detectedSpans: [], prunedSpans: [], finalSpans: [] };
+      const diagnostics = { mode: 'fallback' as const, width: 600, height: 600, rows: axis, cols: axis };
+      const extracted = reducer(initialState, { type: 'EXTRACTION_COMPLETE', sprites: [], diagnostics });
+      expect(extracted.extractionDiagnostics).toEqual(diagnostics);
+      const restarted = reducer(extracted, { type: 'GENERATE_START', templateImage: 'tpl' });
+      expect(restarted.extractionDiagnostics).toBeNull();
+    });
   });
 
   // ── SET_STATUS / CLEAR_STATUS ───────────────────────────────────────────
@@ -340,6 +360,21 @@ describe('appReducer', () => {
     });
   });
 
+  // ── SET_ARCHIVE_FOLDER ──────────────────────────────────────────────────
+
+  describe('SET_ARCHIVE_FOLDER', () => {
+    it('sets archiveFolder', () => {
+      const result = reducer(initialState, { type: 'SET_ARCHIVE_FOLDER', folder: 'hero_20260101-120000' });
+      expect(result.archiveFolder).toBe('hero_20260101-120000');
+    });
+
+    it('is cleared when a new generation starts', () => {
+      const state = { ...initialState, archiveFolder: 'hero_20260101-120000' };
+      const result = reducer(state, { type: 'GENERATE_START', templateImage: 'tpl' });
+      expect(result.archiveFolder).toBeNull();
+    });
+  });
+
   // ── SET_SOURCE_CONTEXT ──────────────────────────────────────────────────
 
   describe('SET_SOURCE_CONTEXT', () => {
@@ -726,6 +761,138 @@ describe('appReducer', () => {
     });
   });
 
+  // ── Unattended runs ─────────────────────────────────────────────────────
+
+  describe('auto runs', () => {
+    const autoRun = (overrides: Partial<RunState> = {}) => makeRunState({ mode: 'auto', maxRetries: 1, ...overrides });
+
+    it('START_RUN records a pending result per grid and clears the last summary', () => {
+      const state: AppState = { ...initialState, runSummary: { spriteType: 'character', groupId: 'old', results: [] } };
+      const result = reducer(state, {
+        type: 'START_RUN',
+        payload: {
+          contentPresetId: 'p1',
+          spriteType: 'character',
+          gridLinks: [{ gridName: 'Walk', gridSize: '6x6' } as GridLink],
+          imageSize: '2K',
+          mode: 'auto',
+          maxRetries: 2,
+        },
+      });
+      expect(result.run!.mode).toBe('auto');
+      expect(result.run!.maxRetries).toBe(2);
+      expect(result.run!.results).toEqual([
+        { gridName: 'Walk', gridSize: '6x6', status: 'pending', attempts: 0, historyId: null, error: null },
+      ]);
+      expect(result.runSummary).toBeNull();
+    });
+
+    it('COMPLETE_GRID marks the grid succeeded with its history entry', () => {
+      const state: AppState = { ...initialState, run: autoRun() };
+      const result = reducer(state, { type: 'COMPLETE_GRID', payload: { filledGridImage: 'img', historyId: 7 } });
+      expect(result.run!.results[0]).toMatchObject({ status: 'succeeded', attempts: 1, historyId: 7 });
+    });
+
+    it('GENERATE_ERROR retries the grid while retries remain', () => {
+      const state: AppState = { ...initialState, step: 'generating', run: autoRun() };
+      const result = reducer(state, { type: 'GENERATE_ERROR', error: 'Rate limited' });
+      expect(result.step).toBe('run-active');
+      expect(result.run!.currentGridIndex).toBe(0);
+      expect(result.run!.results[0]).toMatchObject({ status: 'pending', attempts: 1, error: 'Rate limited' });
+      expect(result.statusType).toBe('warning');
+    });
+
+    it('GENERATE_ERROR skips the grid once retries are used up', () => {
+      const run = autoRun();
+      run.results[0] = { ...run.results[0], attempts: 1 };
+      const result = reducer({ ...initialState, step: 'generating', run }, { type: 'GENERATE_ERROR', error: 'Blocked' });
+      expect(result.run!.currentGridIndex).toBe(1);
+      expect(result.run!.results[0]).toMatchObject({ status: 'failed', attempts: 2, error: 'Blocked' });
+    });
+
+    it('finishing the last grid opens the summary', () => {
+      const run = autoRun({ currentGridIndex: 2 });
+      run.results = run.results.map(r => ({ ...r, status: 'succeeded' as const, attempts: 1 }));
+      const result = reducer({ ...initialState, run }, { type: 'NEXT_GRID' });
+      expect(result.step).toBe('run-summary');
+      expect(result.run).toBeNull();
+      expect(result.runSummary!.results.map(r => r.status)).toEqual(['succeeded', 'succeeded', 'succeeded']);
+    });
+
+    it('cancelling marks grids that never ran', () => {
+      const run = autoRun({ currentGridIndex: 1 });
+      run.results[0] = { ...run.results[0], status: 'succeeded', attempts: 1, historyId: 3 };
+      const result = reducer({ ...initialState, step: 'generating', run }, { type: 'END_RUN' });
+      expect(result.step).toBe('run-summary');
+      expect(result.runSummary!.results.map(r => r.status)).toEqual(['succeeded', 'cancelled', 'cancelled']);
+    });
+
+    it('the summary survives RESET and is cleared by DISMISS_RUN_SUMMARY', () => {
+      const runSummary = { spriteType: 'character' as const, groupId: 'g', results: [] };
+      const reset = reducer({ ...initialState, runSummary }, { type: 'RESET' });
+      expect(reset.runSummary).toBe(runSummary);
+
+      const dismissed = reducer({ ...reset, step: 'run-summary' }, { type: 'DISMISS_RUN_SUMMARY' });
+      expect(dismissed.runSummary).toBeNull();
+      expect(dismissed.step).toBe('configure');
+    });
+  });
+
+  // ── Cell regeneration ──────────────────────────────────────────────────
+
+  describe('CELLS_REGENERATED', () => {
+    it('replaces the grid, sprites and diagnostics and stays in review', () => {
+      const state: AppState = { ...initialState, step: 'review', filledGridImage: 'old', sprites: [makeSprite()] };
+      const sprites = [makeSprite({ cellIndex: 0 }), makeSprite({ cellIndex: 1 })];
+      const diagnostics = { mode: 'detected' as const, width: 10, height: 10, rows: {} as never, cols: {} as never };
+      const result = reducer(state, {
+        type: 'CELLS_REGENERATED',
+        filledGridImage: 'new',
+        filledGridMimeType: 'image/png',
+        sprites,
+        diagnostics,
+        cellCount: 2,
+      });
+      expect(result.step).toBe('review');
+      expect(result.filledGridImage).toBe('new');
+      expect(result.sprites).toBe(sprites);
+      expect(result.extractionDiagnostics).toBe(diagnostics);
+      expect(result.status).toBe('Regenerated 2 cells');
+    });
+  });
+
+  // ── Variant candidates ─────────────────────────────────────────────────
+
+  describe('candidates', () => {
+    const candidate = { jobId: 1, image: { data: 'img', mimeType: 'image/png' }, text: '', sprites: [], diagnostics: null, error: null };
+    const failed = { ...candidate, jobId: 2, image: null, error: 'Rate limited' };
+    const params = { prompt: 'p' } as PipelineParams;
+
+    it('SET_VARIANT_COUNT sets the count', () => {
+      expect(reducer(initialState, { type: 'SET_VARIANT_COUNT', count: 3 }).variantCount).toBe(3);
+    });
+
+    it('CANDIDATES_READY moves to the picker and keeps the params', () => {
+      const state: AppState = { ...initialState, step: 'generating' };
+      const result = reducer(state, { type: 'CANDIDATES_READY', candidates: [candidate, failed], params });
+      expect(result.step).toBe('candidates');
+      expect(result.candidates).toHaveLength(2);
+      expect(result.candidateParams).toBe(params);
+      expect(result.status).toContain('1 of 2');
+    });
+
+    it('GENERATE_COMPLETE and DISCARD_CANDIDATES drop the candidates', () => {
+      const state: AppState = { ...initialState, step: 'candidates', candidates: [candidate], candidateParams: params };
+      const completed = reducer(state, { type: 'GENERATE_COMPLETE', filledGridImage: 'img', filledGridMimeType: 'image/png', geminiText: '' });
+      expect(completed.candidates).toEqual([]);
+      expect(completed.candidateParams).toBeNull();
+
+      const discarded = reducer(state, { type: 'DISCARD_CANDIDATES' });
+      expect(discarded.step).toBe('configure');
+      expect(discarded.candidates).toEqual([]);
+    });
+  });
+
   // ── RESTORE_SESSION ──────────────────────────────────────────────────────
 
   describe('RESTORE_SESSION', () => {
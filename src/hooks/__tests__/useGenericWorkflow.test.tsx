@@ -17,12 +17,12 @@ import type { WorkflowConfig } from '../useGenericWorkflow';
 
 // ── Mocks ────────────────────────────────────────────────────────────────────
 
-// Capture the AbortSignal passed to generateGrid so we can assert on it.
+// Capture the AbortSignal passed to enqueueGeneration so we can assert on it.
 let capturedSignal: AbortSignal | null = null;
 
 vi.mock('../../api/geminiClient', () => ({
-  generateGrid: vi.fn(
-    (_model: string, _prompt: string, _template: unknown, _size: string, signal: AbortSignal) => {
+  enqueueGeneration: vi.fn(
+    (_request: unknown, signal: AbortSignal) => {
       capturedSignal = signal;
       return new Promise((_resolve, reject) => {
         // If signal is already aborted, reject immediately
@@ -38,6 +38,7 @@ vi.mock('../../api/geminiClient', () => ({
       });
     },
   ),
+  usageAttribution: (spriteType: string) => ({ spriteType }),
 }));
 
 vi.mock('../../lib/templateGenerator', () => ({
@@ -50,7 +51,7 @@ vi.mock('../../lib/templateGenerator', () => ({
 }));
 
 vi.mock('../../lib/spriteExtractor', () => ({
-  extractSprites: vi.fn(() => Promise.resolve([])),
+  extractSprites: vi.fn(() => Promise.resolve({ sprites: [], diagnostics: null })),
 }));
 
 // ── Test config ──────────────────────────────────────────────────────────────
@@ -109,7 +110,7 @@ describe('useGenericWorkflow abort behavior', () => {
       { wrapper },
     );
 
-    // Start generation — the async pipeline will hang on the mocked generateGrid
+    // Start generation — the async pipeline will hang on the mocked enqueueGeneration
     act(() => {
       result.current.generate();
     });
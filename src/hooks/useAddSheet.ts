@@ -9,7 +9,7 @@ import { useAppContext, SpriteType, GridLink } from '../context/AppContext';
 import { composeSpriteSheet, ExtractedSprite } from '../lib/spriteExtractor';
 import { gridPresetToConfig } from '../lib/gridConfig';
 import { fetchContentPreset, buildPromptForType } from '../lib/promptForType';
-import { runGeneratePipeline, WORKFLOW_CONFIGS } from './useGenericWorkflow';
+import { runGeneratePipeline, promptSourceExtras, WORKFLOW_CONFIGS } from './useGenericWorkflow';
 import type { ContentPreset } from '../types/api';
 
 export interface AddSheetOptions {
@@ -114,7 +114,7 @@ export function useAddSheet() {
       const aspectRatio = aspectRatioOverride || gridConfig.aspectRatio || '1:1';
 
       // Build prompt (always as subsequent grid since we have a reference)
-      let prompt = buildPromptForType(spriteType, contentPreset, gridLink, gridConfig, true);
+      let prompt = buildPromptForType(spriteType, contentPreset, gridLink, gridConfig, true, currentState.promptTemplates[spriteType]);
 
       if (followUpGuidance?.trim()) {
         prompt += `\n\nADDITIONAL GUIDANCE:\n${followUpGuidance.trim()}`;
@@ -132,7 +132,11 @@ export function useAddSheet() {
         contentDescription: contentPreset.description,
         cellGroups: gridLink.cellGroups,
         referenceImage: { data: refBase64, mimeType: 'image/png' },
-        historyExtras: { groupId, contentPresetId },
+        historyExtras: {
+          groupId,
+          contentPresetId,
+          ...promptSourceExtras(contentPreset, gridLink, currentState.promptTemplates[spriteType]),
+        },
         sourceContext: { groupId: groupId ?? null, contentPresetId: contentPresetId ?? null },
       }, dispatch, abort.signal);
 
@@ -1,7 +1,12 @@
-import { useState, useEffect, useRef, useMemo, RefObject } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback, RefObject } from 'react';
 import { ANIMATIONS, DIR_WALK, DIR_IDLE, AnimationDef } from '../lib/poses';
 import type { CellGroup } from '../context/AppContext';
 import type { ExtractedSprite } from '../lib/spriteExtractor';
+import { alignOnPivots, type Pivot } from '../lib/pivot';
+import { onionFrames, DEFAULT_ONION_SKIN, ONION_TINTS, type OnionSkinSettings } from '../lib/onionSkin';
+
+/** Single frame (with onion-skin), or every frame of the animation in a row */
+export type PreviewMode = 'single' | 'compare';
 
 interface UseAnimationLoopOptions {
   cellCount: number;
@@ -9,12 +14,34 @@ interface UseAnimationLoopOptions {
   effectiveCellGroups: CellGroup[] | undefined;
   displaySprites: ExtractedSprite[];
   mirroredCells: Set<number>;
+  /** Pivots keyed by display cellIndex, in drawn (already mirrored) sprite pixels */
+  pivots?: Map<number, Pivot>;
+  /** Called with drawn-space pixel deltas when a frame is nudged from the focused preview */
+  onNudgeFrame?: (cellIndex: number, dx: number, dy: number) => void;
 }
 
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
 export interface AnimationLoopState {
   selectedAnim: number;
   setSelectedAnim: (v: number) => void;
   frameIndex: number;
+  /** Jump to a frame (pauses playback) */
+  selectFrame: (index: number) => void;
+  stepFrame: (delta: number) => void;
+  playing: boolean;
+  setPlaying: (v: boolean) => void;
+  /** Not advancing: stopped by the user, or the preview canvas has focus */
+  paused: boolean;
+  mode: PreviewMode;
+  setMode: (v: PreviewMode) => void;
+  onionSkin: OnionSkinSettings;
+  setOnionSkin: (v: OnionSkinSettings) => void;
   speed: number;
   setSpeed: (v: number) => void;
   scale: number;
@@ -24,15 +51,54 @@ export interface AnimationLoopState {
   currentFrames: number[];
 }
 
+function drawCheckerboard(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const tileSize = 8;
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const light = ((x / tileSize + y / tileSize) % 2) === 0;
+      ctx.fillStyle = light ? '#1a1a3a' : '#12122a';
+      ctx.fillRect(x, y, tileSize, tileSize);
+    }
+  }
+}
+
+/** A frame washed with a colour over its opaque pixels, for onion-skin */
+function tintedLayer(
+  img: HTMLImageElement,
+  scale: number,
+  color: string,
+  draw: (ctx: CanvasRenderingContext2D) => void,
+): HTMLCanvasElement {
+  const layer = document.createElement('canvas');
+  layer.width = img.width * scale;
+  layer.height = img.height * scale;
+  const ctx = layer.getContext('2d')!;
+  ctx.imageSmoothingEnabled = false;
+  draw(ctx);
+  ctx.globalCompositeOperation = 'source-atop';
+  ctx.globalAlpha = 0.6;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, layer.width, layer.height);
+  return layer;
+}
+
 export function useAnimationLoop({
   cellCount,
   hasAnimGroups,
   effectiveCellGroups,
   displaySprites,
   mirroredCells,
+  pivots,
+  onNudgeFrame,
 }: UseAnimationLoopOptions): AnimationLoopState {
   const [selectedAnim, setSelectedAnim] = useState(0);
   const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [focused, setFocused] = useState(false);
+  const [mode, setMode] = useState<PreviewMode>('single');
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [images, setImages] = useState<Map<number, HTMLImageElement>>(new Map());
+  const paused = !playing || focused;
   const [speed, setSpeed] = useState(150);
   const [scale, setScale] = useState(2);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -60,12 +126,55 @@ export function useAnimationLoop({
     return map;
   }, [displaySprites]);
 
+  // Line the current animation's frames up on their pivots. Computed over
+  // the whole animation so the preview box doesn't jump between frames.
+  const alignment = useMemo(() => {
+    if (!pivots) return null;
+    const frames = currentFrames
+      .map((c) => spriteMap.get(c))
+      .filter((s): s is ExtractedSprite => !!s);
+    if (frames.length === 0) return null;
+    const aligned = alignOnPivots(frames.map((s) => ({
+      width: s.width,
+      height: s.height,
+      pivot: pivots.get(s.cellIndex) ?? { x: s.width / 2, y: s.height },
+    })));
+    return { ...aligned, byCell: new Map(frames.map((s, i) => [s.cellIndex, aligned.offsets[i]])) };
+  }, [pivots, currentFrames, spriteMap]);
+
+  // Decode every sprite once so neighbouring frames can be drawn together
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(displaySprites.map((s) => new Promise<[number, HTMLImageElement] | null>((resolve) => {
+      const img = new Image();
+      img.onload = () => resolve([s.cellIndex, img]);
+      img.onerror = () => resolve(null);
+      img.src = `data:${s.mimeType};base64,${s.imageData}`;
+    }))).then((loaded) => {
+      if (!cancelled) setImages(new Map(loaded.filter((e): e is [number, HTMLImageElement] => !!e)));
+    });
+    return () => { cancelled = true; };
+  }, [displaySprites]);
+
+  const stepFrame = useCallback((delta: number) => {
+    const count = currentFrames.length;
+    if (count === 0) return;
+    setPlaying(false);
+    setFrameIndex((prev) => (((prev + delta) % count) + count) % count);
+  }, [currentFrames.length]);
+
+  const selectFrame = useCallback((index: number) => {
+    setPlaying(false);
+    setFrameIndex(index);
+  }, []);
+
   // Animation loop
   useEffect(() => {
     if (currentFrames.length <= 1) {
       setFrameIndex(0);
       return;
     }
+    if (paused) return;
 
     const shouldLoop = !hasAnimGroups || currentAnim?.loop;
     const tick = () => {
@@ -80,73 +189,167 @@ export function useAnimationLoop({
 
     animTimerRef.current = window.setInterval(tick, speed);
     return () => window.clearInterval(animTimerRef.current);
-  }, [currentFrames.length, currentAnim?.loop, speed, selectedAnim, hasAnimGroups]);
+  }, [currentFrames.length, currentAnim?.loop, speed, selectedAnim, hasAnimGroups, paused]);
 
   // Reset frame on anim change
   useEffect(() => {
     setFrameIndex(0);
   }, [selectedAnim]);
 
-  // Draw current frame to canvas
+  // Draw the preview: the current frame over its onion-skin neighbours, or
+  // every frame side by side on a shared baseline
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const cellIdx = currentFrames[frameIndex] ?? currentFrames[0];
-    const sprite = spriteMap.get(cellIdx);
-    if (!sprite) return;
+    const img = images.get(cellIdx);
+    if (!img) return;
 
-    let cancelled = false;
     const ctx = canvas.getContext('2d')!;
-    const img = new Image();
-    img.onload = () => {
-      if (cancelled) return;
-
-      const w = img.width * scale;
-      const h = img.height * scale;
-      canvas.width = Math.max(w, 128);
-      canvas.height = Math.max(h, 128);
+    // Frame placement inside the shared box: pivot-aligned when available,
+    // otherwise bottom-centred
+    const frameCells = currentFrames.filter((c) => images.has(c));
+    const boxW = alignment ? alignment.width : Math.max(...frameCells.map((c) => images.get(c)!.width));
+    const boxH = alignment ? alignment.height : Math.max(...frameCells.map((c) => images.get(c)!.height));
+    const placeOf = (c: number) => {
+      const im = images.get(c)!;
+      return alignment?.byCell.get(c) ?? { x: Math.floor((boxW - im.width) / 2), y: boxH - im.height };
+    };
+    const drawAt = (c: number, x: number, y: number, target: CanvasRenderingContext2D = ctx) => {
+      const im = images.get(c)!;
+      const w = im.width * scale;
+      const h = im.height * scale;
+      if (mirroredCells.has(c)) {
+        target.save();
+        target.translate(x + w, y);
+        target.scale(-1, 1);
+        target.drawImage(im, 0, 0, w, h);
+        target.restore();
+      } else {
+        target.drawImage(im, x, y, w, h);
+      }
+    };
 
+    if (mode === 'compare') {
+      const cells = [...new Set(frameCells)];
+      const gap = 4 * scale;
+      canvas.width = Math.max(cells.length * (boxW * scale + gap) - gap, 128);
+      canvas.height = Math.max(boxH * scale, 128);
       ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawCheckerboard(ctx, canvas.width, canvas.height);
+      ctx.imageSmoothingEnabled = false;
 
-      // Draw checkerboard
-      const tileSize = 8;
-      for (let y = 0; y < canvas.height; y += tileSize) {
-        for (let x = 0; x < canvas.width; x += tileSize) {
-          const light = ((x / tileSize + y / tileSize) % 2) === 0;
-          ctx.fillStyle = light ? '#1a1a3a' : '#12122a';
-          ctx.fillRect(x, y, tileSize, tileSize);
+      const rowX = Math.floor((canvas.width - (cells.length * (boxW * scale + gap) - gap)) / 2);
+      const boxY = Math.floor((canvas.height - boxH * scale) / 2);
+      cells.forEach((c, i) => {
+        const boxX = rowX + i * (boxW * scale + gap);
+        const place = placeOf(c);
+        drawAt(c, boxX + place.x * scale, boxY + place.y * scale);
+        if (c === cellIdx) {
+          ctx.strokeStyle = 'rgba(200, 255, 0, 0.7)';
+          ctx.lineWidth = 1;
+          ctx.strokeRect(boxX + 0.5, boxY + 0.5, boxW * scale - 1, boxH * scale - 1);
         }
+      });
+
+      // Shared baseline through the pivots (bottom of the box when unaligned)
+      const baseY = boxY + (alignment ? alignment.anchor.y : boxH) * scale;
+      ctx.strokeStyle = 'rgba(200, 255, 0, 0.5)';
+      ctx.beginPath();
+      ctx.moveTo(0, baseY + 0.5);
+      ctx.lineTo(canvas.width, baseY + 0.5);
+      if (alignment) {
+        cells.forEach((_, i) => {
+          const px = rowX + i * (boxW * scale + gap) + alignment.anchor.x * scale;
+          ctx.moveTo(px + 0.5, baseY - 4);
+          ctx.lineTo(px + 0.5, baseY + 5);
+        });
       }
+      ctx.stroke();
+      return;
+    }
 
-      ctx.imageSmoothingEnabled = false;
+    canvas.width = Math.max(boxW * scale, 128);
+    canvas.height = Math.max(boxH * scale, 128);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawCheckerboard(ctx, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = false;
 
-      const dx = Math.floor((canvas.width - w) / 2);
-      const dy = Math.floor((canvas.height - h) / 2);
+    const boxX = Math.floor((canvas.width - boxW * scale) / 2);
+    const boxY = Math.floor((canvas.height - boxH * scale) / 2);
 
-      if (mirroredCells.has(cellIdx)) {
-        ctx.save();
-        ctx.translate(dx + w, dy);
-        ctx.scale(-1, 1);
-        ctx.drawImage(img, 0, 0, w, h);
-        ctx.restore();
+    const loop = !hasAnimGroups || !!currentAnim?.loop;
+    for (const ghost of onionFrames(currentFrames, frameIndex, onionSkin, loop)) {
+      if (!images.has(ghost.cellIndex)) continue;
+      const place = placeOf(ghost.cellIndex);
+      const x = boxX + place.x * scale;
+      const y = boxY + place.y * scale;
+      ctx.globalAlpha = ghost.alpha;
+      if (onionSkin.tint) {
+        const layer = tintedLayer(images.get(ghost.cellIndex)!, scale, ONION_TINTS[ghost.direction], (t) => drawAt(ghost.cellIndex, 0, 0, t));
+        ctx.drawImage(layer, x, y);
       } else {
-        ctx.drawImage(img, dx, dy, w, h);
+        drawAt(ghost.cellIndex, x, y);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    const place = placeOf(cellIdx);
+    drawAt(cellIdx, boxX + place.x * scale, boxY + place.y * scale);
+
+    // Pivot marker
+    if (alignment) {
+      const px = boxX + alignment.anchor.x * scale;
+      const py = boxY + alignment.anchor.y * scale;
+      ctx.strokeStyle = 'rgba(200, 255, 0, 0.7)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(px - 4, py + 0.5);
+      ctx.lineTo(px + 5, py + 0.5);
+      ctx.moveTo(px + 0.5, py - 4);
+      ctx.lineTo(px + 0.5, py + 5);
+      ctx.stroke();
+    }
+  }, [frameIndex, currentFrames, images, scale, mirroredCells, alignment, mode, onionSkin, hasAnimGroups, currentAnim?.loop]);
+
+  // Focused preview: pause on the current frame, arrows nudge it, , and . step
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleFocus = () => setFocused(true);
+    const handleBlur = () => setFocused(false);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === ',' || e.key === '.') {
+        e.preventDefault();
+        stepFrame(e.key === ',' ? -1 : 1);
+        return;
       }
+      const nudge = NUDGE_KEYS[e.key];
+      if (!nudge || !onNudgeFrame) return;
+      e.preventDefault();
+      const cellIdx = currentFrames[frameIndex] ?? currentFrames[0];
+      if (cellIdx !== undefined) onNudgeFrame(cellIdx, nudge[0], nudge[1]);
     };
-    img.src = `data:${sprite.mimeType};base64,${sprite.imageData}`;
 
+    canvas.addEventListener('focus', handleFocus);
+    canvas.addEventListener('blur', handleBlur);
+    canvas.addEventListener('keydown', handleKeyDown);
     return () => {
-      cancelled = true;
-      img.src = '';
+      canvas.removeEventListener('focus', handleFocus);
+      canvas.removeEventListener('blur', handleBlur);
+      canvas.removeEventListener('keydown', handleKeyDown);
     };
-  }, [frameIndex, currentFrames, spriteMap, scale, mirroredCells]);
+  }, [currentFrames, frameIndex, stepFrame, onNudgeFrame]);
 
   // Arrow key navigation (when animation groups available)
   useEffect(() => {
     if (!hasAnimGroups) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Arrows on the focused preview nudge frames instead
+      if (e.target === canvasRef.current) return;
       if (DIR_WALK[e.key]) {
         e.preventDefault();
         const walkName = DIR_WALK[e.key];
@@ -159,6 +362,7 @@ export function useAnimationLoop({
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.target === canvasRef.current) return;
       if (DIR_IDLE[e.key] && e.key === lastKeyRef.current) {
         const idleName = DIR_IDLE[e.key];
         const idx = animations.findIndex((a) => a.name === idleName);
@@ -177,6 +381,12 @@ export function useAnimationLoop({
   return {
     selectedAnim, setSelectedAnim,
     frameIndex,
+    selectFrame,
+    stepFrame,
+    playing, setPlaying,
+    paused,
+    mode, setMode,
+    onionSkin, setOnionSkin,
     speed, setSpeed,
     scale, setScale,
     canvasRef,
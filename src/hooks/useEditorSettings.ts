@@ -4,6 +4,10 @@
  */
 
 import { useCallback, useEffect, useRef } from 'react';
+import type { GridCuts } from '../lib/spriteExtractor';
+import type { Pivot } from '../lib/pivot';
+import type { FrameOffset } from '../lib/frameAlign';
+import type { LoopFix } from '../lib/loopSeam';
 
 type RGB = [number, number, number];
 
@@ -21,6 +25,16 @@ export interface EditorSettings {
   defringeCore: number;
   /** Erased pixel coordinates keyed by sprite cell index */
   erasedPixels: Record<string, string[]>;
+  /** Explicit row/column cuts from the grid-line editor; null = auto-detect */
+  manualCuts: GridCuts | null;
+  /** Placed pivot points keyed by sprite cell index (sprite pixels) */
+  pivots: Record<string, Pivot>;
+  /** Frame alignment offsets keyed by sprite cell index (sprite pixels) */
+  frameOffsets: Record<string, FrameOffset>;
+  /** Parallax scroll speed per background layer, in display order; empty = defaults */
+  parallaxSpeeds: number[];
+  /** Parallax loop-seam repairs keyed by sprite cell index */
+  loopFixes: Record<string, LoopFix>;
 }
 
 const DEFAULTS: EditorSettings = {
@@ -36,6 +50,11 @@ const DEFAULTS: EditorSettings = {
   recolorSensitivity: 50,
   defringeCore: 240,
   erasedPixels: {},
+  manualCuts: null,
+  pivots: {},
+  frameOffsets: {},
+  parallaxSpeeds: [],
+  loopFixes: {},
 };
 
 export function useEditorSettings(historyId: number | null) {
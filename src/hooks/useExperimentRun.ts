@@ -0,0 +1,194 @@
+/**
+ * Hook for running a prompt experiment: the content loaded in the designer
+ * is generated with every prompt variant, each run is sliced and measured,
+ * and the outcome is recorded on the server as it finishes.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppContext, type SpriteType } from '../context/AppContext';
+import { generateTemplate } from '../lib/templateGenerator';
+import { extractSprites } from '../lib/spriteExtractor';
+import { spritesChromaPurity } from '../lib/experiments';
+import { enqueueGenerations, waitForJob, usageAttribution } from '../api/geminiClient';
+import { WORKFLOW_CONFIGS, buildWorkflowPrompt } from './useGenericWorkflow';
+import type { GenerationJob, PromptTemplate } from '../types/api';
+
+/** One arm of an experiment; a null template is the built-in prompt. */
+export interface ExperimentVariantChoice {
+  label: string;
+  template: PromptTemplate | null;
+}
+
+export interface ExperimentRunParams {
+  name: string;
+  spriteType: SpriteType;
+  variants: ExperimentVariantChoice[];
+  runsPerVariant: number;
+}
+
+export interface ExperimentRunCallbacks {
+  /** The experiment exists on the server and its runs are queued */
+  onCreated?: (experimentId: number) => void;
+  /** A run's outcome has been recorded */
+  onResult?: () => void;
+}
+
+async function postResult(experimentId: number, body: Record<string, unknown>) {
+  const res = await fetch(`/api/experiments/${experimentId}/results`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`Failed to record experiment result (${res.status})`);
+}
+
+export function useExperimentRun() {
+  const { state, dispatch } = useAppContext();
+  const abortRef = useRef<AbortController | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => () => { abortRef.current?.abort(); }, []);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const run = useCallback(async (params: ExperimentRunParams, callbacks: ExperimentRunCallbacks = {}) => {
+    const { name, spriteType, variants, runsPerVariant } = params;
+    const currentState = stateRef.current;
+    const config = WORKFLOW_CONFIGS[spriteType];
+    const content = config.getContent(currentState);
+    if (!content.name.trim() || !content.description.trim()) {
+      dispatch({ type: 'SET_STATUS', message: `Load a ${config.validationLabel} with a name and description in the designer first.`, statusType: 'warning' });
+      return;
+    }
+
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setRunning(true);
+
+    try {
+      const gridConfig = config.buildGridConfig(currentState);
+      const aspectRatio = gridConfig.aspectRatio || currentState.aspectRatio;
+      // Each variant's prompt as generation would build it with that template active
+      const prompts = variants.map(v => buildWorkflowPrompt(config, {
+        ...currentState,
+        promptTemplates: v.template ? { [spriteType]: v.template } : {},
+      }, gridConfig));
+
+      const createRes = await fetch('/api/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          spriteType,
+          contentName: content.name,
+          contentPresetId: currentState.activeContentPresetIds[spriteType],
+          gridSize: `${gridConfig.cols}x${gridConfig.rows}`,
+          runsPerVariant,
+          variants: variants.map((v, i) => ({
+            label: v.label,
+            templateId: v.template?.id ?? null,
+            templateVersion: v.template?.version ?? null,
+            prompt: prompts[i],
+          })),
+        }),
+        signal: abort.signal,
+      });
+      if (!createRes.ok) {
+        const err = await createRes.json().catch(() => ({}));
+        throw new Error(err.error || `Failed to create experiment (${createRes.status})`);
+      }
+      const experiment: { id: number; variants: Array<{ id: number; label: string }> } = await createRes.json();
+      const template = generateTemplate(gridConfig.templates[currentState.imageSize], gridConfig, aspectRatio);
+      const templateImage = { data: template.base64, mimeType: 'image/png' };
+      const gridOverride = {
+        cols: gridConfig.cols,
+        rows: gridConfig.rows,
+        totalCells: gridConfig.totalCells,
+        cellLabels: gridConfig.cellLabels,
+      };
+
+      // Interleave variants so a cancelled experiment still compares like with like
+      const runs = Array.from({ length: runsPerVariant }, (_, r) =>
+        experiment.variants.map((variant, i) => ({ variant, prompt: prompts[i], run: r + 1 })),
+      ).flat();
+      setProgress({ done: 0, total: runs.length });
+
+      // One batch request: the server queues every run or none
+      let jobs: GenerationJob[];
+      try {
+        jobs = await enqueueGenerations(runs.map(({ variant, prompt, run: n }) => ({
+          model: currentState.model,
+          prompt,
+          templateImage,
+          imageSize: currentState.imageSize,
+          aspectRatio,
+          label: `${name}: ${variant.label} (run ${n} of ${runsPerVariant})`,
+          ...usageAttribution(spriteType, currentState.activeContentPresetIds[spriteType]),
+        })), abort.signal);
+      } catch (err) {
+        // Nothing was queued, so do not leave an experiment without results behind
+        fetch(`/api/experiments/${experiment.id}`, { method: 'DELETE' }).catch(() => {});
+        throw err;
+      }
+      callbacks.onCreated?.(experiment.id);
+      dispatch({ type: 'SET_STATUS', message: `Experiment "${name}" queued — ${runs.length} generations`, statusType: 'info' });
+
+      const recordRun = async (index: number) => {
+        const { variant } = runs[index];
+        const outcome: Record<string, unknown> = { variantId: variant.id, expectedCells: gridConfig.totalCells };
+        try {
+          const result = await waitForJob(jobs[index].id, abort.signal);
+          if (!result.image) throw new Error('No image returned');
+          outcome.image = result.image.data;
+          outcome.mimeType = result.image.mimeType;
+          try {
+            const { sprites, diagnostics } = await extractSprites(result.image.data, result.image.mimeType, { gridOverride });
+            Object.assign(outcome, {
+              status: 'succeeded',
+              extractionMode: diagnostics.mode,
+              extractedCells: sprites.length,
+              chromaPurity: await spritesChromaPurity(sprites),
+            });
+          } catch (err: unknown) {
+            Object.assign(outcome, { status: 'failed', error: `Extraction failed: ${err instanceof Error ? err.message : 'Unknown extraction error'}` });
+          }
+        } catch (err: unknown) {
+          if (abort.signal.aborted) return;
+          Object.assign(outcome, { status: 'failed', error: err instanceof Error ? err.message : 'Generation failed' });
+        }
+        await postResult(experiment.id, outcome);
+        setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+        callbacks.onResult?.();
+      };
+
+      const settled = await Promise.allSettled(runs.map((_, i) => recordRun(i)));
+      if (abort.signal.aborted) return;
+      const unrecorded = settled.filter(s => s.status === 'rejected').length;
+      dispatch({
+        type: 'SET_STATUS',
+        message: unrecorded
+          ? `Experiment "${name}" finished — ${unrecorded} result${unrecorded === 1 ? '' : 's'} could not be recorded`
+          : `Experiment "${name}" finished`,
+        statusType: unrecorded ? 'warning' : 'success',
+      });
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      const message = err instanceof Error ? err.message : 'Experiment failed';
+      dispatch({ type: 'SET_STATUS', message: `Experiment failed: ${message}`, statusType: 'error' });
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+      setRunning(false);
+    }
+  }, [dispatch]);
+
+  return { run, cancel, running, progress };
+}
@@ -5,17 +5,41 @@
  */
 
 import { useCallback, useEffect, useRef, useMemo, type Dispatch } from 'react';
-import { useAppContext, type AppState, type GridLink, type SpriteType, type Action, type CellGroup } from '../context/AppContext';
+import { useAppContext, type AppState, type GridLink, type SpriteType, type Action, type CellGroup, type GridCandidate } from '../context/AppContext';
 import { generateTemplate } from '../lib/templateGenerator';
-import { extractSprites } from '../lib/spriteExtractor';
-import { generateGrid } from '../api/geminiClient';
+import { extractSprites, type GridCuts } from '../lib/spriteExtractor';
+import { enqueueGeneration, enqueueGenerations, fetchJob, waitForJob, usageAttribution, type GridGenerateResult } from '../api/geminiClient';
 import type { GridConfig } from '../lib/gridConfig';
-import type { HistorySaveResponse } from '../types/api';
+import { renderPromptTemplate } from '../lib/promptTemplates';
+import { hashImageData } from '../lib/imageHash';
+import type { GenerationJob, HistorySaveResponse, PromptTemplate, StateResponse } from '../types/api';
 
 /** Extra fields merged into the /api/history POST body */
 export interface HistoryExtras {
   groupId?: number | string | null;
   contentPresetId?: number | string | null;
+  gridLinkId?: number | null;
+  promptTemplateId?: number | null;
+  promptTemplateVersion?: number | null;
+  referenceImageHash?: string | null;
+  contentSnapshot?: Record<string, unknown> | null;
+}
+
+/**
+ * History fields recording what a grid's prompt was built from — the
+ * content, the grid link and the prompt template — so it can be replayed.
+ */
+export function promptSourceExtras(
+  content: object,
+  gridLink?: GridLink,
+  template?: Pick<PromptTemplate, 'id' | 'version'> | null,
+): HistoryExtras {
+  return {
+    gridLinkId: gridLink?.id ?? null,
+    promptTemplateId: template?.id ?? null,
+    promptTemplateVersion: template?.version ?? null,
+    contentSnapshot: { ...content },
+  };
 }
 
 export interface WorkflowConfig {
@@ -37,6 +61,28 @@ export interface WorkflowConfig {
   } | null;
 }
 
+/**
+ * The prompt for one grid: rendered from the sprite type's active prompt
+ * template when it has one, otherwise from the config's built-in builder.
+ */
+export function buildWorkflowPrompt(
+  config: WorkflowConfig,
+  state: AppState,
+  gridConfig: GridConfig,
+  gridLink?: GridLink,
+): string {
+  const template = state.promptTemplates[config.spriteType];
+  if (!template) return config.buildPrompt(state, gridConfig, gridLink);
+  return renderPromptTemplate(
+    template,
+    config.spriteType,
+    config.getContent(state),
+    gridConfig,
+    gridLink?.genericGuidance,
+    gridLink?.guidanceOverride,
+  );
+}
+
 /** Parameters for the shared generate pipeline */
 export interface PipelineParams {
   gridConfig: GridConfig;
@@ -53,18 +99,70 @@ export interface PipelineParams {
   historyExtras?: HistoryExtras;
   /** Source context for SET_SOURCE_CONTEXT dispatch */
   sourceContext?: { groupId: string | null; contentPresetId: string | null };
+  /** Generate this many candidates and let the user choose (default 1) */
+  variants?: number;
+}
+
+/** The provider result plus the history entry it was saved as, if saving got that far */
+export interface PipelineResult extends GridGenerateResult {
+  historyId: number | null;
+}
+
+/**
+ * The generation job the pipeline is waiting on, kept in app state so a
+ * reload can pick the job back up. The reference image is dropped — the
+ * job already holds it.
+ */
+interface ActiveJobRecord {
+  jobId: number;
+  params: PipelineParams;
+}
+
+function rememberActiveJob(jobId: number, params: PipelineParams) {
+  const record: ActiveJobRecord = { jobId, params: { ...params, referenceImage: undefined } };
+  fetch('/api/state/activeJob', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ value: JSON.stringify(record) }),
+  }).catch(() => {});
+}
+
+function forgetActiveJob() {
+  fetch('/api/state/activeJob', { method: 'DELETE' }).catch(() => {});
+}
+
+function jobProgressMessage(job: GenerationJob): string | null {
+  if (job.status === 'queued') {
+    return job.position ? `Queued — ${job.position} generation${job.position === 1 ? '' : 's'} ahead` : 'Queued — starting next';
+  }
+  if (job.status === 'running') return 'Generating sprites...';
+  return null;
 }
 
 /**
  * Shared generate → extract → save → archive pipeline.
  * Used by both useGenericWorkflow and useRunWorkflow.
+ *
+ * The provider call runs as a server-side job; the pipeline follows it
+ * over SSE. Pass `resumeJobId` to follow a job queued before a reload
+ * instead of queueing a new one.
+ *
+ * With `variants` above 1 the pipeline stops once every candidate is
+ * extracted (CANDIDATES_READY); finishWithCandidate completes it with the
+ * grid the user picks.
  */
 export async function runGeneratePipeline(
   params: PipelineParams,
   dispatch: Dispatch<Action>,
   signal: AbortSignal,
-) {
-  const { gridConfig, prompt, model, imageSize, aspectRatio, spriteType, contentName, contentDescription, cellGroups, referenceImage, historyExtras, sourceContext } = params;
+  resumeJobId?: number,
+): Promise<PipelineResult | null> {
+  const { gridConfig, prompt, model, imageSize, aspectRatio, contentName, cellGroups, referenceImage } = params;
+
+  // The reference image itself is not kept with the job record, so hash it up front
+  if (referenceImage && !params.historyExtras?.referenceImageHash) {
+    params = { ...params, historyExtras: { ...params.historyExtras, referenceImageHash: await hashImageData(referenceImage.data) } };
+  }
 
   // 1. Generate template grid
   const templateParams = gridConfig.templates[imageSize];
@@ -81,18 +179,120 @@ export async function runGeneratePipeline(
     },
   });
 
-  // 2. Call Gemini API
-  const result = await generateGrid(
-    model,
-    prompt,
-    { data: template.base64, mimeType: 'image/png' },
-    imageSize,
-    signal,
-    referenceImage,
-    aspectRatio,
-  );
+  const templateImage = { data: template.base64, mimeType: 'image/png' };
+  const onJobUpdate = (job: GenerationJob) => {
+    const message = jobProgressMessage(job);
+    if (message) dispatch({ type: 'SET_STATUS', message, statusType: 'info' });
+  };
+
+  // 2a. Several candidates: queue them all and stop at the picker
+  const variants = params.variants ?? 1;
+  if (variants > 1 && resumeJobId === undefined) {
+    const candidates = await generateCandidates(params, templateImage, variants, dispatch, signal);
+    if (!candidates) return null;
+    dispatch({ type: 'CANDIDATES_READY', candidates, params });
+    return null;
+  }
+
+  // 2b. Queue the generation and wait for the job
+  let jobId = resumeJobId;
+  if (jobId === undefined) {
+    const job = await enqueueGeneration({
+      model, prompt, templateImage, imageSize, aspectRatio, referenceImage, label: contentName,
+      ...usageAttribution(params.spriteType, params.historyExtras?.contentPresetId),
+    }, signal);
+    jobId = job.id;
+  }
+  rememberActiveJob(jobId, params);
+
+  let result: GridGenerateResult;
+  try {
+    result = await waitForJob(jobId, signal, onJobUpdate);
+  } finally {
+    forgetActiveJob();
+  }
 
   if (signal.aborted) return null;
+  return completeGeneration(params, result, dispatch, signal);
+}
+
+/**
+ * Queue `count` generations of the same template and prompt, wait for all
+ * of them and extract each. Failed candidates are kept with their error.
+ * Null when aborted; throws when every candidate failed.
+ */
+async function generateCandidates(
+  params: PipelineParams,
+  templateImage: { data: string; mimeType: string },
+  count: number,
+  dispatch: Dispatch<Action>,
+  signal: AbortSignal,
+): Promise<GridCandidate[] | null> {
+  const { gridConfig, prompt, model, imageSize, aspectRatio, referenceImage, contentName } = params;
+
+  // One batch request: the server queues every candidate or none
+  const jobs = await enqueueGenerations(Array.from({ length: count }, (_, i) => ({
+    model, prompt, templateImage, imageSize, aspectRatio, referenceImage,
+    label: `${contentName} (variant ${i + 1} of ${count})`,
+    ...usageAttribution(params.spriteType, params.historyExtras?.contentPresetId),
+  })), signal);
+
+  let finished = 0;
+  const settled = await Promise.allSettled(jobs.map(job => waitForJob(job.id, signal).finally(() => {
+    finished++;
+    if (!signal.aborted) {
+      dispatch({ type: 'SET_STATUS', message: `Candidates: ${finished} of ${count} finished`, statusType: 'info' });
+    }
+  })));
+  if (signal.aborted) return null;
+
+  const candidates: GridCandidate[] = [];
+  for (const [i, outcome] of settled.entries()) {
+    const candidate: GridCandidate = { jobId: jobs[i].id, image: null, text: '', sprites: [], diagnostics: null, error: null };
+    if (outcome.status === 'rejected') {
+      candidate.error = outcome.reason instanceof Error ? outcome.reason.message : 'Generation failed';
+    } else if (!outcome.value.image) {
+      candidate.error = 'No image returned';
+    } else {
+      candidate.image = outcome.value.image;
+      candidate.text = outcome.value.text || '';
+      try {
+        const extraction = await extractSprites(outcome.value.image.data, outcome.value.image.mimeType, {
+          gridOverride: {
+            cols: gridConfig.cols,
+            rows: gridConfig.rows,
+            totalCells: gridConfig.totalCells,
+            cellLabels: gridConfig.cellLabels,
+          },
+        });
+        candidate.sprites = extraction.sprites;
+        candidate.diagnostics = extraction.diagnostics;
+      } catch (err: unknown) {
+        candidate.error = `Extraction failed: ${err instanceof Error ? err.message : 'Unknown extraction error'}`;
+      }
+    }
+    candidates.push(candidate);
+    if (signal.aborted) return null;
+  }
+
+  if (candidates.every(c => !c.image)) {
+    throw new Error(candidates[0]?.error ?? 'Generation failed');
+  }
+  return candidates;
+}
+
+/**
+ * Steps 3–4 of the pipeline for a filled grid in hand: extract, save to
+ * history and archive. Also used when a candidate is picked.
+ */
+export async function completeGeneration(
+  params: PipelineParams,
+  result: GridGenerateResult,
+  dispatch: Dispatch<Action>,
+  signal: AbortSignal,
+): Promise<PipelineResult | null> {
+  const { gridConfig, prompt, model, imageSize, aspectRatio, spriteType, contentName, contentDescription, cellGroups, historyExtras, sourceContext } = params;
+  let historyId: number | null = null;
 
   if (!result.image) {
     dispatch({ type: 'GENERATE_ERROR', error: 'Gemini returned no image. Try again.' });
@@ -107,9 +307,9 @@ export async function runGeneratePipeline(
   });
 
   // 3. Extract sprites
-  let sprites: Awaited<ReturnType<typeof extractSprites>>;
+  let extraction: Awaited<ReturnType<typeof extractSprites>>;
   try {
-    sprites = await extractSprites(
+    extraction = await extractSprites(
       result.image.data,
       result.image.mimeType,
       {
@@ -128,12 +328,13 @@ export async function runGeneratePipeline(
     console.error('Sprite extraction failed:', extractionErr);
     dispatch({ type: 'EXTRACTION_COMPLETE', sprites: [] });
     dispatch({ type: 'SET_STATUS', message: `Extraction failed: ${msg}. Use re-extract to retry.`, statusType: 'warning' });
-    return result;
+    return { ...result, historyId };
   }
 
   if (signal.aborted) return null;
 
-  dispatch({ type: 'EXTRACTION_COMPLETE', sprites });
+  const { sprites, diagnostics } = extraction;
+  dispatch({ type: 'EXTRACTION_COMPLETE', sprites, diagnostics });
 
   // 4. Save to history + archive to disk
   const spritePayload = sprites.map(s => ({
@@ -157,6 +358,7 @@ export async function runGeneratePipeline(
         spriteType,
         gridSize: `${gridConfig.cols}x${gridConfig.rows}`,
         aspectRatio,
+        imageSize,
         ...historyExtras,
       }),
       signal,
@@ -165,7 +367,7 @@ export async function runGeneratePipeline(
     if (!histResp.ok) {
       console.error('History save failed:', histResp.status, histResp.statusText);
       dispatch({ type: 'SET_STATUS', message: `Failed to save to history (${histResp.status})`, statusType: 'warning' });
-      return result;
+      return { ...result, historyId };
     }
 
     const histData: HistorySaveResponse = await histResp.json();
@@ -174,10 +376,11 @@ export async function runGeneratePipeline(
     if (!Number.isFinite(histId)) {
       console.error('History save returned invalid id:', histData.id);
       dispatch({ type: 'SET_STATUS', message: 'Failed to save to history: invalid ID returned', statusType: 'warning' });
-      return result;
+      return { ...result, historyId };
     }
 
     if (signal.aborted) return null;
+    historyId = histId;
     dispatch({ type: 'SET_HISTORY_ID', id: histId });
     if (sourceContext) {
       dispatch({ type: 'SET_SOURCE_CONTEXT', ...sourceContext });
@@ -209,6 +412,17 @@ export async function runGeneratePipeline(
         filledGridImage: result.image.data,
         filledGridMimeType: result.image.mimeType,
         sprites: spritePayload,
+        manifest: {
+          spriteType,
+          prompt,
+          model,
+          imageSize,
+          aspectRatio,
+          cols: gridConfig.cols,
+          rows: gridConfig.rows,
+          cellLabels: gridConfig.cellLabels,
+          cellGroups: cellGroups ?? [],
+        },
       }),
       signal,
     });
@@ -216,6 +430,9 @@ export async function runGeneratePipeline(
     if (!archiveRes.ok) {
       console.error('Archive save failed:', archiveRes.status, archiveRes.statusText);
       dispatch({ type: 'SET_STATUS', message: `Failed to archive to disk (${archiveRes.status})`, statusType: 'warning' });
+    } else {
+      const { folder } = await archiveRes.json();
+      if (folder) dispatch({ type: 'SET_ARCHIVE_FOLDER', folder });
     }
   } catch (e: unknown) {
     if (e instanceof Error && e.name === 'AbortError') return null;
@@ -223,7 +440,7 @@ export async function runGeneratePipeline(
     dispatch({ type: 'SET_STATUS', message: 'Failed to archive to disk', statusType: 'warning' });
   }
 
-  return result;
+  return { ...result, historyId };
 }
 
 /**
@@ -245,6 +462,76 @@ export function cancelActiveGeneration(dispatch: Dispatch<Action>) {
   dispatch({ type: 'RESET' });
 }
 
+/**
+ * Pick up a generation job that was still open when the page was last
+ * closed. Resolves true when a job was found and its pipeline has run (or
+ * failed); false when there was nothing to resume.
+ */
+export async function resumeActiveGeneration(dispatch: Dispatch<Action>): Promise<boolean> {
+  let record: ActiveJobRecord;
+  try {
+    const res = await fetch('/api/state/activeJob');
+    if (!res.ok) return false;
+    const { value }: StateResponse = await res.json();
+    if (!value) return false;
+    record = JSON.parse(value);
+  } catch {
+    return false;
+  }
+
+  let job: GenerationJob;
+  try {
+    job = await fetchJob(record.jobId);
+  } catch {
+    forgetActiveJob();
+    return false;
+  }
+  if (job.status === 'failed' || job.status === 'cancelled') {
+    forgetActiveJob();
+    return false;
+  }
+
+  const abort = new AbortController();
+  sharedAbortController = abort;
+  try {
+    await runGeneratePipeline(record.params, dispatch, abort.signal, record.jobId);
+  } catch (err: unknown) {
+    if (!(err instanceof Error && err.name === 'AbortError')) {
+      const message = err instanceof Error ? err.message : 'Generation failed';
+      dispatch({ type: 'GENERATE_ERROR', error: message });
+    }
+  } finally {
+    if (sharedAbortController === abort) {
+      sharedAbortController = null;
+    }
+  }
+  return true;
+}
+
+/**
+ * Finish a variant generation with the chosen (or composited) grid:
+ * extract, save and archive it like a single generation.
+ */
+export async function finishWithCandidate(
+  params: PipelineParams,
+  result: GridGenerateResult,
+  dispatch: Dispatch<Action>,
+) {
+  const abort = new AbortController();
+  sharedAbortController = abort;
+  try {
+    await completeGeneration(params, result, dispatch, abort.signal);
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === 'AbortError') return;
+    const message = err instanceof Error ? err.message : 'Generation failed';
+    dispatch({ type: 'GENERATE_ERROR', error: message });
+  } finally {
+    if (sharedAbortController === abort) {
+      sharedAbortController = null;
+    }
+  }
+}
+
 export function useGenericWorkflow(config: WorkflowConfig) {
   const { state, dispatch } = useAppContext();
 
@@ -294,8 +581,13 @@ export function useGenericWorkflow(config: WorkflowConfig) {
 
     try {
       const gridConfig = currentConfig.buildGridConfig(currentState, gridLink);
-      const aspectRatio = gridConfig.aspectRatio || currentState.aspectRatio;
-      const prompt = currentConfig.buildPrompt(currentState, gridConfig, gridLink);
+      // An exact replay sends the recorded prompt and aspect ratio verbatim, whatever builds them now
+      const replay = currentState.replay?.exact ? currentState.replay : null;
+      const aspectRatio = replay ? currentState.aspectRatio : gridConfig.aspectRatio || currentState.aspectRatio;
+      const prompt = replay ? replay.prompt : buildWorkflowPrompt(currentConfig, currentState, gridConfig, gridLink);
+      const promptTemplate = replay
+        ? (replay.promptTemplateId !== null ? { id: replay.promptTemplateId, version: replay.promptTemplateVersion ?? 1 } : null)
+        : currentState.promptTemplates[currentConfig.spriteType];
 
       await runGeneratePipeline({
         gridConfig,
@@ -307,8 +599,12 @@ export function useGenericWorkflow(config: WorkflowConfig) {
         contentName: content.name,
         contentDescription: content.description,
         cellGroups: gridLink?.cellGroups,
-        historyExtras: { contentPresetId: currentState.activeContentPresetIds[currentConfig.spriteType] },
+        historyExtras: {
+          contentPresetId: currentState.activeContentPresetIds[currentConfig.spriteType],
+          ...promptSourceExtras(content, gridLink, promptTemplate),
+        },
         sourceContext: { groupId: null, contentPresetId: currentState.activeContentPresetIds[currentConfig.spriteType] },
+        variants: currentState.variantCount,
       }, dispatch, abort.signal);
     } catch (err: unknown) {
       if (err instanceof Error && err.name === 'AbortError') return;
@@ -326,6 +622,7 @@ export function useGenericWorkflow(config: WorkflowConfig) {
   const reExtract = useCallback(async (overrides?: {
     aaInset?: number;
     posterizeBits?: number;
+    manualCuts?: GridCuts;
   }) => {
     const currentState = stateRef.current;
     const currentConfig = configRef.current;
@@ -336,7 +633,7 @@ export function useGenericWorkflow(config: WorkflowConfig) {
     try {
       const gridOverride = currentConfig.getReExtractGridConfig(currentState);
 
-      const sprites = await extractSprites(
+      const { sprites, diagnostics } = await extractSprites(
         currentState.filledGridImage,
         currentState.filledGridMimeType,
         {
@@ -345,7 +642,7 @@ export function useGenericWorkflow(config: WorkflowConfig) {
         },
       );
 
-      dispatch({ type: 'EXTRACTION_COMPLETE', sprites });
+      dispatch({ type: 'EXTRACTION_COMPLETE', sprites, diagnostics });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       console.error('Re-extraction failed:', err);
@@ -0,0 +1,173 @@
+/**
+ * Hook for fixing a rectangle of one sprite. Sends the sprite with the
+ * region masked to chroma pink through the generate route, splices the
+ * accepted pixels into the filled grid so they survive re-extraction, and
+ * keeps the previous grids so each fix can be undone.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppContext, SpriteType } from '../context/AppContext';
+import { extractSprites, type ExtractedSprite, type GridCuts } from '../lib/spriteExtractor';
+import type { CellRect } from '../lib/gridCandidates';
+import { buildInpaintPrompt, decodeImage, encodePng, maskRegion, spliceRegion } from '../lib/inpaint';
+import { closestAspectRatio, saveGridCells } from '../lib/cellRegeneration';
+import { enqueueGeneration, waitForJob, usageAttribution } from '../api/geminiClient';
+import { WORKFLOW_CONFIGS } from './useGenericWorkflow';
+
+export interface InpaintExtraction {
+  aaInset: number;
+  posterizeBits: number;
+  manualCuts: GridCuts | null;
+}
+
+interface UndoEntry {
+  filledGridImage: string;
+  filledGridMimeType: string;
+  cellIndex: number;
+}
+
+export function useInpaint() {
+  const { state, dispatch } = useAppContext();
+  const abortRef = useRef<AbortController | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => () => { abortRef.current?.abort(); }, []);
+
+  // Undo only reaches back through fixes of the sheet being edited
+  useEffect(() => { setUndoStack([]); }, [state.historyId]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setGenerating(false);
+  }, []);
+
+  /**
+   * Ask the model to redraw `rect` of the (unkeyed) sprite. Resolves the
+   * returned sprite at the original size, or null when cancelled or failed.
+   */
+  const request = useCallback(async (sprite: ExtractedSprite, rect: CellRect, instruction: string): Promise<ImageData | null> => {
+    const currentState = stateRef.current;
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setGenerating(true);
+
+    try {
+      const original = await decodeImage({ data: sprite.imageData, mimeType: sprite.mimeType }, sprite.width, sprite.height);
+      const masked = maskRegion(original, rect);
+      dispatch({ type: 'SET_STATUS', message: `Fixing region of ${sprite.label}...`, statusType: 'info' });
+      const job = await enqueueGeneration({
+        model: currentState.model,
+        prompt: buildInpaintPrompt(sprite.label, rect, sprite.width, sprite.height, instruction),
+        templateImage: { data: encodePng(masked), mimeType: 'image/png' },
+        imageSize: currentState.imageSize,
+        aspectRatio: closestAspectRatio(sprite.width, sprite.height),
+        label: `${sprite.label} (region fix)`,
+        ...usageAttribution(currentState.spriteType, currentState.sourceContentPresetId),
+      }, abort.signal);
+      const result = await waitForJob(job.id, abort.signal);
+      if (abort.signal.aborted) return null;
+      if (!result.image) throw new Error('Gemini returned no image. Try again.');
+
+      const patch = await decodeImage(result.image, sprite.width, sprite.height);
+      dispatch({ type: 'SET_STATUS', message: 'Region redrawn — compare and apply', statusType: 'info' });
+      return patch;
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') return null;
+      const message = err instanceof Error ? err.message : 'Inpainting failed';
+      dispatch({ type: 'SET_STATUS', message: `Region fix failed: ${message}`, statusType: 'error' });
+      return null;
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+      setGenerating(false);
+    }
+  }, [dispatch]);
+
+  /** Re-cut the sheet, put it in state and save it over the history entry. */
+  const commitSheet = useCallback(async (
+    sheet: { data: string; mimeType: string },
+    cellIndex: number,
+    extraction: InpaintExtraction,
+  ) => {
+    const currentState = stateRef.current;
+    const override = WORKFLOW_CONFIGS[currentState.spriteType as SpriteType].getReExtractGridConfig(currentState);
+    const { sprites, diagnostics } = await extractSprites(sheet.data, sheet.mimeType, {
+      aaInset: extraction.aaInset,
+      posterizeBits: extraction.posterizeBits,
+      ...(override ? { gridOverride: override } : {}),
+      ...(extraction.manualCuts ? { manualCuts: extraction.manualCuts } : {}),
+    });
+    dispatch({
+      type: 'CELLS_REGENERATED',
+      filledGridImage: sheet.data,
+      filledGridMimeType: sheet.mimeType,
+      sprites,
+      diagnostics,
+      cellCount: 1,
+    });
+    if (currentState.historyId && !(await saveGridCells(currentState.historyId, sheet.data, sprites, [cellIndex]))) {
+      return false;
+    }
+    return true;
+  }, [dispatch]);
+
+  /** Splice the accepted pixels of `patch` inside `rect` into source cell `cellIndex`. */
+  const apply = useCallback(async (cellIndex: number, rect: CellRect, patch: ImageData, extraction: InpaintExtraction): Promise<boolean> => {
+    const { filledGridImage, filledGridMimeType, extractionDiagnostics } = stateRef.current;
+    if (!filledGridImage || !extractionDiagnostics) return false;
+
+    try {
+      const spliced = await spliceRegion(
+        { data: filledGridImage, mimeType: filledGridMimeType },
+        extractionDiagnostics,
+        cellIndex,
+        patch,
+        rect,
+      );
+      if (!spliced) {
+        dispatch({ type: 'SET_STATUS', message: 'The selected region lies outside the cell', statusType: 'warning' });
+        return false;
+      }
+      setUndoStack(prev => [...prev, { filledGridImage, filledGridMimeType, cellIndex }]);
+      const saved = await commitSheet(spliced, cellIndex, extraction);
+      dispatch({
+        type: 'SET_STATUS',
+        message: saved ? 'Region fixed' : 'Region fixed but not saved to history',
+        statusType: saved ? 'success' : 'warning',
+      });
+      return true;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: `Region fix failed: ${message}`, statusType: 'error' });
+      return false;
+    }
+  }, [dispatch, commitSheet]);
+
+  /** Put back the sheet as it was before the last applied fix. */
+  const undo = useCallback(async (extraction: InpaintExtraction): Promise<boolean> => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return false;
+    setUndoStack(prev => prev.slice(0, -1));
+
+    try {
+      const saved = await commitSheet({ data: last.filledGridImage, mimeType: last.filledGridMimeType }, last.cellIndex, extraction);
+      dispatch({
+        type: 'SET_STATUS',
+        message: saved ? 'Region fix undone' : 'Region fix undone but not saved to history',
+        statusType: saved ? 'success' : 'warning',
+      });
+      return true;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'SET_STATUS', message: `Undo failed: ${message}`, statusType: 'error' });
+      return false;
+    }
+  }, [undoStack, dispatch, commitSheet]);
+
+  return { request, apply, undo, cancel, generating, canUndo: undoStack.length > 0 };
+}
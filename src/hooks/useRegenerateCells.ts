@@ -0,0 +1,168 @@
+/**
+ * Hook for redrawing selected cells of the current sheet. Generates a
+ * template holding only those cells with the sheet as reference image,
+ * splices the redrawn cells into the sheet, re-extracts it with the
+ * sheet's cuts and saves the new grid and cells over the history entry.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppContext, SpriteType } from '../context/AppContext';
+import { extractSprites, type GridCuts } from '../lib/spriteExtractor';
+import { getTemplateParams, type GridConfig } from '../lib/gridConfig';
+import { generateTemplate } from '../lib/templateGenerator';
+import { buildCellRegenerationPrompt, saveGridCells, spliceCells, subsetGridConfig } from '../lib/cellRegeneration';
+import { fetchContentPreset } from '../lib/promptForType';
+import { enqueueGeneration, waitForJob, usageAttribution } from '../api/geminiClient';
+import { WORKFLOW_CONFIGS } from './useGenericWorkflow';
+
+export interface RegenerateCellsOptions {
+  /** Source cell indices to redraw */
+  cells: number[];
+  /** Image generation size */
+  imageSize: '2K' | '4K';
+  /** Optional guidance appended to the prompt */
+  guidance?: string;
+  /** Extraction settings in use, so the re-extracted sheet matches */
+  aaInset: number;
+  posterizeBits: number;
+  manualCuts: GridCuts | null;
+}
+
+export function useRegenerateCells() {
+  const { state, dispatch } = useAppContext();
+  const abortRef = useRef<AbortController | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const isGeneratingRef = useRef(false);
+
+  useEffect(() => () => { abortRef.current?.abort(); }, []);
+
+  const cancel = useCallback(() => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      abortRef.current = null;
+    }
+    isGeneratingRef.current = false;
+    setGenerating(false);
+  }, []);
+
+  /** Resolves true once the sheet holds the redrawn cells. */
+  const generate = useCallback(async (opts: RegenerateCellsOptions): Promise<boolean> => {
+    if (isGeneratingRef.current || opts.cells.length === 0) return false;
+    isGeneratingRef.current = true;
+
+    const { cells, imageSize, guidance, aaInset, posterizeBits, manualCuts } = opts;
+    const currentState = stateRef.current;
+    const spriteType = currentState.spriteType as SpriteType;
+    const { filledGridImage, filledGridMimeType, activeGridConfig: agc, historyId } = currentState;
+
+    if (!filledGridImage || !agc) {
+      isGeneratingRef.current = false;
+      throw new Error('No filled grid image available');
+    }
+
+    setGenerating(true);
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    try {
+      let contentName: string;
+      let contentDescription: string;
+      if (currentState.sourceContentPresetId) {
+        ({ name: contentName, description: contentDescription } = await fetchContentPreset(spriteType, currentState.sourceContentPresetId));
+      } else {
+        ({ name: contentName, description: contentDescription } = WORKFLOW_CONFIGS[spriteType].getContent(currentState));
+      }
+
+      const sheet = { data: filledGridImage, mimeType: filledGridMimeType };
+      const sheetOverride = WORKFLOW_CONFIGS[spriteType].getReExtractGridConfig(currentState);
+      const sheetExtraction = {
+        aaInset,
+        posterizeBits,
+        ...(sheetOverride ? { gridOverride: sheetOverride } : {}),
+        ...(manualCuts ? { manualCuts } : {}),
+      };
+
+      // Where each cell sits in the sheet now
+      const sheetDiagnostics = currentState.extractionDiagnostics
+        ?? (await extractSprites(sheet.data, sheet.mimeType, sheetExtraction)).diagnostics;
+
+      // Template holding only the chosen cells, at the sheet's cell size
+      const aspectRatio = agc.aspectRatio || '1:1';
+      const sheetGrid: GridConfig = {
+        id: 'current',
+        label: 'Current Layout',
+        cols: agc.cols,
+        rows: agc.rows,
+        totalCells: agc.cols * agc.rows,
+        cellLabels: agc.cellLabels,
+        aspectRatio,
+        templates: getTemplateParams(`${agc.cols}x${agc.rows}`, spriteType, aspectRatio),
+      };
+      const partialGrid = subsetGridConfig(sheetGrid, cells, imageSize);
+      const template = generateTemplate(partialGrid.templates[imageSize], partialGrid, partialGrid.aspectRatio);
+      const prompt = buildCellRegenerationPrompt(contentName, contentDescription, partialGrid, guidance);
+
+      if (abort.signal.aborted) return false;
+
+      dispatch({ type: 'SET_STATUS', message: `Regenerating ${cells.length} cell${cells.length === 1 ? '' : 's'}...`, statusType: 'info' });
+      const job = await enqueueGeneration({
+        model: currentState.model,
+        prompt,
+        templateImage: { data: template.base64, mimeType: 'image/png' },
+        imageSize,
+        aspectRatio: partialGrid.aspectRatio,
+        referenceImage: sheet,
+        label: `${contentName} (${cells.length} cell${cells.length === 1 ? '' : 's'})`,
+        ...usageAttribution(spriteType, currentState.sourceContentPresetId),
+      }, abort.signal);
+      const result = await waitForJob(job.id, abort.signal);
+      if (abort.signal.aborted) return false;
+      if (!result.image) throw new Error('Gemini returned no image. Try again.');
+
+      // Splice the redrawn cells in and re-cut the whole sheet
+      const partial = await extractSprites(result.image.data, result.image.mimeType, {
+        aaInset,
+        posterizeBits,
+        gridOverride: {
+          cols: partialGrid.cols,
+          rows: partialGrid.rows,
+          totalCells: partialGrid.totalCells,
+          cellLabels: partialGrid.cellLabels,
+        },
+      });
+      const spliced = await spliceCells(sheet, sheetDiagnostics, result.image, partial.diagnostics, cells);
+      const { sprites, diagnostics } = await extractSprites(spliced.data, spliced.mimeType, sheetExtraction);
+      if (abort.signal.aborted) return false;
+
+      dispatch({
+        type: 'CELLS_REGENERATED',
+        filledGridImage: spliced.data,
+        filledGridMimeType: spliced.mimeType,
+        sprites,
+        diagnostics,
+        cellCount: cells.length,
+      });
+
+      if (historyId && !(await saveGridCells(historyId, spliced.data, sprites, cells))) {
+        dispatch({ type: 'SET_STATUS', message: 'Cells regenerated but not saved to history', statusType: 'warning' });
+      }
+      return true;
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') return false;
+      const message = err instanceof Error ? err.message : 'Regeneration failed';
+      dispatch({ type: 'SET_STATUS', message: `Cell regeneration failed: ${message}`, statusType: 'error' });
+      return false;
+    } finally {
+      isGeneratingRef.current = false;
+      setGenerating(false);
+      abortRef.current = null;
+    }
+  }, [dispatch]);
+
+  return { generate, cancel, generating };
+}
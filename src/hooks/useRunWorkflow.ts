@@ -3,6 +3,10 @@
  * Sequences through selected grid links in a run, generating each grid
  * with reference sheet continuity for consistent sprite visuals.
  *
+ * Manual runs stop in review after every grid; auto runs move straight on
+ * to the next one. Retrying and skipping failed grids in auto runs is
+ * decided by the reducer on GENERATE_ERROR.
+ *
  * Delegates the per-grid generate → extract → save pipeline to
  * runGeneratePipeline from useGenericWorkflow.
  */
@@ -11,7 +15,17 @@ import { useCallback, useEffect, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { gridPresetToConfig } from '../lib/gridConfig';
 import { fetchContentPreset, buildPromptForType } from '../lib/promptForType';
-import { runGeneratePipeline } from './useGenericWorkflow';
+import { runGeneratePipeline, promptSourceExtras } from './useGenericWorkflow';
+
+/** Pause before retrying a failed grid, multiplied by the attempt number */
+const RETRY_DELAY_MS = 3000;
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
 
 export function useRunWorkflow() {
   const { state, dispatch } = useAppContext();
@@ -49,13 +63,19 @@ export function useRunWorkflow() {
     abortRef.current = abort;
 
     try {
+      const attempts = run.results[run.currentGridIndex]?.attempts ?? 0;
+      if (attempts > 0) {
+        await delay(RETRY_DELAY_MS * attempts, abort.signal);
+        if (abort.signal.aborted) return;
+      }
+
       const contentPreset = await fetchContentPreset(run.spriteType, run.contentPresetId!);
       if (abort.signal.aborted) return;
 
       const gridConfig = gridPresetToConfig(gridLink, run.spriteType);
       const aspectRatio = gridConfig.aspectRatio || '1:1';
       const isSubsequent = run.currentGridIndex > 0 && run.referenceSheet !== null;
-      const prompt = buildPromptForType(run.spriteType, contentPreset, gridLink, gridConfig, isSubsequent);
+      const prompt = buildPromptForType(run.spriteType, contentPreset, gridLink, gridConfig, isSubsequent, currentState.promptTemplates[run.spriteType]);
 
       const refImage = isSubsequent && run.referenceSheet
         ? { data: run.referenceSheet, mimeType: 'image/png' }
@@ -75,6 +95,7 @@ export function useRunWorkflow() {
         historyExtras: {
           groupId: run.groupId,
           contentPresetId: run.contentPresetId,
+          ...promptSourceExtras(contentPreset, gridLink, currentState.promptTemplates[run.spriteType]),
         },
         sourceContext: {
           groupId: run.groupId,
@@ -84,7 +105,10 @@ export function useRunWorkflow() {
 
       // Store as reference sheet for subsequent grids in the run
       if (result?.image) {
-        dispatch({ type: 'COMPLETE_GRID', payload: { filledGridImage: result.image.data } });
+        dispatch({ type: 'COMPLETE_GRID', payload: { filledGridImage: result.image.data, historyId: result.historyId } });
+        if (run.mode === 'auto' && !abort.signal.aborted) {
+          dispatch({ type: 'NEXT_GRID' });
+        }
       }
     } catch (err: unknown) {
       if (err instanceof Error && err.name === 'AbortError') return;
@@ -0,0 +1,89 @@
+/**
+ * Hook for the seamless-tiling fixes of terrain tiles. Each fix is saved
+ * next to its original sprite and stands in for it in review and export;
+ * reverting deletes the fix and brings the original back. A fix belongs
+ * to the exact tile it was made from: editing a cell's pixels
+ * (regeneration, region fixes) drops its fix, as the server does when it
+ * replaces the sprite, and re-cutting the sheet (new grid lines, a new
+ * inset) deletes every fix, here and on the server, since each tile's
+ * pixels and size may have changed.
+ */
+
+import { useCallback, useState } from 'react';
+import type { ExtractedSprite } from '../lib/spriteExtractor';
+import type { HistoryResponse, SeamFixRecord } from '../types/api';
+
+export function useSeamFixes(historyId: number | null) {
+  const [fixes, setFixes] = useState<Map<number, SeamFixRecord>>(new Map());
+
+  const resetSeamFixes = useCallback(() => setFixes(new Map()), []);
+
+  const restoreSeamFixes = useCallback((sprites: HistoryResponse['sprites']) => {
+    const map = new Map<number, SeamFixRecord>();
+    for (const s of sprites ?? []) {
+      if (s.seamFix) map.set(s.cellIndex, s.seamFix);
+    }
+    setFixes(map);
+  }, []);
+
+  /** Save a fix for a tile. Resolves false when the server refused it. */
+  const saveSeamFix = useCallback(async (cellIndex: number, fix: SeamFixRecord): Promise<boolean> => {
+    if (historyId) {
+      const res = await fetch(`/api/history/${historyId}/sprites/${cellIndex}/seam-fix`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fix),
+      });
+      if (!res.ok) return false;
+    }
+    setFixes((prev) => new Map(prev).set(cellIndex, fix));
+    return true;
+  }, [historyId]);
+
+  /** Delete a tile's fix so the original is used again. */
+  const revertSeamFix = useCallback(async (cellIndex: number): Promise<boolean> => {
+    if (historyId) {
+      const res = await fetch(`/api/history/${historyId}/sprites/${cellIndex}/seam-fix`, { method: 'DELETE' });
+      if (!res.ok && res.status !== 404) return false;
+    }
+    setFixes((prev) => {
+      const next = new Map(prev);
+      next.delete(cellIndex);
+      return next;
+    });
+    return true;
+  }, [historyId]);
+
+  /** Forget the fixes of cells whose sprite was replaced. */
+  const dropSeamFixes = useCallback((cells: number[]) => {
+    setFixes((prev) => {
+      if (!cells.some((c) => prev.has(c))) return prev;
+      const next = new Map(prev);
+      for (const c of cells) next.delete(c);
+      return next;
+    });
+  }, []);
+
+  /** Delete every fix, on the server too, before the sheet is cut again. Resolves false if any delete failed. */
+  const clearSeamFixes = useCallback(async (): Promise<boolean> => {
+    const cells = [...fixes.keys()];
+    if (cells.length === 0) return true;
+    setFixes(new Map());
+    if (!historyId) return true;
+    const results = await Promise.all(cells.map((c) =>
+      fetch(`/api/history/${historyId}/sprites/${c}/seam-fix`, { method: 'DELETE' })
+        .then((res) => res.ok || res.status === 404, () => false)));
+    return results.every(Boolean);
+  }, [historyId, fixes]);
+
+  /** Sprites with each fixed tile standing in for its original. */
+  const applySeamFixes = useCallback((sprites: ExtractedSprite[]): ExtractedSprite[] => {
+    if (fixes.size === 0) return sprites;
+    return sprites.map((s) => {
+      const fix = fixes.get(s.cellIndex);
+      return fix ? { ...s, imageData: fix.imageData, mimeType: 'image/png' } : s;
+    });
+  }, [fixes]);
+
+  return { fixes, resetSeamFixes, restoreSeamFixes, saveSeamFix, revertSeamFix, dropSeamFixes, clearSeamFixes, applySeamFixes };
+}
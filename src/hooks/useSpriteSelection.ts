@@ -1,5 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
 import type { ExtractedSprite } from '../lib/spriteExtractor';
+import type { Pivot } from '../lib/pivot';
+import type { FrameOffset } from '../lib/frameAlign';
 
 interface UseSpriteSelectionOptions {
   spriteCount: number;
@@ -14,11 +16,24 @@ export interface SpriteSelectionState {
   zoomSpriteIndex: number | null;
   erasedPixels: Map<number, Set<string>>;
   erasedKey: number;
+  /** Placed pivots keyed by source cell index (unmirrored sprite pixels) */
+  pivots: Map<number, Pivot>;
+  /** Frame alignment offsets keyed by source cell index (unmirrored sprite pixels) */
+  frameOffsets: Map<number, FrameOffset>;
   isOrderModified: boolean;
   handleCellClick: (cellIndex: number) => void;
   handleMirrorToggle: (cellIndex: number) => void;
   handleZoomClick: (cellIndex: number) => void;
   handleErasePixel: (x: number, y: number) => void;
+  handleSetPivot: (pivot: Pivot) => void;
+  handleResetPivot: () => void;
+  /** Shift a display cell's frame by (dx, dy) sprite pixels */
+  handleNudgeFrame: (cellIndex: number, dx: number, dy: number) => void;
+  /** Replace the offsets of the given display cells; zero offsets are dropped */
+  setFrameOffsets: (byCell: Map<number, FrameOffset>) => void;
+  clearFrameOffsets: (cellIndices: number[]) => void;
+  /** Drop erasures, pivots and offsets of source cells whose pixels were replaced */
+  clearCellEdits: (sourceCells: number[]) => void;
   setThumbnailCell: (v: number | null) => void;
   setZoomSpriteIndex: (v: number | null) => void;
   setDisplayOrder: React.Dispatch<React.SetStateAction<number[]>>;
@@ -30,6 +45,8 @@ export interface SpriteSelectionState {
     cellOrder?: number[];
     thumbnailCell?: number | null;
     erasedPixels?: Record<string, string[]>;
+    pivots?: Record<string, Pivot>;
+    frameOffsets?: Record<string, FrameOffset>;
   }) => void;
   getDisplaySprites: (processedSprites: ExtractedSprite[]) => ExtractedSprite[];
 }
@@ -43,6 +60,8 @@ export function useSpriteSelection({ spriteCount, cellCount }: UseSpriteSelectio
   const [thumbnailCell, setThumbnailCell] = useState<number | null>(null);
   const [zoomSpriteIndex, setZoomSpriteIndex] = useState<number | null>(null);
   const [erasedPixels, setErasedPixels] = useState<Map<number, Set<string>>>(new Map());
+  const [pivots, setPivots] = useState<Map<number, Pivot>>(new Map());
+  const [frameOffsets, setFrameOffsetsState] = useState<Map<number, FrameOffset>>(new Map());
 
   const erasedKey = useMemo(() => {
     let total = 0;
@@ -98,11 +117,75 @@ export function useSpriteSelection({ spriteCount, cellCount }: UseSpriteSelectio
     });
   }, [zoomSpriteIndex, displayOrder]);
 
+  const handleSetPivot = useCallback((pivot: Pivot) => {
+    if (zoomSpriteIndex === null) return;
+    const srcIdx = displayOrder[zoomSpriteIndex];
+    setPivots((prev) => new Map(prev).set(srcIdx, pivot));
+  }, [zoomSpriteIndex, displayOrder]);
+
+  const handleResetPivot = useCallback(() => {
+    if (zoomSpriteIndex === null) return;
+    const srcIdx = displayOrder[zoomSpriteIndex];
+    setPivots((prev) => {
+      if (!prev.has(srcIdx)) return prev;
+      const next = new Map(prev);
+      next.delete(srcIdx);
+      return next;
+    });
+  }, [zoomSpriteIndex, displayOrder]);
+
+  const handleNudgeFrame = useCallback((cellIndex: number, dx: number, dy: number) => {
+    const srcIdx = displayOrder[cellIndex];
+    if (srcIdx === undefined) return;
+    setFrameOffsetsState((prev) => {
+      const current = prev.get(srcIdx) ?? { x: 0, y: 0 };
+      const next = new Map(prev);
+      const offset = { x: current.x + dx, y: current.y + dy };
+      if (offset.x === 0 && offset.y === 0) next.delete(srcIdx);
+      else next.set(srcIdx, offset);
+      return next;
+    });
+  }, [displayOrder]);
+
+  const setFrameOffsets = useCallback((byCell: Map<number, FrameOffset>) => {
+    setFrameOffsetsState((prev) => {
+      const next = new Map(prev);
+      for (const [cellIndex, offset] of byCell) {
+        const srcIdx = displayOrder[cellIndex];
+        if (srcIdx === undefined) continue;
+        if (offset.x === 0 && offset.y === 0) next.delete(srcIdx);
+        else next.set(srcIdx, offset);
+      }
+      return next;
+    });
+  }, [displayOrder]);
+
+  const clearFrameOffsets = useCallback((cellIndices: number[]) => {
+    setFrameOffsetsState((prev) => {
+      const next = new Map(prev);
+      for (const cellIndex of cellIndices) next.delete(displayOrder[cellIndex]);
+      return next.size === prev.size ? prev : next;
+    });
+  }, [displayOrder]);
+
+  const clearCellEdits = useCallback((sourceCells: number[]) => {
+    const drop = <T>(prev: Map<number, T>) => {
+      const next = new Map(prev);
+      for (const cellIndex of sourceCells) next.delete(cellIndex);
+      return next.size === prev.size ? prev : next;
+    };
+    setErasedPixels(drop);
+    setPivots(drop);
+    setFrameOffsetsState(drop);
+  }, []);
+
   const resetSelection = useCallback(() => {
     setDisplayOrder(Array.from({ length: spriteCount || cellCount }, (_, i) => i));
     setSwapSource(null);
     setMirroredCells(new Set());
     setThumbnailCell(null);
+    setPivots(new Map());
+    setFrameOffsetsState(new Map());
   }, [spriteCount, cellCount]);
 
   const restoreSelection = useCallback((opts: {
@@ -110,6 +193,8 @@ export function useSpriteSelection({ spriteCount, cellCount }: UseSpriteSelectio
     cellOrder?: number[];
     thumbnailCell?: number | null;
     erasedPixels?: Record<string, string[]>;
+    pivots?: Record<string, Pivot>;
+    frameOffsets?: Record<string, FrameOffset>;
   }) => {
     if (opts.mirroredCells && opts.mirroredCells.length > 0) setMirroredCells(new Set(opts.mirroredCells));
     if (opts.cellOrder && opts.cellOrder.length > 0) setDisplayOrder(opts.cellOrder);
@@ -121,6 +206,12 @@ export function useSpriteSelection({ spriteCount, cellCount }: UseSpriteSelectio
       }
       setErasedPixels(map);
     }
+    if (opts.pivots && Object.keys(opts.pivots).length > 0) {
+      setPivots(new Map(Object.entries(opts.pivots).map(([key, p]) => [Number(key), p])));
+    }
+    if (opts.frameOffsets && Object.keys(opts.frameOffsets).length > 0) {
+      setFrameOffsetsState(new Map(Object.entries(opts.frameOffsets).map(([key, o]) => [Number(key), o])));
+    }
   }, []);
 
   const getDisplaySprites = useCallback((processedSprites: ExtractedSprite[]) => {
@@ -142,11 +233,19 @@ export function useSpriteSelection({ spriteCount, cellCount }: UseSpriteSelectio
     zoomSpriteIndex,
     erasedPixels,
     erasedKey,
+    pivots,
+    frameOffsets,
     isOrderModified,
     handleCellClick,
     handleMirrorToggle,
     handleZoomClick,
     handleErasePixel,
+    handleSetPivot,
+    handleResetPivot,
+    handleNudgeFrame,
+    setFrameOffsets,
+    clearFrameOffsets,
+    clearCellEdits,
     setThumbnailCell,
     setZoomSpriteIndex,
     setDisplayOrder,
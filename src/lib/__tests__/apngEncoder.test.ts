@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { encodeApng } from '../apngEncoder';
+import { crc32 } from '../crc32';
+
+/** Split a PNG file into its chunks. */
+function readChunks(png: Uint8Array): Array<{ type: string; data: Uint8Array; crcOk: boolean }> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks = [];
+  let pos = 8;
+  while (pos < png.length) {
+    const len = view.getUint32(pos);
+    const typeBytes = png.subarray(pos + 4, pos + 8);
+    const data = png.subarray(pos + 8, pos + 8 + len);
+    const crcOk = view.getUint32(pos + 8 + len) === crc32(typeBytes, data);
+    chunks.push({ type: String.fromCharCode(...typeBytes), data, crcOk });
+    pos += 12 + len;
+  }
+  return chunks;
+}
+
+describe('encodeApng', () => {
+  const frames = [new ImageData(3, 2), new ImageData(3, 2), new ImageData(3, 2)];
+
+  it('writes IHDR, acTL, one fcTL per frame and IDAT/fdAT data', async () => {
+    const png = await encodeApng(frames, { delayMs: 120, loop: true });
+    expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = readChunks(png);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+    expect(chunks.every(c => c.crcOk)).toBe(true);
+  });
+
+  it('stores frame count, play count and delay', async () => {
+    const chunks = readChunks(await encodeApng(frames, { delayMs: 120, loop: false }));
+    const actl = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect(actl.getUint32(0)).toBe(3);
+    expect(actl.getUint32(4)).toBe(1);
+    const fctl = new DataView(chunks[2].data.buffer, chunks[2].data.byteOffset);
+    expect(fctl.getUint16(20)).toBe(120);
+    expect(fctl.getUint16(22)).toBe(1000);
+  });
+
+  it('numbers fcTL and fdAT chunks with a single sequence', async () => {
+    const chunks = readChunks(await encodeApng(frames, { delayMs: 100, loop: true }));
+    const seqs = chunks
+      .filter(c => c.type === 'fcTL' || c.type === 'fdAT')
+      .map(c => new DataView(c.data.buffer, c.data.byteOffset).getUint32(0));
+    expect(seqs).toEqual([0, 1, 2, 3, 4]);
+  });
+});
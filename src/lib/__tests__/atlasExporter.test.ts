@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutGrid,
+  layoutPacked,
+  packShelves,
+  computeTrimRect,
+  buildFrameNames,
+  buildAtlasDescriptor,
+  type AtlasFrame,
+} from '../atlasExporter';
+import type { ExtractedSprite } from '../spriteExtractor';
+
+function makeSprite(cellIndex: number, label: string, width = 32, height = 48): ExtractedSprite {
+  return { cellIndex, label, imageData: 'data', mimeType: 'image/png', width, height };
+}
+
+describe('layoutGrid', () => {
+  it('positions sprites by cell index on a uniform grid', () => {
+    const sprites = [0, 1, 2, 3].map(i => makeSprite(i, `Cell ${i}`));
+    const layout = layoutGrid(sprites, 3);
+    expect(layout.width).toBe(96);
+    expect(layout.height).toBe(96);
+    expect(layout.placements[3].frame).toEqual({ x: 0, y: 48, w: 32, h: 48 });
+  });
+
+  it('throws when there are no sprites', () => {
+    expect(() => layoutGrid([], 6)).toThrow(/No sprites/);
+  });
+});
+
+describe('buildFrameNames', () => {
+  it('slugifies labels and disambiguates duplicates', () => {
+    const layout = layoutGrid([makeSprite(0, 'Walk Down 1'), makeSprite(1, 'Walk Down 1'), makeSprite(2, '')], 3);
+    const names = buildFrameNames(layout.placements);
+    expect(names.get(0)).toBe('walk-down-1');
+    expect(names.get(1)).toBe('walk-down-1-01');
+    expect(names.get(2)).toBe('cell-02');
+  });
+});
+
+describe('buildAtlasDescriptor', () => {
+  const sprites = [makeSprite(0, 'Walk 1'), makeSprite(1, 'Walk 2'), makeSprite(2, 'Attack')];
+  const layout = layoutGrid(sprites, 3);
+  const animations = [
+    { name: 'Walk', frames: [0, 1, 0], loop: true },
+    { name: 'Attack', frames: [2], loop: false },
+    { name: 'Missing', frames: [7], loop: true },
+  ];
+
+  it('emits a JSON-hash frame map with labels and mirror flags', () => {
+    const desc = buildAtlasDescriptor(layout, { imageName: 'hero-atlas.png', animations, mirroredCells: new Set([1]) });
+    const frames = desc.frames as Record<string, AtlasFrame>;
+    expect(Object.keys(frames)).toEqual(['walk-1', 'walk-2', 'attack']);
+    expect(frames['walk-2'].frame).toEqual({ x: 32, y: 0, w: 32, h: 48 });
+    expect(frames['walk-2'].mirrored).toBe(true);
+    expect(frames['walk-1'].label).toBe('Walk 1');
+    expect(frames['walk-1'].trimmed).toBe(false);
+    expect(desc.meta.image).toBe('hero-atlas.png');
+    expect(desc.meta.size).toEqual({ w: 96, h: 48 });
+  });
+
+  it('emits a JSON-array frame list in cell order', () => {
+    const desc = buildAtlasDescriptor(layout, { imageName: 'a.png', format: 'array' });
+    expect(Array.isArray(desc.frames)).toBe(true);
+    expect((desc.frames as Array<{ filename: string }>).map(f => f.filename)).toEqual(['walk-1', 'walk-2', 'attack']);
+  });
+
+  it('maps animation sequences to frame names with loop flags', () => {
+    const desc = buildAtlasDescriptor(layout, { imageName: 'a.png', animations });
+    expect(desc.animations).toEqual({
+      Walk: ['walk-1', 'walk-2', 'walk-1'],
+      Attack: ['attack'],
+    });
+    expect(desc.meta.animations.find(a => a.name === 'Attack')).toEqual({
+      name: 'Attack', frames: ['attack'], cells: [2], loop: false,
+    });
+  });
+
+  it('writes pivots normalized to the source size, bottom-center by default', () => {
+    const desc = buildAtlasDescriptor(layout, { imageName: 'a.png', pivots: new Map([[2, { x: 8, y: 36 }]]) });
+    const frames = desc.frames as Record<string, AtlasFrame>;
+    expect(frames['walk-1'].pivot).toEqual({ x: 0.5, y: 1 });
+    expect(frames.attack.pivot).toEqual({ x: 0.25, y: 0.75 });
+  });
+
+  it('carries parallax layer speeds into the meta only when given', () => {
+    const parallax = { layers: [{ name: 'Sky', cellIndex: 0, speed: 0.1 }, { name: 'Hills', cellIndex: 1, speed: 1 }] };
+    expect(buildAtlasDescriptor(layout, { imageName: 'a.png', parallax }).meta.parallax).toEqual(parallax);
+    expect(buildAtlasDescriptor(layout, { imageName: 'a.png' }).meta).not.toHaveProperty('parallax');
+  });
+});
+
+describe('computeTrimRect', () => {
+  it('returns the bounds of non-transparent pixels', () => {
+    const img = new ImageData(10, 8);
+    for (const [x, y] of [[2, 3], [6, 5]]) img.data[(y * 10 + x) * 4 + 3] = 255;
+    expect(computeTrimRect(img)).toEqual({ x: 2, y: 3, w: 5, h: 3 });
+  });
+
+  it('collapses fully transparent images to 1x1', () => {
+    expect(computeTrimRect(new ImageData(4, 4))).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+  });
+});
+
+describe('packShelves', () => {
+  it('produces a power-of-two texture with non-overlapping padded rects', () => {
+    const sizes = Array.from({ length: 36 }, (_, i) => ({ w: 20 + (i % 5) * 7, h: 30 + (i % 3) * 11 }));
+    const { width, height, positions } = packShelves(sizes, 2);
+    expect(Math.log2(width) % 1).toBe(0);
+    expect(Math.log2(height) % 1).toBe(0);
+    for (let a = 0; a < sizes.length; a++) {
+      const pa = positions[a];
+      expect(pa.x).toBeGreaterThanOrEqual(2);
+      expect(pa.x + sizes[a].w).toBeLessThanOrEqual(width - 2);
+      expect(pa.y + sizes[a].h).toBeLessThanOrEqual(height - 2);
+      for (let b = a + 1; b < sizes.length; b++) {
+        const pb = positions[b];
+        const apart = pa.x + sizes[a].w + 2 <= pb.x || pb.x + sizes[b].w + 2 <= pa.x
+          || pa.y + sizes[a].h + 2 <= pb.y || pb.y + sizes[b].h + 2 <= pa.y;
+        expect(apart).toBe(true);
+      }
+    }
+  });
+
+  it('throws when the rects cannot fit within maxSize', () => {
+    expect(() => packShelves([{ w: 300, h: 300 }], 0, 256)).toThrow(/do not fit/);
+  });
+});
+
+describe('layoutPacked', () => {
+  it('records trim offsets and extrude margins', () => {
+    const sprites = [makeSprite(0, 'A', 64, 64), makeSprite(1, 'B', 64, 64)];
+    const trims = new Map([[0, { x: 10, y: 20, w: 30, h: 40 }]]);
+    const layout = layoutPacked(sprites, trims, { padding: 2, extrude: 1 });
+    expect(layout.extrude).toBe(1);
+    const a = layout.placements.find(p => p.cellIndex === 0)!;
+    expect(a.frame.w).toBe(30);
+    expect(a.frame.h).toBe(40);
+    expect(a.frame.x).toBeGreaterThanOrEqual(3);
+    expect(a.trim).toEqual({ x: 10, y: 20, w: 30, h: 40 });
+
+    const frames = buildAtlasDescriptor(layout, { imageName: 'a.png' }).frames as Record<string, AtlasFrame>;
+    expect(frames.a.trimmed).toBe(true);
+    expect(frames.a.spriteSourceSize).toEqual({ x: 10, y: 20, w: 30, h: 40 });
+    expect(frames.a.sourceSize).toEqual({ w: 64, h: 64 });
+    expect(frames.b.trimmed).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  autotileLabel,
+  parseAutotileLabel,
+  parseAutotileSet,
+  reduceBlobMask,
+  schemeMasks,
+  buildAutotileMapping,
+  BLOB_BITS,
+  BLOB_MASKS,
+} from '../autotile';
+import { layoutGrid } from '../atlasExporter';
+import type { ExtractedSprite } from '../spriteExtractor';
+
+function cells(labels: string[]) {
+  return labels.map((label, cellIndex) => ({ cellIndex, label }));
+}
+
+describe('blob masks', () => {
+  it('has 47 distinct tiles', () => {
+    expect(BLOB_MASKS).toHaveLength(47);
+    expect(BLOB_MASKS[0]).toBe(0);
+    expect(BLOB_MASKS[BLOB_MASKS.length - 1]).toBe(255);
+  });
+
+  it('drops diagonals whose two sides are not both set', () => {
+    expect(reduceBlobMask(BLOB_BITS.NE | BLOB_BITS.N)).toBe(BLOB_BITS.N);
+    expect(reduceBlobMask(BLOB_BITS.NE | BLOB_BITS.N | BLOB_BITS.E)).toBe(7);
+  });
+});
+
+describe('autotile labels', () => {
+  it('spells out each mask', () => {
+    expect(autotileLabel('corners-16', 0)).toBe('Corners none');
+    expect(autotileLabel('corners-16', 10)).toBe('Corners NE SW');
+    expect(autotileLabel('corners-16', 15)).toBe('Corners all');
+    expect(autotileLabel('blob-47', 7)).toBe('Blob N E NE');
+    expect(autotileLabel('blob-47', 255)).toBe('Blob all');
+  });
+
+  it('round-trips every mask of both schemes', () => {
+    for (const scheme of ['corners-16', 'blob-47'] as const) {
+      for (const mask of schemeMasks(scheme)) {
+        expect(parseAutotileLabel(autotileLabel(scheme, mask))).toEqual({ scheme, mask });
+      }
+    }
+  });
+
+  it('reads variants and rejects other labels', () => {
+    expect(parseAutotileLabel('Blob all 2')).toEqual({ scheme: 'blob-47', mask: 255 });
+    expect(parseAutotileLabel('Grass-Dirt Corner NE')).toBeNull();
+    expect(parseAutotileLabel('Corners N')).toBeNull();
+    expect(parseAutotileLabel('Blob N NE')).toBeNull();
+  });
+});
+
+describe('parseAutotileSet', () => {
+  const corners = schemeMasks('corners-16').map(m => autotileLabel('corners-16', m));
+
+  it('recognises a complete sheet', () => {
+    const set = parseAutotileSet(cells(corners));
+    expect(set?.scheme).toBe('corners-16');
+    expect(set?.tiles).toHaveLength(16);
+  });
+
+  it('needs every mask of the scheme', () => {
+    expect(parseAutotileSet(cells(corners.slice(1)))).toBeNull();
+  });
+
+  it('rejects mixed schemes and plain terrain sheets', () => {
+    expect(parseAutotileSet(cells([...corners, 'Blob none']))).toBeNull();
+    expect(parseAutotileSet(cells(['Base Grass 1', 'Base Grass 2']))).toBeNull();
+  });
+});
+
+describe('buildAutotileMapping', () => {
+  it('maps each mask to its tiles, variants included', () => {
+    const labels = [...BLOB_MASKS.map(m => autotileLabel('blob-47', m)), 'Blob all 2'];
+    const sprites: ExtractedSprite[] = labels.map((label, cellIndex) => ({
+      cellIndex, label, imageData: 'data', mimeType: 'image/png', width: 16, height: 16,
+    }));
+    const layout = layoutGrid(sprites, 7);
+    const mapping = JSON.parse(buildAutotileMapping(parseAutotileSet(layout.placements)!, layout, { imageName: 'lake.png', columns: 7 }));
+    expect(mapping).toMatchObject({ scheme: 'blob-47', image: 'lake.png', columns: 7, tileWidth: 16, tileHeight: 16 });
+    expect(mapping.masks['255']).toEqual([46, 47]);
+    expect(mapping.tiles[47]).toEqual({ id: 47, mask: 255, label: 'Blob all 2', x: 80, y: 96 });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { closestAspectRatio, subsetGridConfig, buildCellRegenerationPrompt, EMPTY_CELL_LABEL } from '../cellRegeneration';
+import type { GridConfig } from '../gridConfig';
+
+const sheet: GridConfig = {
+  id: 'sheet',
+  label: 'Sheet',
+  cols: 6,
+  rows: 6,
+  totalCells: 36,
+  cellLabels: Array.from({ length: 36 }, (_, i) => `Pose ${i}`),
+  aspectRatio: '1:1',
+  templates: {
+    '2K': { cellW: 339, cellH: 339, headerH: 22, border: 2, fontSize: 14 },
+    '4K': { cellW: 678, cellH: 678, headerH: 36, border: 4, fontSize: 22 },
+  },
+};
+
+describe('closestAspectRatio', () => {
+  it('picks the nearest supported ratio', () => {
+    expect(closestAspectRatio(1000, 1000)).toBe('1:1');
+    expect(closestAspectRatio(2000, 1000)).toBe('16:9');
+    expect(closestAspectRatio(3000, 1000)).toBe('21:9');
+    expect(closestAspectRatio(1000, 1400)).toBe('3:4');
+  });
+});
+
+describe('subsetGridConfig', () => {
+  it('lays a few cells out in one row with their labels', () => {
+    const grid = subsetGridConfig(sheet, [4, 17], '2K');
+    expect(grid).toMatchObject({ cols: 2, rows: 1, totalCells: 2, cellLabels: ['Pose 4', 'Pose 17'] });
+    expect(grid.templates).toBe(sheet.templates);
+    expect(grid.aspectRatio).toBe('16:9');
+  });
+
+  it('wraps at the sheet width and pads leftover slots', () => {
+    const cells = [0, 1, 2, 3, 4, 5, 6, 7];
+    const grid = subsetGridConfig(sheet, cells, '2K');
+    expect(grid).toMatchObject({ cols: 6, rows: 2, totalCells: 12 });
+    expect(grid.cellLabels.slice(6)).toEqual(['Pose 6', 'Pose 7', ...Array(4).fill(EMPTY_CELL_LABEL)]);
+  });
+});
+
+describe('buildCellRegenerationPrompt', () => {
+  it('names every cell and the guidance', () => {
+    const grid = subsetGridConfig(sheet, [4, 17, 20], '2K');
+    const prompt = buildCellRegenerationPrompt('Knight', 'A stout knight', grid, 'Keep the shield');
+    expect(prompt).toContain('"Knight"');
+    expect(prompt).toContain('Header "Pose 17" (0,1)');
+    expect(prompt).toContain('ADDITIONAL GUIDANCE:\nKeep the shield');
+  });
+
+  it('omits the guidance section when empty', () => {
+    const prompt = buildCellRegenerationPrompt('Knight', 'A stout knight', subsetGridConfig(sheet, [0], '2K'));
+    expect(prompt).not.toContain('ADDITIONAL GUIDANCE');
+  });
+});
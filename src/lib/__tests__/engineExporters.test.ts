@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGodotSpriteFrames,
+  buildUnityMeta,
+  buildUnityClips,
+  buildTiledTileset,
+  buildGodotTileSet,
+  buildTiledMap,
+  buildEngineFiles,
+  framePivot,
+} from '../engineExporters';
+import { layoutGrid, layoutPacked } from '../atlasExporter';
+import type { ExtractedSprite } from '../spriteExtractor';
+import { autotileLabel, parseAutotileSet, schemeMasks, type AutotileScheme } from '../autotile';
+
+function makeSprite(cellIndex: number, label: string, width = 32, height = 48): ExtractedSprite {
+  return { cellIndex, label, imageData: 'data', mimeType: 'image/png', width, height };
+}
+
+const sprites = [makeSprite(0, 'Walk 1'), makeSprite(1, 'Walk 2'), makeSprite(2, 'Attack')];
+const animations = [
+  { name: 'Walk', frames: [0, 1], loop: true },
+  { name: 'Attack', frames: [2], loop: false },
+];
+const options = { baseName: 'hero', imageName: 'hero-atlas.png', animations, frameDelayMs: 150 };
+
+function autotileSprites(scheme: AutotileScheme): ExtractedSprite[] {
+  return schemeMasks(scheme).map((mask, i) => makeSprite(i, autotileLabel(scheme, mask), 16, 16));
+}
+
+describe('framePivot', () => {
+  it('is bottom-center for untrimmed frames', () => {
+    const layout = layoutGrid(sprites, 3);
+    expect(framePivot(layout.placements[0])).toEqual({ x: 0.5, y: 1 });
+  });
+
+  it('keeps the source bottom-center for trimmed frames', () => {
+    const layout = layoutPacked([makeSprite(0, 'A', 32, 48)], new Map([[0, { x: 8, y: 4, w: 16, h: 40 }]]), { padding: 0, extrude: 0 });
+    // source center x=16 → 8px into a 16px-wide trim; source bottom y=48 → 44px into a 40px-tall trim
+    expect(framePivot(layout.placements[0])).toEqual({ x: 0.5, y: 1.1 });
+  });
+
+  it('normalizes a placed pivot to the trim rect', () => {
+    const layout = layoutPacked([makeSprite(0, 'A', 32, 48)], new Map([[0, { x: 8, y: 4, w: 16, h: 40 }]]), { padding: 0, extrude: 0 });
+    expect(framePivot(layout.placements[0], { x: 12, y: 44 })).toEqual({ x: 0.25, y: 1 });
+  });
+});
+
+describe('buildGodotSpriteFrames', () => {
+  const tres = buildGodotSpriteFrames(layoutGrid(sprites, 3), options);
+
+  it('declares the atlas texture and one AtlasTexture per frame', () => {
+    expect(tres).toMatch(/^\[gd_resource type="SpriteFrames" load_steps=5 format=3\]/);
+    expect(tres).toContain('[ext_resource type="Texture2D" path="res://hero-atlas.png" id="1_atlas"]');
+    expect(tres.match(/\[sub_resource type="AtlasTexture"/g)).toHaveLength(3);
+    expect(tres).toContain('region = Rect2(32, 0, 32, 48)');
+    expect(tres).not.toContain('margin');
+  });
+
+  it('writes animations with speed and loop', () => {
+    expect(tres).toContain('"name": &"Walk"');
+    expect(tres).toContain('"speed": 6.67');
+    expect(tres).toContain('"loop": false,\n"name": &"Attack"');
+    expect(tres.match(/SubResource\("AtlasTexture_2"\)/g)).toHaveLength(1);
+  });
+
+  it('adds margins for trimmed frames', () => {
+    const layout = layoutPacked([makeSprite(0, 'A')], new Map([[0, { x: 8, y: 4, w: 16, h: 40 }]]), { padding: 0, extrude: 0 });
+    expect(buildGodotSpriteFrames(layout, { ...options, animations: [] })).toContain('margin = Rect2(8, 4, 16, 8)');
+  });
+
+  it('pads frames with margins so their pivots line up', () => {
+    const pivots = new Map([[0, { x: 16, y: 48 }], [1, { x: 10, y: 48 }], [2, { x: 16, y: 48 }]]);
+    const out = buildGodotSpriteFrames(layoutGrid(sprites, 3), { ...options, pivots });
+    // Pivot x spans 10..16, so every frame grows to 38px wide
+    expect(out).toContain('region = Rect2(0, 0, 32, 48)\nmargin = Rect2(0, 0, 6, 0)');
+    expect(out).toContain('region = Rect2(32, 0, 32, 48)\nmargin = Rect2(6, 0, 6, 0)');
+  });
+
+  it('falls back to a default animation when there are no groups', () => {
+    const out = buildGodotSpriteFrames(layoutGrid(sprites, 3), { ...options, animations: [] });
+    expect(out).toContain('"name": &"default"');
+  });
+});
+
+describe('buildUnityMeta', () => {
+  const layout = layoutGrid(sprites, 2);
+  const meta = buildUnityMeta(layout, options);
+
+  it('slices the texture in Multiple sprite mode', () => {
+    expect(meta).toContain('spriteMode: 2');
+    expect(meta.match(/- serializedVersion: 2\n {6}name:/g)).toHaveLength(3);
+    expect(meta).toContain('name: walk-1');
+  });
+
+  it('flips Y to a bottom-left origin', () => {
+    // Atlas is 64×96; cell 0 is the top-left frame, so its Unity y is 48
+    expect(meta).toMatch(/name: walk-1\n {6}rect:\n {8}serializedVersion: 2\n {8}x: 0\n {8}y: 48/);
+    expect(meta).toMatch(/name: attack\n {6}rect:\n {8}serializedVersion: 2\n {8}x: 0\n {8}y: 0/);
+    expect(meta).toContain('pivot: {x: 0.5, y: 0}');
+  });
+
+  it('derives stable GUIDs from the image name', () => {
+    expect(meta).toMatch(/^fileFormatVersion: 2\nguid: [0-9a-f]{32}\n/);
+    expect(buildUnityMeta(layout, options)).toBe(meta);
+  });
+
+  it('writes placed pivots with a flipped Y', () => {
+    const out = buildUnityMeta(layout, { ...options, pivots: new Map([[0, { x: 8, y: 36 }]]) });
+    expect(out).toMatch(/name: walk-1\n[\s\S]*?pivot: \{x: 0.25, y: 0.25\}/);
+  });
+});
+
+describe('buildUnityClips', () => {
+  it('lists clips by sprite name', () => {
+    const clips = JSON.parse(buildUnityClips(layoutGrid(sprites, 3), options));
+    expect(clips.sprites).toEqual(['walk-1', 'walk-2', 'attack']);
+    expect(clips.clips[0]).toEqual({ name: 'Walk', frameRate: 6.67, loop: true, sprites: ['walk-1', 'walk-2'] });
+  });
+});
+
+describe('buildTiledTileset', () => {
+  const tiles = [makeSprite(0, 'Grass', 64, 64), makeSprite(1, 'Dirt & Stone', 64, 64), makeSprite(3, '', 64, 64)];
+
+  it('describes a uniform tileset with label properties', () => {
+    const tsx = buildTiledTileset(layoutGrid(tiles, 2), { baseName: 'forest', imageName: 'forest-atlas.png', columns: 2 });
+    expect(tsx).toContain('tilewidth="64" tileheight="64" tilecount="4" columns="2"');
+    expect(tsx).toContain('<image source="forest-atlas.png" width="128" height="128"/>');
+    expect(tsx).toContain('<property name="label" value="Dirt &amp; Stone"/>');
+    expect(tsx).not.toContain('<tile id="3">');
+    expect(tsx).not.toContain('<grid');
+  });
+
+  it('adds normalized pivot properties when pivots are given', () => {
+    const tsx = buildTiledTileset(layoutGrid(tiles, 2), {
+      baseName: 'forest', imageName: 'f.png', columns: 2,
+      pivots: new Map([[0, { x: 32, y: 64 }], [3, { x: 16, y: 48 }]]),
+    });
+    expect(tsx).toContain('<property name="label" value="Grass"/>\n   <property name="pivotX" type="float" value="0.5"/>\n   <property name="pivotY" type="float" value="1"/>');
+    expect(tsx).toContain('<tile id="3">\n  <properties>\n   <property name="pivotX" type="float" value="0.25"/>');
+  });
+
+  it('adds an isometric grid for diamond tiles', () => {
+    const tsx = buildTiledTileset(layoutGrid(tiles, 2), { baseName: 'forest', imageName: 'f.png', columns: 2, tileShape: 'diamond' });
+    expect(tsx).toContain('<grid orientation="isometric" width="64" height="32"/>');
+  });
+
+  it('rejects trimmed layouts', () => {
+    const layout = layoutPacked(tiles, new Map([[0, { x: 0, y: 0, w: 10, h: 10 }]]), { padding: 0, extrude: 0 });
+    expect(() => buildTiledTileset(layout, { baseName: 'f', imageName: 'f.png', columns: 2 })).toThrow(/uniform/);
+  });
+
+  it('adds a corner wang set for corner autotiles', () => {
+    const layout = layoutGrid(autotileSprites('corners-16'), 4);
+    const autotile = parseAutotileSet(layout.placements)!;
+    const tsx = buildTiledTileset(layout, { baseName: 'shore', imageName: 's.png', columns: 4, autotile });
+    expect(tsx).toContain('<wangset name="shore" type="corner" tile="-1">');
+    // Corners NE SW: wangid runs top, top-right, right, bottom-right, bottom, bottom-left, left, top-left
+    expect(tsx).toContain('<wangtile tileid="10" wangid="0,1,0,2,0,1,0,2"/>');
+    expect(tsx.indexOf('</wangsets>')).toBeLessThan(tsx.indexOf('</tileset>'));
+  });
+
+  it('adds a mixed wang set for blob autotiles', () => {
+    const layout = layoutGrid(autotileSprites('blob-47'), 7);
+    const tsx = buildTiledTileset(layout, { baseName: 'lake', imageName: 'l.png', columns: 7, autotile: parseAutotileSet(layout.placements)! });
+    expect(tsx).toContain('type="mixed"');
+    expect(tsx.match(/<wangtile /g)).toHaveLength(47);
+    // "Blob N E NE" is mask 7, the fifth blob mask after none, N, E and N E
+    expect(tsx).toContain('<wangtile tileid="4" wangid="1,1,1,2,2,2,2,2"/>');
+  });
+});
+
+describe('buildTiledMap', () => {
+  it('writes one CSV layer with gids offset by one', () => {
+    const tmx = buildTiledMap([0, 3, -1, 2], { width: 2, height: 2, tileWidth: 64, tileHeight: 64, tilesetSource: 'forest & co.tsx' });
+    expect(tmx).toContain('orientation="orthogonal" renderorder="right-down" width="2" height="2" tilewidth="64" tileheight="64"');
+    expect(tmx).toContain('<tileset firstgid="1" source="forest &amp; co.tsx"/>');
+    expect(tmx).toContain('<data encoding="csv">\n1,4,\n0,3\n</data>');
+  });
+});
+
+describe('buildGodotTileSet', () => {
+  it('paints corner peering bits with an upper and a lower terrain', () => {
+    const layout = layoutGrid(autotileSprites('corners-16'), 4);
+    const tres = buildGodotTileSet(layout, { imageName: 's.png', columns: 4, autotile: parseAutotileSet(layout.placements)! });
+    expect(tres).toMatch(/^\[gd_resource type="TileSet" load_steps=3 format=3\]/);
+    expect(tres).toContain('texture_region_size = Vector2i(16, 16)');
+    expect(tres).toContain('terrain_set_0/mode = 1');
+    expect(tres).toContain('terrain_set_0/terrain_1/name = "Lower"');
+    // Cell 2 is "Corners NE": one upper corner, so the tile itself is lower terrain
+    expect(tres).toContain('2:0/0/terrain = 1\n2:0/0/terrains_peering_bit/top_right_corner = 0\n2:0/0/terrains_peering_bit/bottom_right_corner = 1');
+    expect(tres).not.toContain('right_side');
+  });
+
+  it('only peers blob tiles towards connected neighbours', () => {
+    const layout = layoutGrid(autotileSprites('blob-47'), 7);
+    const tres = buildGodotTileSet(layout, { imageName: 'l.png', columns: 7, autotile: parseAutotileSet(layout.placements)! });
+    expect(tres).toContain('terrain_set_0/mode = 0');
+    expect(tres).not.toContain('terrain_1');
+    expect(tres).toContain('4:0/0/terrain = 0\n4:0/0/terrains_peering_bit/top_side = 0\n4:0/0/terrains_peering_bit/top_right_corner = 0\n4:0/0/terrains_peering_bit/right_side = 0\n5:0/0 = 0');
+  });
+});
+
+describe('buildEngineFiles', () => {
+  it('names files per target', () => {
+    const layout = layoutGrid(sprites, 3);
+    const opts = { ...options, columns: 3 };
+    expect(buildEngineFiles('godot', layout, opts).map(f => f.filename)).toEqual(['hero.tres']);
+    expect(buildEngineFiles('unity', layout, opts).map(f => f.filename)).toEqual(['hero-atlas.png.meta', 'hero-clips.json']);
+    expect(buildEngineFiles('tiled', layout, opts).map(f => f.filename)).toEqual(['hero.tsx']);
+  });
+
+  it('exports an autotile mapping, TileSet and wang set', () => {
+    const layout = layoutGrid(autotileSprites('corners-16'), 4);
+    const files = buildEngineFiles('autotile', layout, { ...options, columns: 4 });
+    expect(files.map(f => f.filename)).toEqual(['hero-autotile.json', 'hero-tileset.tres', 'hero.tsx']);
+    expect(files[2].content).toContain('<wangsets>');
+  });
+
+  it('refuses autotile export for sheets that are not autotile grids', () => {
+    expect(() => buildEngineFiles('autotile', layoutGrid(sprites, 3), { ...options, columns: 3 })).toThrow(/autotile grid/);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { chromaPurity, formatRate } from '../experiments';
+
+function image(width: number, height: number, fill: (x: number, y: number) => [number, number, number, number]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(fill(x, y), (y * width + x) * 4);
+  }
+  return new ImageData(data, width, height);
+}
+
+describe('chromaPurity', () => {
+  it('is 1 for a sprite on clean pink, whatever sits in the middle', () => {
+    const sprite = image(10, 10, (x, y) => (x > 3 && x < 6 && y > 3 && y < 6 ? [0, 0, 0, 255] : [250, 10, 245, 255]));
+    expect(chromaPurity(sprite)).toBe(1);
+  });
+
+  it('counts border pixels that drifted from pink', () => {
+    // The 1px ring of a 4×4 image has 12 pixels; the grey left column is 4 of them
+    const sprite = image(4, 4, (x) => (x === 0 ? [128, 128, 128, 255] : [255, 0, 255, 255]));
+    expect(chromaPurity(sprite, 1)).toBe(8 / 12);
+  });
+
+  it('leaves out transparent padding', () => {
+    // Normalization pads the right column with transparent pixels; the rest is clean pink
+    const sprite = image(4, 4, (x) => (x === 3 ? [0, 0, 0, 0] : [255, 0, 255, 255]));
+    expect(chromaPurity(sprite, 1)).toBe(1);
+    expect(chromaPurity(image(4, 4, () => [0, 0, 0, 0]), 1)).toBeNull();
+  });
+
+  it('is null for an empty image', () => {
+    expect(chromaPurity(new ImageData(new Uint8ClampedArray(0), 0, 0))).toBeNull();
+  });
+});
+
+describe('formatRate', () => {
+  it('rounds to a whole percentage and dashes an empty count', () => {
+    expect(formatRate(2, 3)).toBe('67%');
+    expect(formatRate(0, 0)).toBe('—');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { measureFrame, alignmentPoint, mirrorMetrics, computeGroupOffsets } from '../frameAlign';
+
+function frameWith(width: number, height: number, opaque: Array<[number, number]>): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (const [x, y] of opaque) data[(y * width + x) * 4 + 3] = 255;
+  return new ImageData(data, width, height);
+}
+
+describe('measureFrame', () => {
+  it('finds the centroid and bounds of opaque pixels', () => {
+    const m = measureFrame(frameWith(8, 8, [[2, 3], [4, 3], [2, 5], [4, 5]]));
+    expect(m.centroid).toEqual({ x: 3.5, y: 4.5 });
+    expect(m.bounds).toEqual({ x: 2, y: 3, w: 3, h: 3 });
+  });
+
+  it('treats an empty frame as the whole image', () => {
+    const m = measureFrame(frameWith(8, 4, []));
+    expect(m.centroid).toEqual({ x: 4, y: 2 });
+    expect(m.bounds).toEqual({ x: 0, y: 0, w: 8, h: 4 });
+  });
+});
+
+describe('alignmentPoint', () => {
+  const metrics = { centroid: { x: 5, y: 6 }, bounds: { x: 2, y: 1, w: 7, h: 9 } };
+
+  it('uses the centroid in centroid mode', () => {
+    expect(alignmentPoint(metrics, 'centroid')).toEqual({ x: 5, y: 6 });
+  });
+
+  it('uses the bottom edge under the centroid in feet mode', () => {
+    expect(alignmentPoint(metrics, 'feet')).toEqual({ x: 5, y: 10 });
+  });
+});
+
+describe('mirrorMetrics', () => {
+  it('flips centroid and bounds across the width', () => {
+    const m = mirrorMetrics({ centroid: { x: 5, y: 6 }, bounds: { x: 2, y: 1, w: 7, h: 9 } }, 16);
+    expect(m.centroid).toEqual({ x: 11, y: 6 });
+    expect(m.bounds).toEqual({ x: 7, y: 1, w: 7, h: 9 });
+  });
+});
+
+describe('computeGroupOffsets', () => {
+  const pivot = { x: 16, y: 32 };
+
+  it('moves drifting frames onto the group median', () => {
+    const offsets = computeGroupOffsets([
+      { cellIndex: 0, point: { x: 16, y: 32 }, pivot },
+      { cellIndex: 1, point: { x: 18, y: 31 }, pivot },
+      { cellIndex: 2, point: { x: 16, y: 32 }, pivot },
+    ]);
+    expect(offsets.get(0)).toEqual({ x: 0, y: 0 });
+    expect(offsets.get(1)).toEqual({ x: -2, y: 1 });
+    expect(offsets.get(2)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('measures points relative to each frame pivot', () => {
+    const offsets = computeGroupOffsets([
+      { cellIndex: 0, point: { x: 10, y: 30 }, pivot: { x: 10, y: 30 } },
+      { cellIndex: 1, point: { x: 14, y: 30 }, pivot: { x: 12, y: 30 } },
+    ]);
+    // Target is the midpoint of the relative positions (0 and 2)
+    expect(offsets.get(0)).toEqual({ x: 1, y: 0 });
+    expect(offsets.get(1)).toEqual({ x: -1, y: 0 });
+  });
+
+  it('returns nothing for an empty group', () => {
+    expect(computeGroupOffsets([]).size).toBe(0);
+  });
+});
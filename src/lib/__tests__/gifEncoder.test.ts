@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGif, buildGifPalette, lzwEncode } from '../gifEncoder';
+
+/** Reference GIF LZW decoder used to round-trip the encoder output. */
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let dict: number[][] = [];
+  const reset = () => {
+    dict = Array.from({ length: clear }, (_, i) => [i]);
+    dict.push([], []);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+  const out: number[] = [];
+  let bitPos = 0;
+  let prev: number[] | null = null;
+  while (bitPos + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bitPos++) {
+      code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << b;
+    }
+    if (code === clear) { reset(); prev = null; continue; }
+    if (code === end) break;
+    let entry: number[];
+    if (code < dict.length) entry = dict[code];
+    else entry = [...prev!, prev![0]];
+    out.push(...entry);
+    if (prev) dict.push([...prev, entry[0]]);
+    prev = entry;
+    if (dict.length === (1 << codeSize) && codeSize < 12) codeSize++;
+  }
+  return out;
+}
+
+function frame(width: number, height: number, rgba: (x: number, y: number) => [number, number, number, number]): ImageData {
+  const img = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) img.data.set(rgba(x, y), (y * width + x) * 4);
+  }
+  return img;
+}
+
+describe('lzwEncode', () => {
+  it('round-trips through a reference decoder, including dictionary resets', () => {
+    const indices = new Uint8Array(20000);
+    for (let i = 0; i < indices.length; i++) indices[i] = (i * 7919 + (i >> 3)) % 256;
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+  });
+});
+
+describe('buildGifPalette', () => {
+  it('keeps exact colors when there are 255 or fewer', () => {
+    const img = frame(2, 1, (x) => (x === 0 ? [255, 0, 0, 255] : [0, 0, 255, 255]));
+    expect(buildGifPalette([img])).toEqual([[255, 0, 0], [0, 0, 255]]);
+  });
+
+  it('caps the palette at 255 colors', () => {
+    const img = frame(64, 64, (x, y) => [x * 4, y * 4, (x + y) * 2, 255]);
+    expect(buildGifPalette([img]).length).toBeLessThanOrEqual(255);
+  });
+});
+
+describe('encodeGif', () => {
+  const frames = [
+    frame(4, 4, (x) => (x < 2 ? [255, 0, 0, 255] : [0, 0, 0, 0])),
+    frame(4, 4, (x) => (x >= 2 ? [0, 255, 0, 255] : [0, 0, 0, 0])),
+  ];
+
+  it('writes a GIF89a header, screen size and trailer', () => {
+    const gif = encodeGif(frames, { delayMs: 150, loop: true });
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[6] | (gif[7] << 8)).toBe(4);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('includes the NETSCAPE loop extension only for looping animations', () => {
+    const text = (b: Uint8Array) => String.fromCharCode(...b);
+    expect(text(encodeGif(frames, { delayMs: 100, loop: true }))).toContain('NETSCAPE2.0');
+    expect(text(encodeGif(frames, { delayMs: 100, loop: false }))).not.toContain('NETSCAPE2.0');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { candidateCellRects, defaultPicks, baseCandidate, isUsable } from '../gridCandidates';
+import type { AxisDiagnostics, ExtractionDiagnostics } from '../spriteExtractor';
+
+function axis(spans: Array<[number, number]>): AxisDiagnostics {
+  const finalSpans = spans.map(([start, size]) => ({ start, size }));
+  return { mode: 'detected', expected: spans.length, bands: [], detectedSpans: finalSpans, prunedSpans: [], finalSpans };
+}
+
+function diagnostics(rows: Array<[number, number]>, cols: Array<[number, number]>): ExtractionDiagnostics {
+  return { mode: 'detected', width: 100, height: 100, rows: axis(rows), cols: axis(cols) };
+}
+
+const image = { data: 'AAAA', mimeType: 'image/png' };
+
+describe('candidateCellRects', () => {
+  it('returns one rect per cell in row-major order', () => {
+    const rects = candidateCellRects(diagnostics([[0, 40], [50, 40]], [[2, 30], [60, 35]]));
+    expect(rects).toEqual([
+      { x: 2, y: 0, w: 30, h: 40 },
+      { x: 60, y: 0, w: 35, h: 40 },
+      { x: 2, y: 50, w: 30, h: 40 },
+      { x: 60, y: 50, w: 35, h: 40 },
+    ]);
+  });
+});
+
+describe('defaultPicks', () => {
+  it('takes every cell from the first usable candidate', () => {
+    const d = diagnostics([[0, 10]], [[0, 10]]);
+    const candidates = [{ image: null, diagnostics: null }, { image, diagnostics: d }, { image, diagnostics: d }];
+    expect(candidates.map(isUsable)).toEqual([false, true, true]);
+    expect(defaultPicks(candidates, 3)).toEqual([1, 1, 1]);
+  });
+
+  it('picks -1 when no candidate is usable', () => {
+    expect(defaultPicks([{ image, diagnostics: null }], 2)).toEqual([-1, -1]);
+  });
+});
+
+describe('baseCandidate', () => {
+  it('builds on the most picked candidate', () => {
+    expect(baseCandidate([2, 0, 2, 1])).toBe(2);
+  });
+
+  it('breaks ties toward the earlier candidate', () => {
+    expect(baseCandidate([1, 1, 0, 0])).toBe(0);
+  });
+
+  it('returns -1 for no picks', () => {
+    expect(baseCandidate([])).toBe(-1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { dragRect, maskRegion, compositeRegion, spriteRectToSheet, buildInpaintPrompt } from '../inpaint';
+import type { AxisDiagnostics, ExtractionDiagnostics } from '../spriteExtractor';
+
+function axis(spans: Array<[number, number]>): AxisDiagnostics {
+  const finalSpans = spans.map(([start, size]) => ({ start, size }));
+  return { mode: 'detected', expected: spans.length, bands: [], detectedSpans: finalSpans, prunedSpans: [], finalSpans };
+}
+
+function diagnostics(rows: Array<[number, number]>, cols: Array<[number, number]>): ExtractionDiagnostics {
+  return { mode: 'detected', width: 100, height: 100, rows: axis(rows), cols: axis(cols) };
+}
+
+function solid(width: number, height: number, rgba: [number, number, number, number]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return new ImageData(data, width, height);
+}
+
+function pixel(image: ImageData, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+}
+
+describe('dragRect', () => {
+  it('spans both corners inclusively whichever way it was dragged', () => {
+    expect(dragRect({ x: 5, y: 6 }, { x: 2, y: 3 }, 10, 10)).toEqual({ x: 2, y: 3, w: 4, h: 4 });
+    expect(dragRect({ x: 4, y: 4 }, { x: 4, y: 4 }, 10, 10)).toEqual({ x: 4, y: 4, w: 1, h: 1 });
+  });
+
+  it('clamps to the sprite', () => {
+    expect(dragRect({ x: 8, y: 8 }, { x: 20, y: -5 }, 10, 10)).toEqual({ x: 8, y: 0, w: 2, h: 9 });
+  });
+});
+
+describe('maskRegion', () => {
+  it('paints only the region opaque pink and leaves the input alone', () => {
+    const image = solid(4, 4, [10, 20, 30, 0]);
+    const masked = maskRegion(image, { x: 1, y: 1, w: 2, h: 1 });
+    expect(pixel(masked, 1, 1)).toEqual([255, 0, 255, 255]);
+    expect(pixel(masked, 2, 1)).toEqual([255, 0, 255, 255]);
+    expect(pixel(masked, 1, 2)).toEqual([10, 20, 30, 0]);
+    expect(pixel(image, 1, 1)).toEqual([10, 20, 30, 0]);
+  });
+});
+
+describe('compositeRegion', () => {
+  it('takes the patch inside the region and the base outside it', () => {
+    const base = solid(3, 3, [1, 1, 1, 255]);
+    const patch = solid(3, 3, [9, 9, 9, 128]);
+    const out = compositeRegion(base, patch, { x: 0, y: 2, w: 3, h: 1 });
+    expect(pixel(out, 2, 2)).toEqual([9, 9, 9, 128]);
+    expect(pixel(out, 2, 1)).toEqual([1, 1, 1, 255]);
+  });
+});
+
+describe('spriteRectToSheet', () => {
+  // Cells are 30×40 and 20×30 (second row): sprites are 30×40, cell 3 sits 5px in and 10px down
+  const d = diagnostics([[0, 40], [45, 30]], [[2, 30], [50, 20]]);
+
+  it('maps a region of the largest cell straight onto its rect', () => {
+    expect(spriteRectToSheet(d, 0, { x: 3, y: 4, w: 5, h: 6 })).toEqual({ x: 5, y: 4, w: 5, h: 6 });
+  });
+
+  it('offsets by the padding and trims what falls in it', () => {
+    expect(spriteRectToSheet(d, 3, { x: 0, y: 0, w: 10, h: 15 })).toEqual({ x: 50, y: 45, w: 5, h: 5 });
+  });
+
+  it('is null for a region entirely in the padding or an unknown cell', () => {
+    expect(spriteRectToSheet(d, 3, { x: 0, y: 0, w: 4, h: 40 })).toBeNull();
+    expect(spriteRectToSheet(d, 9, { x: 0, y: 0, w: 4, h: 4 })).toBeNull();
+  });
+});
+
+describe('buildInpaintPrompt', () => {
+  it('names the masked rectangle and carries the instruction', () => {
+    const prompt = buildInpaintPrompt('Walk 1', { x: 2, y: 3, w: 4, h: 5 }, 64, 80, '  fix the hand ');
+    expect(prompt).toContain('"Walk 1", 64×80');
+    expect(prompt).toContain('from (2, 3)');
+    expect(prompt).toContain('to (5, 7)');
+    expect(prompt).toContain('FIX: fix the hand');
+  });
+
+  it('leaves the fix line out without an instruction', () => {
+    expect(buildInpaintPrompt('Idle', { x: 0, y: 0, w: 1, h: 1 }, 8, 8, ' ')).not.toContain('FIX:');
+  });
+});
@@ -1,13 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { loadGenerationIntoState } from '../loadGeneration';
+import { loadGenerationIntoState, replayContent } from '../loadGeneration';
 import type { Action, RestoreSessionPayload } from '../../context/AppContext';
 import type { HistoryResponse } from '../../types/api';
 
 // Mock extractSprites — it depends on canvas which isn't available in Node
 vi.mock('../spriteExtractor', () => ({
-  extractSprites: vi.fn().mockResolvedValue([
-    { cellIndex: 0, label: 'idle', imageData: 'base64', mimeType: 'image/png', width: 64, height: 64 },
-  ]),
+  extractSprites: vi.fn().mockResolvedValue({
+    sprites: [
+      { cellIndex: 0, label: 'idle', imageData: 'base64', mimeType: 'image/png', width: 64, height: 64 },
+    ],
+    diagnostics: { mode: 'fallback', width: 64, height: 64 },
+  }),
 }));
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -243,6 +246,7 @@ describe('loadGenerationIntoState', () => {
     expect(p.filledGridImage).toBe('img-data');
     expect(p.filledGridMimeType).toBe('image/webp');
     expect(p.sprites.length).toBeGreaterThan(0);
+    expect(p.extractionDiagnostics?.mode).toBe('fallback');
   });
 
   it('defaults mimeType to image/png when not provided', async () => {
@@ -266,6 +270,7 @@ describe('loadGenerationIntoState', () => {
     const p = getPayload(dispatched);
     expect(p.sprites[0].width).toBe(0);
     expect(p.sprites[0].height).toBe(0);
+    expect(p.extractionDiagnostics).toBeNull();
   });
 
   it('uses empty sprites when no image and no sprites', async () => {
@@ -330,3 +335,36 @@ describe('loadGenerationIntoState', () => {
     expect(getPayload(dispatched).character).toBeUndefined();
   });
 });
+
+describe('replayContent', () => {
+  const request = {
+    model: 'm', imageSize: '2K' as const, aspectRatio: '1:1',
+    promptTemplateId: null, promptTemplateVersion: null, referenceImageHash: null, gridLinkId: null,
+  };
+
+  it('restores recorded fields the sprite type knows', () => {
+    const content = replayContent('character', makeData({
+      request: { ...request, content: { name: 'Hero', equipment: 'Sword', id: 'preset-1', rowGuidance: 7 } },
+    }));
+    expect(content).toEqual({ name: 'Hero', equipment: 'Sword' });
+  });
+
+  it('falls back to the saved name and description for older generations', () => {
+    const content = replayContent('character', makeData({ content: { name: 'Hero', description: 'A brave hero', equipment: 'Axe' } }));
+    expect(content).toEqual({ name: 'Hero', description: 'A brave hero' });
+  });
+
+  it('drops a grid size the sprite type does not support', () => {
+    const content = replayContent('building', makeData({
+      spriteType: 'building',
+      request: { ...request, content: { name: 'Tower', gridSize: '9x9' } },
+    }));
+    expect(content).toEqual({ name: 'Tower' });
+  });
+
+  it('takes the saved grid size and derives the background mode when none was recorded', () => {
+    const content = replayContent('background', makeData({ spriteType: 'background', gridSize: '1x4' }));
+    expect(content.gridSize).toBe('1x4');
+    expect(content.bgMode).toBe('parallax');
+  });
+});
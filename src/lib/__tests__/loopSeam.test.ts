@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { loopSeamScore, fixLoopSeam, maxLoopBand } from '../loopSeam';
+import { SEAM_THRESHOLD } from '../seamless';
+
+/** Grey layer with each pixel's level given by `level(x, y)`. */
+function layer(width: number, height: number, level: (x: number, y: number) => number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = level(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+/** A left-to-right ramp: smooth inside, a hard jump where it wraps. */
+const ramp = () => layer(64, 8, (x) => 40 + x * 2);
+
+describe('loopSeamScore', () => {
+  it('flags a jump at the left/right wrap', () => {
+    expect(loopSeamScore(ramp())).toBeGreaterThan(SEAM_THRESHOLD);
+    expect(loopSeamScore(layer(64, 8, (x) => 128 + 40 * Math.sin((2 * Math.PI * x) / 64)))).toBeLessThan(SEAM_THRESHOLD);
+  });
+
+  it('ignores the top/bottom edges, which never wrap', () => {
+    expect(loopSeamScore(layer(64, 8, (_x, y) => 20 + y * 30))).toBe(0);
+  });
+});
+
+describe('fixLoopSeam', () => {
+  for (const method of ['mirror-blend', 'cross-fade'] as const) {
+    it(`${method} closes the seam and leaves the middle alone`, () => {
+      const image = ramp();
+      const fixed = fixLoopSeam(image, { method, band: 8 });
+      expect(loopSeamScore(fixed)).toBeLessThan(SEAM_THRESHOLD);
+      expect(fixed.data[32 * 4]).toBe(image.data[32 * 4]);
+      expect(image.data[0]).toBe(40);
+    });
+  }
+
+  it('keeps the band within a quarter of the width', () => {
+    expect(maxLoopBand(64)).toBe(16);
+    const fixed = fixLoopSeam(ramp(), { method: 'mirror-blend', band: 100 });
+    expect(fixed.data[20 * 4]).toBe(ramp().data[20 * 4]);
+  });
+});
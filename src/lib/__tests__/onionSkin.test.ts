@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { onionFrames } from '../onionSkin';
+
+const settings = { depth: 1, opacity: 0.4, tint: true };
+
+describe('onionFrames', () => {
+  it('picks the previous and next frame', () => {
+    const frames = onionFrames([10, 11, 12, 13], 1, settings);
+    expect(frames.map((f) => [f.cellIndex, f.direction])).toEqual([[12, 'future'], [10, 'past']]);
+    expect(frames.every((f) => f.alpha === 0.4)).toBe(true);
+  });
+
+  it('wraps around looping animations', () => {
+    const frames = onionFrames([10, 11, 12, 13], 0, settings);
+    expect(frames.map((f) => f.cellIndex).sort()).toEqual([11, 13]);
+  });
+
+  it('stops at the ends of non-looping animations', () => {
+    const frames = onionFrames([10, 11, 12], 0, settings, false);
+    expect(frames.map((f) => f.cellIndex)).toEqual([11]);
+  });
+
+  it('fades with distance and draws the farthest first', () => {
+    const frames = onionFrames([0, 1, 2, 3, 4, 5, 6], 3, { ...settings, depth: 2 });
+    expect(frames.map((f) => f.distance)).toEqual([2, 2, 1, 1]);
+    expect(frames[0].alpha).toBeCloseTo(0.2);
+    expect(frames[3].alpha).toBeCloseTo(0.4);
+  });
+
+  it('skips repeats of the current frame and positions already picked', () => {
+    // Walk cycles reuse the standing pose: [stand, step, stand, step2]
+    expect(onionFrames([0, 1, 0, 2], 0, { ...settings, depth: 2 }).map((f) => f.cellIndex).sort()).toEqual([1, 2]);
+    expect(onionFrames([5, 6], 0, { ...settings, depth: 3 }).map((f) => f.cellIndex)).toEqual([6]);
+  });
+
+  it('is off at depth 0 or for single frames', () => {
+    expect(onionFrames([0, 1, 2], 1, { ...settings, depth: 0 })).toEqual([]);
+    expect(onionFrames([0], 0, settings)).toEqual([]);
+  });
+});
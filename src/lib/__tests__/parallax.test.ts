@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultParallaxSpeeds,
+  resolveParallaxSpeeds,
+  parallaxLayers,
+  layerOffset,
+  buildParallaxMeta,
+  walkCycle,
+} from '../parallax';
+
+function cells(labels: string[]) {
+  return labels.map((label, cellIndex) => ({ cellIndex, label }));
+}
+
+describe('parallax speeds', () => {
+  it('spreads defaults from the far layer to the near one', () => {
+    expect(defaultParallaxSpeeds(4)).toEqual([0.1, 0.4, 0.7, 1]);
+    expect(defaultParallaxSpeeds(1)).toEqual([1]);
+    expect(defaultParallaxSpeeds(0)).toEqual([]);
+  });
+
+  it('keeps saved speeds, clamps them and fills the gaps with defaults', () => {
+    expect(resolveParallaxSpeeds([], 3)).toEqual([0.1, 0.55, 1]);
+    expect(resolveParallaxSpeeds([0.3, 5], 3)).toEqual([0.3, 2, 1]);
+    expect(resolveParallaxSpeeds([0.3, -1, 0.8, 0.9], 3)).toEqual([0.3, 0, 0.8]);
+  });
+
+  it('builds layers in sprite order and their export metadata', () => {
+    const layers = parallaxLayers(cells(['Sky', 'Mountains', 'Trees']), [0]);
+    expect(layers.map(l => l.speed)).toEqual([0, 0.55, 1]);
+    expect(buildParallaxMeta(layers)).toEqual({
+      layers: [
+        { name: 'Sky', cellIndex: 0, speed: 0 },
+        { name: 'Mountains', cellIndex: 1, speed: 0.55 },
+        { name: 'Trees', cellIndex: 2, speed: 1 },
+      ],
+    });
+  });
+});
+
+describe('layerOffset', () => {
+  it('wraps the scrolled layer into one tile width left of the view', () => {
+    expect(layerOffset(0, 1, 100)).toBe(0);
+    expect(layerOffset(30, 1, 100)).toBe(-30);
+    expect(layerOffset(130, 0.5, 100)).toBe(-65);
+    expect(layerOffset(-30, 1, 100)).toBe(-70);
+    expect(layerOffset(500, 0, 100)).toBe(0);
+  });
+});
+
+describe('walkCycle', () => {
+  it('ping-pongs the Walk Right frames', () => {
+    const labels = ['Walk Left 1', 'Walk Left 2', 'Walk Left 3', 'Walk Right 1', 'Walk Right 2', 'Walk Right 3'];
+    expect(walkCycle(cells(labels))).toEqual({ cells: [3, 4, 5, 4], facesLeft: false });
+  });
+
+  it('falls back to the Walk Left frames, or nothing', () => {
+    expect(walkCycle(cells(['Idle Down', 'Walk Left 1', 'Walk Left 2']))).toEqual({ cells: [1, 2], facesLeft: true });
+    expect(walkCycle(cells(['Idle Down', 'Attack 1']))).toBeNull();
+  });
+});
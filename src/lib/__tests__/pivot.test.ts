@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { defaultPivot, mirrorPivot, resolvePivots, alignOnPivots } from '../pivot';
+
+describe('defaultPivot', () => {
+  it('is the bottom-center of the opaque bounds', () => {
+    expect(defaultPivot({ x: 4, y: 2, w: 10, h: 20 })).toEqual({ x: 9, y: 22 });
+  });
+});
+
+describe('mirrorPivot', () => {
+  it('flips x across the sprite width', () => {
+    expect(mirrorPivot({ x: 10, y: 30 }, 64)).toEqual({ x: 54, y: 30 });
+  });
+});
+
+describe('resolvePivots', () => {
+  const sprites = [
+    { cellIndex: 0, width: 32, height: 32 },
+    { cellIndex: 1, width: 32, height: 32 },
+    { cellIndex: 2, width: 32, height: 32 },
+  ];
+
+  it('prefers placed pivots, then trims, then the whole sprite', () => {
+    const pivots = resolvePivots(
+      sprites,
+      new Map([[1, { x: 2, y: 4, w: 10, h: 20 }]]),
+      new Map([[0, { x: 5, y: 6 }]]),
+    );
+    expect(pivots.get(0)).toEqual({ x: 5, y: 6 });
+    expect(pivots.get(1)).toEqual({ x: 7, y: 24 });
+    expect(pivots.get(2)).toEqual({ x: 16, y: 32 });
+  });
+
+  it('flips pivots of mirrored cells', () => {
+    const pivots = resolvePivots(sprites, new Map(), new Map([[0, { x: 5, y: 6 }]]), new Set([0]));
+    expect(pivots.get(0)).toEqual({ x: 27, y: 6 });
+  });
+
+  it('moves pivots against frame offsets before mirroring', () => {
+    const offsets = new Map([[0, { x: 2, y: -1 }]]);
+    const placed = new Map([[0, { x: 5, y: 6 }]]);
+    expect(resolvePivots(sprites, new Map(), placed, new Set(), offsets).get(0)).toEqual({ x: 3, y: 7 });
+    // Mirrored: the drawn frame moves left, so the drawn pivot moves right
+    expect(resolvePivots(sprites, new Map(), placed, new Set([0]), offsets).get(0)).toEqual({ x: 29, y: 7 });
+  });
+});
+
+describe('alignOnPivots', () => {
+  it('offsets frames so their pivots coincide', () => {
+    const result = alignOnPivots([
+      { width: 32, height: 32, pivot: { x: 16, y: 32 } },
+      { width: 32, height: 32, pivot: { x: 10, y: 30 } },
+    ]);
+    expect(result.anchor).toEqual({ x: 16, y: 32 });
+    expect(result.offsets).toEqual([{ x: 0, y: 0 }, { x: 6, y: 2 }]);
+    expect(result.width).toBe(38);
+    expect(result.height).toBe(34);
+  });
+
+  it('leaves identically anchored frames in place', () => {
+    const result = alignOnPivots([
+      { width: 20, height: 40, pivot: { x: 10, y: 40 } },
+      { width: 20, height: 40, pivot: { x: 10, y: 40 } },
+    ]);
+    expect(result.offsets).toEqual([{ x: 0, y: 0 }, { x: 0, y: 0 }]);
+    expect([result.width, result.height]).toEqual([20, 40]);
+  });
+
+  it('handles an empty frame list', () => {
+    expect(alignOnPivots([]).offsets).toEqual([]);
+  });
+});
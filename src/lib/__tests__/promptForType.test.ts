@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { buildPromptForType, REFERENCE_PREFIX } from '../promptForType';
 import type { GridConfig } from '../gridConfig';
+import type { PromptTemplate } from '../../types/api';
 
 // Minimal GridLink-like object for testing
 function makeGridLink(overrides: Record<string, any> = {}) {
@@ -100,4 +101,16 @@ describe('buildPromptForType', () => {
     const prompt = buildPromptForType('terrain', preset, makeGridLink(), makeGridConfig(), true);
     expect(prompt.startsWith(REFERENCE_PREFIX)).toBe(true);
   });
+
+  it('renders an active prompt template instead of the built-in builder', () => {
+    const preset = { name: 'Snow', description: 'Snowy terrain', colorNotes: '', tileGuidance: 'Soft drifts' };
+    const template: Pick<PromptTemplate, 'body'> = { body: 'Tiles of {{name}}:\n{{cellDescriptions}}\n{{guidance}}' };
+    const prompt = buildPromptForType('terrain', preset, makeGridLink(), makeGridConfig(), false, template);
+    expect(prompt.startsWith('Tiles of Snow:')).toBe(true);
+    expect(prompt).toContain('Header "A" (0,0)');
+    expect(prompt).toContain('Generic guidance text\n\nSoft drifts');
+
+    const subsequent = buildPromptForType('terrain', preset, makeGridLink(), makeGridConfig(), true, template);
+    expect(subsequent.startsWith(REFERENCE_PREFIX)).toBe(true);
+  });
 });
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, templateVariables, unknownPlaceholders, starterTemplate, TEMPLATE_VARIABLES } from '../promptTemplates';
+import { buildGridFillPrompt } from '../promptBuilder';
+import { buildBuildingPrompt } from '../buildingPromptBuilder';
+import { buildTerrainPrompt } from '../terrainPromptBuilder';
+import { buildBackgroundPrompt } from '../backgroundPromptBuilder';
+import type { GridConfig } from '../gridConfig';
+import type { SpriteType } from '../../context/AppContext';
+
+const grid: GridConfig = {
+  id: 'test-grid',
+  label: 'Test Grid',
+  cols: 2,
+  rows: 1,
+  totalCells: 2,
+  cellLabels: ['Day', 'Night'],
+  templates: {
+    '2K': { cellW: 680, cellH: 680, headerH: 22, border: 2, fontSize: 14 },
+    '4K': { cellW: 1360, cellH: 1360, headerH: 36, border: 4, fontSize: 22 },
+  },
+};
+
+describe('renderTemplate', () => {
+  it('fills placeholders, tolerating inner spaces', () => {
+    expect(renderTemplate('{{name}} / {{ name }}', { name: 'Castle' })).toBe('Castle / Castle');
+  });
+
+  it('leaves unknown placeholders in place', () => {
+    expect(renderTemplate('{{name}} {{mood}}', { name: 'Castle' })).toBe('Castle {{mood}}');
+  });
+});
+
+describe('templateVariables', () => {
+  it('exposes content fields and grid values', () => {
+    const vars = templateVariables('building', { name: 'Castle', description: 'Stone keep', details: 'Two towers', cellGuidance: '' }, grid);
+    expect(vars).toMatchObject({ name: 'Castle', description: 'Stone keep', details: 'Two towers', cols: '2', rows: '1', totalCells: '2', colorNotes: '' });
+    expect(vars.cellDescriptions.split('\n')).toEqual([
+      '  Header "Day" (0,0): Fill with the building sprite matching this label.',
+      '  Header "Night" (0,1): Fill with the building sprite matching this label.',
+    ]);
+  });
+
+  it('layers grid guidance over the override or the content guidance', () => {
+    const content = { name: 'Snow', description: 'd', tileGuidance: 'Content notes' };
+    expect(templateVariables('terrain', content, grid).guidance).toBe('Content notes');
+    expect(templateVariables('terrain', content, grid, 'Grid notes').guidance).toBe('Grid notes\n\nContent notes');
+    expect(templateVariables('terrain', content, grid, 'Grid notes', 'Link notes').guidance).toBe('Grid notes\n\nLink notes');
+  });
+});
+
+describe('unknownPlaceholders', () => {
+  it('lists each unknown name once', () => {
+    expect(unknownPlaceholders('{{name}} {{mood}} {{ mood }} {{era}}', ['name'])).toEqual(['mood', 'era']);
+  });
+
+  it('finds none in the starter template of any sprite type', () => {
+    for (const [spriteType, vars] of Object.entries(TEMPLATE_VARIABLES)) {
+      const names = vars.map(v => v.name);
+      expect(unknownPlaceholders(starterTemplate(spriteType as SpriteType), names)).toEqual([]);
+      expect(unknownPlaceholders(starterTemplate(spriteType as SpriteType, 'scene'), names)).toEqual([]);
+    }
+  });
+});
+
+describe('starterTemplate', () => {
+  // Every optional field filled, so the builders print each line the
+  // template always prints
+  const common = { name: 'Mossy Vale', description: 'Green hills', colorNotes: 'Greens', styleNotes: 'Soft outlines' };
+
+  it('renders to the built-in character prompt', () => {
+    const character = { ...common, equipment: 'Short sword', rowGuidance: '' };
+    const grid6: GridConfig = { ...grid, cols: 6, rows: 6, totalCells: 36, cellLabels: Array.from({ length: 36 }, (_, i) => `Pose ${i}`) };
+    expect(renderTemplate(starterTemplate('character'), templateVariables('character', character, grid6, 'Row notes')))
+      .toBe(buildGridFillPrompt(character, 'Row notes', undefined, grid6.cellLabels));
+  });
+
+  it('renders to the built-in building prompt', () => {
+    const building = { ...common, details: 'Two towers', cellGuidance: 'Cell notes' };
+    expect(renderTemplate(starterTemplate('building'), templateVariables('building', building, grid, 'Grid notes')))
+      .toBe(buildBuildingPrompt(building, grid, 'Grid notes'));
+  });
+
+  it('renders to the built-in terrain prompt', () => {
+    const terrain = { ...common, tileGuidance: 'Tile notes' };
+    expect(renderTemplate(starterTemplate('terrain'), templateVariables('terrain', terrain, grid)))
+      .toBe(buildTerrainPrompt(terrain, grid));
+  });
+
+  it('renders to the built-in background prompt in either mode', () => {
+    for (const bgMode of ['parallax', 'scene'] as const) {
+      const background = { ...common, layerGuidance: 'Layer notes', bgMode };
+      expect(renderTemplate(starterTemplate('background', bgMode), templateVariables('background', background, grid)))
+        .toBe(buildBackgroundPrompt(background, grid));
+    }
+  });
+
+  it('keeps the grid and content as placeholders', () => {
+    const body = starterTemplate('terrain');
+    expect(body).toContain('{{cols}}×{{rows}} grid');
+    expect(body).toContain('{{NAME}} tileset');
+    expect(body).toContain('\n{{cellDescriptions}}\n');
+    expect(body).not.toContain('Header');
+  });
+});
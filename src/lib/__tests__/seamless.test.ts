@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  edgeMismatch, edgeVariation, seamScore, terrainFamily, checkSeams, seamHeatmap, fixSeams, SEAM_THRESHOLD,
+} from '../seamless';
+
+/** Grey tile with each pixel's level given by `level(x, y)`. */
+function tile(width: number, height: number, level: (x: number, y: number) => number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = level(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+/** Repeats cleanly: a periodic wave in both directions. */
+const seamless = () => tile(16, 16, (x, y) => 128 + 40 * Math.sin((2 * Math.PI * x) / 16) + 20 * Math.cos((2 * Math.PI * y) / 16));
+/** A left-to-right ramp: smooth inside, a hard jump where it wraps. */
+const ramp = () => tile(16, 16, (x) => 40 + x * 10);
+
+describe('edgeMismatch', () => {
+  it('measures the jump across the wrap-around seams', () => {
+    const m = edgeMismatch(ramp());
+    expect(m.horizontal).toBeCloseTo(150 / 255);
+    expect(m.vertical).toBe(0);
+  });
+
+  it('measures one tile followed by another', () => {
+    const a = tile(4, 4, () => 100);
+    const b = tile(4, 4, () => 151);
+    expect(edgeMismatch(a, b)).toEqual({ horizontal: 51 / 255, vertical: 51 / 255 });
+  });
+});
+
+describe('seamScore', () => {
+  it('stays low for a tile that repeats cleanly', () => {
+    const image = seamless();
+    expect(seamScore(edgeMismatch(image), edgeVariation(image))).toBeLessThan(SEAM_THRESHOLD);
+  });
+
+  it('flags a tile with a hard edge', () => {
+    const image = ramp();
+    expect(seamScore(edgeMismatch(image), edgeVariation(image))).toBeGreaterThan(SEAM_THRESHOLD);
+  });
+});
+
+describe('terrainFamily', () => {
+  it('drops the trailing variant number', () => {
+    expect(terrainFamily('Base Grass 2')).toBe('base grass');
+    expect(terrainFamily('Stone Floor')).toBe('stone floor');
+    expect(terrainFamily('Grass-Dirt Corner NE')).toBe('grass-dirt corner ne');
+  });
+});
+
+describe('checkSeams', () => {
+  it('checks variants of one terrain against each other', () => {
+    const reports = checkSeams([
+      { cellIndex: 0, label: 'Base Grass 1', image: seamless() },
+      { cellIndex: 1, label: 'Base Grass 2', image: tile(16, 16, () => 250) },
+      { cellIndex: 2, label: 'Dirt Path H', image: seamless() },
+    ]);
+    expect(reports[0].neighbors.map((n) => n.cellIndex)).toEqual([1]);
+    expect(reports[0].score).toBeGreaterThan(SEAM_THRESHOLD);
+    expect(reports[2].neighbors).toEqual([]);
+    expect(reports[2].score).toBeLessThan(SEAM_THRESHOLD);
+  });
+});
+
+describe('seamHeatmap', () => {
+  it('marks the edges with a hard jump and leaves the middle clear', () => {
+    const heat = seamHeatmap(ramp(), 2);
+    const alpha = (x: number, y: number) => heat.data[(y * 16 + x) * 4 + 3];
+    expect(alpha(0, 8)).toBeGreaterThan(0);
+    expect(alpha(15, 8)).toBeGreaterThan(0);
+    expect(alpha(8, 8)).toBe(0);
+  });
+});
+
+describe('fixSeams', () => {
+  it.each(['cross-fade', 'offset-blend'] as const)('%s takes the jump out of a hard edge', (method) => {
+    const before = ramp();
+    const after = fixSeams(before, method, 6);
+    expect(after.width).toBe(16);
+    expect(after.height).toBe(16);
+    expect(edgeMismatch(after).horizontal).toBeLessThan(edgeMismatch(before).horizontal / 10);
+  });
+
+  it('cross-fade meets in the middle of the jump', () => {
+    const after = fixSeams(ramp(), 'cross-fade', 6);
+    expect(edgeMismatch(after).horizontal).toBeLessThan(1 / 255);
+    expect(after.data[0]).toBe(after.data[15 * 4]);
+    expect(after.data[0]).toBeCloseTo((40 + 190) / 2, -1);
+  });
+
+  it('leaves the middle of the tile untouched', () => {
+    const before = ramp();
+    for (const method of ['cross-fade', 'offset-blend'] as const) {
+      const after = fixSeams(before, method, 3);
+      const i = (8 * 16 + 8) * 4;
+      expect(after.data[i]).toBe(before.data[i]);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cutBandsToContentSpans,
+  contentSpansToCutBands,
+  cellsFromManualCuts,
+  detectCuts,
+  type GridCuts,
+} from '../spriteExtractor';
+
+describe('cutBandsToContentSpans', () => {
+  it('returns the content between cut bands, inset on each side', () => {
+    const spans = cutBandsToContentSpans(
+      [{ start: 0, end: 3 }, { start: 50, end: 53 }, { start: 96, end: 99 }],
+      100,
+      2,
+    );
+    expect(spans).toEqual([{ start: 6, size: 42 }, { start: 56, size: 38 }]);
+  });
+
+  it('treats a zero-width band as a cut line between two spans', () => {
+    const spans = cutBandsToContentSpans([{ start: 50, end: 49 }], 100, 0);
+    expect(spans).toEqual([{ start: 0, size: 50 }, { start: 50, size: 50 }]);
+  });
+});
+
+describe('contentSpansToCutBands', () => {
+  it.each([0, 3])('round-trips bordered spans with aaInset %i', (aaInset) => {
+    const bands = [{ start: 0, end: 4 }, { start: 60, end: 63 }, { start: 120, end: 127 }];
+    const spans = cutBandsToContentSpans(bands, 128, aaInset);
+    expect(contentSpansToCutBands(spans, 128, aaInset)).toEqual(bands);
+  });
+
+  it('round-trips evenly spaced spans with zero-width cut lines', () => {
+    const spans = [{ start: 2, size: 30 }, { start: 36, size: 30 }, { start: 70, size: 30 }];
+    const bands = contentSpansToCutBands(spans, 102, 2);
+    expect(bands).toEqual([{ start: 34, end: 33 }, { start: 68, end: 67 }]);
+    expect(cutBandsToContentSpans(bands, 102, 2)).toEqual(spans);
+  });
+});
+
+describe('cellsFromManualCuts', () => {
+  const cuts: GridCuts = {
+    rows: [{ start: 50, end: 49 }],
+    cols: [{ start: 40, end: 41 }, { start: 80, end: 81 }],
+  };
+
+  it('builds row-major cell rects from the cuts', () => {
+    const cells = cellsFromManualCuts(cuts, 120, 100, 0, 3, 2);
+    expect(cells).toHaveLength(6);
+    expect(cells[0]).toEqual({ x: 0, y: 0, w: 40, h: 50 });
+    expect(cells[2]).toEqual({ x: 82, y: 0, w: 38, h: 50 });
+    expect(cells[3]).toEqual({ x: 0, y: 50, w: 40, h: 50 });
+  });
+
+  it('throws when the cuts do not match the expected grid', () => {
+    expect(() => cellsFromManualCuts(cuts, 120, 100, 0, 4, 2)).toThrow(
+      'Manual cuts give 2 rows × 3 cols, expected 2 × 4',
+    );
+  });
+});
+
+describe('detectCuts diagnostics', () => {
+  /** Red image with full-height black column lines at the given x ranges. */
+  function paint(width: number, height: number, colLines: Array<[number, number]>): Uint8ClampedArray {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const isLine = colLines.some(([a, b]) => x >= a && x <= b);
+        data[i] = isLine ? 0 : 200;
+        data[i + 3] = 255;
+      }
+    }
+    return data;
+  }
+
+  it('reports detected columns with band scores and fallback rows', () => {
+    const result = detectCuts(paint(120, 120, [[39, 40], [79, 80]]), 120, 120, 0, 3, 2);
+
+    expect(result.cols.mode).toBe('detected');
+    expect(result.cols.bands).toEqual([
+      { start: 39, end: 40, score: 1 },
+      { start: 79, end: 80, score: 1 },
+    ]);
+    expect(result.cols.finalSpans).toHaveLength(3);
+    expect(result.cols.prunedSpans).toEqual([]);
+
+    expect(result.rows.mode).toBe('fallback');
+    expect(result.rows.detectedSpans).toHaveLength(1);
+    expect(result.rows.finalSpans).toEqual([{ start: 0, size: 60 }, { start: 60, size: 60 }]);
+    expect(result.cells).toHaveLength(6);
+  });
+
+  it('records spans pruned beyond the expected count', () => {
+    const result = detectCuts(paint(200, 60, [[49, 50], [99, 100], [169, 170]]), 200, 60, 0, 3, 1);
+
+    expect(result.cols.mode).toBe('detected');
+    expect(result.cols.detectedSpans).toHaveLength(4);
+    expect(result.cols.prunedSpans).toEqual([{ start: 171, size: 29 }]);
+    expect(result.cols.finalSpans.map(s => s.start)).toEqual([0, 51, 101]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTileMap,
+  resizeTileMap,
+  paintTile,
+  paintTerrain,
+  fillEmpty,
+  autotileMaskAt,
+  resolveTiles,
+  pickVariant,
+  EMPTY_TILE,
+} from '../tileMap';
+import { autotileLabel, parseAutotileSet, schemeMasks, BLOB_BITS, type AutotileScheme } from '../autotile';
+
+function autotileSet(scheme: AutotileScheme, extra: string[] = []) {
+  const labels = [...schemeMasks(scheme).map(m => autotileLabel(scheme, m)), ...extra];
+  return parseAutotileSet(labels.map((label, cellIndex) => ({ cellIndex, label })))!;
+}
+
+describe('painting tiles', () => {
+  it('paints, fills and keeps the painting across a resize', () => {
+    let map = paintTile(createTileMap(3, 2), 1, 0, 5);
+    expect(map.tiles).toEqual([-1, 5, -1, -1, -1, -1]);
+    expect(paintTile(map, 3, 0, 7)).toBe(map);
+
+    map = resizeTileMap(map, 2, 3, null);
+    expect(map.tiles).toEqual([-1, 5, -1, -1, -1, -1]);
+    expect(fillEmpty(map, 0).tiles).toEqual([0, 5, 0, 0, 0, 0]);
+  });
+
+  it('picks variants of the same terrain by position', () => {
+    const tiles = ['Base Grass 1', 'Base Grass 2', 'Dirt Patch'].map((label, cellIndex) => ({ cellIndex, label }));
+    const picks = new Set([0, 1, 2, 3, 4, 5].map(x => pickVariant(tiles, 0, x, 0)));
+    expect(picks).toEqual(new Set([0, 1]));
+    expect(pickVariant(tiles, 2, 3, 3)).toBe(2);
+    expect(pickVariant(tiles, 0, 4, 1)).toBe(pickVariant(tiles, 0, 4, 1));
+  });
+});
+
+describe('autotile painting', () => {
+  it('works out blob masks from the neighbours', () => {
+    let map = createTileMap(4, 4, 'blob-47');
+    for (const [x, y] of [[1, 1], [2, 1], [1, 2]]) map = paintTerrain(map, x, y, 'blob-47');
+    expect(autotileMaskAt(map, 'blob-47', 0, 0)).toBeNull();
+    expect(autotileMaskAt(map, 'blob-47', 1, 1)).toBe(BLOB_BITS.E | BLOB_BITS.S);
+    expect(autotileMaskAt(map, 'blob-47', 2, 1)).toBe(BLOB_BITS.W);
+  });
+
+  it('treats terrain as continuing past the map edge', () => {
+    const map = paintTerrain(createTileMap(1, 1, 'blob-47'), 0, 0, 'blob-47');
+    expect(autotileMaskAt(map, 'blob-47', 0, 0)).toBe(255);
+  });
+
+  it('raises cell corners for corner sets', () => {
+    const map = paintTerrain(createTileMap(3, 3, 'corners-16'), 1, 1, 'corners-16');
+    expect(map.terrain).toHaveLength(16);
+    expect(autotileMaskAt(map, 'corners-16', 1, 1)).toBe(15);
+    // The cell to the right shares the painted cell's NE and SE corners as its NW and SW
+    expect(autotileMaskAt(map, 'corners-16', 2, 1)).toBe(1 | 8);
+    expect(autotileMaskAt(map, 'corners-16', 0, 0)).toBe(4);
+
+    const erased = paintTile(map, 1, 1, EMPTY_TILE, 'corners-16');
+    expect(autotileMaskAt(erased, 'corners-16', 1, 1)).toBeNull();
+  });
+
+  it('resolves autotile cells to their tiles and leaves the rest painted', () => {
+    const set = autotileSet('corners-16');
+    let map = fillEmpty(createTileMap(2, 1, 'corners-16'), 0);
+    map = paintTerrain(map, 0, 0, 'corners-16');
+    // Cell 0 has all corners raised; cell 1 has NW and SW
+    expect(resolveTiles(map, set)).toEqual([15, 9]);
+    expect(resolveTiles(map, null)).toEqual([0, 0]);
+  });
+
+  it('spreads mask variants over the map', () => {
+    const set = autotileSet('blob-47', ['Blob all 2']);
+    let map = createTileMap(6, 6, 'blob-47');
+    for (let i = 0; i < 36; i++) map = paintTerrain(map, i % 6, Math.floor(i / 6), 'blob-47');
+    expect(new Set(resolveTiles(map, set))).toEqual(new Set([46, 47]));
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { assembleAnimatedWebp, parseWebpChunks } from '../webpEncoder';
+
+/** Build a minimal still WebP file from raw chunks. */
+function stillWebp(chunks: Array<[string, number[]]>): Uint8Array {
+  const body: number[] = [...'WEBP'].map(c => c.charCodeAt(0));
+  for (const [fourcc, data] of chunks) {
+    body.push(...[...fourcc].map(c => c.charCodeAt(0)));
+    body.push(data.length & 0xff, (data.length >> 8) & 0xff, 0, 0, ...data);
+    if (data.length & 1) body.push(0);
+  }
+  const len = body.length;
+  return Uint8Array.from([...'RIFF'].map(c => c.charCodeAt(0)).concat([len & 0xff, (len >> 8) & 0xff, 0, 0], body));
+}
+
+describe('parseWebpChunks', () => {
+  it('rejects non-WebP data', () => {
+    expect(() => parseWebpChunks(new Uint8Array(16))).toThrow(/Not a WebP/);
+  });
+});
+
+describe('assembleAnimatedWebp', () => {
+  const lossy = stillWebp([['VP8X', new Array(10).fill(0)], ['ALPH', [1, 2, 3]], ['VP8 ', [4, 5, 6, 7]]]);
+  const lossless = stillWebp([['VP8L', [9, 9, 9, 9, 9]]]);
+
+  it('wraps frame image chunks in ANMF under VP8X + ANIM', () => {
+    const out = assembleAnimatedWebp([lossy, lossless], 32, 48, { delayMs: 150, loop: true });
+    const chunks = parseWebpChunks(out);
+    expect(chunks.map(c => c.fourcc)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+    expect(chunks[0].data[0] & 0x02).toBe(0x02);
+    expect(chunks[0].data[4] | (chunks[0].data[5] << 8)).toBe(31);
+
+    const anmf = chunks[2].data;
+    expect(anmf[12] | (anmf[13] << 8)).toBe(150);
+    // Nested chunks follow the 16-byte frame header; the still's VP8X is dropped
+    const nested = parseWebpChunks(Uint8Array.from([...'RIFF\0\0\0\0WEBP'].map(c => c.charCodeAt(0)).concat(Array.from(anmf.subarray(16)))));
+    expect(nested.map(c => c.fourcc)).toEqual(['ALPH', 'VP8 ']);
+  });
+
+  it('sets the ANIM loop count to 1 for one-shot animations', () => {
+    const chunks = parseWebpChunks(assembleAnimatedWebp([lossless], 8, 8, { delayMs: 100, loop: false }));
+    expect(chunks[1].data[4]).toBe(1);
+  });
+});
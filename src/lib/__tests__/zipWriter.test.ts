@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createZip } from '../zipWriter';
+import { crc32 } from '../crc32';
+// Shared with server/__tests__/zip.test.js so both writers stay interchangeable
+import vectors from '../../../test-fixtures/zip-vectors.json';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+describe('crc32', () => {
+  it('matches the shared check values', () => {
+    for (const { text, crc } of vectors.crc32) {
+      expect(crc32(new TextEncoder().encode(text))).toBe(parseInt(crc, 16));
+    }
+  });
+});
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'walk.gif', data: Uint8Array.of(1, 2, 3) },
+    { name: 'attack.gif', data: Uint8Array.of(4, 5) },
+  ];
+
+  it('writes local headers, a central directory and an end record', () => {
+    const zip = createZip(entries);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    const endPos = zip.length - 22;
+    expect(view.getUint32(endPos, true)).toBe(0x06054b50);
+    expect(view.getUint16(endPos + 10, true)).toBe(2);
+    const cdOffset = view.getUint32(endPos + 16, true);
+    expect(view.getUint32(cdOffset, true)).toBe(0x02014b50);
+  });
+
+  it('stores entry data uncompressed with its CRC', () => {
+    const zip = createZip(entries);
+    const view = new DataView(zip.buffer);
+    const nameLen = view.getUint16(26, true);
+    expect(view.getUint32(14, true)).toBe(crc32(entries[0].data));
+    expect(new TextDecoder().decode(zip.subarray(30, 30 + nameLen))).toBe('walk.gif');
+    expect(Array.from(zip.subarray(30 + nameLen, 33 + nameLen))).toEqual([1, 2, 3]);
+  });
+
+  it('writes the shared stored archive byte for byte', () => {
+    const { modified, entries: stored, hex: expected } = vectors.storedZip;
+    const zip = createZip(stored.map(e => ({ name: e.name, data: Uint8Array.from(e.bytes) })), new Date(modified));
+    expect(hex(zip)).toBe(expected);
+  });
+});
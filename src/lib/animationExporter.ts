@@ -0,0 +1,167 @@
+/**
+ * Export cell-group animations as animated GIF, APNG or WebP files.
+ *
+ * Frames are rendered from the processed display sprites (chroma key,
+ * posterize, strikes and erasures already applied), following the
+ * animation's frame order, flipping mirrored cells, and scaling with
+ * nearest-neighbour sampling. "Export all" bundles every animation into
+ * a single ZIP.
+ */
+
+import type { ExtractedSprite } from './spriteExtractor';
+import type { AnimationDef } from './poses';
+import { encodeGif } from './gifEncoder';
+import { encodeApng } from './apngEncoder';
+import { encodeWebp } from './webpEncoder';
+import { createZip, type ZipEntry } from './zipWriter';
+import { alignOnPivots, type Pivot } from './pivot';
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string; mimeType: string }> = {
+  gif: { label: 'GIF', extension: 'gif', mimeType: 'image/gif' },
+  apng: { label: 'APNG', extension: 'png', mimeType: 'image/apng' },
+  webp: { label: 'WebP', extension: 'webp', mimeType: 'image/webp' },
+};
+
+export interface AnimationRenderOptions {
+  /** Integer upscale factor (nearest neighbour) */
+  scale: number;
+  mirroredCells: Set<number>;
+  /** Pivots keyed by cellIndex, in drawn (already mirrored) sprite pixels */
+  pivots?: Map<number, Pivot>;
+}
+
+export interface AnimationEncodeOptions {
+  /** Milliseconds per frame — the preview's speed setting */
+  delayMs: number;
+  loop: boolean;
+}
+
+/** File name for an exported animation, e.g. "hero-walk-down.gif". */
+export function animationFileName(baseName: string, animName: string, format: AnimationFormat): string {
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+  const parts = [slug(baseName), slug(animName)].filter(Boolean);
+  return `${parts.join('-') || 'animation'}.${ANIMATION_FORMATS[format].extension}`;
+}
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/**
+ * Render each frame of an animation to ImageData. Frames share one canvas
+ * size; with pivots, frames are lined up on them, otherwise sprites are
+ * bottom-aligned and centered like normalizeSprites. Cells missing from
+ * the sprite set are skipped.
+ */
+export async function renderAnimationFrames(
+  sprites: ExtractedSprite[],
+  frames: number[],
+  options: AnimationRenderOptions,
+): Promise<ImageData[]> {
+  const byCell = new Map<number, ExtractedSprite>();
+  for (const s of sprites) byCell.set(s.cellIndex, s);
+  const used = frames.map(c => byCell.get(c)).filter((s): s is ExtractedSprite => !!s);
+  if (used.length === 0) throw new Error('Animation has no frames');
+
+  const scale = Math.max(1, Math.round(options.scale));
+  const pivots = options.pivots;
+  const aligned = pivots && alignOnPivots(used.map(s => ({
+    width: s.width,
+    height: s.height,
+    pivot: pivots.get(s.cellIndex) ?? { x: s.width / 2, y: s.height },
+  })));
+  const offsets = new Map(aligned ? used.map((s, i) => [s.cellIndex, aligned.offsets[i]]) : []);
+  const width = (aligned ? aligned.width : Math.max(...used.map(s => s.width))) * scale;
+  const height = (aligned ? aligned.height : Math.max(...used.map(s => s.height))) * scale;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingEnabled = false;
+
+  const images = new Map<number, HTMLImageElement>();
+  const result: ImageData[] = [];
+  for (const cellIdx of frames) {
+    const sprite = byCell.get(cellIdx);
+    if (!sprite) continue;
+    let img = images.get(cellIdx);
+    if (!img) {
+      img = await loadImage(sprite.imageData, sprite.mimeType);
+      images.set(cellIdx, img);
+    }
+    const w = sprite.width * scale;
+    const h = sprite.height * scale;
+    const offset = offsets.get(cellIdx);
+    const dx = offset ? offset.x * scale : Math.floor((width - w) / 2);
+    const dy = offset ? offset.y * scale : height - h;
+
+    ctx.clearRect(0, 0, width, height);
+    if (options.mirroredCells.has(cellIdx)) {
+      ctx.save();
+      ctx.translate(dx + w, dy);
+      ctx.scale(-1, 1);
+      ctx.drawImage(img, 0, 0, w, h);
+      ctx.restore();
+    } else {
+      ctx.drawImage(img, dx, dy, w, h);
+    }
+    result.push(ctx.getImageData(0, 0, width, height));
+  }
+  return result;
+}
+
+/** Encode rendered frames in the requested format. */
+export async function encodeAnimation(
+  frames: ImageData[],
+  format: AnimationFormat,
+  options: AnimationEncodeOptions,
+): Promise<Uint8Array> {
+  switch (format) {
+    case 'gif': return encodeGif(frames, options);
+    case 'apng': return encodeApng(frames, options);
+    case 'webp': return encodeWebp(frames, options);
+  }
+}
+
+/** Render and encode one animation. */
+export async function exportAnimation(
+  sprites: ExtractedSprite[],
+  animation: AnimationDef,
+  format: AnimationFormat,
+  options: AnimationRenderOptions & Pick<AnimationEncodeOptions, 'delayMs'>,
+): Promise<Uint8Array> {
+  const frames = await renderAnimationFrames(sprites, animation.frames, options);
+  return encodeAnimation(frames, format, { delayMs: options.delayMs, loop: animation.loop });
+}
+
+/**
+ * Render and encode every animation, bundled as a ZIP archive.
+ * Animations whose cells are all missing are left out.
+ */
+export async function exportAllAnimations(
+  sprites: ExtractedSprite[],
+  animations: AnimationDef[],
+  baseName: string,
+  format: AnimationFormat,
+  options: AnimationRenderOptions & Pick<AnimationEncodeOptions, 'delayMs'>,
+): Promise<{ zip: Uint8Array; count: number }> {
+  const entries: ZipEntry[] = [];
+  const cells = new Set(sprites.map(s => s.cellIndex));
+  for (const anim of animations) {
+    if (!anim.frames.some(c => cells.has(c))) continue;
+    entries.push({
+      name: animationFileName(baseName, anim.name, format),
+      data: await exportAnimation(sprites, anim, format, options),
+    });
+  }
+  if (entries.length === 0) throw new Error('No animations to export');
+  return { zip: createZip(entries), count: entries.length };
+}
@@ -0,0 +1,102 @@
+/**
+ * Animated PNG (APNG) encoder.
+ *
+ * Frames are written as full-canvas 8-bit RGBA with filter type 0 on every
+ * scanline; zlib compression uses the platform CompressionStream. The first
+ * frame goes in IDAT so non-APNG viewers still show a still image.
+ */
+
+import { crc32 } from './crc32';
+
+export interface ApngOptions {
+  /** Per-frame delay in milliseconds */
+  delayMs: number;
+  /** Loop forever when true; play once when false */
+  loop: boolean;
+}
+
+const SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+/** zlib-deflate bytes via CompressionStream. */
+export async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Serialize a PNG chunk: length, type, data, CRC over type + data. */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = new TextEncoder().encode(type);
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeBytes, 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(typeBytes, data));
+  return out;
+}
+
+/** Raw scanlines (filter byte 0 + RGBA row) for one frame. */
+function scanlines(frame: ImageData): Uint8Array {
+  const rowLen = frame.width * 4;
+  const out = new Uint8Array((rowLen + 1) * frame.height);
+  for (let y = 0; y < frame.height; y++) {
+    out.set(frame.data.subarray(y * rowLen, (y + 1) * rowLen), y * (rowLen + 1) + 1);
+  }
+  return out;
+}
+
+/** Encode frames (all the same size) as an animated PNG. */
+export async function encodeApng(frames: ImageData[], options: ApngOptions): Promise<Uint8Array> {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const parts: Uint8Array[] = [SIGNATURE];
+
+  const ihdr = new Uint8Array(13);
+  const hv = new DataView(ihdr.buffer);
+  hv.setUint32(0, width);
+  hv.setUint32(4, height);
+  ihdr.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, adaptive filtering, no interlace
+  parts.push(pngChunk('IHDR', ihdr));
+
+  const actl = new Uint8Array(8);
+  const av = new DataView(actl.buffer);
+  av.setUint32(0, frames.length);
+  av.setUint32(4, options.loop ? 0 : 1);
+  parts.push(pngChunk('acTL', actl));
+
+  let seq = 0;
+  for (let f = 0; f < frames.length; f++) {
+    const fctl = new Uint8Array(26);
+    const fv = new DataView(fctl.buffer);
+    fv.setUint32(0, seq++);
+    fv.setUint32(4, width);
+    fv.setUint32(8, height);
+    fv.setUint32(12, 0);
+    fv.setUint32(16, 0);
+    fv.setUint16(20, Math.round(options.delayMs));
+    fv.setUint16(22, 1000);
+    fctl[24] = 1; // dispose to background
+    fctl[25] = 0; // blend: source
+    parts.push(pngChunk('fcTL', fctl));
+
+    const compressed = await zlibDeflate(scanlines(frames[f]));
+    if (f === 0) {
+      parts.push(pngChunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, seq++);
+      fdat.set(compressed, 4);
+      parts.push(pngChunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,410 @@
+/**
+ * Engine-ready sprite atlas export.
+ *
+ * Produces a PNG texture plus a TexturePacker-style JSON descriptor
+ * (JSON-hash or JSON-array flavour) with per-frame rects, cell labels
+ * and animation sequences. The animations block follows the PixiJS
+ * spritesheet convention (name → ordered frame names); loop flags and
+ * the original cell indices live under meta.animations.
+ *
+ * Two layouts are available: a uniform grid matching composeSpriteSheet,
+ * and a tightly packed power-of-two texture where each sprite is trimmed
+ * to its opaque bounds. Trim offsets are recorded in spriteSourceSize so
+ * engines can restore frames to their original position. Each frame also
+ * carries a TexturePacker-style pivot normalized to its source size.
+ *
+ * Layout and descriptor building are pure so they can be unit tested;
+ * only measureTrims and composeAtlas touch the canvas.
+ */
+
+import type { ExtractedSprite } from './spriteExtractor';
+import type { AnimationDef } from './poses';
+import type { Pivot } from './pivot';
+import type { ParallaxMeta } from './parallax';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type AtlasFormat = 'hash' | 'array';
+
+export interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Where a sprite lands on the atlas texture. */
+export interface AtlasPlacement {
+  cellIndex: number;
+  label: string;
+  /** Rect on the atlas texture */
+  frame: AtlasRect;
+  /** Untrimmed sprite size */
+  sourceSize: { w: number; h: number };
+  /** Region of the source sprite copied into frame (whole sprite when untrimmed) */
+  trim: AtlasRect;
+}
+
+export interface AtlasLayout {
+  width: number;
+  height: number;
+  /** Pixels of edge colour repeated around each frame */
+  extrude: number;
+  placements: AtlasPlacement[];
+}
+
+export interface PackOptions {
+  /** Transparent gap between frames and around the texture edge */
+  padding: number;
+  /** Edge pixels duplicated outward to stop filtering bleed */
+  extrude: number;
+  /** Largest texture side the packer may grow to */
+  maxSize?: number;
+}
+
+export interface AtlasFrame {
+  frame: AtlasRect;
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: AtlasRect;
+  sourceSize: { w: number; h: number };
+  /** Grid cell label the frame came from */
+  label: string;
+  /** Display-order cell index */
+  cellIndex: number;
+  /** True when the frame was flipped horizontally before packing */
+  mirrored: boolean;
+  /** Anchor point normalized to sourceSize, (0,0) top-left */
+  pivot: Pivot;
+}
+
+export interface AtlasAnimationMeta {
+  name: string;
+  frames: string[];
+  cells: number[];
+  loop: boolean;
+}
+
+export interface AtlasMeta {
+  app: string;
+  version: string;
+  image: string;
+  format: 'RGBA8888';
+  size: { w: number; h: number };
+  scale: string;
+  animations: AtlasAnimationMeta[];
+  /** Per-layer scroll speeds, for parallax background sheets */
+  parallax?: ParallaxMeta;
+}
+
+export interface AtlasDescriptor {
+  frames: Record<string, AtlasFrame> | Array<AtlasFrame & { filename: string }>;
+  animations: Record<string, string[]>;
+  meta: AtlasMeta;
+}
+
+export interface AtlasDescriptorOptions {
+  /** File name of the PNG the descriptor points at */
+  imageName: string;
+  format?: AtlasFormat;
+  animations?: AnimationDef[];
+  mirroredCells?: Set<number>;
+  /** Pivots in source sprite pixels, keyed by cellIndex; bottom-center when missing */
+  pivots?: Map<number, Pivot>;
+  parallax?: ParallaxMeta;
+}
+
+// ── Layout ───────────────────────────────────────────────────────────────────
+
+/**
+ * Uniform grid layout — every sprite occupies a cell the size of the first
+ * sprite, positioned by its cellIndex. Mirrors composeSpriteSheet so the
+ * atlas PNG matches the plain sheet export pixel for pixel.
+ */
+export function layoutGrid(sprites: ExtractedSprite[], cols: number): AtlasLayout {
+  if (sprites.length === 0) {
+    throw new Error('No sprites to lay out');
+  }
+  const { width: cellW, height: cellH } = sprites[0];
+  const maxIndex = Math.max(...sprites.map(s => s.cellIndex));
+  const rows = Math.ceil((maxIndex + 1) / cols);
+
+  const placements = sprites.map(s => ({
+    cellIndex: s.cellIndex,
+    label: s.label,
+    frame: {
+      x: (s.cellIndex % cols) * cellW,
+      y: Math.floor(s.cellIndex / cols) * cellH,
+      w: s.width,
+      h: s.height,
+    },
+    sourceSize: { w: s.width, h: s.height },
+    trim: { x: 0, y: 0, w: s.width, h: s.height },
+  }));
+
+  return { width: cols * cellW, height: rows * cellH, extrude: 0, placements };
+}
+
+/**
+ * Bounding rect of all pixels with non-zero alpha.
+ * Fully transparent images collapse to a 1×1 rect at the origin so the
+ * frame stays addressable in the atlas.
+ */
+export function computeTrimRect(image: ImageData): AtlasRect {
+  const { width, height, data } = image;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, w: 1, h: 1 };
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
+
+function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
+
+/**
+ * Shelf-pack rectangles into the smallest power-of-two texture.
+ *
+ * Rects are sorted tallest first and placed left to right on shelves.
+ * Every power-of-two width from the minimum viable one up to maxSize is
+ * tried; the candidate with the smallest texture area wins.
+ *
+ * @returns Texture size plus the top-left of each rect, in input order
+ */
+export function packShelves(
+  sizes: Array<{ w: number; h: number }>,
+  padding: number,
+  maxSize = 8192,
+): { width: number; height: number; positions: Array<{ x: number; y: number }> } {
+  const order = sizes.map((_, i) => i).sort((a, b) => sizes[b].h - sizes[a].h || sizes[b].w - sizes[a].w);
+  const widest = Math.max(...sizes.map(s => s.w)) + 2 * padding;
+  const area = sizes.reduce((sum, s) => sum + (s.w + padding) * (s.h + padding), 0);
+
+  let best: { width: number; height: number; positions: Array<{ x: number; y: number }> } | null = null;
+  for (let width = nextPowerOfTwo(Math.max(widest, Math.ceil(Math.sqrt(area)))); width <= maxSize; width *= 2) {
+    const positions: Array<{ x: number; y: number }> = new Array(sizes.length);
+    let x = padding, y = padding, shelfH = 0;
+    for (const i of order) {
+      const { w, h } = sizes[i];
+      if (x + w + padding > width) {
+        x = padding;
+        y += shelfH + padding;
+        shelfH = 0;
+      }
+      positions[i] = { x, y };
+      x += w + padding;
+      shelfH = Math.max(shelfH, h);
+    }
+    const height = nextPowerOfTwo(y + shelfH + padding);
+    if (height > maxSize) continue;
+    if (!best || width * height < best.width * best.height) best = { width, height, positions };
+    // Once the texture is at least as wide as tall, wider candidates only grow the area.
+    if (width >= height) break;
+  }
+
+  if (!best) {
+    throw new Error(`Sprites do not fit in a ${maxSize}×${maxSize} texture`);
+  }
+  return best;
+}
+
+/**
+ * Tightly packed layout. Each sprite is trimmed to trims[cellIndex]
+ * (whole sprite when missing) and shelf-packed with padding/extrude.
+ */
+export function layoutPacked(
+  sprites: ExtractedSprite[],
+  trims: Map<number, AtlasRect>,
+  options: PackOptions,
+): AtlasLayout {
+  if (sprites.length === 0) {
+    throw new Error('No sprites to lay out');
+  }
+  const { padding, extrude, maxSize } = options;
+  const rects = sprites.map(s => trims.get(s.cellIndex) ?? { x: 0, y: 0, w: s.width, h: s.height });
+  const packed = packShelves(
+    rects.map(r => ({ w: r.w + 2 * extrude, h: r.h + 2 * extrude })),
+    padding,
+    maxSize,
+  );
+
+  const placements = sprites.map((s, i) => ({
+    cellIndex: s.cellIndex,
+    label: s.label,
+    frame: {
+      x: packed.positions[i].x + extrude,
+      y: packed.positions[i].y + extrude,
+      w: rects[i].w,
+      h: rects[i].h,
+    },
+    sourceSize: { w: s.width, h: s.height },
+    trim: { ...rects[i] },
+  }));
+
+  return { width: packed.width, height: packed.height, extrude, placements };
+}
+
+// ── Descriptor ───────────────────────────────────────────────────────────────
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+function slugify(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+}
+
+/**
+ * Assign a unique frame name to each placement, keyed by cellIndex.
+ * Names are label slugs; empty or duplicate labels fall back to the
+ * zero-padded cell index so every frame stays addressable.
+ */
+export function buildFrameNames(placements: AtlasPlacement[]): Map<number, string> {
+  const names = new Map<number, string>();
+  const used = new Set<string>();
+  for (const p of [...placements].sort((a, b) => a.cellIndex - b.cellIndex)) {
+    const idx = String(p.cellIndex).padStart(2, '0');
+    let name = slugify(p.label) || `cell-${idx}`;
+    if (used.has(name)) name = `${name}-${idx}`;
+    used.add(name);
+    names.set(p.cellIndex, name);
+  }
+  return names;
+}
+
+/** Build the JSON descriptor for an atlas layout. */
+export function buildAtlasDescriptor(
+  layout: AtlasLayout,
+  options: AtlasDescriptorOptions,
+): AtlasDescriptor {
+  const { imageName, format = 'hash', animations = [], mirroredCells = new Set<number>(), pivots = new Map<number, Pivot>(), parallax } = options;
+  const names = buildFrameNames(layout.placements);
+  const sorted = [...layout.placements].sort((a, b) => a.cellIndex - b.cellIndex);
+
+  const entries = sorted.map((p): [string, AtlasFrame] => {
+    const trimmed = p.trim.w !== p.sourceSize.w || p.trim.h !== p.sourceSize.h;
+    const pivot = pivots.get(p.cellIndex);
+    return [names.get(p.cellIndex)!, {
+      frame: { ...p.frame },
+      rotated: false,
+      trimmed,
+      spriteSourceSize: { ...p.trim },
+      sourceSize: { ...p.sourceSize },
+      label: p.label,
+      cellIndex: p.cellIndex,
+      mirrored: mirroredCells.has(p.cellIndex),
+      pivot: pivot
+        ? { x: round(pivot.x / p.sourceSize.w), y: round(pivot.y / p.sourceSize.h) }
+        : { x: 0.5, y: 1 },
+    }];
+  });
+
+  const frames = format === 'array'
+    ? entries.map(([filename, f]) => ({ filename, ...f }))
+    : Object.fromEntries(entries);
+
+  // Animation frames that point at cells missing from the atlas are dropped
+  // rather than emitted as dangling names.
+  const animMeta: AtlasAnimationMeta[] = animations
+    .map(a => {
+      const cells = a.frames.filter(c => names.has(c));
+      return { name: a.name, frames: cells.map(c => names.get(c)!), cells, loop: a.loop };
+    })
+    .filter(a => a.frames.length > 0);
+
+  return {
+    frames,
+    animations: Object.fromEntries(animMeta.map(a => [a.name, a.frames])),
+    meta: {
+      app: 'grid-sprite-designer',
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: '1',
+      animations: animMeta,
+      ...(parallax ? { parallax } : {}),
+    },
+  };
+}
+
+// ── Composition ──────────────────────────────────────────────────────────────
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/** Measure the opaque bounds of every sprite, keyed by cellIndex. */
+export async function measureTrims(sprites: ExtractedSprite[]): Promise<Map<number, AtlasRect>> {
+  const trims = new Map<number, AtlasRect>();
+  for (const sprite of sprites) {
+    const img = await loadImage(sprite.imageData, sprite.mimeType);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    trims.set(sprite.cellIndex, computeTrimRect(ctx.getImageData(0, 0, img.width, img.height)));
+  }
+  return trims;
+}
+
+/**
+ * Draw sprites onto a transparent texture following the given layout.
+ * Sprites are expected to already have mirroring applied. When the layout
+ * has an extrude margin, each frame's outer rows and columns are stretched
+ * outward to fill it.
+ */
+export async function composeAtlas(
+  sprites: ExtractedSprite[],
+  layout: AtlasLayout,
+): Promise<{ canvas: HTMLCanvasElement; base64: string }> {
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, layout.width, layout.height);
+
+  const byCell = new Map<number, ExtractedSprite>();
+  for (const s of sprites) byCell.set(s.cellIndex, s);
+
+  for (const p of layout.placements) {
+    const sprite = byCell.get(p.cellIndex);
+    if (!sprite) continue;
+    const img = await loadImage(sprite.imageData, sprite.mimeType);
+    const { frame: f, trim: t } = p;
+    ctx.drawImage(img, t.x, t.y, t.w, t.h, f.x, f.y, f.w, f.h);
+
+    const e = layout.extrude;
+    if (e > 0) {
+      // Edges: left, right, top, bottom
+      ctx.drawImage(img, t.x, t.y, 1, t.h, f.x - e, f.y, e, f.h);
+      ctx.drawImage(img, t.x + t.w - 1, t.y, 1, t.h, f.x + f.w, f.y, e, f.h);
+      ctx.drawImage(img, t.x, t.y, t.w, 1, f.x, f.y - e, f.w, e);
+      ctx.drawImage(img, t.x, t.y + t.h - 1, t.w, 1, f.x, f.y + f.h, f.w, e);
+      // Corners
+      ctx.drawImage(img, t.x, t.y, 1, 1, f.x - e, f.y - e, e, e);
+      ctx.drawImage(img, t.x + t.w - 1, t.y, 1, 1, f.x + f.w, f.y - e, e, e);
+      ctx.drawImage(img, t.x, t.y + t.h - 1, 1, 1, f.x - e, f.y + f.h, e, e);
+      ctx.drawImage(img, t.x + t.w - 1, t.y + t.h - 1, 1, 1, f.x + f.w, f.y + f.h, e, e);
+    }
+  }
+
+  const base64 = canvas.toDataURL('image/png').split(',')[1];
+  return { canvas, base64 };
+}
@@ -0,0 +1,151 @@
+/**
+ * Autotile terrain layouts.
+ *
+ *   - corners-16: marching squares / Wang corners. Each tile's four corners
+ *     are either the upper terrain or the lower one; 16 combinations.
+ *   - blob-47: 8-neighbour blob. Each tile records which of its eight
+ *     neighbours the terrain continues into; a diagonal only counts when
+ *     both sides next to it do, which leaves 47 distinct tiles.
+ *
+ * The mask of every tile is spelled out in its cell label ("Corners NE SW",
+ * "Blob N E NE"), so a sheet generated from an autotile grid preset can be
+ * recognised from its labels alone and exported with its bitmask mapping.
+ * A trailing number marks an extra variant of the same mask ("Blob all 2").
+ * The server seeds the autotile grid presets with the same labels
+ * (server/db/seeds/autotileGridPresets.js).
+ */
+
+import type { AtlasLayout } from './atlasExporter';
+
+export type AutotileScheme = 'corners-16' | 'blob-47';
+
+/** Corner bits of the 16-tile set: set where the upper terrain fills the corner. */
+export const CORNER_BITS = { NW: 1, NE: 2, SE: 4, SW: 8 } as const;
+
+/** Neighbour bits of the 47-tile blob: set where the terrain continues that way. */
+export const BLOB_BITS = { N: 1, NE: 2, E: 4, SE: 8, S: 16, SW: 32, W: 64, NW: 128 } as const;
+
+type CornerDir = keyof typeof CORNER_BITS;
+type BlobDir = keyof typeof BLOB_BITS;
+
+const CORNER_ORDER: CornerDir[] = ['NW', 'NE', 'SE', 'SW'];
+const BLOB_EDGES: BlobDir[] = ['N', 'E', 'S', 'W'];
+const BLOB_CORNERS: Array<[BlobDir, BlobDir, BlobDir]> = [
+  ['NE', 'N', 'E'], ['SE', 'S', 'E'], ['SW', 'S', 'W'], ['NW', 'N', 'W'],
+];
+
+export const AUTOTILE_SCHEMES: Record<AutotileScheme, { label: string; prefix: string; cols: number; rows: number }> = {
+  'corners-16': { label: '16-tile corners (marching squares)', prefix: 'Corners', cols: 4, rows: 4 },
+  'blob-47': { label: '47-tile blob', prefix: 'Blob', cols: 7, rows: 7 },
+};
+
+/** Clear the diagonals of a raw 8-neighbour mask whose two sides are not both set. */
+export function reduceBlobMask(mask: number): number {
+  let out = mask & (BLOB_BITS.N | BLOB_BITS.E | BLOB_BITS.S | BLOB_BITS.W);
+  for (const [corner, a, b] of BLOB_CORNERS) {
+    if (mask & BLOB_BITS[corner] && mask & BLOB_BITS[a] && mask & BLOB_BITS[b]) out |= BLOB_BITS[corner];
+  }
+  return out;
+}
+
+/** The 47 distinct blob masks, ascending. */
+export const BLOB_MASKS: number[] = [...new Set(Array.from({ length: 256 }, (_, m) => reduceBlobMask(m)))].sort((a, b) => a - b);
+
+/** The tile masks of a scheme, in the grid preset's cell order. */
+export function schemeMasks(scheme: AutotileScheme): number[] {
+  return scheme === 'blob-47' ? BLOB_MASKS : Array.from({ length: 16 }, (_, m) => m);
+}
+
+/** Cell label spelling out a tile's mask. */
+export function autotileLabel(scheme: AutotileScheme, mask: number): string {
+  const { prefix } = AUTOTILE_SCHEMES[scheme];
+  const dirs = scheme === 'blob-47'
+    ? [...BLOB_EDGES, ...BLOB_CORNERS.map(([c]) => c)].filter((d) => mask & BLOB_BITS[d])
+    : CORNER_ORDER.filter((d) => mask & CORNER_BITS[d]);
+  const full = scheme === 'blob-47' ? 255 : 15;
+  if (mask === 0) return `${prefix} none`;
+  if (mask === full) return `${prefix} all`;
+  return `${prefix} ${dirs.join(' ')}`;
+}
+
+/** Mask of a cell label in either scheme, or null when it is not an autotile label. */
+export function parseAutotileLabel(label: string): { scheme: AutotileScheme; mask: number } | null {
+  const words = label.trim().replace(/\s+\d+$/, '').split(/\s+/);
+  const scheme = (Object.keys(AUTOTILE_SCHEMES) as AutotileScheme[])
+    .find((s) => AUTOTILE_SCHEMES[s].prefix.toLowerCase() === words[0]?.toLowerCase());
+  if (!scheme || words.length < 2) return null;
+  const bits: Record<string, number> = scheme === 'blob-47' ? BLOB_BITS : CORNER_BITS;
+  const rest = words.slice(1).map((w) => w.toUpperCase());
+  if (rest.length === 1 && rest[0] === 'NONE') return { scheme, mask: 0 };
+  if (rest.length === 1 && rest[0] === 'ALL') return { scheme, mask: scheme === 'blob-47' ? 255 : 15 };
+  let mask = 0;
+  for (const w of rest) {
+    if (!(w in bits)) return null;
+    mask |= bits[w];
+  }
+  if (scheme === 'blob-47' && reduceBlobMask(mask) !== mask) return null;
+  return { scheme, mask };
+}
+
+export interface AutotileTile {
+  cellIndex: number;
+  mask: number;
+  label: string;
+}
+
+export interface AutotileSet {
+  scheme: AutotileScheme;
+  tiles: AutotileTile[];
+}
+
+/**
+ * Recognise an autotile sheet from its cell labels: every labelled cell
+ * must belong to one scheme and every mask of it must be present.
+ * Returns null otherwise.
+ */
+export function parseAutotileSet(cells: Array<{ cellIndex: number; label: string }>): AutotileSet | null {
+  const tiles: AutotileTile[] = [];
+  let scheme: AutotileScheme | null = null;
+  for (const { cellIndex, label } of cells) {
+    if (!label.trim()) continue;
+    const parsed = parseAutotileLabel(label);
+    if (!parsed || (scheme && parsed.scheme !== scheme)) return null;
+    scheme = parsed.scheme;
+    tiles.push({ cellIndex, mask: parsed.mask, label });
+  }
+  if (!scheme) return null;
+  const present = new Set(tiles.map((t) => t.mask));
+  if (schemeMasks(scheme).some((m) => !present.has(m))) return null;
+  return { scheme, tiles: tiles.sort((a, b) => a.cellIndex - b.cellIndex) };
+}
+
+/**
+ * Bitmask-to-tile mapping for engines without a terrain editor. Tile ids
+ * are cell indices in the exported grid atlas; masks with variants list
+ * every tile id, the first being the primary one.
+ */
+export function buildAutotileMapping(
+  set: AutotileSet,
+  layout: AtlasLayout,
+  options: { imageName: string; columns: number },
+): string {
+  const masks: Record<string, number[]> = {};
+  for (const t of set.tiles) (masks[t.mask] ??= []).push(t.cellIndex);
+  const placements = new Map(layout.placements.map((p) => [p.cellIndex, p]));
+  const { w: tileWidth, h: tileHeight } = layout.placements[0].sourceSize;
+  return JSON.stringify({
+    scheme: set.scheme,
+    bits: set.scheme === 'blob-47' ? BLOB_BITS : CORNER_BITS,
+    // Blob lookups: clear each diagonal whose two sides are not both set first
+    diagonalsNeedSides: set.scheme === 'blob-47',
+    image: options.imageName,
+    columns: options.columns,
+    tileWidth,
+    tileHeight,
+    masks,
+    tiles: set.tiles.map((t) => {
+      const frame = placements.get(t.cellIndex)?.frame;
+      return { id: t.cellIndex, mask: t.mask, label: t.label, x: frame?.x ?? 0, y: frame?.y ?? 0 };
+    }),
+  }, null, 2);
+}
@@ -0,0 +1,154 @@
+/**
+ * Regenerating a handful of cells of an existing sheet: a template holding
+ * only those cells, the prompt that asks for them to be redrawn against the
+ * current sheet, and splicing the redrawn cells back into the sheet so it
+ * can be re-extracted with the same cuts.
+ */
+
+import type { GridConfig } from './gridConfig';
+import { buildCellDescriptions, CLOSING_INSTRUCTION } from './promptBuilderBase';
+import { candidateCellRects, type CellRect } from './gridCandidates';
+import type { ExtractedSprite, ExtractionDiagnostics } from './spriteExtractor';
+
+/** Header of padding cells in a partial template; the model leaves them blank. */
+export const EMPTY_CELL_LABEL = 'Leave Empty';
+
+/** Aspect ratios the image models accept, as width / height. */
+const ASPECT_RATIOS: Array<[string, number]> = [
+  ['1:1', 1], ['2:3', 2 / 3], ['3:2', 3 / 2], ['3:4', 3 / 4], ['4:3', 4 / 3],
+  ['4:5', 4 / 5], ['5:4', 5 / 4], ['9:16', 9 / 16], ['16:9', 16 / 9], ['21:9', 21 / 9],
+];
+
+/** The supported aspect ratio closest to width × height. */
+export function closestAspectRatio(width: number, height: number): string {
+  const target = Math.log(width / height);
+  let best = ASPECT_RATIOS[0];
+  for (const entry of ASPECT_RATIOS) {
+    if (Math.abs(Math.log(entry[1]) - target) < Math.abs(Math.log(best[1]) - target)) best = entry;
+  }
+  return best[0];
+}
+
+/**
+ * Grid config for a template holding only `cells` of `source`, in order.
+ * Cells keep the source's pixel size so the model draws them at the same
+ * scale; the layout is at most as wide as the source and leftover slots are
+ * headed EMPTY_CELL_LABEL.
+ */
+export function subsetGridConfig(source: GridConfig, cells: number[], imageSize: '2K' | '4K'): GridConfig {
+  const cols = Math.max(1, Math.min(cells.length, source.cols));
+  const rows = Math.max(1, Math.ceil(cells.length / cols));
+  const cellLabels = Array.from({ length: cols * rows }, (_, i) =>
+    i < cells.length ? source.cellLabels[cells[i]] ?? `Cell ${cells[i]}` : EMPTY_CELL_LABEL,
+  );
+  const { cellW, cellH, border } = source.templates[imageSize];
+  return {
+    ...source,
+    id: `${source.id}-cells`,
+    cols,
+    rows,
+    totalCells: cols * rows,
+    cellLabels,
+    aspectRatio: closestAspectRatio(cols * cellW + (cols + 1) * border, rows * cellH + (rows + 1) * border),
+  };
+}
+
+/** Prompt asking for the template's cells to be redrawn to match the reference sheet. */
+export function buildCellRegenerationPrompt(
+  contentName: string,
+  contentDescription: string,
+  grid: GridConfig,
+  guidance = '',
+): string {
+  const cellDescriptions = buildCellDescriptions(grid, 'sprite').join('\n');
+  const guidanceText = guidance.trim() ? `\nADDITIONAL GUIDANCE:\n${guidance.trim()}\n` : '';
+  return `\
+You are given two images.
+IMAGE 1 is a finished sprite sheet for "${contentName}". Most of its cells are
+final; the cells named in IMAGE 2 came out wrong and must be drawn again.
+IMAGE 2 is a template holding only those cells — fill each labeled cell with
+a fresh drawing of the matching cell of IMAGE 1, with the same proportions,
+scale, color palette, outline weight and art style as the other cells of IMAGE 1.
+
+SUBJECT: ${contentDescription}
+
+CELL LAYOUT (${grid.cols}×${grid.rows}):
+${cellDescriptions}
+
+Cells headed "${EMPTY_CELL_LABEL}" stay plain magenta.
+Keep the magenta #FF00FF background behind each sprite for chroma keying.
+${guidanceText}
+${CLOSING_INSTRUCTION}`;
+}
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/**
+ * Paint each regenerated cell over its cell of the sheet. `cells[i]` is
+ * drawn from slot i of the partial grid, scaled from that slot's content
+ * rectangle into the sheet's, so the sheet's grid lines stay where the
+ * existing cuts expect them.
+ */
+export async function spliceCells(
+  sheet: { data: string; mimeType: string },
+  sheetDiagnostics: ExtractionDiagnostics,
+  partial: { data: string; mimeType: string },
+  partialDiagnostics: ExtractionDiagnostics,
+  cells: number[],
+): Promise<{ data: string; mimeType: string }> {
+  const [sheetImg, partialImg] = await Promise.all([
+    loadImage(sheet.data, sheet.mimeType),
+    loadImage(partial.data, partial.mimeType),
+  ]);
+  const canvas = document.createElement('canvas');
+  canvas.width = sheetImg.width;
+  canvas.height = sheetImg.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(sheetImg, 0, 0);
+
+  const targets = candidateCellRects(sheetDiagnostics);
+  const sources = candidateCellRects(partialDiagnostics);
+  cells.forEach((cell, slot) => {
+    const src: CellRect | undefined = sources[slot];
+    const dst: CellRect | undefined = targets[cell];
+    if (!src || !dst) return;
+    ctx.clearRect(dst.x, dst.y, dst.w, dst.h);
+    ctx.drawImage(partialImg, src.x, src.y, src.w, src.h, dst.x, dst.y, dst.w, dst.h);
+  });
+
+  return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+}
+
+/**
+ * Save a grid whose `cells` were redrawn over its history entry, with the
+ * re-extracted sprites of those cells. Resolves false when the server
+ * refused it.
+ */
+export async function saveGridCells(
+  historyId: number,
+  filledGridImage: string,
+  sprites: ExtractedSprite[],
+  cells: number[],
+): Promise<boolean> {
+  const redrawn = sprites.filter(s => cells.includes(s.cellIndex)).map(s => ({
+    cellIndex: s.cellIndex,
+    poseId: s.label.toLowerCase().replace(/\s+/g, '-'),
+    poseName: s.label,
+    imageData: s.imageData,
+    mimeType: s.mimeType,
+  }));
+  const res = await fetch(`/api/history/${historyId}/grid`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filledGridImage, sprites: redrawn }),
+  });
+  if (!res.ok) console.error('Failed to save regenerated cells:', res.status);
+  return res.ok;
+}
@@ -0,0 +1,29 @@
+/**
+ * CRC-32 (IEEE 802.3 polynomial), as used by PNG chunks and ZIP entries.
+ */
+
+const TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC-32 of one or more byte arrays, treated as a single
+ * contiguous stream. Returns an unsigned 32-bit integer.
+ */
+export function crc32(...chunks: Uint8Array[]): number {
+  let crc = 0xffffffff;
+  for (const bytes of chunks) {
+    for (let i = 0; i < bytes.length; i++) {
+      crc = TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
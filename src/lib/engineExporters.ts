@@ -0,0 +1,430 @@
+/**
+ * Game-engine export targets built on top of an atlas layout.
+ *
+ *   - Godot 4: SpriteFrames resource (.tres) with one AtlasTexture per frame
+ *   - Unity:   TextureImporter .meta slicing the texture into named sprites,
+ *              plus a JSON sidecar describing animation clips
+ *   - Tiled:   external tileset (.tsx) for terrain grids, and maps (.tmx)
+ *              painted from one
+ *   - Autotile: for autotile terrain grids, the bitmask-to-tile mapping,
+ *              a Godot 4 TileSet with a terrain set, and a Tiled tileset
+ *              with a wang set
+ *
+ * All builders are pure and return file contents as strings; the caller
+ * pairs them with the atlas PNG named in `imageName`.
+ *
+ * Per-frame pivots become Unity sprite pivots, Godot AtlasTexture margins
+ * that line the pivots up across frames, and Tiled tile properties.
+ */
+
+import type { AtlasLayout, AtlasPlacement } from './atlasExporter';
+import { buildFrameNames } from './atlasExporter';
+import type { AnimationDef } from './poses';
+import { crc32 } from './crc32';
+import { alignOnPivots, type Pivot } from './pivot';
+import { buildAutotileMapping, parseAutotileSet, BLOB_BITS, CORNER_BITS, type AutotileSet } from './autotile';
+
+export type EngineTarget = 'godot' | 'unity' | 'tiled' | 'autotile';
+
+export const ENGINE_TARGETS: Record<EngineTarget, { label: string; terrainOnly: boolean }> = {
+  godot: { label: 'Godot SpriteFrames', terrainOnly: false },
+  unity: { label: 'Unity Sprite Sheet', terrainOnly: false },
+  tiled: { label: 'Tiled Tileset', terrainOnly: true },
+  autotile: { label: 'Autotile Terrain Set', terrainOnly: true },
+};
+
+export interface EngineFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface EngineExportOptions {
+  /** Base name for the generated files, e.g. "hero" */
+  baseName: string;
+  /** File name of the atlas PNG the files reference */
+  imageName: string;
+  animations: AnimationDef[];
+  /** Milliseconds per frame */
+  frameDelayMs: number;
+  /** Pivots in source sprite pixels, keyed by cellIndex */
+  pivots?: Map<number, Pivot>;
+}
+
+/**
+ * Pivot of a frame, normalized to the trimmed frame rect with (0,0) at the
+ * top-left. `pivot` is in source sprite pixels; without one the pivot is the
+ * bottom-center of the untrimmed source cell so trimmed frames stay anchored
+ * where normalizeSprites put them.
+ */
+export function framePivot(p: AtlasPlacement, pivot?: Pivot): { x: number; y: number } {
+  const { x, y } = pivot ?? { x: p.sourceSize.w / 2, y: p.sourceSize.h };
+  return {
+    x: (x - p.trim.x) / p.trim.w,
+    y: (y - p.trim.y) / p.trim.h,
+  };
+}
+
+function round(n: number, digits = 4): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function byCellIndex(layout: AtlasLayout): AtlasPlacement[] {
+  return [...layout.placements].sort((a, b) => a.cellIndex - b.cellIndex);
+}
+
+/** Size shared by every tile; throws unless the layout is a uniform grid. */
+function uniformTileSize(placements: AtlasPlacement[], engine: string): { tileW: number; tileH: number } {
+  const { w: tileW, h: tileH } = placements[0].sourceSize;
+  if (placements.some(p => p.frame.w !== tileW || p.frame.h !== tileH)) {
+    throw new Error(`${engine} tilesets need a grid layout with uniform tiles`);
+  }
+  return { tileW, tileH };
+}
+
+/**
+ * Which of a tile's eight neighbours (clockwise from the top) take the
+ * autotile's upper terrain. Corner sets only use the diagonals; a corner
+ * is upper when its bit is set. Blob tiles connect towards every set bit.
+ */
+function autotileNeighbours(set: AutotileSet, mask: number): Array<boolean | null> {
+  if (set.scheme === 'corners-16') {
+    const c = (bit: number) => (mask & bit) !== 0;
+    return [null, c(CORNER_BITS.NE), null, c(CORNER_BITS.SE), null, c(CORNER_BITS.SW), null, c(CORNER_BITS.NW)];
+  }
+  const b = BLOB_BITS;
+  return [b.N, b.NE, b.E, b.SE, b.S, b.SW, b.W, b.NW].map(bit => (mask & bit) !== 0);
+}
+
+/** Animations to emit — falls back to one looping clip of every frame. */
+function effectiveAnimations(layout: AtlasLayout, animations: AnimationDef[]): AnimationDef[] {
+  const cells = new Set(layout.placements.map(p => p.cellIndex));
+  const usable = animations
+    .map(a => ({ ...a, frames: a.frames.filter(c => cells.has(c)) }))
+    .filter(a => a.frames.length > 0);
+  if (usable.length > 0) return usable;
+  return [{ name: 'default', frames: byCellIndex(layout).map(p => p.cellIndex), loop: true }];
+}
+
+// ── Godot ────────────────────────────────────────────────────────────────────
+
+function godotString(s: string): string {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** Godot 4 SpriteFrames resource. */
+export function buildGodotSpriteFrames(layout: AtlasLayout, options: EngineExportOptions): string {
+  const placements = byCellIndex(layout);
+  const subIds = new Map<number, string>();
+  const lines: string[] = [];
+
+  lines.push(`[gd_resource type="SpriteFrames" load_steps=${placements.length + 2} format=3]`, '');
+  lines.push(`[ext_resource type="Texture2D" path=${godotString(`res://${options.imageName}`)} id="1_atlas"]`, '');
+
+  // With pivots, margins pad every frame to one size with the pivot at the
+  // same spot, so AnimatedSprite2D keeps frames planted on their pivots.
+  const pivots = options.pivots;
+  const aligned = pivots && alignOnPivots(placements.map(p => {
+    const pivot = pivots.get(p.cellIndex) ?? { x: p.sourceSize.w / 2, y: p.sourceSize.h };
+    return { width: p.trim.w, height: p.trim.h, pivot: { x: pivot.x - p.trim.x, y: pivot.y - p.trim.y } };
+  }));
+
+  placements.forEach((p, i) => {
+    const id = `AtlasTexture_${p.cellIndex}`;
+    subIds.set(p.cellIndex, id);
+    const { frame: f, trim: t, sourceSize: s } = p;
+    lines.push(`[sub_resource type="AtlasTexture" id="${id}"]`);
+    lines.push('atlas = ExtResource("1_atlas")');
+    lines.push(`region = Rect2(${f.x}, ${f.y}, ${f.w}, ${f.h})`);
+    if (aligned) {
+      const o = aligned.offsets[i];
+      if (o.x !== 0 || o.y !== 0 || aligned.width !== t.w || aligned.height !== t.h) {
+        lines.push(`margin = Rect2(${o.x}, ${o.y}, ${aligned.width - t.w}, ${aligned.height - t.h})`);
+      }
+    } else if (t.w !== s.w || t.h !== s.h) {
+      lines.push(`margin = Rect2(${t.x}, ${t.y}, ${s.w - t.w}, ${s.h - t.h})`);
+    }
+    lines.push('');
+  });
+
+  const fps = round(1000 / options.frameDelayMs, 2);
+  const anims = effectiveAnimations(layout, options.animations).map(a => [
+    '{',
+    '"frames": [' + a.frames.map(c => `{\n"duration": 1.0,\n"texture": SubResource("${subIds.get(c)}")\n}`).join(', ') + '],',
+    `"loop": ${a.loop},`,
+    `"name": &${godotString(a.name)},`,
+    `"speed": ${fps}`,
+    '}',
+  ].join('\n'));
+
+  lines.push('[resource]');
+  lines.push(`animations = [${anims.join(', ')}]`);
+  lines.push('');
+  return lines.join('\n');
+}
+
+const GODOT_PEERING_BITS = [
+  'top_side', 'top_right_corner', 'right_side', 'bottom_right_corner',
+  'bottom_side', 'bottom_left_corner', 'left_side', 'top_left_corner',
+];
+
+/**
+ * Godot 4 TileSet with one atlas source and a terrain set painted onto the
+ * autotile's tiles. Corner sets use "Match Corners" with an upper and a
+ * lower terrain (a tile's own terrain is whichever holds most of its
+ * corners, upper on a tie); blob sets use "Match Corners and Sides" with a
+ * single terrain and no peering bit towards unconnected neighbours.
+ */
+export function buildGodotTileSet(
+  layout: AtlasLayout,
+  options: Pick<EngineExportOptions, 'imageName'> & { columns: number; autotile: AutotileSet },
+): string {
+  const placements = byCellIndex(layout);
+  const { tileW, tileH } = uniformTileSize(placements, 'Godot');
+  const set = options.autotile;
+  const corners = set.scheme === 'corners-16';
+  const lines = [
+    '[gd_resource type="TileSet" load_steps=3 format=3]', '',
+    `[ext_resource type="Texture2D" path=${godotString(`res://${options.imageName}`)} id="1_atlas"]`, '',
+    '[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_1"]',
+    'texture = ExtResource("1_atlas")',
+    `texture_region_size = Vector2i(${tileW}, ${tileH})`,
+  ];
+  for (const t of set.tiles) {
+    const key = `${t.cellIndex % options.columns}:${Math.floor(t.cellIndex / options.columns)}/0`;
+    const neighbours = autotileNeighbours(set, t.mask);
+    const upperCorners = neighbours.filter(n => n === true).length;
+    lines.push(`${key} = 0`, `${key}/terrain_set = 0`, `${key}/terrain = ${corners && upperCorners < 2 ? 1 : 0}`);
+    neighbours.forEach((n, i) => {
+      if (n === null || (!n && !corners)) return;
+      lines.push(`${key}/terrains_peering_bit/${GODOT_PEERING_BITS[i]} = ${n ? 0 : 1}`);
+    });
+  }
+  lines.push('', '[resource]', `tile_size = Vector2i(${tileW}, ${tileH})`);
+  lines.push(`terrain_set_0/mode = ${corners ? 1 : 0}`);
+  lines.push('terrain_set_0/terrain_0/name = "Upper"', 'terrain_set_0/terrain_0/color = Color(0.35, 0.6, 0.3, 1)');
+  if (corners) lines.push('terrain_set_0/terrain_1/name = "Lower"', 'terrain_set_0/terrain_1/color = Color(0.6, 0.45, 0.3, 1)');
+  lines.push('sources/0 = SubResource("TileSetAtlasSource_1")', '');
+  return lines.join('\n');
+}
+
+// ── Unity ────────────────────────────────────────────────────────────────────
+
+function hex32(seed: string): string {
+  const parts = [0, 1, 2, 3].map(i => crc32(new TextEncoder().encode(`${i}:${seed}`)).toString(16).padStart(8, '0'));
+  return parts.join('');
+}
+
+function yamlString(s: string): string {
+  return /^[A-Za-z0-9_.-]+$/.test(s) ? s : `'${s.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Unity TextureImporter .meta that slices the atlas into sprites (Sprite
+ * Mode: Multiple). Unity's rect origin is bottom-left, so frame Y is flipped.
+ * GUIDs are derived from the image name so re-exports update the same asset.
+ */
+export function buildUnityMeta(layout: AtlasLayout, options: EngineExportOptions): string {
+  const names = buildFrameNames(layout.placements);
+  const lines = [
+    'fileFormatVersion: 2',
+    `guid: ${hex32(options.imageName)}`,
+    'TextureImporter:',
+    '  serializedVersion: 12',
+    '  mipmaps:',
+    '    enableMipMap: 0',
+    '  textureSettings:',
+    '    serializedVersion: 2',
+    '    filterMode: 0',
+    '    aniso: 1',
+    '    wrapU: 1',
+    '    wrapV: 1',
+    '  alphaIsTransparency: 1',
+    '  spriteMode: 2',
+    '  spritePixelsToUnits: 100',
+    '  textureType: 8',
+    '  textureShape: 1',
+    '  spriteSheet:',
+    '    serializedVersion: 2',
+    '    sprites:',
+  ];
+
+  byCellIndex(layout).forEach((p, i) => {
+    const name = names.get(p.cellIndex)!;
+    const pivot = framePivot(p, options.pivots?.get(p.cellIndex));
+    lines.push(
+      '    - serializedVersion: 2',
+      `      name: ${yamlString(name)}`,
+      '      rect:',
+      '        serializedVersion: 2',
+      `        x: ${p.frame.x}`,
+      `        y: ${layout.height - p.frame.y - p.frame.h}`,
+      `        width: ${p.frame.w}`,
+      `        height: ${p.frame.h}`,
+      '      alignment: 9',
+      `      pivot: {x: ${round(pivot.x)}, y: ${round(1 - pivot.y)}}`,
+      '      border: {x: 0, y: 0, z: 0, w: 0}',
+      '      outline: []',
+      '      physicsShape: []',
+      '      tessellationDetail: 0',
+      '      bones: []',
+      `      spriteID: ${hex32(`${options.imageName}:${name}`)}`,
+      `      internalID: ${21300000 + i * 2}`,
+      '      vertices: []',
+      '      indices: ',
+      '      edges: []',
+      '      weights: []',
+    );
+  });
+
+  lines.push(
+    '  spritePackingTag: ',
+    '  userData: ',
+    '  assetBundleName: ',
+    '  assetBundleVariant: ',
+    '',
+  );
+  return lines.join('\n');
+}
+
+/** JSON sidecar listing Unity sprite names and animation clips for an import script. */
+export function buildUnityClips(layout: AtlasLayout, options: EngineExportOptions): string {
+  const names = buildFrameNames(layout.placements);
+  return JSON.stringify({
+    texture: options.imageName,
+    sprites: byCellIndex(layout).map(p => names.get(p.cellIndex)),
+    clips: effectiveAnimations(layout, options.animations).map(a => ({
+      name: a.name,
+      frameRate: round(1000 / options.frameDelayMs, 2),
+      loop: a.loop,
+      sprites: a.frames.map(c => names.get(c)),
+    })),
+  }, null, 2);
+}
+
+// ── Tiled ────────────────────────────────────────────────────────────────────
+
+function xmlAttr(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Tiled external tileset. Requires a uniform grid layout (every frame the
+ * same size, no trimming); tile ids follow the grid's cell order and each
+ * tile carries its cell label as a "label" property, plus its pivot
+ * (normalized to the tile) as "pivotX"/"pivotY" when pivots are given.
+ * With an autotile set the tileset also gets a wang set: a corner set for
+ * corner autotiles, a mixed set for blobs (color 1 where the terrain
+ * continues, color 2 where it does not).
+ */
+export function buildTiledTileset(
+  layout: AtlasLayout,
+  options: Pick<EngineExportOptions, 'baseName' | 'imageName' | 'pivots'> & {
+    columns: number;
+    tileShape?: 'square' | 'diamond';
+    autotile?: AutotileSet;
+  },
+): string {
+  const placements = byCellIndex(layout);
+  const { tileW, tileH } = uniformTileSize(placements, 'Tiled');
+
+  const tileCount = options.columns * Math.floor(layout.height / tileH);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tileset version="1.10" tiledversion="1.10.2" name="${xmlAttr(options.baseName)}" tilewidth="${tileW}" tileheight="${tileH}" tilecount="${tileCount}" columns="${options.columns}">`,
+  ];
+  if (options.tileShape === 'diamond') {
+    lines.push(` <grid orientation="isometric" width="${tileW}" height="${Math.round(tileW / 2)}"/>`);
+  }
+  lines.push(` <image source="${xmlAttr(options.imageName)}" width="${layout.width}" height="${layout.height}"/>`);
+  for (const p of placements) {
+    const pivot = options.pivots?.get(p.cellIndex);
+    if (!p.label && !pivot) continue;
+    lines.push(` <tile id="${p.cellIndex}">`, '  <properties>');
+    if (p.label) lines.push(`   <property name="label" value="${xmlAttr(p.label)}"/>`);
+    if (pivot) {
+      const { x, y } = framePivot(p, pivot);
+      lines.push(
+        `   <property name="pivotX" type="float" value="${round(x)}"/>`,
+        `   <property name="pivotY" type="float" value="${round(y)}"/>`,
+      );
+    }
+    lines.push('  </properties>', ' </tile>');
+  }
+  const set = options.autotile;
+  if (set) {
+    const corners = set.scheme === 'corners-16';
+    lines.push(
+      ' <wangsets>',
+      `  <wangset name="${xmlAttr(options.baseName)}" type="${corners ? 'corner' : 'mixed'}" tile="-1">`,
+      `   <wangcolor name="${corners ? 'Upper' : 'Terrain'}" color="#5a994d" tile="-1" probability="1"/>`,
+      `   <wangcolor name="${corners ? 'Lower' : 'Background'}" color="#99734d" tile="-1" probability="1"/>`,
+    );
+    for (const t of set.tiles) {
+      const wangId = autotileNeighbours(set, t.mask).map(n => (n === null ? 0 : n ? 1 : 2));
+      lines.push(`   <wangtile tileid="${t.cellIndex}" wangid="${wangId.join(',')}"/>`);
+    }
+    lines.push('  </wangset>', ' </wangsets>');
+  }
+  lines.push('</tileset>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Tiled map with a single tile layer, referencing an external tileset whose
+ * tile ids are grid cell indices (as buildTiledTileset writes them).
+ * `tiles` holds a cell index per map cell, row-major, or -1 for empty.
+ */
+export function buildTiledMap(
+  tiles: number[],
+  options: { width: number; height: number; tileWidth: number; tileHeight: number; tilesetSource: string; layerName?: string },
+): string {
+  const rows: string[] = [];
+  for (let y = 0; y < options.height; y++) {
+    // gid 0 is an empty cell; the tileset's first gid is 1
+    rows.push(tiles.slice(y * options.width, (y + 1) * options.width).map(t => (t < 0 ? 0 : t + 1)).join(','));
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map version="1.10" tiledversion="1.10.2" orientation="orthogonal" renderorder="right-down" width="${options.width}" height="${options.height}" tilewidth="${options.tileWidth}" tileheight="${options.tileHeight}" infinite="0" nextlayerid="2" nextobjectid="1">`,
+    ` <tileset firstgid="1" source="${xmlAttr(options.tilesetSource)}"/>`,
+    ` <layer id="1" name="${xmlAttr(options.layerName ?? 'Terrain')}" width="${options.width}" height="${options.height}">`,
+    '  <data encoding="csv">',
+    rows.join(',\n'),
+    '</data>',
+    ' </layer>',
+    '</map>',
+    '',
+  ].join('\n');
+}
+
+/** Build every file for an engine target (excluding the atlas PNG itself). */
+export function buildEngineFiles(
+  target: EngineTarget,
+  layout: AtlasLayout,
+  options: EngineExportOptions & { columns: number; tileShape?: 'square' | 'diamond' },
+): EngineFile[] {
+  switch (target) {
+    case 'godot':
+      return [{ filename: `${options.baseName}.tres`, content: buildGodotSpriteFrames(layout, options), mimeType: 'text/plain' }];
+    case 'unity':
+      return [
+        { filename: `${options.imageName}.meta`, content: buildUnityMeta(layout, options), mimeType: 'text/plain' },
+        { filename: `${options.baseName}-clips.json`, content: buildUnityClips(layout, options), mimeType: 'application/json' },
+      ];
+    case 'tiled':
+      return [{ filename: `${options.baseName}.tsx`, content: buildTiledTileset(layout, options), mimeType: 'application/xml' }];
+    case 'autotile': {
+      const autotile = parseAutotileSet(layout.placements);
+      if (!autotile) {
+        throw new Error('Autotile export needs a sheet generated from an autotile grid (16-tile corners or 47-tile blob) with every tile present');
+      }
+      return [
+        { filename: `${options.baseName}-autotile.json`, content: buildAutotileMapping(autotile, layout, options), mimeType: 'application/json' },
+        { filename: `${options.baseName}-tileset.tres`, content: buildGodotTileSet(layout, { ...options, autotile }), mimeType: 'text/plain' },
+        { filename: `${options.baseName}.tsx`, content: buildTiledTileset(layout, { ...options, autotile }), mimeType: 'application/xml' },
+      ];
+    }
+  }
+}
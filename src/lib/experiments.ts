@@ -0,0 +1,53 @@
+/**
+ * Measurements for prompt experiments: how pure the chroma background
+ * around each extracted sprite came back, and the rates shown when
+ * comparing variants.
+ */
+
+import { decodeImage } from './inpaint';
+import type { ExtractedSprite } from './spriteExtractor';
+
+/** Per-channel distance from #FF00FF still counted as background. */
+const PURITY_TOLERANCE = 40;
+
+/**
+ * Share (0-1) of a sprite's border ring that is chroma pink — the cell
+ * background the model was asked to keep. Fully transparent pixels are
+ * padding added when sprites of different sizes are normalized, not
+ * anything the model drew, so they are left out. Null when nothing is
+ * left to measure.
+ */
+export function chromaPurity(image: ImageData, borderWidth = 3, tolerance = PURITY_TOLERANCE): number | null {
+  const { width, height, data } = image;
+  let total = 0;
+  let pink = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= borderWidth && x < width - borderWidth &&
+          y >= borderWidth && y < height - borderWidth) continue;
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      total++;
+      if (255 - data[i] <= tolerance && data[i + 1] <= tolerance && 255 - data[i + 2] <= tolerance) pink++;
+    }
+  }
+
+  return total === 0 ? null : pink / total;
+}
+
+/** Mean chroma purity over the extracted sprites, null with none to measure. */
+export async function spritesChromaPurity(sprites: ExtractedSprite[]): Promise<number | null> {
+  const values: number[] = [];
+  for (const sprite of sprites) {
+    const image = await decodeImage({ data: sprite.imageData, mimeType: sprite.mimeType }, sprite.width, sprite.height);
+    const purity = chromaPurity(image);
+    if (purity !== null) values.push(purity);
+  }
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/** `part` of `whole` as a whole percentage, or an em dash with nothing to count. */
+export function formatRate(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+}
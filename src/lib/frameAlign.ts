@@ -0,0 +1,136 @@
+/**
+ * Automatic frame alignment within an animation group.
+ *
+ * Generated frames drift a few pixels between poses, which makes walk
+ * loops jitter. Each frame is measured (opaque-pixel centroid and bounds)
+ * and given an offset that moves its alignment point — the centroid, or
+ * the feet line under it — onto the group's median position relative to
+ * the frame pivots.
+ *
+ * Offsets shift a frame's drawn position; they are applied by moving the
+ * pivot the opposite way, so everything that honours pivots (preview,
+ * atlases, engine files, animated exports) picks them up.
+ */
+
+import type { AtlasRect } from './atlasExporter';
+import type { Pivot } from './pivot';
+
+export type AlignMode = 'centroid' | 'feet';
+
+export const ALIGN_MODES: Record<AlignMode, { label: string; description: string }> = {
+  centroid: { label: 'Centroid', description: 'Line up the centre of mass of the opaque pixels' },
+  feet: { label: 'Feet', description: 'Line up the bottom edge, centred under the opaque pixels' },
+};
+
+/** Pixel shift applied to a frame, (+x right, +y down). */
+export interface FrameOffset {
+  x: number;
+  y: number;
+}
+
+export interface FrameMetrics {
+  /** Mean position of opaque pixels (pixel centres) */
+  centroid: Pivot;
+  /** Opaque bounding box */
+  bounds: AtlasRect;
+}
+
+/**
+ * Measure the opaque pixels of a frame. Fully transparent frames measure
+ * as the whole image so they still have a sensible alignment point.
+ */
+export function measureFrame(image: ImageData): FrameMetrics {
+  const { width, height, data } = image;
+  let sumX = 0, sumY = 0, count = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      sumX += x + 0.5;
+      sumY += y + 0.5;
+      count++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (count === 0) {
+    return { centroid: { x: width / 2, y: height / 2 }, bounds: { x: 0, y: 0, w: width, h: height } };
+  }
+  return {
+    centroid: { x: sumX / count, y: sumY / count },
+    bounds: { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 },
+  };
+}
+
+/** The point of a frame that auto-align lines up. */
+export function alignmentPoint(metrics: FrameMetrics, mode: AlignMode): Pivot {
+  return mode === 'centroid'
+    ? metrics.centroid
+    : { x: metrics.centroid.x, y: metrics.bounds.y + metrics.bounds.h };
+}
+
+/** Mirror metrics to match a horizontally flipped frame. */
+export function mirrorMetrics(metrics: FrameMetrics, width: number): FrameMetrics {
+  const { centroid: c, bounds: b } = metrics;
+  return {
+    centroid: { x: width - c.x, y: c.y },
+    bounds: { x: width - b.x - b.w, y: b.y, w: b.w, h: b.h },
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Offsets that bring every frame's alignment point to the same position
+ * relative to its pivot. The target is the median, so a single outlier
+ * frame moves instead of the whole group. `point` and `pivot` must be in
+ * the same (drawn) space; offsets are whole pixels in that space.
+ */
+export function computeGroupOffsets(
+  frames: Array<{ cellIndex: number; point: Pivot; pivot: Pivot }>,
+): Map<number, FrameOffset> {
+  const offsets = new Map<number, FrameOffset>();
+  if (frames.length === 0) return offsets;
+  const rel = frames.map(f => ({ x: f.point.x - f.pivot.x, y: f.point.y - f.pivot.y }));
+  const target = { x: median(rel.map(r => r.x)), y: median(rel.map(r => r.y)) };
+  frames.forEach((f, i) => {
+    // `|| 0` folds -0 into 0 so unchanged frames compare cleanly
+    offsets.set(f.cellIndex, {
+      x: Math.round(target.x - rel[i].x) || 0,
+      y: Math.round(target.y - rel[i].y) || 0,
+    });
+  });
+  return offsets;
+}
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/** Measure every sprite, keyed by cellIndex. */
+export async function measureFrames(
+  sprites: Array<{ cellIndex: number; imageData: string; mimeType: string }>,
+): Promise<Map<number, FrameMetrics>> {
+  const metrics = new Map<number, FrameMetrics>();
+  for (const sprite of sprites) {
+    const img = await loadImage(sprite.imageData, sprite.mimeType);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    metrics.set(sprite.cellIndex, measureFrame(ctx.getImageData(0, 0, img.width, img.height)));
+  }
+  return metrics;
+}
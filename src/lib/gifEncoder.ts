@@ -0,0 +1,194 @@
+/**
+ * Animated GIF (GIF89a) encoder.
+ *
+ * All frames share one global 256-entry palette so colors stay stable
+ * across the animation. Index 0 is reserved for transparency; pixels with
+ * alpha < 128 map to it. When the frames use more than 255 distinct colors
+ * the palette is built from the most frequent 5-bit-per-channel buckets
+ * and every pixel snaps to its nearest palette entry.
+ */
+
+export interface GifOptions {
+  /** Per-frame delay in milliseconds (GIF stores centiseconds) */
+  delayMs: number;
+  /** Loop forever when true; play once when false */
+  loop: boolean;
+}
+
+const TRANSPARENT_INDEX = 0;
+const MAX_COLORS = 255;
+
+type RGB = [number, number, number];
+
+/** Build a shared palette (excluding the transparent slot) for all frames. */
+export function buildGifPalette(frames: ImageData[]): RGB[] {
+  const exact = new Map<number, number>();
+  for (const frame of frames) {
+    const d = frame.data;
+    for (let i = 0; i < d.length; i += 4) {
+      if (d[i + 3] < 128) continue;
+      const key = (d[i] << 16) | (d[i + 1] << 8) | d[i + 2];
+      exact.set(key, (exact.get(key) ?? 0) + 1);
+    }
+  }
+
+  if (exact.size <= MAX_COLORS) {
+    return Array.from(exact.keys()).map(k => [(k >> 16) & 0xff, (k >> 8) & 0xff, k & 0xff]);
+  }
+
+  // Popularity over 5-bit buckets, averaged to the bucket's mean color
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+  for (const [key, count] of exact) {
+    const r = (key >> 16) & 0xff, g = (key >> 8) & 0xff, b = key & 0xff;
+    const bk = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const e = buckets.get(bk);
+    if (e) {
+      e.r += r * count; e.g += g * count; e.b += b * count; e.n += count;
+    } else {
+      buckets.set(bk, { r: r * count, g: g * count, b: b * count, n: count });
+    }
+  }
+  return Array.from(buckets.values())
+    .sort((a, b) => b.n - a.n)
+    .slice(0, MAX_COLORS)
+    .map(e => [Math.round(e.r / e.n), Math.round(e.g / e.n), Math.round(e.b / e.n)]);
+}
+
+/** Map a frame's pixels to palette indices (offset by 1 for the transparent slot). */
+function indexFrame(frame: ImageData, palette: RGB[], cache: Map<number, number>): Uint8Array {
+  const d = frame.data;
+  const out = new Uint8Array(frame.width * frame.height);
+  for (let p = 0, i = 0; p < out.length; p++, i += 4) {
+    if (d[i + 3] < 128) {
+      out[p] = TRANSPARENT_INDEX;
+      continue;
+    }
+    const key = (d[i] << 16) | (d[i + 1] << 8) | d[i + 2];
+    let idx = cache.get(key);
+    if (idx === undefined) {
+      let best = 0, bestDist = Infinity;
+      for (let c = 0; c < palette.length; c++) {
+        const dr = palette[c][0] - d[i], dg = palette[c][1] - d[i + 1], db = palette[c][2] - d[i + 2];
+        const dist = dr * dr + dg * dg + db * db;
+        if (dist < bestDist) { bestDist = dist; best = c; }
+      }
+      idx = best + 1;
+      cache.set(key, idx);
+    }
+    out[p] = idx;
+  }
+  return out;
+}
+
+/** Variable-width LZW compression as specified by GIF89a. */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let bitBuf = 0, bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dict = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuf |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuf & 0xff);
+      bitBuf >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bitCount > 0) out.push(bitBuf & 0xff);
+    return Uint8Array.from(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = dict.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      dict.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.push(bitBuf & 0xff);
+  return Uint8Array.from(out);
+}
+
+/** Encode frames (all the same size) as an animated GIF. */
+export function encodeGif(frames: ImageData[], options: GifOptions): Uint8Array {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const palette = buildGifPalette(frames);
+  const delayCs = Math.max(2, Math.round(options.delayMs / 10));
+
+  const bytes: number[] = [];
+  const u16 = (v: number) => bytes.push(v & 0xff, (v >> 8) & 0xff);
+  const ascii = (s: string) => { for (const ch of s) bytes.push(ch.charCodeAt(0)); };
+
+  // Header + logical screen descriptor with a 256-entry global color table
+  ascii('GIF89a');
+  u16(width);
+  u16(height);
+  bytes.push(0xf7, TRANSPARENT_INDEX, 0);
+  bytes.push(0, 0, 0);
+  for (let c = 0; c < 255; c++) {
+    const rgb = palette[c] ?? [0, 0, 0];
+    bytes.push(rgb[0], rgb[1], rgb[2]);
+  }
+
+  // NETSCAPE2.0 looping extension — omitted for one-shot animations
+  if (options.loop) {
+    bytes.push(0x21, 0xff, 0x0b);
+    ascii('NETSCAPE2.0');
+    bytes.push(0x03, 0x01);
+    u16(0);
+    bytes.push(0);
+  }
+
+  const cache = new Map<number, number>();
+  for (const frame of frames) {
+    // Graphic control: dispose to background, transparent index set
+    bytes.push(0x21, 0xf9, 0x04, (2 << 2) | 1);
+    u16(delayCs);
+    bytes.push(TRANSPARENT_INDEX, 0);
+
+    // Image descriptor (full canvas, no local color table)
+    bytes.push(0x2c);
+    u16(0);
+    u16(0);
+    u16(width);
+    u16(height);
+    bytes.push(0);
+
+    const data = lzwEncode(indexFrame(frame, palette, cache), 8);
+    bytes.push(8);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  }
+
+  bytes.push(0x3b);
+  return Uint8Array.from(bytes);
+}
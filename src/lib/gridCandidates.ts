@@ -0,0 +1,104 @@
+/**
+ * Choosing among variant candidates: where each cell sits in a candidate's
+ * filled grid, and compositing cells picked from different candidates onto
+ * one grid so the saved generation can still be re-extracted.
+ */
+
+import type { ExtractionDiagnostics } from './spriteExtractor';
+
+export interface CellRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Minimal view of a candidate needed for picking and compositing. */
+export interface PickableCandidate {
+  image: { data: string; mimeType: string } | null;
+  diagnostics: ExtractionDiagnostics | null;
+}
+
+/** Content rectangle of every cell, row-major, from the spans extraction used. */
+export function candidateCellRects(diagnostics: ExtractionDiagnostics): CellRect[] {
+  const rects: CellRect[] = [];
+  for (const row of diagnostics.rows.finalSpans) {
+    for (const col of diagnostics.cols.finalSpans) {
+      rects.push({ x: col.start, y: row.start, w: col.size, h: row.size });
+    }
+  }
+  return rects;
+}
+
+/** Whether a candidate can supply cells: it has a grid and was sliced. */
+export function isUsable(candidate: PickableCandidate): boolean {
+  return candidate.image !== null && candidate.diagnostics !== null;
+}
+
+/** Every cell taken from the first usable candidate (-1 when there is none). */
+export function defaultPicks<T extends PickableCandidate>(candidates: T[], cellCount: number): number[] {
+  const first = candidates.findIndex(isUsable);
+  return Array(cellCount).fill(first);
+}
+
+/**
+ * The candidate whose grid the composite is built on: the one most cells
+ * were picked from, ties going to the earlier candidate.
+ */
+export function baseCandidate(picks: number[]): number {
+  const counts = new Map<number, number>();
+  for (const p of picks) counts.set(p, (counts.get(p) ?? 0) + 1);
+  let best = picks[0] ?? -1;
+  for (const [idx, count] of counts) {
+    const bestCount = counts.get(best) ?? 0;
+    if (count > bestCount || (count === bestCount && idx < best)) best = idx;
+  }
+  return best;
+}
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/**
+ * Paint the picked cells onto the base candidate's grid. Each cell is
+ * scaled from its source candidate's content rectangle into the base's,
+ * so the base's grid lines and headers survive for re-extraction.
+ */
+export async function compositeCandidates<T extends PickableCandidate>(
+  candidates: T[],
+  picks: number[],
+): Promise<{ data: string; mimeType: string }> {
+  const baseIdx = baseCandidate(picks);
+  const base = candidates[baseIdx];
+  if (!base || !isUsable(base)) throw new Error('No usable candidate to build on');
+  if (picks.every(p => p === baseIdx)) return base.image!;
+
+  const baseImg = await loadImage(base.image!.data, base.image!.mimeType);
+  const canvas = document.createElement('canvas');
+  canvas.width = baseImg.width;
+  canvas.height = baseImg.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(baseImg, 0, 0);
+
+  const baseRects = candidateCellRects(base.diagnostics!);
+  const images = new Map<number, HTMLImageElement>();
+  for (const [cell, idx] of picks.entries()) {
+    if (idx === baseIdx) continue;
+    const source = candidates[idx];
+    if (!source || !isUsable(source)) continue;
+    if (!images.has(idx)) images.set(idx, await loadImage(source.image!.data, source.image!.mimeType));
+    const src = candidateCellRects(source.diagnostics!)[cell];
+    const dst = baseRects[cell];
+    if (!src || !dst) continue;
+    ctx.clearRect(dst.x, dst.y, dst.w, dst.h);
+    ctx.drawImage(images.get(idx)!, src.x, src.y, src.w, src.h, dst.x, dst.y, dst.w, dst.h);
+  }
+
+  return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+}
@@ -242,7 +242,8 @@ export function getBackgroundGridConfig(
 
 // ── Grid preset conversion ─────────────────────────────────────────────────
 
-function getTemplateParams(gridSize: string, spriteType: string, aspectRatio: string = '1:1'): GridConfig['templates'] {
+/** Template cell sizes for a grid size; unknown sizes get cells that fill a 2K/4K canvas. */
+export function getTemplateParams(gridSize: string, spriteType: string, aspectRatio: string = '1:1'): GridConfig['templates'] {
   if (spriteType === 'character' && gridSize === '6x6') return CHARACTER_GRID.templates;
   if (spriteType === 'building' && BUILDING_GRIDS[gridSize]) return BUILDING_GRIDS[gridSize].templates;
   if (spriteType === 'terrain' && TERRAIN_GRIDS[gridSize]) return TERRAIN_GRIDS[gridSize].templates;
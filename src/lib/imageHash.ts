@@ -0,0 +1,14 @@
+/**
+ * Content hash for base64 image data, recorded with a generation so the
+ * reference image it was made from can be recognised later without
+ * storing it twice.
+ */
+
+/** Hex SHA-256 of the decoded bytes of a base64 image. */
+export async function hashImageData(base64: string): Promise<string> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
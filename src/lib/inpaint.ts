@@ -0,0 +1,172 @@
+/**
+ * Inpainting a rectangle of one sprite: masking the region to chroma pink
+ * for the model, keeping only the returned pixels inside the region, and
+ * mapping the region from sprite pixels back onto the filled grid so the
+ * fix survives re-extraction.
+ */
+
+import { candidateCellRects, type CellRect } from './gridCandidates';
+import type { ExtractionDiagnostics } from './spriteExtractor';
+
+type RGB = [number, number, number];
+
+const CHROMA_PINK: RGB = [255, 0, 255];
+
+/** Rectangle spanned by two dragged-over pixels (inclusive), clamped to the sprite. */
+export function dragRect(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  width: number,
+  height: number,
+): CellRect {
+  const x0 = Math.max(0, Math.min(a.x, b.x));
+  const y0 = Math.max(0, Math.min(a.y, b.y));
+  const x1 = Math.min(width - 1, Math.max(a.x, b.x));
+  const y1 = Math.min(height - 1, Math.max(a.y, b.y));
+  return { x: x0, y: y0, w: Math.max(0, x1 - x0 + 1), h: Math.max(0, y1 - y0 + 1) };
+}
+
+/** Copy of the sprite with `rect` painted opaque chroma pink. */
+export function maskRegion(image: ImageData, rect: CellRect, key: RGB = CHROMA_PINK): ImageData {
+  const out = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * image.width + x) * 4;
+      out.data[i] = key[0];
+      out.data[i + 1] = key[1];
+      out.data[i + 2] = key[2];
+      out.data[i + 3] = 255;
+    }
+  }
+  return out;
+}
+
+/** Copy of `base` with the pixels inside `rect` taken from `patch` (same size). */
+export function compositeRegion(base: ImageData, patch: ImageData, rect: CellRect): ImageData {
+  const out = new ImageData(new Uint8ClampedArray(base.data), base.width, base.height);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * base.width + x) * 4;
+      out.data[i] = patch.data[i];
+      out.data[i + 1] = patch.data[i + 1];
+      out.data[i + 2] = patch.data[i + 2];
+      out.data[i + 3] = patch.data[i + 3];
+    }
+  }
+  return out;
+}
+
+/** Prompt asking for the masked rectangle to be redrawn to fit the rest of the sprite. */
+export function buildInpaintPrompt(label: string, rect: CellRect, width: number, height: number, instruction: string): string {
+  return `\
+This is a single pixel-art sprite ("${label}", ${width}×${height} pixels) on a
+bright magenta (#FF00FF) chroma-key background. A rectangle from (${rect.x}, ${rect.y})
+to (${rect.x + rect.w - 1}, ${rect.y + rect.h - 1}) has been painted over with solid magenta.
+
+Redraw only what belongs inside that rectangle so it joins seamlessly with the
+rest of the sprite: same palette, outline weight, shading and pixel scale.
+${instruction.trim() ? `\nFIX: ${instruction.trim()}\n` : ''}
+Leave everything outside the rectangle exactly as it is, keep the magenta
+background, and return the whole sprite as a single image at the same framing.`;
+}
+
+/**
+ * A cell's content rect on the filled grid and where its crop sits in the
+ * sprite: sprites are padded to the largest cell, bottom-aligned and
+ * centered.
+ */
+function cellPlacement(diagnostics: ExtractionDiagnostics, cellIndex: number) {
+  const cells = candidateCellRects(diagnostics);
+  const cell = cells[cellIndex];
+  if (!cell) return null;
+  const offX = Math.floor((Math.max(...cells.map(c => c.w)) - cell.w) / 2);
+  const offY = Math.max(...cells.map(c => c.h)) - cell.h;
+  return { cell, offX, offY };
+}
+
+/**
+ * Where a rectangle of an extracted sprite lies on the filled grid. Null
+ * when the rectangle falls entirely in the sprite's padding.
+ */
+export function spriteRectToSheet(diagnostics: ExtractionDiagnostics, cellIndex: number, rect: CellRect): CellRect | null {
+  const placement = cellPlacement(diagnostics, cellIndex);
+  if (!placement) return null;
+  const { cell, offX, offY } = placement;
+
+  const x0 = Math.max(0, rect.x - offX);
+  const y0 = Math.max(0, rect.y - offY);
+  const x1 = Math.min(cell.w, rect.x + rect.w - offX);
+  const y1 = Math.min(cell.h, rect.y + rect.h - offY);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: cell.x + x0, y: cell.y + y0, w: x1 - x0, h: y1 - y0 };
+}
+
+function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image (${mimeType})`));
+    img.src = `data:${mimeType};base64,${base64}`;
+  });
+}
+
+/** Decode an image, scaled to width × height. */
+export async function decodeImage(image: { data: string; mimeType: string }, width: number, height: number): Promise<ImageData> {
+  const img = await loadImage(image.data, image.mimeType);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/** PNG base64 of an ImageData. */
+export function encodePng(image: ImageData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+}
+
+/**
+ * Paint the pixels of `patch` (sprite-sized) inside `rect` onto the filled
+ * grid where that region of the sprite was cropped from. Returns the new
+ * grid as PNG, or null when the region lies outside the cell.
+ */
+export async function spliceRegion(
+  sheet: { data: string; mimeType: string },
+  diagnostics: ExtractionDiagnostics,
+  cellIndex: number,
+  patch: ImageData,
+  rect: CellRect,
+): Promise<{ data: string; mimeType: string } | null> {
+  const placement = cellPlacement(diagnostics, cellIndex);
+  const target = spriteRectToSheet(diagnostics, cellIndex, rect);
+  if (!placement || !target) return null;
+  const { cell, offX, offY } = placement;
+
+  const sheetImg = await loadImage(sheet.data, sheet.mimeType);
+  const canvas = document.createElement('canvas');
+  canvas.width = sheetImg.width;
+  canvas.height = sheetImg.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(sheetImg, 0, 0);
+
+  const region = ctx.getImageData(target.x, target.y, target.w, target.h);
+  for (let y = 0; y < target.h; y++) {
+    for (let x = 0; x < target.w; x++) {
+      const si = ((target.y - cell.y + offY + y) * patch.width + (target.x - cell.x + offX + x)) * 4;
+      const di = (y * target.w + x) * 4;
+      region.data[di] = patch.data[si];
+      region.data[di + 1] = patch.data[si + 1];
+      region.data[di + 2] = patch.data[si + 2];
+      region.data[di + 3] = patch.data[si + 3];
+    }
+  }
+  ctx.putImageData(region, target.x, target.y);
+
+  return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+}
@@ -7,7 +7,7 @@
  */
 
 import type { Dispatch } from 'react';
-import { extractSprites, type ExtractedSprite } from './spriteExtractor';
+import { extractSprites, type ExtractedSprite, type ExtractionDiagnostics } from './spriteExtractor';
 import {
   getBuildingGridConfig,
   getTerrainGridConfig,
@@ -19,6 +19,7 @@ import {
   type TerrainGridSize,
   type BackgroundGridSize,
 } from './gridConfig';
+import { initialState } from '../context/AppContext';
 import type { SpriteType, Action, AppState, RestoreSessionPayload } from '../context/AppContext';
 import type { HistoryResponse } from '../types/api';
 
@@ -121,6 +122,7 @@ export async function loadGenerationIntoState(
   // 3. Extract sprites or restore from history
   const mimeType = data.filledGridMimeType || 'image/png';
   let sprites: ExtractedSprite[] = [];
+  let extractionDiagnostics: ExtractionDiagnostics | null = null;
 
   if (data.filledGridImage) {
     // Build extraction config
@@ -154,7 +156,7 @@ export async function loadGenerationIntoState(
       };
     }
 
-    sprites = await extractSprites(data.filledGridImage, mimeType, extractionConfig);
+    ({ sprites, diagnostics: extractionDiagnostics } = await extractSprites(data.filledGridImage, mimeType, extractionConfig));
   } else if (data.sprites && data.sprites.length > 0) {
     // Sprites loaded from history may lack width/height; default to 0
     sprites = data.sprites.map(s => ({
@@ -176,6 +178,7 @@ export async function loadGenerationIntoState(
     filledGridMimeType: mimeType,
     geminiText: data.geminiText || '',
     sprites,
+    extractionDiagnostics,
     historyId: opts.historyId,
     sourceGroupId: data.groupId || null,
     sourceContentPresetId: data.contentPresetId || null,
@@ -183,3 +186,105 @@ export async function loadGenerationIntoState(
 
   dispatch({ type: 'RESTORE_SESSION', payload });
 }
+
+/**
+ * Fetch a saved generation with its editor settings and load it into a
+ * freshly reset state. Used by the gallery and the run summary.
+ * Throws when the generation cannot be fetched.
+ */
+export async function openHistoryEntry(id: number, dispatch: Dispatch<Action>): Promise<void> {
+  const res = await fetch(`/api/history/${id}`);
+  if (!res.ok) throw new Error('Failed to load generation');
+  const data: HistoryResponse = await res.json();
+
+  // Reset previous state before loading new generation
+  dispatch({ type: 'RESET' });
+
+  // Load saved editor settings so extraction uses the saved aaInset/posterizeBits
+  let savedSettings: { aaInset?: number; posterizeBits?: number } | null = null;
+  try {
+    const settingsRes = await fetch(`/api/history/${id}/settings`);
+    savedSettings = await settingsRes.json();
+  } catch {
+    dispatch({ type: 'SET_STATUS', message: 'Failed to load editor settings', statusType: 'warning' });
+  }
+
+  await loadGenerationIntoState(data, dispatch, {
+    historyId: id,
+    editorSettings: savedSettings,
+  });
+}
+
+const VALID_GRID_SIZES: Partial<Record<SpriteType, Record<string, unknown>>> = {
+  building: BUILDING_GRIDS,
+  terrain: TERRAIN_GRIDS,
+  background: BACKGROUND_GRIDS,
+};
+
+/**
+ * The content fields to restore for a replay: the recorded snapshot laid
+ * over the sprite type's defaults, keeping only fields the type knows and
+ * whose values have the expected shape. Generations saved before requests
+ * were recorded only have a name and description to go on.
+ */
+export function replayContent(spriteType: SpriteType, data: HistoryResponse): Record<string, unknown> {
+  const defaults = initialState[spriteType] as unknown as Record<string, unknown>;
+  const recorded: Record<string, unknown> = data.request?.content
+    ?? { name: data.content?.name ?? '', description: data.content?.description ?? '' };
+  const content: Record<string, unknown> = {};
+
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = recorded[key];
+    if (value === undefined) continue;
+    if (Array.isArray(fallback) ? !Array.isArray(value) : typeof value !== typeof fallback) continue;
+    content[key] = value;
+  }
+
+  const grids = VALID_GRID_SIZES[spriteType];
+  const gridSize = (content.gridSize as string | undefined) ?? data.gridSize;
+  if (grids && gridSize && gridSize in grids) {
+    content.gridSize = gridSize;
+    if (spriteType === 'background' && content.bgMode === undefined) {
+      content.bgMode = gridSize.startsWith('1x') ? 'parallax' : 'scene';
+    }
+  } else {
+    delete content.gridSize;
+  }
+  return content;
+}
+
+/**
+ * Fetch a saved generation and put the request it was made with back into
+ * the config panel. An exact replay regenerates from the recorded prompt;
+ * otherwise the settings are loaded for editing. Throws when the
+ * generation cannot be fetched.
+ */
+export async function replayHistoryEntry(id: number, dispatch: Dispatch<Action>, exact: boolean): Promise<void> {
+  const res = await fetch(`/api/history/${id}`);
+  if (!res.ok) throw new Error('Failed to load generation');
+  const data: HistoryResponse = await res.json();
+  const spriteType = (data.spriteType || 'character') as SpriteType;
+  const request = data.request;
+
+  dispatch({ type: 'RESET' });
+  dispatch({
+    type: 'START_REPLAY',
+    payload: {
+      spriteType,
+      content: replayContent(spriteType, data),
+      model: request?.model || initialState.model,
+      imageSize: request?.imageSize || initialState.imageSize,
+      aspectRatio: request?.aspectRatio || data.aspectRatio || initialState.aspectRatio,
+      replay: {
+        historyId: id,
+        prompt: data.prompt ?? '',
+        contentPresetId: data.contentPresetId ?? null,
+        gridLinkId: request?.gridLinkId ?? null,
+        promptTemplateId: request?.promptTemplateId ?? null,
+        promptTemplateVersion: request?.promptTemplateVersion ?? null,
+        // Without a recorded prompt there is nothing to send verbatim
+        exact: exact && !!data.prompt,
+      },
+    },
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Horizontal loop-seam check and repair for parallax layers.
+ *
+ * A parallax layer repeats side by side, so only its left/right wrap has
+ * to be seamless. The check reuses the terrain seam measure restricted to
+ * that wrap; the repair blends the outer columns on each side of it and
+ * runs in the review's sprite processing, so it reaches every preview and
+ * export while the original layer stays untouched.
+ */
+
+import { crossFadeColumns, edgeMismatch, edgeVariation, edgeWeight, seamScore } from './seamless';
+
+export type LoopFixMethod = 'mirror-blend' | 'cross-fade';
+
+export const LOOP_FIX_METHODS: Record<LoopFixMethod, { label: string; description: string }> = {
+  'mirror-blend': {
+    label: 'Mirror Blend',
+    description: 'Blend each edge with its mirror image across the seam, so both sides meet on the same column',
+  },
+  'cross-fade': {
+    label: 'Cross-fade',
+    description: 'Spread the colour jump at the seam across the outer pixels of both edges',
+  },
+};
+
+/** Repair of one layer's wrap: the method and how many pixels in from each edge it reaches. */
+export interface LoopFix {
+  method: LoopFixMethod;
+  band: number;
+}
+
+export const DEFAULT_LOOP_FIX: LoopFix = { method: 'mirror-blend', band: 16 };
+
+/** Largest useful band: past a quarter of the width the blend eats into the layer's middle. */
+export function maxLoopBand(width: number): number {
+  return Math.max(1, Math.floor(width / 4));
+}
+
+/** Seam score of the left/right wrap alone, as a multiple of the change just inside the edges. */
+export function loopSeamScore(image: ImageData): number {
+  const mismatch = edgeMismatch(image);
+  return seamScore({ horizontal: mismatch.horizontal, vertical: 0 }, edgeVariation(image));
+}
+
+/**
+ * Column k from the left edge and column k from the right edge sit
+ * mirrored about the seam. Each is pulled towards the other, halfway at
+ * the seam itself, so the outermost columns become equal and the blend
+ * fades out inwards.
+ */
+function mirrorBlend(image: ImageData, band: number): ImageData {
+  const { width, height, data } = image;
+  const out = new ImageData(new Uint8ClampedArray(data), width, height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let k = 0; k < band; k++) {
+      const w = edgeWeight(k, band) / 2;
+      const left = (row + k) * 4;
+      const right = (row + width - 1 - k) * 4;
+      for (let c = 0; c < 4; c++) {
+        out.data[left + c] = Math.round(data[left + c] * (1 - w) + data[right + c] * w);
+        out.data[right + c] = Math.round(data[right + c] * (1 - w) + data[left + c] * w);
+      }
+    }
+  }
+  return out;
+}
+
+/** Make a layer wrap horizontally without a visible seam. */
+export function fixLoopSeam(image: ImageData, fix: LoopFix): ImageData {
+  const band = Math.min(Math.max(1, Math.round(fix.band)), maxLoopBand(image.width));
+  return fix.method === 'mirror-blend' ? mirrorBlend(image, band) : crossFadeColumns(image, band);
+}
@@ -0,0 +1,62 @@
+/**
+ * Onion-skin frame selection for the animation preview.
+ *
+ * Neighbouring frames are drawn faintly behind the current one so drift
+ * between poses is visible at a glance: past frames in one tint, future
+ * frames in another, fading with distance.
+ */
+
+export interface OnionSkinSettings {
+  /** Frames shown on each side of the current one; 0 turns onion-skin off */
+  depth: number;
+  /** Opacity of the nearest neighbour, 0–1 */
+  opacity: number;
+  /** Tint past/future frames instead of drawing them in their own colours */
+  tint: boolean;
+}
+
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = { depth: 1, opacity: 0.35, tint: true };
+
+export const ONION_TINTS = {
+  past: 'rgb(255, 80, 80)',
+  future: 'rgb(80, 200, 255)',
+} as const;
+
+export interface OnionFrame {
+  cellIndex: number;
+  /** Steps away from the current frame, 1 = adjacent */
+  distance: number;
+  direction: 'past' | 'future';
+  alpha: number;
+}
+
+/**
+ * Neighbours of `frameIndex` to draw behind it, farthest first so the
+ * nearest end up on top. Looping animations wrap; positions that land on
+ * the current frame or repeat an earlier pick (short loops) are skipped.
+ */
+export function onionFrames(
+  frames: number[],
+  frameIndex: number,
+  settings: OnionSkinSettings,
+  loop = true,
+): OnionFrame[] {
+  const n = frames.length;
+  if (n <= 1 || settings.depth <= 0) return [];
+  const current = frames[frameIndex];
+  const used = new Set<number>([frameIndex]);
+  const picked: OnionFrame[] = [];
+
+  for (let distance = 1; distance <= settings.depth; distance++) {
+    const alpha = settings.opacity * (1 - (distance - 1) / settings.depth);
+    for (const direction of ['past', 'future'] as const) {
+      let pos = direction === 'past' ? frameIndex - distance : frameIndex + distance;
+      if (loop) pos = ((pos % n) + n) % n;
+      else if (pos < 0 || pos >= n) continue;
+      if (used.has(pos) || frames[pos] === current) continue;
+      used.add(pos);
+      picked.push({ cellIndex: frames[pos], distance, direction, alpha });
+    }
+  }
+  return picked.reverse();
+}
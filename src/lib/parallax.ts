@@ -0,0 +1,76 @@
+/**
+ * Parallax scene model for background layer sheets.
+ *
+ * Layers come in grid order, far (sky) first and nearest last. Each one
+ * scrolls at its own fraction of the camera's movement, so distant layers
+ * drift while near ones rush past. Speeds are saved with the editor
+ * settings and written into the export metadata for engines to pick up.
+ */
+
+export interface ParallaxLayer {
+  cellIndex: number;
+  label: string;
+  /** Scroll speed as a fraction of the camera's movement (1 = moves with the foreground) */
+  speed: number;
+}
+
+/** Parallax block in export metadata (atlas descriptor and archive manifest) */
+export interface ParallaxMeta {
+  layers: Array<{ name: string; cellIndex: number; speed: number }>;
+}
+
+export const MAX_PARALLAX_SPEED = 2;
+
+/** Evenly spread speeds from 0.1 for the farthest layer to 1 for the nearest. */
+export function defaultParallaxSpeeds(count: number): number[] {
+  if (count <= 1) return new Array(Math.max(count, 0)).fill(1);
+  return Array.from({ length: count }, (_, i) => Math.round((0.1 + (0.9 * i) / (count - 1)) * 100) / 100);
+}
+
+/** Saved speeds where they are usable, the defaults for the rest. */
+export function resolveParallaxSpeeds(saved: number[], count: number): number[] {
+  const defaults = defaultParallaxSpeeds(count);
+  return defaults.map((d, i) => {
+    const s = saved[i];
+    return typeof s === 'number' && Number.isFinite(s) ? Math.min(Math.max(s, 0), MAX_PARALLAX_SPEED) : d;
+  });
+}
+
+/** Layers far to near, in the order the sprites are shown, with their speeds. */
+export function parallaxLayers(sprites: Array<{ cellIndex: number; label: string }>, saved: number[]): ParallaxLayer[] {
+  const speeds = resolveParallaxSpeeds(saved, sprites.length);
+  return sprites.map((s, i) => ({ cellIndex: s.cellIndex, label: s.label, speed: speeds[i] }));
+}
+
+/**
+ * Where to draw the first copy of a horizontally repeating layer `width`
+ * pixels wide when the camera is at `cameraX`: always in (-width, 0], so
+ * copies at that x plus multiples of `width` cover the view.
+ */
+export function layerOffset(cameraX: number, speed: number, width: number): number {
+  if (width <= 0) return 0;
+  const shift = (((cameraX * speed) % width) + width) % width;
+  return shift === 0 ? 0 : -shift;
+}
+
+export function buildParallaxMeta(layers: ParallaxLayer[]): ParallaxMeta {
+  return { layers: layers.map((l) => ({ name: l.label, cellIndex: l.cellIndex, speed: l.speed })) };
+}
+
+/**
+ * Walk-cycle cells of a character sheet for the preview walker: the
+ * "Walk Right" frames ping-ponged like the Walk animations, or the
+ * "Walk Left" frames to be mirrored when a sheet has no right-facing walk.
+ */
+export function walkCycle(sprites: Array<{ cellIndex: number; label: string }>): { cells: number[]; facesLeft: boolean } | null {
+  const frames = (dir: string) => sprites
+    .filter((s) => s.label.toLowerCase().startsWith(`walk ${dir}`))
+    .sort((a, b) => a.cellIndex - b.cellIndex)
+    .map((s) => s.cellIndex);
+  const pingPong = (cells: number[]) => (cells.length > 2 ? [...cells, ...cells.slice(1, -1).reverse()] : cells);
+  const right = frames('right');
+  if (right.length > 0) return { cells: pingPong(right), facesLeft: false };
+  const left = frames('left');
+  if (left.length > 0) return { cells: pingPong(left), facesLeft: true };
+  return null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Per-sprite pivot (anchor) points.
+ *
+ * A pivot is a point in sprite pixel space, (0,0) at the top-left corner.
+ * Unless the user places one, a sprite's pivot is the bottom-center of its
+ * opaque bounding box, so off-center poses (extended weapons, doors set to
+ * one side) stay planted instead of drifting with the cell's centre.
+ *
+ * Frames are aligned by lining their pivots up on a shared anchor; the
+ * same alignment drives the animation preview and the animated exports.
+ */
+
+import type { AtlasRect } from './atlasExporter';
+
+export interface Pivot {
+  x: number;
+  y: number;
+}
+
+/** Bottom-center of an opaque bounding box. */
+export function defaultPivot(trim: AtlasRect): Pivot {
+  return { x: trim.x + trim.w / 2, y: trim.y + trim.h };
+}
+
+/** Pivot of a sprite after a horizontal flip. */
+export function mirrorPivot(pivot: Pivot, width: number): Pivot {
+  return { x: width - pivot.x, y: pivot.y };
+}
+
+/**
+ * Effective pivot of every sprite, keyed by cellIndex: the placed pivot when
+ * there is one, otherwise the default for its opaque bounds (whole sprite
+ * when unmeasured). A frame offset shifts the sprite away from its pivot,
+ * so it moves the pivot the opposite way. Mirrored cells get their pivot
+ * flipped to match the drawn image.
+ */
+export function resolvePivots(
+  sprites: Array<{ cellIndex: number; width: number; height: number }>,
+  trims: Map<number, AtlasRect>,
+  placed: Map<number, Pivot>,
+  mirroredCells: Set<number> = new Set(),
+  offsets: Map<number, { x: number; y: number }> = new Map(),
+): Map<number, Pivot> {
+  const pivots = new Map<number, Pivot>();
+  for (const s of sprites) {
+    const base = placed.get(s.cellIndex)
+      ?? defaultPivot(trims.get(s.cellIndex) ?? { x: 0, y: 0, w: s.width, h: s.height });
+    const offset = offsets.get(s.cellIndex);
+    const pivot = offset ? { x: base.x - offset.x, y: base.y - offset.y } : base;
+    pivots.set(s.cellIndex, mirroredCells.has(s.cellIndex) ? mirrorPivot(pivot, s.width) : pivot);
+  }
+  return pivots;
+}
+
+export interface PivotAlignment {
+  /** Size of the box that holds every aligned frame */
+  width: number;
+  height: number;
+  /** Where all pivots land inside the box */
+  anchor: Pivot;
+  /** Top-left of each frame inside the box, in input order */
+  offsets: Array<{ x: number; y: number }>;
+}
+
+/**
+ * Line frames up so their pivots coincide. Pivots are rounded to whole
+ * pixels so frames stay on the pixel grid.
+ */
+export function alignOnPivots(frames: Array<{ width: number; height: number; pivot: Pivot }>): PivotAlignment {
+  if (frames.length === 0) return { width: 0, height: 0, anchor: { x: 0, y: 0 }, offsets: [] };
+  const px = frames.map(f => Math.round(f.pivot.x));
+  const py = frames.map(f => Math.round(f.pivot.y));
+  const anchor = { x: Math.max(...px), y: Math.max(...py) };
+  const offsets = frames.map((_, i) => ({ x: anchor.x - px[i], y: anchor.y - py[i] }));
+  return {
+    width: Math.max(...frames.map((f, i) => offsets[i].x + f.width)),
+    height: Math.max(...frames.map((f, i) => offsets[i].y + f.height)),
+    anchor,
+    offsets,
+  };
+}
@@ -10,7 +10,8 @@ import { buildTerrainPrompt } from './terrainPromptBuilder';
 import { buildBackgroundPrompt } from './backgroundPromptBuilder';
 import { type GridConfig } from './gridConfig';
 import { REFERENCE_PREFIX } from './promptBuilderBase';
-import type { ContentPreset } from '../types/api';
+import { renderPromptTemplate } from './promptTemplates';
+import type { ContentPreset, PromptTemplate } from '../types/api';
 
 export { REFERENCE_PREFIX };
 
@@ -21,16 +22,32 @@ export async function fetchContentPreset(spriteType: SpriteType, presetId: strin
   return res.json();
 }
 
-/** Build prompt for any sprite type */
+/**
+ * Build prompt for any sprite type. With a prompt template it is rendered
+ * from the template instead of the built-in builder.
+ */
 export function buildPromptForType(
   spriteType: SpriteType,
   contentPreset: ContentPreset,
   gridLink: GridLink,
   gridConfig: GridConfig,
   isSubsequentGrid: boolean,
+  template?: Pick<PromptTemplate, 'body'> | null,
 ): string {
   let prompt: string;
 
+  if (template) {
+    prompt = renderPromptTemplate(
+      template,
+      spriteType,
+      contentPreset,
+      gridConfig,
+      gridLink.genericGuidance,
+      gridLink.guidanceOverride,
+    );
+    return isSubsequentGrid ? REFERENCE_PREFIX + prompt : prompt;
+  }
+
   switch (spriteType) {
     case 'character': {
       const charConfig: CharacterConfig = {
@@ -0,0 +1,183 @@
+/**
+ * Prompt templates stored in the database. A template is prompt text with
+ * {{placeholder}} variables filled in from the content, the grid and the
+ * layered guidance; sprite types without an active template keep using the
+ * built-in prompt builders.
+ */
+
+import type { SpriteType } from '../context/AppContext';
+import type { BackgroundMode, GridConfig } from './gridConfig';
+import type { PromptTemplate } from '../types/api';
+import { buildCellDescriptions } from './promptBuilderBase';
+import { buildGridFillPrompt } from './promptBuilder';
+import { buildBuildingPrompt } from './buildingPromptBuilder';
+import { buildTerrainPrompt } from './terrainPromptBuilder';
+import { buildBackgroundPrompt } from './backgroundPromptBuilder';
+
+/** How each sprite type words its cell lines and where its own guidance lives. */
+const TYPE_FIELDS: Record<SpriteType, { fillNoun: string; fallbackPrefix: string; guidanceField: string }> = {
+  character: { fillNoun: 'sprite', fallbackPrefix: 'Cell', guidanceField: 'rowGuidance' },
+  building: { fillNoun: 'building sprite', fallbackPrefix: 'Cell', guidanceField: 'cellGuidance' },
+  terrain: { fillNoun: 'terrain tile', fallbackPrefix: 'Tile', guidanceField: 'tileGuidance' },
+  background: { fillNoun: 'background layer', fallbackPrefix: 'Cell', guidanceField: 'layerGuidance' },
+};
+
+const COMMON_VARIABLES = [
+  { name: 'name', description: 'Content name' },
+  { name: 'NAME', description: 'Content name in capitals' },
+  { name: 'description', description: 'Content description' },
+  { name: 'colorNotes', description: 'Color palette notes' },
+  { name: 'styleNotes', description: 'Additional style notes' },
+  { name: 'cellDescriptions', description: 'One line per cell with its header label and position' },
+  { name: 'guidance', description: 'Grid preset guidance followed by the content or link override' },
+  { name: 'cols', description: 'Grid columns' },
+  { name: 'rows', description: 'Grid rows' },
+  { name: 'totalCells', description: 'Number of cells' },
+];
+
+/** Placeholders a template of each sprite type can use. */
+export const TEMPLATE_VARIABLES: Record<SpriteType, Array<{ name: string; description: string }>> = {
+  character: [...COMMON_VARIABLES, { name: 'equipment', description: 'Equipment notes' }],
+  building: [...COMMON_VARIABLES, { name: 'details', description: 'Structural details' }],
+  terrain: COMMON_VARIABLES,
+  background: [...COMMON_VARIABLES, { name: 'bgMode', description: '"parallax" or "scene"' }],
+};
+
+/**
+ * A number that counts as `value` in the builders' arithmetic but prints
+ * as the named placeholder, so a built prompt keeps the grid variable.
+ */
+function placeholderNumber(name: string, value: number): number {
+  return { valueOf: () => value, toString: () => `{{${name}}}` } as unknown as number;
+}
+
+/** Label of the single cell the starters are built with; its line becomes {{cellDescriptions}}. */
+const CELL_SENTINEL = '\u0000cell';
+const CELL_LINE = new RegExp(`^.*${CELL_SENTINEL}.*$`, 'm');
+
+const STARTER_GRID: GridConfig = {
+  id: 'starter',
+  label: 'Starter',
+  cols: placeholderNumber('cols', 1),
+  rows: placeholderNumber('rows', 1),
+  totalCells: placeholderNumber('totalCells', 1),
+  cellLabels: [CELL_SENTINEL],
+  templates: {
+    '2K': { cellW: 0, cellH: 0, headerH: 0, border: 0, fontSize: 0 },
+    '4K': { cellW: 0, cellH: 0, headerH: 0, border: 0, fontSize: 0 },
+  },
+};
+
+/**
+ * Every content field the builders print, as its placeholder. The builders
+ * print the name in capitals, which {{NAME}} stands for. Guidance comes in
+ * through the grid guidance argument instead, so the content's is empty.
+ */
+const STARTER_CONTENT = {
+  name: '{{name}}',
+  description: '{{description}}',
+  equipment: '{{equipment}}',
+  details: '{{details}}',
+  colorNotes: '{{colorNotes}}',
+  styleNotes: '{{styleNotes}}',
+  rowGuidance: '',
+  cellGuidance: '',
+  tileGuidance: '',
+  layerGuidance: '',
+};
+
+/**
+ * Starting point for a new template: the sprite type's built-in prompt,
+ * built with placeholders for its values. Backgrounds follow `bgMode`,
+ * since the two modes are worded differently.
+ */
+export function starterTemplate(spriteType: SpriteType, bgMode: BackgroundMode = 'parallax'): string {
+  switch (spriteType) {
+    case 'character': {
+      // The character builder derives its grid from the label count, so only
+      // the cell count can stay a placeholder while building
+      const labels = { length: placeholderNumber('totalCells', 36) } as unknown as string[];
+      return buildGridFillPrompt(STARTER_CONTENT, '{{guidance}}', undefined, labels)
+        .replace('6×6 grid', '{{cols}}×{{rows}} grid');
+    }
+    case 'building':
+      return buildBuildingPrompt(STARTER_CONTENT, STARTER_GRID, '{{guidance}}').replace(CELL_LINE, '{{cellDescriptions}}');
+    case 'terrain':
+      return buildTerrainPrompt(STARTER_CONTENT, STARTER_GRID, '{{guidance}}').replace(CELL_LINE, '{{cellDescriptions}}');
+    case 'background':
+      return buildBackgroundPrompt({ ...STARTER_CONTENT, bgMode }, STARTER_GRID, '{{guidance}}').replace(CELL_LINE, '{{cellDescriptions}}');
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Values for a template's placeholders. Every string field of `content`
+ * is available under its own name, alongside the grid-derived values.
+ */
+export function templateVariables(
+  spriteType: SpriteType,
+  content: object,
+  grid: GridConfig,
+  gridGenericGuidance?: string,
+  guidanceOverride?: string,
+): Record<string, string> {
+  const { fallbackPrefix, guidanceField } = TYPE_FIELDS[spriteType];
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(content)) {
+    if (typeof value === 'string') fields[key] = value;
+  }
+  // Scene backgrounds call their cells scenes, as the built-in prompt does
+  const fillNoun = spriteType === 'background' && fields.bgMode === 'scene' ? 'background scene' : TYPE_FIELDS[spriteType].fillNoun;
+  const guidance = [
+    gridGenericGuidance?.trim() ?? '',
+    guidanceOverride?.trim() || (fields[guidanceField] ?? '').trim(),
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    colorNotes: '',
+    styleNotes: '',
+    ...fields,
+    NAME: (fields.name ?? '').toUpperCase(),
+    cellDescriptions: buildCellDescriptions(grid, fillNoun, fallbackPrefix).join('\n'),
+    guidance,
+    cols: String(grid.cols),
+    rows: String(grid.rows),
+    totalCells: String(grid.totalCells),
+  };
+}
+
+/** Fill a template's placeholders; unknown ones are left in place. */
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  return body.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match,
+  );
+}
+
+/** Placeholder names in `body` that are not in `known`, each once. */
+export function unknownPlaceholders(body: string, known: string[]): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(PLACEHOLDER)) {
+    if (!known.includes(name)) unknown.add(name);
+  }
+  return [...unknown];
+}
+
+/** Render `template` for one grid of `content`. */
+export function renderPromptTemplate(
+  template: Pick<PromptTemplate, 'body'>,
+  spriteType: SpriteType,
+  content: object,
+  grid: GridConfig,
+  gridGenericGuidance?: string,
+  guidanceOverride?: string,
+): string {
+  return renderTemplate(template.body, templateVariables(spriteType, content, grid, gridGenericGuidance, guidanceOverride));
+}
+
+/** Fetch the active template of every sprite type that has one */
+export async function fetchActivePromptTemplates(): Promise<Partial<Record<SpriteType, PromptTemplate>>> {
+  const res = await fetch('/api/prompt-templates/active');
+  if (!res.ok) throw new Error(`Failed to load prompt templates (${res.status})`);
+  return res.json();
+}
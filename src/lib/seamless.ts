@@ -0,0 +1,284 @@
+/**
+ * Seamless-tiling checks and fixes for terrain tiles.
+ *
+ * A tile repeats cleanly when its right column continues into its left
+ * column, and its bottom row into its top row, about as smoothly as
+ * neighbouring pixels just inside the edges do. Edge mismatch is measured
+ * as the mean colour jump across each wrap-around seam and reported as a
+ * multiple of that pixel-to-pixel change, so busy textures are not flagged
+ * for being busy. Variants of one terrain ("Base Grass 1",
+ * "Base Grass 2") must also tile with each other, so they are measured
+ * against each other the same way.
+ */
+
+export type SeamFixMethod = 'offset-blend' | 'cross-fade';
+
+export const SEAM_FIX_METHODS: Record<SeamFixMethod, { label: string; description: string }> = {
+  'offset-blend': {
+    label: 'Offset & Blend',
+    description: 'Blend in a copy shifted by half a tile, whose edges come from the seamless middle of the tile',
+  },
+  'cross-fade': {
+    label: 'Edge Cross-fade',
+    description: 'Spread the colour jump at each edge across a band of pixels on both sides of the seam',
+  },
+};
+
+/** Seam score (mismatch ÷ edge variation) above which an edge reads as a visible seam. */
+export const SEAM_THRESHOLD = 2;
+
+/** Floor for the interior variation, so flat tiles do not turn tiny jumps into huge scores. */
+const MIN_VARIATION = 0.01;
+
+/** Mean colour jump across the two wrap-around seams, 0–1. */
+export interface EdgeMismatch {
+  /** Right edge of the tile into the left edge of the next one */
+  horizontal: number;
+  /** Bottom edge of the tile into the top edge of the one below */
+  vertical: number;
+}
+
+export interface NeighborSeam extends EdgeMismatch {
+  cellIndex: number;
+  label: string;
+}
+
+export interface SeamReport {
+  cellIndex: number;
+  label: string;
+  /** Pixel-to-pixel change just inside the edges */
+  variation: EdgeMismatch;
+  /** The tile against itself */
+  self: EdgeMismatch;
+  /** The tile followed by each other variant of its terrain */
+  neighbors: NeighborSeam[];
+  /** Worst seam score over itself and its neighbours */
+  score: number;
+}
+
+export interface TileImage {
+  cellIndex: number;
+  label: string;
+  image: ImageData;
+}
+
+/** Colour difference of two pixels, 0–1. */
+function pixelDiff(a: Uint8ClampedArray, i: number, b: Uint8ClampedArray, j: number): number {
+  return (Math.abs(a[i] - b[j]) + Math.abs(a[i + 1] - b[j + 1]) + Math.abs(a[i + 2] - b[j + 2])) / 765;
+}
+
+/**
+ * Mismatch of tile `a` followed by tile `b` (itself by default): a's right
+ * column against b's left column, and a's bottom row against b's top row.
+ */
+export function edgeMismatch(a: ImageData, b: ImageData = a): EdgeMismatch {
+  const { width, height } = a;
+  let horizontal = 0;
+  for (let y = 0; y < height; y++) {
+    horizontal += pixelDiff(a.data, (y * width + width - 1) * 4, b.data, y * width * 4);
+  }
+  let vertical = 0;
+  for (let x = 0; x < width; x++) {
+    vertical += pixelDiff(a.data, ((height - 1) * width + x) * 4, b.data, x * 4);
+  }
+  return { horizontal: horizontal / height, vertical: vertical / width };
+}
+
+/**
+ * How much the tile changes from one pixel to the next just inside its
+ * edges: between the two outermost columns on each side (horizontal) and
+ * the two outermost rows (vertical). A seam is measured against this, so
+ * a gradient or a busy texture running into the edge is not flagged.
+ */
+export function edgeVariation(image: ImageData): EdgeMismatch {
+  const { width, height, data } = image;
+  let horizontal = 0;
+  if (width > 1) {
+    for (let y = 0; y < height; y++) {
+      const row = y * width * 4;
+      horizontal += pixelDiff(data, row, data, row + 4) + pixelDiff(data, row + (width - 2) * 4, data, row + (width - 1) * 4);
+    }
+    horizontal /= height * 2;
+  }
+  let vertical = 0;
+  if (height > 1) {
+    const row = width * 4;
+    for (let x = 0; x < width; x++) {
+      const bottom = (height - 1) * row + x * 4;
+      vertical += pixelDiff(data, x * 4, data, x * 4 + row) + pixelDiff(data, bottom - row, data, bottom);
+    }
+    vertical /= width * 2;
+  }
+  return { horizontal, vertical };
+}
+
+/** Seam score of a mismatch: the worse direction, as a multiple of the variation inside the edges. */
+export function seamScore(mismatch: EdgeMismatch, variation: EdgeMismatch): number {
+  return Math.max(
+    mismatch.horizontal / Math.max(variation.horizontal, MIN_VARIATION),
+    mismatch.vertical / Math.max(variation.vertical, MIN_VARIATION),
+  );
+}
+
+/** Terrain a tile label belongs to — the label without its trailing variant number. */
+export function terrainFamily(label: string): string {
+  return label.trim().replace(/\s*\d+$/, '').toLowerCase();
+}
+
+/**
+ * Check every tile against itself and the other variants of its terrain
+ * (same label apart from a trailing number, same size).
+ */
+export function checkSeams(tiles: TileImage[]): SeamReport[] {
+  return tiles.map((tile) => {
+    const variation = edgeVariation(tile.image);
+    const self = edgeMismatch(tile.image);
+    const family = terrainFamily(tile.label);
+    const neighbors = tiles
+      .filter((other) => other.cellIndex !== tile.cellIndex
+        && terrainFamily(other.label) === family
+        && other.image.width === tile.image.width
+        && other.image.height === tile.image.height)
+      .map((other) => ({ cellIndex: other.cellIndex, label: other.label, ...edgeMismatch(tile.image, other.image) }));
+    const score = Math.max(seamScore(self, variation), ...neighbors.map((n) => seamScore(n, variation)));
+    return { cellIndex: tile.cellIndex, label: tile.label, variation, self, neighbors, score };
+  });
+}
+
+/**
+ * Overlay marking the wrap-around seams of a tile: a band along each edge,
+ * redder where the jump across the seam is larger relative to the change
+ * just inside the edges. Transparent elsewhere.
+ */
+export function seamHeatmap(image: ImageData, band = 2): ImageData {
+  const { width, height, data } = image;
+  const out = new ImageData(width, height);
+  const variation = edgeVariation(image);
+  const paint = (x: number, y: number, score: number) => {
+    const heat = Math.min(1, score / (SEAM_THRESHOLD * 2));
+    const i = (y * width + x) * 4;
+    const alpha = Math.round(heat * 220);
+    if (alpha <= out.data[i + 3]) return;
+    out.data[i] = 255;
+    out.data[i + 1] = Math.round(200 * (1 - heat));
+    out.data[i + 2] = 0;
+    out.data[i + 3] = alpha;
+  };
+  const bandX = Math.min(band, Math.floor(width / 2));
+  const bandY = Math.min(band, Math.floor(height / 2));
+  for (let y = 0; y < height; y++) {
+    const score = pixelDiff(data, (y * width + width - 1) * 4, data, y * width * 4) / Math.max(variation.horizontal, MIN_VARIATION);
+    for (let k = 0; k < bandX; k++) {
+      paint(k, y, score);
+      paint(width - 1 - k, y, score);
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    const score = pixelDiff(data, ((height - 1) * width + x) * 4, data, x * 4) / Math.max(variation.vertical, MIN_VARIATION);
+    for (let k = 0; k < bandY; k++) {
+      paint(x, k, score);
+      paint(x, height - 1 - k, score);
+    }
+  }
+  return out;
+}
+
+/** Copy of the tile wrapped around by (dx, dy). */
+function wrapShift(image: ImageData, dx: number, dy: number): ImageData {
+  const { width, height, data } = image;
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = (y + dy) % height;
+    for (let x = 0; x < width; x++) {
+      const sx = (x + dx) % width;
+      out.data.set(data.subarray((sy * width + sx) * 4, (sy * width + sx) * 4 + 4), (y * width + x) * 4);
+    }
+  }
+  return out;
+}
+
+/** Weight that is 1 on the edge and fades to 0 `band` pixels in. */
+export function edgeWeight(distance: number, band: number): number {
+  if (distance >= band) return 0;
+  const t = 1 - distance / band;
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Blend towards a copy shifted by half a tile near the edges. The shifted
+ * copy's edges are the tile's own middle, which already continues across
+ * the wrap, so the edges become seamless while the middle keeps the
+ * original pixels.
+ */
+function offsetBlend(image: ImageData, band: number): ImageData {
+  const { width, height, data } = image;
+  band = Math.min(band, Math.floor(Math.min(width, height) / 2));
+  const shifted = wrapShift(image, Math.floor(width / 2), Math.floor(height / 2));
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const wy = edgeWeight(Math.min(y, height - 1 - y), band);
+    for (let x = 0; x < width; x++) {
+      const w = Math.max(wy, edgeWeight(Math.min(x, width - 1 - x), band));
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) out.data[i + c] = Math.round(data[i + c] * (1 - w) + shifted.data[i + c] * w);
+    }
+  }
+  return out;
+}
+
+/**
+ * Meet in the middle across the left/right seam: half the colour jump is
+ * added to one side and taken from the other, fading out over `band`
+ * pixels.
+ */
+export function crossFadeColumns(image: ImageData, band: number): ImageData {
+  const { width, height } = image;
+  const out = new ImageData(new Uint8ClampedArray(image.data), width, height);
+  const d = out.data;
+  const bandX = Math.min(band, Math.floor(width / 2));
+  for (let y = 0; y < height; y++) {
+    const left = y * width * 4;
+    const right = (y * width + width - 1) * 4;
+    const jump = [0, 1, 2, 3].map((c) => d[left + c] - d[right + c]);
+    for (let k = 0; k < bandX; k++) {
+      const f = (1 - k / bandX) / 2;
+      for (let c = 0; c < 4; c++) {
+        d[left + k * 4 + c] -= jump[c] * f;
+        d[right - k * 4 + c] += jump[c] * f;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Cross-fade both seams. Columns first, then rows — the corners stay
+ * continuous because the first pass already made the left and right
+ * columns equal.
+ */
+function crossFade(image: ImageData, band: number): ImageData {
+  const { width, height } = image;
+  const out = crossFadeColumns(image, band);
+  const d = out.data;
+  const bandY = Math.min(band, Math.floor(height / 2));
+  const row = width * 4;
+  for (let x = 0; x < width; x++) {
+    const top = x * 4;
+    const bottom = ((height - 1) * width + x) * 4;
+    const jump = [0, 1, 2, 3].map((c) => d[top + c] - d[bottom + c]);
+    for (let k = 0; k < bandY; k++) {
+      const f = (1 - k / bandY) / 2;
+      for (let c = 0; c < 4; c++) {
+        d[top + k * row + c] -= jump[c] * f;
+        d[bottom - k * row + c] += jump[c] * f;
+      }
+    }
+  }
+  return out;
+}
+
+/** Make a tile repeat without visible seams, blending over `band` pixels from each edge. */
+export function fixSeams(image: ImageData, method: SeamFixMethod, band: number): ImageData {
+  const width = Math.max(1, Math.round(band));
+  return method === 'offset-blend' ? offsetBlend(image, width) : crossFade(image, width);
+}
@@ -12,6 +12,13 @@
  *
  * Fallback: If cuts don't yield the expected grid dimensions, falls back
  * to symmetrical (evenly-spaced) division of the image.
+ *
+ * Manual cuts: callers can bypass detection entirely by passing explicit
+ * row/column cut bands (edited in the grid-line editor).
+ *
+ * Diagnostics: every extraction reports how each axis was sliced, the
+ * raw bands and their divider scores, and any spans pruned away, so the
+ * review screen can flag slices that were guessed rather than detected.
  */
 
 import { COLS, ROWS, TOTAL_CELLS, CELL_LABELS } from './poses';
@@ -44,6 +51,8 @@ export interface ExtractionConfig {
   posterizeBits: number;
   /** Override grid dimensions for non-6x6 grids */
   gridOverride?: GridOverride;
+  /** Explicit cut bands that replace detection */
+  manualCuts?: GridCuts;
 }
 
 const DEFAULT_EXTRACTION: ExtractionConfig = {
@@ -53,11 +62,64 @@ const DEFAULT_EXTRACTION: ExtractionConfig = {
 
 // ── Cut detection ────────────────────────────────────────────────────────────
 
-interface Band {
+/**
+ * A cut band in image pixels (inclusive). `end === start - 1` is a
+ * zero-width cut line — the boundary between two symmetrical spans.
+ */
+export interface Band {
   start: number;
   end: number;
 }
 
+/** Horizontal (row) and vertical (column) cut bands for one grid image. */
+export interface GridCuts {
+  rows: Band[];
+  cols: Band[];
+}
+
+/** How one axis was sliced. */
+export type AxisMode = 'detected' | 'fallback' | 'manual';
+
+/** Overall extraction outcome; `hybrid` means one axis fell back. */
+export type ExtractionMode = 'detected' | 'hybrid' | 'fallback' | 'manual';
+
+export interface ContentSpan {
+  start: number;
+  size: number;
+}
+
+/** A cut band with its mean divider score (0-1). */
+export interface ScoredBand extends Band {
+  score: number;
+}
+
+export interface AxisDiagnostics {
+  mode: AxisMode;
+  /** Number of rows/columns the grid should have */
+  expected: number;
+  /** Cut bands found by divider scoring (or the manual cuts), before pruning */
+  bands: ScoredBand[];
+  /** Content spans found between the bands, before pruning */
+  detectedSpans: ContentSpan[];
+  /** Spans dropped because there were more than expected */
+  prunedSpans: ContentSpan[];
+  /** Spans actually used for cropping */
+  finalSpans: ContentSpan[];
+}
+
+export interface ExtractionDiagnostics {
+  mode: ExtractionMode;
+  width: number;
+  height: number;
+  rows: AxisDiagnostics;
+  cols: AxisDiagnostics;
+}
+
+export interface ExtractionResult {
+  sprites: ExtractedSprite[];
+  diagnostics: ExtractionDiagnostics;
+}
+
 interface CellRect {
   x: number;
   y: number;
@@ -182,6 +244,23 @@ function findCutBands(
   return merged;
 }
 
+/**
+ * Mean divider score across a band. Zero-width cut lines score the single
+ * row/column they sit on.
+ */
+function scoreBand(scores: Float64Array, band: Band): ScoredBand {
+  const start = Math.max(0, Math.min(band.start, scores.length - 1));
+  const end = Math.max(start, Math.min(band.end, scores.length - 1));
+  let sum = 0;
+  for (let i = start; i <= end; i++) sum += scores[i];
+  return { ...band, score: sum / (end - start + 1) };
+}
+
+/** Roll the two axis modes up into one extraction mode. */
+function combineModes(rows: AxisMode, cols: AxisMode): ExtractionMode {
+  return rows === cols ? rows : 'hybrid';
+}
+
 /**
  * Minimum content span size in pixels. Gaps smaller than this between
  * cuts are artifacts (anti-aliased edges, thin gaps between header
@@ -195,7 +274,7 @@ const MIN_CONTENT_SPAN = 20;
  * with aaInset trimmed from each edge. Spans smaller than MIN_CONTENT_SPAN
  * are discarded as artifacts.
  */
-function cutBandsToContentSpans(
+export function cutBandsToContentSpans(
   cuts: Band[],
   totalSize: number,
   aaInset: number,
@@ -225,6 +304,81 @@ function cutBandsToContentSpans(
   return spans;
 }
 
+/**
+ * Inverse of cutBandsToContentSpans: the cut bands that reproduce the given
+ * content spans exactly (aaInset re-added on each side). Adjacent spans
+ * separated only by their insets become zero-width cut lines.
+ */
+export function contentSpansToCutBands(
+  spans: Array<{ start: number; size: number }>,
+  totalSize: number,
+  aaInset: number,
+): Band[] {
+  const bands: Band[] = [];
+  let prevEnd = 0;
+  spans.forEach((span, i) => {
+    const cutEnd = span.start - aaInset - 1;
+    if (i > 0 || cutEnd >= 0) bands.push({ start: prevEnd, end: cutEnd });
+    prevEnd = span.start + span.size + aaInset;
+  });
+  if (prevEnd < totalSize) bands.push({ start: prevEnd, end: totalSize - 1 });
+  return bands;
+}
+
+function buildCellRects(
+  rows: Array<{ start: number; size: number }>,
+  cols: Array<{ start: number; size: number }>,
+): CellRect[] {
+  const cells: CellRect[] = [];
+  for (const row of rows) {
+    for (const col of cols) {
+      cells.push({ x: col.start, y: row.start, w: col.size, h: row.size });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cell rects from explicit cut bands. Throws when the cuts don't divide
+ * the image into exactly gridRows × gridCols content spans.
+ */
+export function cellsFromManualCuts(
+  cuts: GridCuts,
+  width: number,
+  height: number,
+  aaInset: number,
+  gridCols: number,
+  gridRows: number,
+): CellRect[] {
+  const rows = cutBandsToContentSpans(cuts.rows, height, aaInset);
+  const cols = cutBandsToContentSpans(cuts.cols, width, aaInset);
+  if (rows.length !== gridRows || cols.length !== gridCols) {
+    throw new Error(
+      `Manual cuts give ${rows.length} rows × ${cols.length} cols, expected ${gridRows} × ${gridCols}`,
+    );
+  }
+  return buildCellRects(rows, cols);
+}
+
+/** Diagnostics for an axis sliced by hand: the manual cuts, scored. */
+function manualAxisDiagnostics(
+  bands: Band[],
+  scores: Float64Array,
+  totalSize: number,
+  aaInset: number,
+  expected: number,
+): AxisDiagnostics {
+  const spans = cutBandsToContentSpans(bands, totalSize, aaInset);
+  return {
+    mode: 'manual',
+    expected,
+    bands: [...bands].sort((a, b) => a.start - b.start).map(b => scoreBand(scores, b)),
+    detectedSpans: spans,
+    prunedSpans: [],
+    finalSpans: spans,
+  };
+}
+
 /**
  * Detect full-width horizontal and vertical cuts, then compute cell rects
  * from the content regions between cuts.
@@ -232,15 +386,18 @@ function cutBandsToContentSpans(
  * Fallback: if detected cuts don't yield the expected grid dimensions,
  * falls back to symmetrical (evenly-spaced) cuts. Still strips any
  * detected header band from the top row if one was found.
+ *
+ * Returns the cell rects, the effective cut bands behind them, and
+ * per-axis diagnostics.
  */
-function detectCuts(
+export function detectCuts(
   data: Uint8ClampedArray,
   width: number,
   height: number,
   aaInset: number,
   gridCols: number,
   gridRows: number,
-): CellRect[] {
+): { cells: CellRect[]; cuts: GridCuts; rows: AxisDiagnostics; cols: AxisDiagnostics } {
   // ── Horizontal cuts ──
   const rowScores = computeRowDividerScore(data, width, height);
   const hCuts = findCutBands(rowScores);
@@ -257,8 +414,10 @@ function detectCuts(
   debugLog(`[CutDetect] Vertical cuts: ${vCuts.length}`, vCuts.map(b => `${b.start}-${b.end} (${b.end - b.start + 1}px)`));
 
   // ── Compute content spans between cuts ──
-  let hSpans = cutBandsToContentSpans(hCuts, height, aaInset);
-  let vSpans = cutBandsToContentSpans(vCuts, width, aaInset);
+  const hDetected = cutBandsToContentSpans(hCuts, height, aaInset);
+  const vDetected = cutBandsToContentSpans(vCuts, width, aaInset);
+  let hSpans = hDetected;
+  let vSpans = vDetected;
   debugLog(`[CutDetect] Content regions: ${hSpans.length} rows x ${vSpans.length} cols`);
 
   // If we have too many content spans, keep only the N largest.
@@ -322,22 +481,31 @@ function detectCuts(
     debugLog(`[CutDetect] HYBRID: symmetrical rows + detected columns.`);
   }
 
-  // ── Build cell rects ──
-  const cells: CellRect[] = [];
-  for (let row = 0; row < gridRows; row++) {
-    for (let col = 0; col < gridCols; col++) {
-      if (row < finalRows.length && col < finalCols.length) {
-        cells.push({
-          x: finalCols[col].start,
-          y: finalRows[row].start,
-          w: finalCols[col].size,
-          h: finalRows[row].size,
-        });
-      }
-    }
-  }
-
-  return cells;
+  // Report the cuts that were actually used (detected or symmetrical) so
+  // the grid-line editor starts from the current extraction.
+  return {
+    cells: buildCellRects(finalRows, finalCols),
+    cuts: {
+      rows: contentSpansToCutBands(finalRows, height, aaInset),
+      cols: contentSpansToCutBands(finalCols, width, aaInset),
+    },
+    rows: {
+      mode: rowsOk ? 'detected' : 'fallback',
+      expected: gridRows,
+      bands: hCuts.map(b => scoreBand(rowScores, b)),
+      detectedSpans: hDetected,
+      prunedSpans: hDetected.filter(sp => !hSpans.includes(sp)),
+      finalSpans: finalRows,
+    },
+    cols: {
+      mode: colsOk ? 'detected' : 'fallback',
+      expected: gridCols,
+      bands: vCuts.map(b => scoreBand(colScores, b)),
+      detectedSpans: vDetected,
+      prunedSpans: vDetected.filter(sp => !vSpans.includes(sp)),
+      finalSpans: finalCols,
+    },
+  };
 }
 
 // ── Image loading ────────────────────────────────────────────────────────────
@@ -351,8 +519,42 @@ function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement>
   });
 }
 
+/**
+ * Read the grid's pixels and posterize a copy for cut detection — absorbs
+ * JPEG artifacts and makes grid lines / backgrounds perfectly uniform
+ * without touching the original.
+ */
+function readDetectionPixels(img: HTMLImageElement, posterizeBits: number): ImageData {
+  const gridCanvas = document.createElement('canvas');
+  gridCanvas.width = img.width;
+  gridCanvas.height = img.height;
+  const gridCtx = gridCanvas.getContext('2d')!;
+  gridCtx.drawImage(img, 0, 0);
+  return posterize(gridCtx.getImageData(0, 0, img.width, img.height), posterizeBits);
+}
+
 // ── Public API ───────────────────────────────────────────────────────────────
 
+/**
+ * Run cut detection without cropping and return the effective cut bands
+ * (detected, or symmetrical where detection fell back). Used to seed the
+ * grid-line editor.
+ */
+export async function detectGridCuts(
+  gridBase64: string,
+  gridMimeType: string,
+  config: Partial<ExtractionConfig> = {},
+): Promise<{ width: number; height: number; cuts: GridCuts }> {
+  const cfg = { ...DEFAULT_EXTRACTION, ...config };
+  const img = await loadImage(gridBase64, gridMimeType);
+  const { cuts } = detectCuts(
+    readDetectionPixels(img, cfg.posterizeBits).data, img.width, img.height,
+    cfg.aaInset,
+    cfg.gridOverride?.cols ?? COLS, cfg.gridOverride?.rows ?? ROWS,
+  );
+  return { width: img.width, height: img.height, cuts };
+}
+
 /**
  * Extract sprites from a filled grid image.
  *
@@ -360,13 +562,17 @@ function loadImage(base64: string, mimeType: string): Promise<HTMLImageElement>
  * row dividers, column dividers), then crops content rectangles between cuts.
  *
  * When gridOverride is provided, uses those dimensions instead of the
- * default 6x6 character constants from poses.ts.
+ * default 6x6 character constants from poses.ts. When manualCuts is
+ * provided, detection is skipped and those cuts are used as-is.
+ *
+ * Returns the sprites together with diagnostics describing how the grid
+ * was sliced.
  */
 export async function extractSprites(
   gridBase64: string,
   gridMimeType: string,
   config: Partial<ExtractionConfig> = {},
-): Promise<ExtractedSprite[]> {
+): Promise<ExtractionResult> {
   const cfg = { ...DEFAULT_EXTRACTION, ...config };
   const gridCols = cfg.gridOverride?.cols ?? COLS;
   const gridRows = cfg.gridOverride?.rows ?? ROWS;
@@ -375,24 +581,30 @@ export async function extractSprites(
 
   const img = await loadImage(gridBase64, gridMimeType);
 
-  // Draw the full grid onto a canvas to read pixels
-  const gridCanvas = document.createElement('canvas');
-  gridCanvas.width = img.width;
-  gridCanvas.height = img.height;
-  const gridCtx = gridCanvas.getContext('2d')!;
-  gridCtx.drawImage(img, 0, 0);
-
-  const originalData = gridCtx.getImageData(0, 0, img.width, img.height);
-
-  // Posterize a copy for cut detection — absorbs JPEG artifacts and makes
-  // grid lines / backgrounds perfectly uniform without touching the original.
-  const detectionData = posterize(originalData, cfg.posterizeBits);
-
-  const cells = detectCuts(
-    detectionData.data, img.width, img.height,
-    cfg.aaInset,
-    gridCols, gridRows,
-  );
+  const { data } = readDetectionPixels(img, cfg.posterizeBits);
+  let cells: CellRect[];
+  let rows: AxisDiagnostics;
+  let cols: AxisDiagnostics;
+  if (cfg.manualCuts) {
+    cells = cellsFromManualCuts(cfg.manualCuts, img.width, img.height, cfg.aaInset, gridCols, gridRows);
+    rows = manualAxisDiagnostics(
+      cfg.manualCuts.rows, computeRowDividerScore(data, img.width, img.height),
+      img.height, cfg.aaInset, gridRows,
+    );
+    cols = manualAxisDiagnostics(
+      cfg.manualCuts.cols, computeColDividerScore(data, img.width, img.height),
+      img.width, cfg.aaInset, gridCols,
+    );
+  } else {
+    ({ cells, rows, cols } = detectCuts(data, img.width, img.height, cfg.aaInset, gridCols, gridRows));
+  }
+  const diagnostics: ExtractionDiagnostics = {
+    mode: combineModes(rows.mode, cols.mode),
+    width: img.width,
+    height: img.height,
+    rows,
+    cols,
+  };
 
   if (cells.length !== totalCells) {
     throw new Error(
@@ -432,7 +644,7 @@ export async function extractSprites(
     });
   }
 
-  return normalizeSprites(sprites);
+  return { sprites: await normalizeSprites(sprites), diagnostics };
 }
 
 /**
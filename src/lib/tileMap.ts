@@ -0,0 +1,153 @@
+/**
+ * Tile map model for the map painter.
+ *
+ * A map holds a hand-painted tile per cell plus, for autotile sheets, a
+ * terrain layer the tiles are worked out from. Blob sets keep one terrain
+ * flag per map cell; corner sets keep one per cell corner, so painting a
+ * cell raises its four corners and the neighbours pick up the transition.
+ * Wherever the terrain layer yields a tile it wins over the painted one.
+ *
+ * All updates return a new map, so React state can hold it directly.
+ */
+
+import { BLOB_BITS, CORNER_BITS, reduceBlobMask, type AutotileScheme, type AutotileSet } from './autotile';
+import { terrainFamily } from './seamless';
+
+/** Tile value of an unpainted cell. */
+export const EMPTY_TILE = -1;
+
+export interface TileMap {
+  width: number;
+  height: number;
+  /** Grid cell index painted in each map cell, row-major; EMPTY_TILE when unpainted */
+  tiles: number[];
+  /** Autotile terrain, per map cell (blob) or per cell corner, (width+1)×(height+1) (corners) */
+  terrain: boolean[];
+}
+
+function terrainSize(scheme: AutotileScheme | null, width: number, height: number): number {
+  return scheme === 'corners-16' ? (width + 1) * (height + 1) : width * height;
+}
+
+export function createTileMap(width: number, height: number, scheme: AutotileScheme | null = null): TileMap {
+  return {
+    width,
+    height,
+    tiles: new Array(width * height).fill(EMPTY_TILE),
+    terrain: new Array(terrainSize(scheme, width, height)).fill(false),
+  };
+}
+
+/** Resize, keeping what was painted from the top-left corner. */
+export function resizeTileMap(map: TileMap, width: number, height: number, scheme: AutotileScheme | null): TileMap {
+  const next = createTileMap(width, height, scheme);
+  for (let y = 0; y < Math.min(map.height, height); y++) {
+    for (let x = 0; x < Math.min(map.width, width); x++) next.tiles[y * width + x] = map.tiles[y * map.width + x];
+  }
+  // Corner terrain sits on a grid one larger than the map
+  const extra = scheme === 'corners-16' ? 1 : 0;
+  if (map.terrain.length === terrainSize(scheme, map.width, map.height)) {
+    for (let y = 0; y < Math.min(map.height, height) + extra; y++) {
+      for (let x = 0; x < Math.min(map.width, width) + extra; x++) {
+        next.terrain[y * (width + extra) + x] = map.terrain[y * (map.width + extra) + x];
+      }
+    }
+  }
+  return next;
+}
+
+/** Paint a tile (or EMPTY_TILE) into a cell; also clears autotile terrain there. */
+export function paintTile(map: TileMap, x: number, y: number, tile: number, scheme: AutotileScheme | null = null): TileMap {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return map;
+  const tiles = [...map.tiles];
+  tiles[y * map.width + x] = tile;
+  return scheme ? setTerrain({ ...map, tiles }, x, y, scheme, false) : { ...map, tiles };
+}
+
+/** Raise (or lower) autotile terrain at a cell. */
+export function paintTerrain(map: TileMap, x: number, y: number, scheme: AutotileScheme, on = true): TileMap {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return map;
+  return setTerrain(map, x, y, scheme, on);
+}
+
+function setTerrain(map: TileMap, x: number, y: number, scheme: AutotileScheme, on: boolean): TileMap {
+  const terrain = [...map.terrain];
+  if (scheme === 'corners-16') {
+    const w = map.width + 1;
+    for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) terrain[(y + dy) * w + x + dx] = on;
+  } else {
+    terrain[y * map.width + x] = on;
+  }
+  return { ...map, terrain };
+}
+
+/** Paint `tile` into every unpainted cell. */
+export function fillEmpty(map: TileMap, tile: number): TileMap {
+  return { ...map, tiles: map.tiles.map(t => (t === EMPTY_TILE ? tile : t)) };
+}
+
+/**
+ * Autotile mask of a map cell, or null where the terrain layer leaves the
+ * cell to its painted tile: blob cells without terrain, and corner cells
+ * with no raised corner. Terrain is taken to continue past the map edge.
+ */
+export function autotileMaskAt(map: TileMap, scheme: AutotileScheme, x: number, y: number): number | null {
+  if (scheme === 'corners-16') {
+    const w = map.width + 1;
+    const at = (cx: number, cy: number) => map.terrain[cy * w + cx];
+    const mask = (at(x, y) ? CORNER_BITS.NW : 0) | (at(x + 1, y) ? CORNER_BITS.NE : 0)
+      | (at(x + 1, y + 1) ? CORNER_BITS.SE : 0) | (at(x, y + 1) ? CORNER_BITS.SW : 0);
+    return mask === 0 ? null : mask;
+  }
+  const at = (cx: number, cy: number) => {
+    if (cx < 0 || cy < 0 || cx >= map.width || cy >= map.height) return true;
+    return map.terrain[cy * map.width + cx];
+  };
+  if (!at(x, y)) return null;
+  const neighbours: Array<[number, number, number]> = [
+    [0, -1, BLOB_BITS.N], [1, -1, BLOB_BITS.NE], [1, 0, BLOB_BITS.E], [1, 1, BLOB_BITS.SE],
+    [0, 1, BLOB_BITS.S], [-1, 1, BLOB_BITS.SW], [-1, 0, BLOB_BITS.W], [-1, -1, BLOB_BITS.NW],
+  ];
+  let mask = 0;
+  for (const [dx, dy, bit] of neighbours) if (at(x + dx, y + dy)) mask |= bit;
+  return reduceBlobMask(mask);
+}
+
+/** Stable pseudo-random pick per map position, so variants do not reshuffle on every stroke. */
+function positionHash(x: number, y: number): number {
+  return (Math.imul(x + 1, 73856093) ^ Math.imul(y + 1, 19349663)) >>> 0;
+}
+
+/**
+ * The tile shown in every cell: the autotile's tile where the terrain
+ * layer has one (variants of a mask spread by position), else the painted
+ * tile.
+ */
+export function resolveTiles(map: TileMap, autotile: AutotileSet | null): number[] {
+  if (!autotile) return map.tiles;
+  const byMask = new Map<number, number[]>();
+  for (const t of autotile.tiles) {
+    const list = byMask.get(t.mask) ?? [];
+    list.push(t.cellIndex);
+    byMask.set(t.mask, list);
+  }
+  return map.tiles.map((tile, i) => {
+    const x = i % map.width;
+    const y = Math.floor(i / map.width);
+    const mask = autotileMaskAt(map, autotile.scheme, x, y);
+    const options = mask === null ? undefined : byMask.get(mask);
+    return options ? options[positionHash(x, y) % options.length] : tile;
+  });
+}
+
+/**
+ * A variant of `tile` for map position (x, y): another tile of the same
+ * terrain ("Base Grass 2" for "Base Grass 1"), picked by position.
+ */
+export function pickVariant(tiles: Array<{ cellIndex: number; label: string }>, tile: number, x: number, y: number): number {
+  const label = tiles.find(t => t.cellIndex === tile)?.label;
+  if (!label) return tile;
+  const family = terrainFamily(label);
+  const variants = tiles.filter(t => terrainFamily(t.label) === family);
+  return variants.length > 1 ? variants[positionHash(x, y) % variants.length].cellIndex : tile;
+}
@@ -0,0 +1,134 @@
+/**
+ * Animated WebP encoder.
+ *
+ * Each frame is encoded to a still WebP by the browser (canvas.toBlob),
+ * then its image chunks (ALPH + VP8, or VP8L) are lifted out and wrapped
+ * in ANMF frames under a VP8X/ANIM header. No pixel coding happens here —
+ * this module only rearranges RIFF chunks.
+ */
+
+export interface WebpOptions {
+  /** Per-frame delay in milliseconds */
+  delayMs: number;
+  /** Loop forever when true; play once when false */
+  loop: boolean;
+  /** Encoder quality passed to canvas.toBlob (0-1); 1 keeps edges crisp */
+  quality?: number;
+}
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const IMAGE_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+function fourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/** Parse the chunks of a still WebP file. Throws if it isn't a WebP. */
+export function parseWebpChunks(file: Uint8Array): RiffChunk[] {
+  if (file.length < 12 || fourcc(file, 0) !== 'RIFF' || fourcc(file, 8) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: RiffChunk[] = [];
+  let pos = 12;
+  while (pos + 8 <= file.length) {
+    const size = view.getUint32(pos + 4, true);
+    chunks.push({ fourcc: fourcc(file, pos), data: file.subarray(pos + 8, pos + 8 + size) });
+    pos += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function writeChunk(fourccStr: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = fourccStr.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+function writeUint24(out: Uint8Array, offset: number, value: number) {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >> 8) & 0xff;
+  out[offset + 2] = (value >> 16) & 0xff;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+/**
+ * Combine still WebP files (one per frame, all width×height) into a single
+ * animated WebP.
+ */
+export function assembleAnimatedWebp(
+  frameFiles: Uint8Array[],
+  width: number,
+  height: number,
+  options: Pick<WebpOptions, 'delayMs' | 'loop'>,
+): Uint8Array {
+  if (frameFiles.length === 0) throw new Error('No frames to encode');
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // alpha + animation
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, options.loop ? 0 : 1, true); // background 0,0,0,0
+
+  const frames = frameFiles.map(file => {
+    const imageChunks = parseWebpChunks(file).filter(c => IMAGE_CHUNKS.has(c.fourcc));
+    if (imageChunks.length === 0) throw new Error('WebP frame has no image data');
+    const header = new Uint8Array(16);
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.round(options.delayMs));
+    header[15] = 0x02 | 0x01; // do not blend, dispose to background
+    return writeChunk('ANMF', concat([header, ...imageChunks.map(c => writeChunk(c.fourcc, c.data))]));
+  });
+
+  const body = concat([
+    new TextEncoder().encode('WEBP'),
+    writeChunk('VP8X', vp8x),
+    writeChunk('ANIM', anim),
+    ...frames,
+  ]);
+  const riff = new Uint8Array(8);
+  riff.set(new TextEncoder().encode('RIFF'));
+  new DataView(riff.buffer).setUint32(4, body.length, true);
+  return concat([riff, body]);
+}
+
+/** Encode frames (all the same size) as an animated WebP using the browser's encoder. */
+export async function encodeWebp(frames: ImageData[], options: WebpOptions): Promise<Uint8Array> {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const files: Uint8Array[] = [];
+  for (const frame of frames) {
+    ctx.putImageData(frame, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', options.quality ?? 1));
+    // Browsers without a WebP encoder silently fall back to PNG
+    if (!blob || blob.type !== 'image/webp') {
+      throw new Error('This browser cannot encode WebP images');
+    }
+    files.push(new Uint8Array(await blob.arrayBuffer()));
+  }
+  return assembleAnimatedWebp(files, width, height, options);
+}
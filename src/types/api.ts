@@ -15,6 +15,9 @@ export interface HistoryResponse {
   aspectRatio?: string;
   groupId?: string | null;
   contentPresetId?: string | null;
+  /** The prompt the grid was generated from */
+  prompt?: string;
+  request?: GenerationRequestRecord;
   content?: {
     name?: string;
     description?: string;
@@ -30,14 +33,58 @@ export interface HistoryResponse {
     mimeType: string;
     width?: number;
     height?: number;
+    seamFix?: SeamFixRecord | null;
   }>;
 }
 
+/** Seamless-tiling fix of a terrain tile, saved next to the original sprite (PNG) */
+export interface SeamFixRecord {
+  imageData: string;
+  method: 'offset-blend' | 'cross-fade';
+}
+
+/** How a saved generation was requested; fields are null where older entries did not record them */
+export interface GenerationRequestRecord {
+  model: string;
+  imageSize: '2K' | '4K' | null;
+  aspectRatio: string;
+  promptTemplateId: number | null;
+  promptTemplateVersion: number | null;
+  /** SHA-256 of the reference image sent with the grid */
+  referenceImageHash: string | null;
+  gridLinkId: number | null;
+  /** The content fields the prompt was built from */
+  content: Record<string, unknown> | null;
+}
+
 /** Response from POST /api/history */
 export interface HistorySaveResponse {
   id: number;
 }
 
+/** Lifecycle of a queued generation (see server/jobQueue.js) */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** A generation job from /api/jobs */
+export interface GenerationJob {
+  id: number;
+  status: JobStatus;
+  label: string;
+  model: string | null;
+  imageSize: string | null;
+  aspectRatio: string | null;
+  /** Jobs ahead of this one while queued, otherwise null */
+  position: number | null;
+  error: string | null;
+  /** HTTP status the provider failure maps to */
+  errorStatus: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Present on GET /api/jobs/:id; set once the job has succeeded */
+  result?: { text: string; image: { data: string; mimeType: string } | null } | null;
+}
+
 /** Response from GET /api/state/:key */
 export interface StateResponse {
   value: string | null;
@@ -72,6 +119,129 @@ export interface ContentPreset {
   styleNotes?: string;
 }
 
+/** A prompt template from /api/prompt-templates */
+export interface PromptTemplate {
+  id: number;
+  name: string;
+  spriteType: 'character' | 'building' | 'terrain' | 'background';
+  /** Prompt text with {{placeholder}} variables */
+  body: string;
+  version: number;
+  /** Whether its sprite type builds prompts from it */
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A past body of a prompt template, from GET /api/prompt-templates/:id/versions */
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: string;
+}
+
+/** A prompt experiment in the /api/experiments listing */
+export interface ExperimentSummary {
+  id: number;
+  name: string;
+  spriteType: 'character' | 'building' | 'terrain' | 'background';
+  contentName: string;
+  gridSize: string | null;
+  runsPerVariant: number;
+  variantCount: number;
+  resultCount: number;
+  createdAt: string;
+}
+
+/** Results of one prompt variant, aggregated on the server */
+export interface ExperimentVariantStats {
+  runs: number;
+  succeeded: number;
+  /** Runs whose grid was found by detection on both axes */
+  detected: number;
+  /** Succeeded runs that yielded every expected cell */
+  cellMatches: number;
+  /** Mean share (0-1) of cell borders that are clean chroma pink */
+  avgPurity: number | null;
+  avgRating: number | null;
+  rated: number;
+}
+
+export interface ExperimentVariant {
+  id: number;
+  label: string;
+  /** Null for the built-in prompt */
+  templateId: number | null;
+  templateVersion: number | null;
+  prompt: string;
+  summary: ExperimentVariantStats;
+}
+
+export interface ExperimentResult {
+  id: number;
+  variantId: number;
+  status: 'succeeded' | 'failed';
+  error: string | null;
+  extractionMode: string | null;
+  expectedCells: number;
+  extractedCells: number;
+  chromaPurity: number | null;
+  rating: number | null;
+  hasImage: boolean;
+  createdAt: string;
+}
+
+/** Full experiment from GET /api/experiments/:id */
+export interface Experiment extends Omit<ExperimentSummary, 'variantCount' | 'resultCount'> {
+  contentPresetId: string | null;
+  variants: ExperimentVariant[];
+  results: ExperimentResult[];
+}
+
+/** Aggregates shared by every usage breakdown; cost is an estimate in USD */
+export interface UsageTotals {
+  calls: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  images: number;
+  tokens: number;
+  avgLatencyMs: number;
+  cost: number;
+}
+
+/** GET /api/usage/summary */
+export interface UsageSummary {
+  days: number;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byPreset: Array<UsageTotals & { spriteType: string | null; contentPresetId: string | null; presetName: string | null }>;
+  budget: { monthlyBudget: number | null; spent: number };
+}
+
+/** One recorded provider call from GET /api/usage/calls */
+export interface ProviderCall {
+  id: number;
+  provider: string;
+  model: string;
+  imageSize: string | null;
+  aspectRatio: string | null;
+  spriteType: string | null;
+  contentPresetId: string | null;
+  status: 'succeeded' | 'failed' | 'cancelled';
+  httpStatus: number | null;
+  error: string | null;
+  latencyMs: number;
+  retries: number;
+  promptTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  imageCount: number;
+  cost: number;
+  createdAt: string;
+}
+
 /** A single entry in the gallery listing */
 export interface GalleryEntry {
   id: number;